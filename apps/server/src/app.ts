@@ -11,6 +11,7 @@ import {
   limitRequestSize,
 } from './middleware';
 import { slowDownMiddleware } from './utils/security';
+import { AUDIO_PUBLIC_PATH } from './services/tts';
 import routes from './routes';
 
 export async function createApp(): Promise<express.Express> {
@@ -47,6 +48,13 @@ export async function createApp(): Promise<express.Express> {
   app.use(slowDownMiddleware);
   app.use(requestLogger);
 
+  // Synthesized narration audio; every block gets a fresh id, so a file never
+  // changes once written and clients may cache it.
+  app.use(AUDIO_PUBLIC_PATH, express.static(config.TTS_AUDIO_DIR, {
+    fallthrough: false,
+    maxAge: '1d',
+  }));
+
   app.use('/api', routes);
 
   app.use(notFoundHandler);
@@ -5,7 +5,32 @@ const envSchema = z.object({
   PORT: z.coerce.number().int().positive().default(4000),
   MONGODB_URI: z.string().optional(),
   LLM_API_KEY: z.string().min(1).optional(),
+  LLM_PROVIDER: z.enum(['openai', 'anthropic', 'fixture']).optional(),
+  LLM_BASE_URL: z.string().url().optional(),
+  LLM_MODEL: z.string().min(1).optional(),
+  LLM_MAX_TOKENS: z.coerce.number().int().positive().default(2048),
+  LLM_TIMEOUT_MS: z.coerce.number().int().positive().default(60000),
+  LLM_FIXTURE_DIR: z.string().min(1).optional(),
+  LLM_RECORD_FIXTURES: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+  JOB_CONCURRENCY: z.coerce.number().int().positive().default(2),
+  JOB_MAX_ATTEMPTS: z.coerce.number().int().positive().default(3),
+  JOB_POLL_INTERVAL_MS: z.coerce.number().int().positive().default(1000),
+  JOB_STALE_AFTER_MS: z.coerce.number().int().positive().default(60000),
   TTS_API_KEY: z.string().min(1).optional(),
+  TTS_PROVIDER: z.enum(['http', 'local']).optional(),
+  TTS_BASE_URL: z.string().url().optional(),
+  TTS_VOICE: z.string().min(1).optional(),
+  TTS_MODEL: z.string().min(1).optional(),
+  TTS_TIMEOUT_MS: z.coerce.number().int().positive().default(30000),
+  TTS_STUB_MODE: z.enum(['tone', 'silent']).default('tone'),
+  TTS_AUDIO_DIR: z.string().min(1).default('./storage/audio'),
+  FFMPEG_PATH: z.string().min(1).default('ffmpeg'),
+  EXPORT_DIR: z.string().min(1).default('./storage/exports'),
+  EXPORT_FPS: z.coerce.number().int().positive().max(60).default(30),
+  EXPORT_TTL_MS: z.coerce.number().int().positive().default(86400000),
   CORS_ORIGIN: z.string().default('http://localhost:3000'),
   LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
   RATE_LIMIT_MAX: z.coerce.number().int().positive().default(100),
@@ -1 +1,3 @@
 export * as lessonController from './lesson';
+export * as meController from './me';
+export * as reviewController from './review';
@@ -1,13 +1,92 @@
 import type { Request, Response } from 'express';
 import type {
+  AnswerQuizResponse,
   ApiResponse,
+  AskFollowUpResponse,
+  CancelLessonResponse,
   CreateLessonResponse,
+  ImportLessonResponse,
+  Job,
   Lesson,
+  LessonAside,
+  LessonExportResponse,
+  RegenerateBlockResponse,
+  LessonRevision,
+  LessonRevisionInfo,
+  LessonStreamEvent,
+  PaginatedResponse,
+  RestoreRevisionResponse,
+  UpdateProgressResponse,
+  UpdateTimelineResponse,
 } from '@classflowai/types';
 import { sanitizeInput } from '@classflowai/utils';
 import { AppError } from '../middleware/error-handler';
-import { lessonService, generationService } from '../services';
-import type { CreateLessonBody, GenerateLessonBody, LessonIdParams } from '../schemas';
+import {
+  lessonService,
+  generationService,
+  jobService,
+  lessonEvents,
+  progressService,
+  exportService,
+  packageService,
+  timelineService,
+  revisionService,
+  asideService,
+  quizService,
+} from '../services';
+import type {
+  AnswerQuizBody,
+  AskFollowUpBody,
+  BlockParams,
+  CreateLessonBody,
+  ExportJobParams,
+  ExportLessonBody,
+  GenerateLessonBody,
+  LessonIdParams,
+  ListLessonsQuery,
+  QuizParams,
+  RegenerateBlockBody,
+  RevisionParams,
+  UpdateChaptersBody,
+  UpdateProgressBody,
+  UpdateTimelineBody,
+} from '../schemas';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ANONYMOUS_USER_ID = 'anonymous';
+
+/**
+ * Load a lesson the caller may access.  Lessons created anonymously are open
+ * to anyone holding the link; all others only to their owner.
+ */
+async function getAccessibleLesson(id: string, req: Request): Promise<Lesson> {
+  const lesson = await lessonService.getLessonById(id);
+  if (!lesson) {
+    throw new AppError('Lesson not found', 404, 'LESSON_NOT_FOUND');
+  }
+
+  if (lesson.userId !== ANONYMOUS_USER_ID && lesson.userId !== req.user?.userId) {
+    throw new AppError('You do not have access to this lesson', 403, 'LESSON_FORBIDDEN');
+  }
+
+  return lesson;
+}
+
+function toExportResponse(job: Job): LessonExportResponse {
+  const expiresAt = exportService.getExportExpiry(job);
+  return {
+    jobId: job.id,
+    lessonId: job.lessonId,
+    format: exportService.getExportFormat(job),
+    status: job.status,
+    downloadUrl: expiresAt && expiresAt > new Date() ? exportService.getExportUrl(job) : null,
+    expiresAt,
+    ...(job.status === 'failed' && job.lastError ? { error: job.lastError } : {}),
+  };
+}
 
 // ---------------------------------------------------------------------------
 // POST /lessons — Create a new lesson
@@ -20,7 +99,8 @@ export async function createLesson(
   const { question, options } = req.body;
   const sanitizedQuestion = sanitizeInput(question);
 
-  const lesson = await lessonService.createLesson(sanitizedQuestion, 'anonymous', options?.difficulty);
+  const userId = req.user?.userId ?? ANONYMOUS_USER_ID;
+  const lesson = await lessonService.createLesson(sanitizedQuestion, userId, options);
 
   const response: ApiResponse<CreateLessonResponse> = {
     success: true,
@@ -43,24 +123,29 @@ export async function generateLesson(
   req: Request<Record<string, string>, unknown, GenerateLessonBody>,
   res: Response,
 ): Promise<void> {
-  const { lessonId } = req.body;
+  const { lessonId, regenerate } = req.body;
 
-  const lesson = await lessonService.getLessonById(lessonId);
-  if (!lesson) {
-    throw new AppError('Lesson not found', 404, 'LESSON_NOT_FOUND');
+  const lesson = await getAccessibleLesson(lessonId, req);
+
+  if (lesson.status === 'ready' && !regenerate) {
+    throw new AppError('Lesson has already been generated', 409, 'ALREADY_GENERATED');
   }
 
-  if (lesson.status === 'generating') {
+  const jobQueue = jobService.getJobQueue();
+  if (lesson.status === 'generating' || await jobQueue.getActiveJob(lessonId, 'lesson_generation')) {
     throw new AppError('Lesson is already being generated', 409, 'GENERATION_IN_PROGRESS');
   }
 
   if (lesson.status === 'ready') {
-    throw new AppError('Lesson has already been generated', 409, 'ALREADY_GENERATED');
+    // The current content stays available as a revision, and comes back if
+    // the regeneration fails or is cancelled.
+    await revisionService.recordBaselineRevision(lesson);
+    await lessonService.updateLessonStatus(lessonId, 'pending');
+    lessonEvents.publishLessonEvent(lessonId, { type: 'status', status: 'pending' });
   }
 
-  generationService.generateLessonContent(lessonId).catch(() => {
-    // Generation runs in the background; errors are logged by the service.
-  });
+  // Generation runs on the job queue, which survives restarts and retries.
+  await jobQueue.enqueue('lesson_generation', lessonId);
 
   const response: ApiResponse<CreateLessonResponse> = {
     success: true,
@@ -75,6 +160,37 @@ export async function generateLesson(
   res.status(202).json(response);
 }
 
+// ---------------------------------------------------------------------------
+// POST /lessons/:id/cancel — Cancel lesson generation
+// ---------------------------------------------------------------------------
+
+export async function cancelLesson(
+  req: Request<LessonIdParams>,
+  res: Response,
+): Promise<void> {
+  const { id } = req.params;
+
+  await getAccessibleLesson(id, req);
+
+  const cancelled = await jobService.getJobQueue().cancel(id, 'lesson_generation');
+  if (!cancelled) {
+    throw new AppError('Lesson is not being generated', 409, 'NOT_GENERATING');
+  }
+
+  await generationService.resetCancelledLesson(id);
+
+  const response: ApiResponse<CancelLessonResponse> = {
+    success: true,
+    data: {
+      lessonId: id,
+      status: 'pending',
+    },
+    timestamp: Date.now(),
+  };
+
+  res.json(response);
+}
+
 // ---------------------------------------------------------------------------
 // GET /lessons/:id — Get lesson by ID
 // ---------------------------------------------------------------------------
@@ -85,10 +201,7 @@ export async function getLessonById(
 ): Promise<void> {
   const { id } = req.params;
 
-  const lesson = await lessonService.getLessonById(id);
-  if (!lesson) {
-    throw new AppError('Lesson not found', 404, 'LESSON_NOT_FOUND');
-  }
+  const lesson = await getAccessibleLesson(id, req);
 
   const response: ApiResponse<Lesson> = {
     success: true,
@@ -98,3 +211,595 @@ export async function getLessonById(
 
   res.json(response);
 }
+
+// ---------------------------------------------------------------------------
+// GET /lessons/:id/stream — Stream generation progress (Server-Sent Events)
+// ---------------------------------------------------------------------------
+
+const STREAM_HEARTBEAT_MS = 15_000;
+
+/**
+ * Stream a lesson as it is generated.
+ *
+ * The first event is a `snapshot` of the stored lesson; `block` events follow
+ * as generation produces them.  The stream ends after `complete` or `error`,
+ * or straight after the snapshot if the lesson is already finished.
+ */
+export async function streamLesson(
+  req: Request<LessonIdParams>,
+  res: Response,
+): Promise<void> {
+  const { id } = req.params;
+
+  // Subscribe before reading the snapshot so nothing published in between is
+  // lost; events queued meanwhile are replayed once the snapshot is out.
+  let pending: LessonStreamEvent[] | null = [];
+  let closed = false;
+
+  const close = (): void => {
+    if (closed) return;
+    closed = true;
+    unsubscribe();
+    clearInterval(heartbeat);
+    res.end();
+  };
+
+  const send = (event: LessonStreamEvent): void => {
+    if (closed) return;
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+    if (event.type === 'complete' || event.type === 'error') close();
+  };
+
+  const unsubscribe = lessonEvents.subscribeToLesson(id, (event) => {
+    if (pending) pending.push(event);
+    else send(event);
+  });
+
+  let lesson: Lesson;
+  try {
+    lesson = await getAccessibleLesson(id, req);
+  } catch (err) {
+    unsubscribe();
+    throw err;
+  }
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  req.on('close', close);
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), STREAM_HEARTBEAT_MS);
+
+  send({ type: 'snapshot', lesson });
+
+  const known = new Set(lesson.explanation.map((block) => block.id));
+  const queued = pending;
+  pending = null;
+  for (const event of queued) {
+    if (event.type === 'block' && known.has(event.block.id)) continue;
+    send(event);
+  }
+
+  if (lesson.status === 'ready') {
+    send({ type: 'complete', lesson });
+  } else if (lesson.status === 'error') {
+    send({ type: 'error', message: 'Lesson generation failed' });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// GET /lessons — List the caller's lessons
+// ---------------------------------------------------------------------------
+
+export async function listLessons(
+  req: Request,
+  res: Response,
+): Promise<void> {
+  // Already parsed and defaulted by the `validate` middleware.
+  const { status, cursor, limit } = req.query as unknown as ListLessonsQuery;
+
+  const decoded = cursor ? lessonService.decodeLessonCursor(cursor) : undefined;
+  if (decoded === null) {
+    throw new AppError('Invalid pagination cursor', 400, 'INVALID_CURSOR');
+  }
+
+  const page = await lessonService.listLessons(
+    { userId: req.user!.userId, status },
+    limit,
+    decoded,
+  );
+
+  const response: ApiResponse<PaginatedResponse<Lesson>> = {
+    success: true,
+    data: {
+      items: page.items,
+      total: page.total,
+      page: page.page,
+      pageSize: limit,
+      hasMore: page.nextCursor !== null,
+      nextCursor: page.nextCursor,
+    },
+    timestamp: Date.now(),
+  };
+
+  res.json(response);
+}
+
+// ---------------------------------------------------------------------------
+// PATCH /lessons/:id/timeline — Save timeline edits
+// ---------------------------------------------------------------------------
+
+export async function updateTimeline(
+  req: Request<LessonIdParams, unknown, UpdateTimelineBody>,
+  res: Response,
+): Promise<void> {
+  const { id } = req.params;
+
+  const lesson = await getAccessibleLesson(id, req);
+  if (lesson.userId !== req.user!.userId) {
+    throw new AppError('Only the owner can edit this lesson', 403, 'LESSON_FORBIDDEN');
+  }
+  if (lesson.status !== 'ready') {
+    throw new AppError('Only generated lessons can be edited', 409, 'LESSON_NOT_READY');
+  }
+
+  let result: timelineService.TimelineEditResult;
+  try {
+    result = await timelineService.editLessonTimeline(lesson, req.body, req.user!.userId);
+  } catch (err) {
+    if (err instanceof timelineService.TimelineEditError) {
+      throw new AppError(err.message, 422, 'INVALID_TIMELINE', err.details);
+    }
+    throw err;
+  }
+
+  const response: ApiResponse<UpdateTimelineResponse> = {
+    success: true,
+    data: result,
+    timestamp: Date.now(),
+  };
+
+  res.json(response);
+}
+
+// ---------------------------------------------------------------------------
+// PUT /lessons/:id/chapters — Replace the chapter graph
+// ---------------------------------------------------------------------------
+
+export async function updateChapters(
+  req: Request<LessonIdParams, unknown, UpdateChaptersBody>,
+  res: Response,
+): Promise<void> {
+  const { id } = req.params;
+
+  const lesson = await getAccessibleLesson(id, req);
+  if (lesson.userId !== req.user!.userId) {
+    throw new AppError('Only the owner can edit this lesson', 403, 'LESSON_FORBIDDEN');
+  }
+  if (lesson.status !== 'ready') {
+    throw new AppError('Only generated lessons can be edited', 409, 'LESSON_NOT_READY');
+  }
+
+  let updated: Lesson;
+  try {
+    updated = await timelineService.setLessonChapters(lesson, req.body.chapters);
+  } catch (err) {
+    if (err instanceof timelineService.ChapterGraphError) {
+      throw new AppError(err.message, 422, 'INVALID_CHAPTERS', err.details);
+    }
+    throw err;
+  }
+
+  const response: ApiResponse<Lesson> = {
+    success: true,
+    data: updated,
+    timestamp: Date.now(),
+  };
+
+  res.json(response);
+}
+
+// ---------------------------------------------------------------------------
+// GET /lessons/:id/revisions — List a lesson's revisions
+// ---------------------------------------------------------------------------
+
+export async function listRevisions(
+  req: Request<LessonIdParams>,
+  res: Response,
+): Promise<void> {
+  const { id } = req.params;
+
+  await getAccessibleLesson(id, req);
+  const revisions = await revisionService.listRevisions(id);
+
+  const response: ApiResponse<LessonRevisionInfo[]> = {
+    success: true,
+    data: revisions,
+    timestamp: Date.now(),
+  };
+
+  res.json(response);
+}
+
+// ---------------------------------------------------------------------------
+// GET /lessons/:id/revisions/:revision — Get one revision
+// ---------------------------------------------------------------------------
+
+export async function getRevision(
+  req: Request,
+  res: Response,
+): Promise<void> {
+  // Already parsed by the `validate` middleware.
+  const { id, revision: number } = req.params as unknown as RevisionParams;
+
+  await getAccessibleLesson(id, req);
+  const revision = await revisionService.getRevision(id, number);
+  if (!revision) {
+    throw new AppError('Revision not found', 404, 'REVISION_NOT_FOUND');
+  }
+
+  const response: ApiResponse<LessonRevision> = {
+    success: true,
+    data: revision,
+    timestamp: Date.now(),
+  };
+
+  res.json(response);
+}
+
+// ---------------------------------------------------------------------------
+// POST /lessons/:id/revisions/:revision/restore — Restore a revision
+// ---------------------------------------------------------------------------
+
+export async function restoreRevision(
+  req: Request,
+  res: Response,
+): Promise<void> {
+  // Already parsed by the `validate` middleware.
+  const { id, revision: number } = req.params as unknown as RevisionParams;
+
+  const lesson = await getAccessibleLesson(id, req);
+  if (lesson.userId !== req.user!.userId) {
+    throw new AppError('Only the owner can restore revisions', 403, 'LESSON_FORBIDDEN');
+  }
+  if (lesson.status !== 'ready') {
+    throw new AppError('Lesson is being generated', 409, 'LESSON_NOT_READY');
+  }
+
+  let restored: revisionService.RestoredRevision | null;
+  try {
+    restored = await revisionService.restoreRevision(lesson, number, req.user!.userId);
+  } catch (err) {
+    if (err instanceof revisionService.RevisionError) {
+      throw new AppError(err.message, 409, 'REVISION_CURRENT');
+    }
+    throw err;
+  }
+  if (!restored) {
+    throw new AppError('Revision not found', 404, 'REVISION_NOT_FOUND');
+  }
+
+  const response: ApiResponse<RestoreRevisionResponse> = {
+    success: true,
+    data: restored,
+    timestamp: Date.now(),
+  };
+
+  res.json(response);
+}
+
+// ---------------------------------------------------------------------------
+// POST /lessons/:id/blocks/:blockId/regenerate — Regenerate one block
+// ---------------------------------------------------------------------------
+
+export async function regenerateBlock(
+  req: Request<BlockParams, unknown, RegenerateBlockBody>,
+  res: Response,
+): Promise<void> {
+  const { id, blockId } = req.params;
+
+  const lesson = await getAccessibleLesson(id, req);
+  if (lesson.userId !== req.user!.userId) {
+    throw new AppError('Only the owner can edit this lesson', 403, 'LESSON_FORBIDDEN');
+  }
+  if (lesson.status !== 'ready') {
+    throw new AppError('Only generated lessons can be edited', 409, 'LESSON_NOT_READY');
+  }
+
+  let result: generationService.RegeneratedBlock | null;
+  try {
+    result = await generationService.regenerateBlock(lesson, blockId, {
+      authorId: req.user!.userId,
+      instructions: req.body.instructions || undefined,
+    });
+  } catch (err) {
+    if (err instanceof generationService.BlockRegenerationError) {
+      throw new AppError(err.message, 502, 'BLOCK_REGENERATION_FAILED');
+    }
+    if (err instanceof generationService.BlockLayoutConflictError) {
+      throw new AppError(err.message, 409, 'BLOCK_LAYOUT_CONFLICT');
+    }
+    throw err;
+  }
+  if (!result) {
+    throw new AppError('Block not found', 404, 'BLOCK_NOT_FOUND');
+  }
+
+  const response: ApiResponse<RegenerateBlockResponse> = {
+    success: true,
+    data: result,
+    timestamp: Date.now(),
+  };
+
+  res.json(response);
+}
+
+// ---------------------------------------------------------------------------
+// POST /lessons/:id/quiz/:quizId/answer — Answer a quiz
+// ---------------------------------------------------------------------------
+
+export async function answerQuiz(
+  req: Request<QuizParams, unknown, AnswerQuizBody>,
+  res: Response,
+): Promise<void> {
+  const { id, quizId } = req.params;
+
+  const lesson = await getAccessibleLesson(id, req);
+
+  let answered: AnswerQuizResponse | null;
+  try {
+    answered = await quizService.answerQuiz(
+      lesson,
+      quizId,
+      req.body.answer,
+      req.user?.userId ?? null,
+    );
+  } catch (err) {
+    if (err instanceof quizService.QuizAnswerError) {
+      throw new AppError(err.message, 422, 'INVALID_ANSWER');
+    }
+    throw err;
+  }
+  if (!answered) {
+    throw new AppError('Quiz not found', 404, 'QUIZ_NOT_FOUND');
+  }
+
+  const response: ApiResponse<AnswerQuizResponse> = {
+    success: true,
+    data: answered,
+    timestamp: Date.now(),
+  };
+
+  res.json(response);
+}
+
+// ---------------------------------------------------------------------------
+// POST /lessons/:id/asides — Ask a follow-up question
+// ---------------------------------------------------------------------------
+
+export async function askFollowUp(
+  req: Request<LessonIdParams, unknown, AskFollowUpBody>,
+  res: Response,
+): Promise<void> {
+  const { id } = req.params;
+
+  const lesson = await getAccessibleLesson(id, req);
+  if (lesson.status !== 'ready') {
+    throw new AppError('Questions can be asked once the lesson is ready', 409, 'LESSON_NOT_READY');
+  }
+
+  let aside: LessonAside;
+  try {
+    aside = await asideService.askFollowUp(lesson, req.user!.userId, {
+      ...req.body,
+      question: sanitizeInput(req.body.question),
+    });
+  } catch (err) {
+    if (err instanceof generationService.AsideGenerationError) {
+      throw new AppError(err.message, 502, 'ASIDE_GENERATION_FAILED');
+    }
+    throw err;
+  }
+
+  const response: ApiResponse<AskFollowUpResponse> = {
+    success: true,
+    data: aside,
+    timestamp: Date.now(),
+  };
+
+  res.status(201).json(response);
+}
+
+// ---------------------------------------------------------------------------
+// GET /lessons/:id/asides — List the caller's asides
+// ---------------------------------------------------------------------------
+
+export async function listAsides(
+  req: Request<LessonIdParams>,
+  res: Response,
+): Promise<void> {
+  const { id } = req.params;
+
+  await getAccessibleLesson(id, req);
+  const asides = await asideService.listAsides(id, req.user!.userId);
+
+  const response: ApiResponse<LessonAside[]> = {
+    success: true,
+    data: asides,
+    timestamp: Date.now(),
+  };
+
+  res.json(response);
+}
+
+// ---------------------------------------------------------------------------
+// GET /lessons/:id/package — Download a lesson package
+// ---------------------------------------------------------------------------
+
+export async function downloadLessonPackage(
+  req: Request<LessonIdParams>,
+  res: Response,
+): Promise<void> {
+  const { id } = req.params;
+
+  const lesson = await getAccessibleLesson(id, req);
+  if (lesson.status !== 'ready') {
+    throw new AppError('Only generated lessons can be packaged', 409, 'LESSON_NOT_READY');
+  }
+
+  const data = await packageService.createLessonPackage(lesson);
+
+  res.setHeader('Content-Type', packageService.LESSON_PACKAGE_MIME_TYPE);
+  res.attachment(packageService.getPackageFileName(lesson));
+  res.send(data);
+}
+
+// ---------------------------------------------------------------------------
+// POST /lessons/import — Import a lesson package
+// ---------------------------------------------------------------------------
+
+export async function importLesson(
+  req: Request,
+  res: Response,
+): Promise<void> {
+  // `express.raw` leaves the body unset for other content types.
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    throw new AppError(
+      `Upload the package as ${packageService.LESSON_PACKAGE_MIME_TYPE}`,
+      415,
+      'UNSUPPORTED_MEDIA_TYPE',
+    );
+  }
+
+  const userId = req.user?.userId ?? ANONYMOUS_USER_ID;
+
+  let imported: packageService.ImportedLesson;
+  try {
+    imported = await packageService.importLessonPackage(req.body, userId);
+  } catch (err) {
+    if (err instanceof packageService.LessonPackageError) {
+      throw new AppError(err.message, 400, 'INVALID_PACKAGE', err.details);
+    }
+    throw err;
+  }
+
+  const response: ApiResponse<ImportLessonResponse> = {
+    success: true,
+    data: imported,
+    timestamp: Date.now(),
+  };
+
+  res.status(201).json(response);
+}
+
+// ---------------------------------------------------------------------------
+// POST /lessons/:id/export — Export a lesson to video
+// ---------------------------------------------------------------------------
+
+export async function exportLesson(
+  req: Request<LessonIdParams, unknown, ExportLessonBody>,
+  res: Response,
+): Promise<void> {
+  const { id } = req.params;
+
+  const lesson = await getAccessibleLesson(id, req);
+  if (lesson.status !== 'ready') {
+    throw new AppError('Only generated lessons can be exported', 409, 'LESSON_NOT_READY');
+  }
+
+  const jobQueue = jobService.getJobQueue();
+  if (await jobQueue.getActiveJob(id, 'lesson_export')) {
+    throw new AppError('Lesson is already being exported', 409, 'EXPORT_IN_PROGRESS');
+  }
+
+  // Rendering takes about as long as the lesson plays, so it runs as a job.
+  const job = await jobQueue.enqueue('lesson_export', id, { format: req.body.format });
+
+  const response: ApiResponse<LessonExportResponse> = {
+    success: true,
+    data: toExportResponse(job),
+    timestamp: Date.now(),
+  };
+
+  res.status(202).json(response);
+}
+
+// ---------------------------------------------------------------------------
+// GET /lessons/:id/export/:jobId — Video export status
+// ---------------------------------------------------------------------------
+
+export async function getLessonExport(
+  req: Request<ExportJobParams>,
+  res: Response,
+): Promise<void> {
+  const { id, jobId } = req.params;
+
+  await getAccessibleLesson(id, req);
+
+  const job = await jobService.getJobQueue().getJob(jobId);
+  if (!job || job.lessonId !== id || job.type !== 'lesson_export') {
+    throw new AppError('Export not found', 404, 'EXPORT_NOT_FOUND');
+  }
+
+  const response: ApiResponse<LessonExportResponse> = {
+    success: true,
+    data: toExportResponse(job),
+    timestamp: Date.now(),
+  };
+
+  res.json(response);
+}
+
+// ---------------------------------------------------------------------------
+// GET /lessons/:id/export/:jobId/video — Download an exported video
+// ---------------------------------------------------------------------------
+
+export async function downloadLessonExport(
+  req: Request<ExportJobParams>,
+  res: Response,
+): Promise<void> {
+  const { id, jobId } = req.params;
+
+  await getAccessibleLesson(id, req);
+
+  const job = await jobService.getJobQueue().getJob(jobId);
+  if (!job || job.lessonId !== id || job.type !== 'lesson_export') {
+    throw new AppError('Export not found', 404, 'EXPORT_NOT_FOUND');
+  }
+  if (job.status !== 'completed') {
+    throw new AppError('Export has not completed', 409, 'EXPORT_NOT_READY');
+  }
+
+  const file = await exportService.getExportFile(job);
+  if (!file) {
+    throw new AppError('Exported video has expired', 410, 'EXPORT_EXPIRED');
+  }
+
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.download(file, exportService.getExportFileName(job));
+}
+
+// ---------------------------------------------------------------------------
+// PUT /lessons/:id/progress — Report playback progress
+// ---------------------------------------------------------------------------
+
+export async function updateProgress(
+  req: Request<LessonIdParams, unknown, UpdateProgressBody>,
+  res: Response,
+): Promise<void> {
+  const { id } = req.params;
+
+  const lesson = await getAccessibleLesson(id, req);
+  const result = await progressService.recordProgress(req.user!.userId, lesson, req.body);
+
+  const response: ApiResponse<UpdateProgressResponse> = {
+    success: true,
+    data: result,
+    timestamp: Date.now(),
+  };
+
+  res.json(response);
+}
@@ -0,0 +1,48 @@
+import type { Request, Response } from 'express';
+import type { ApiResponse, Flashcard, LessonProgress } from '@classflowai/types';
+import { progressService, reviewService } from '../services';
+import type { ListDueReviewsQuery, ListProgressQuery } from '../schemas';
+
+// ---------------------------------------------------------------------------
+// GET /me/progress — List the caller's progress
+// ---------------------------------------------------------------------------
+
+export async function listProgress(
+  req: Request,
+  res: Response,
+): Promise<void> {
+  // Already parsed and defaulted by the `validate` middleware.
+  const { lessonId, limit } = req.query as unknown as ListProgressQuery;
+
+  const progress = await progressService.listProgress(req.user!.userId, { lessonId, limit });
+
+  const response: ApiResponse<LessonProgress[]> = {
+    success: true,
+    data: progress,
+    timestamp: Date.now(),
+  };
+
+  res.json(response);
+}
+
+// ---------------------------------------------------------------------------
+// GET /me/reviews/due — List the caller's flashcards due for review
+// ---------------------------------------------------------------------------
+
+export async function listDueReviews(
+  req: Request,
+  res: Response,
+): Promise<void> {
+  // Already parsed and defaulted by the `validate` middleware.
+  const { limit } = req.query as unknown as ListDueReviewsQuery;
+
+  const cards = await reviewService.listDueFlashcards(req.user!.userId, { limit });
+
+  const response: ApiResponse<Flashcard[]> = {
+    success: true,
+    data: cards,
+    timestamp: Date.now(),
+  };
+
+  res.json(response);
+}
@@ -0,0 +1,30 @@
+import type { Request, Response } from 'express';
+import type { ApiResponse, GradeReviewResponse, ReviewGrade } from '@classflowai/types';
+import { AppError } from '../middleware/error-handler';
+import { reviewService } from '../services';
+import type { GradeReviewBody, ReviewIdParams } from '../schemas';
+
+// ---------------------------------------------------------------------------
+// POST /reviews/:id/grade — Grade a flashcard review
+// ---------------------------------------------------------------------------
+
+export async function gradeReview(
+  req: Request<ReviewIdParams, unknown, GradeReviewBody>,
+  res: Response,
+): Promise<void> {
+  // Range checked by the `validate` middleware.
+  const grade = req.body.grade as ReviewGrade;
+
+  const card = await reviewService.gradeFlashcard(req.user!.userId, req.params.id, grade);
+  if (!card) {
+    throw new AppError('Flashcard not found', 404, 'FLASHCARD_NOT_FOUND');
+  }
+
+  const response: ApiResponse<GradeReviewResponse> = {
+    success: true,
+    data: card,
+    timestamp: Date.now(),
+  };
+
+  res.json(response);
+}
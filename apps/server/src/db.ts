@@ -48,3 +48,10 @@ export async function connectToDatabase(): Promise<typeof mongoose> {
 export function getDbConnection(): typeof mongoose {
   return mongoose;
 }
+
+/**
+ * Whether the Mongoose connection is currently open.
+ */
+export function isDatabaseConnected(): boolean {
+  return mongoose.connection.readyState === mongoose.ConnectionStates.connected;
+}
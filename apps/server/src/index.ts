@@ -1,11 +1,16 @@
 import { logger } from '@classflowai/utils';
 import { getConfig } from './config';
 import { createApp } from './app';
+import { exportService, jobService } from './services';
 
 async function bootstrap(): Promise<void> {
   const config = getConfig();
   const app = await createApp();
 
+  const jobQueue = jobService.getJobQueue();
+  await jobQueue.start();
+  exportService.startExportCleanup();
+
   const server = app.listen(config.PORT, () => {
     logger.info('ClassFlowAI server started', {
       port: config.PORT,
@@ -16,9 +21,14 @@ async function bootstrap(): Promise<void> {
 
   const shutdown = (signal: string) => {
     logger.info(`${signal} received — shutting down gracefully`);
-    server.close(() => {
-      logger.info('Server closed');
-      process.exit(0);
+    // Hand running jobs back to the queue first so another instance (or the
+    // next boot) picks them up instead of waiting for their locks to go stale.
+    exportService.stopExportCleanup();
+    jobQueue.stop().finally(() => {
+      server.close(() => {
+        logger.info('Server closed');
+        process.exit(0);
+      });
     });
 
     setTimeout(() => {
@@ -37,11 +37,22 @@ export function authMiddleware(req: Request, _res: Response, next: NextFunction)
   next();
 }
 
+/**
+ * Attach `req.user` when a valid token is present, but let anonymous
+ * requests through.
+ *
+ * Besides the `Authorization` header, an `access_token` query parameter is
+ * accepted because `EventSource` cannot send custom headers.
+ */
 export function optionalAuthMiddleware(req: Request, _res: Response, next: NextFunction): void {
   const authHeader = req.headers.authorization;
+  const queryToken = typeof req.query.access_token === 'string' ? req.query.access_token : undefined;
 
-  if (authHeader && authHeader.startsWith('Bearer ')) {
-    const token = authHeader.substring(7);
+  const token = authHeader && authHeader.startsWith('Bearer ')
+    ? authHeader.substring(7)
+    : queryToken;
+
+  if (token) {
     const payload = verifyToken(token);
 
     if (payload) {
@@ -7,10 +7,12 @@ export function requestLogger(req: Request, res: Response, next: NextFunction):
   res.on('finish', () => {
     const duration = Date.now() - start;
     const level = res.statusCode >= 400 ? 'warn' : 'info';
+    // Event streams authenticate via the query string; keep tokens out of logs.
+    const url = req.originalUrl.replace(/([?&]access_token=)[^&]*/, '$1[redacted]');
 
-    logger[level](`${req.method} ${req.originalUrl}`, {
+    logger[level](`${req.method} ${url}`, {
       method: req.method,
-      url: req.originalUrl,
+      url,
       statusCode: res.statusCode,
       duration: `${duration}ms`,
       ip: req.ip,
@@ -76,16 +76,30 @@ export function sanitizeInput(req: Request, _res: Response, next: NextFunction):
     req.body = sanitizeObject(req.body);
   }
   if (req.query && typeof req.query === 'object') {
-    req.query = sanitizeObject(req.query) as Record<string, string>;
+    // Express 5 exposes `req.query` as a getter, so shadow it with an own
+    // property instead of assigning (which would throw).
+    Object.defineProperty(req, 'query', {
+      value: sanitizeObject(req.query),
+      writable: true,
+      configurable: true,
+      enumerable: true,
+    });
   }
 
   next();
 }
 
 /**
- * Request size limit middleware
+ * Request size limit middleware.  Only bodies read by the global JSON and
+ * form parsers are limited here; routes accepting uploads parse and limit
+ * their own bodies.
  */
 export function limitRequestSize(req: Request, res: Response, next: NextFunction): void {
+  if (!req.is(['json', 'urlencoded'])) {
+    next();
+    return;
+  }
+
   const contentLength = parseInt(req.headers['content-length'] || '0', 10);
   const maxSize = 100 * 1024; // 100KB for general requests
 
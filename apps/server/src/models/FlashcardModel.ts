@@ -0,0 +1,79 @@
+import mongoose, { Schema } from 'mongoose';
+import type { Document, Model } from 'mongoose';
+import type { FlashcardSource } from '@classflowai/types';
+
+// ---------------------------------------------------------------------------
+// TypeScript Interfaces
+// ---------------------------------------------------------------------------
+
+export interface IFlashcard extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: string;
+  lessonId: string;
+  lessonQuestion: string;
+  source: FlashcardSource;
+  front: string;
+  back: string;
+  easeFactor: number;
+  interval: number;
+  repetitions: number;
+  dueAt: Date;
+  lastReviewedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IFlashcardLean {
+  _id: mongoose.Types.ObjectId;
+  userId: string;
+  lessonId: string;
+  lessonQuestion: string;
+  source: FlashcardSource;
+  front: string;
+  back: string;
+  easeFactor: number;
+  interval: number;
+  repetitions: number;
+  dueAt: Date;
+  lastReviewedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ---------------------------------------------------------------------------
+// Main Schema
+// ---------------------------------------------------------------------------
+
+const FlashcardSchema = new Schema<IFlashcard>(
+  {
+    userId: { type: String, required: true },
+    lessonId: { type: String, required: true },
+    lessonQuestion: { type: String, required: true },
+    source: { type: String, enum: ['term', 'heading', 'summary'], required: true },
+    front: { type: String, required: true },
+    back: { type: String, required: true },
+    easeFactor: { type: Number, required: true, min: 1.3 },
+    interval: { type: Number, required: true, min: 0 },
+    repetitions: { type: Number, required: true, min: 0 },
+    dueAt: { type: Date, required: true },
+    lastReviewedAt: { type: Date, default: null },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ---------------------------------------------------------------------------
+// Indexes
+// ---------------------------------------------------------------------------
+
+// One card per front and lesson for each learner, so cards are never doubled.
+FlashcardSchema.index({ userId: 1, lessonId: 1, front: 1 }, { unique: true });
+FlashcardSchema.index({ userId: 1, dueAt: 1 });
+
+// ---------------------------------------------------------------------------
+// Model
+// ---------------------------------------------------------------------------
+
+export const FlashcardModel: Model<IFlashcard> =
+  mongoose.models.Flashcard || mongoose.model<IFlashcard>('Flashcard', FlashcardSchema);
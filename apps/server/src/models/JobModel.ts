@@ -0,0 +1,78 @@
+import mongoose, { Schema } from 'mongoose';
+import type { Document, Model } from 'mongoose';
+import type { JobParams, JobStatus, JobType } from '@classflowai/types';
+
+// ---------------------------------------------------------------------------
+// TypeScript Interfaces
+// ---------------------------------------------------------------------------
+
+export interface IJob extends Document {
+  _id: mongoose.Types.ObjectId;
+  type: JobType;
+  lessonId: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  params?: JobParams;
+  lockedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IJobLean {
+  _id: mongoose.Types.ObjectId;
+  type: JobType;
+  lessonId: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  params?: JobParams;
+  lockedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ---------------------------------------------------------------------------
+// Main Schema
+// ---------------------------------------------------------------------------
+
+const JobSchema = new Schema<IJob>(
+  {
+    type: { type: String, enum: ['lesson_generation', 'lesson_export'], required: true },
+    lessonId: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'completed', 'failed', 'cancelled'],
+      default: 'queued',
+    },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, required: true },
+    lastError: { type: String },
+    params: {
+      format: { type: String, enum: ['mp4', 'webm'] },
+    },
+    lockedAt: { type: Date },
+    completedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ---------------------------------------------------------------------------
+// Indexes
+// ---------------------------------------------------------------------------
+
+JobSchema.index({ status: 1, createdAt: 1 });
+JobSchema.index({ lessonId: 1, status: 1 });
+JobSchema.index({ status: 1, lockedAt: 1 });
+
+// ---------------------------------------------------------------------------
+// Model
+// ---------------------------------------------------------------------------
+
+export const JobModel: Model<IJob> = mongoose.models.Job || mongoose.model<IJob>('Job', JobSchema);
@@ -0,0 +1,65 @@
+import mongoose, { Schema } from 'mongoose';
+import type { Document, Model } from 'mongoose';
+import type { ExplanationBlock, TimelineEvent } from '@classflowai/types';
+import { ExplanationBlockSchema, TimelineEventSchema } from './LessonModel';
+
+// ---------------------------------------------------------------------------
+// TypeScript Interfaces
+// ---------------------------------------------------------------------------
+
+export interface ILessonAside extends Document {
+  _id: mongoose.Types.ObjectId;
+  lessonId: string;
+  userId: string;
+  question: string;
+  timestamp: number;
+  blockId?: string;
+  explanation: ExplanationBlock[];
+  timeline: TimelineEvent[];
+  createdAt: Date;
+}
+
+export interface ILessonAsideLean {
+  _id: mongoose.Types.ObjectId;
+  lessonId: string;
+  userId: string;
+  question: string;
+  timestamp: number;
+  blockId?: string;
+  explanation: ExplanationBlock[];
+  timeline: TimelineEvent[];
+  createdAt: Date;
+}
+
+// ---------------------------------------------------------------------------
+// Main Schema
+// ---------------------------------------------------------------------------
+
+// Asides are never edited, so only a creation timestamp is kept.
+const LessonAsideSchema = new Schema<ILessonAside>(
+  {
+    lessonId: { type: String, required: true },
+    userId: { type: String, required: true },
+    question: { type: String, required: true, maxlength: 500 },
+    timestamp: { type: Number, required: true, min: 0 },
+    blockId: { type: String },
+    explanation: { type: [ExplanationBlockSchema], default: [] },
+    timeline: { type: [TimelineEventSchema], default: [] },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  },
+);
+
+// ---------------------------------------------------------------------------
+// Indexes
+// ---------------------------------------------------------------------------
+
+LessonAsideSchema.index({ lessonId: 1, userId: 1, timestamp: 1 });
+
+// ---------------------------------------------------------------------------
+// Model
+// ---------------------------------------------------------------------------
+
+export const LessonAsideModel: Model<ILessonAside> =
+  mongoose.models.LessonAside || mongoose.model<ILessonAside>('LessonAside', LessonAsideSchema);
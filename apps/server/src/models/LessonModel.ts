@@ -1,10 +1,26 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
-import type { LessonStatus, ExplanationBlock, TimelineEvent, LessonMetadata } from '@classflowai/types';
+import type {
+  LessonStatus,
+  ExplanationBlock,
+  TimelineEvent,
+  LessonMetadata,
+  ChapterGraph,
+  LessonQuiz,
+} from '@classflowai/types';
 
 // ---------------------------------------------------------------------------
 // TypeScript Interfaces
 // ---------------------------------------------------------------------------
 
+/** A quiz as stored, with the answer key clients never see. */
+export interface ILessonQuiz extends LessonQuiz {
+  /** Index of the right option of a `multiple_choice` quiz. */
+  correctChoice?: number;
+  /** Ways of writing the answer to a `short_answer` quiz. */
+  acceptedAnswers?: string[];
+  explanation?: string;
+}
+
 export interface ILesson extends Document {
   _id: mongoose.Types.ObjectId;
   userId: string;
@@ -13,6 +29,8 @@ export interface ILesson extends Document {
   timeline: TimelineEvent[];
   status: LessonStatus;
   metadata: LessonMetadata;
+  chapters?: ChapterGraph;
+  quizzes: ILessonQuiz[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -25,6 +43,8 @@ export interface ILessonLean {
   timeline: TimelineEvent[];
   status: LessonStatus;
   metadata: LessonMetadata;
+  chapters?: ChapterGraph;
+  quizzes?: ILessonQuiz[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -33,23 +53,34 @@ export interface ILessonLean {
 // Subdocument Schemas
 // ---------------------------------------------------------------------------
 
-const ExplanationBlockSchema = new Schema<ExplanationBlock>(
+export const ExplanationBlockSchema = new Schema<ExplanationBlock>(
   {
     id: { type: String, required: true },
     type: { type: String, enum: ['text', 'code', 'diagram', 'equation'], required: true },
     content: { type: String, required: true },
     order: { type: Number, required: true },
     duration: { type: Number, required: true },
+    format: { type: String, enum: ['heading', 'paragraph', 'list'] },
+    language: { type: String },
   },
   { _id: false },
 );
 
-const TimelineEventSchema = new Schema<TimelineEvent>(
+export const TimelineEventSchema = new Schema<TimelineEvent>(
   {
     id: { type: String, required: true },
     type: {
       type: String,
-      enum: ['cursor_move', 'draw_stroke', 'text_highlight', 'narration_segment', 'pause'],
+      enum: [
+        'cursor_move',
+        'draw_stroke',
+        'text_highlight',
+        'narration_segment',
+        'code_focus',
+        'page_clear',
+        'pause',
+        'quiz_checkpoint',
+      ],
       required: true,
     },
     startTime: { type: Number, required: true },
@@ -59,16 +90,57 @@ const TimelineEventSchema = new Schema<TimelineEvent>(
   { _id: false },
 );
 
-const LessonMetadataSchema = new Schema<LessonMetadata>(
+export const LessonMetadataSchema = new Schema<LessonMetadata>(
   {
     subject: { type: String },
     difficulty: { type: String, enum: ['beginner', 'intermediate', 'advanced'] },
+    language: { type: String },
+    maxDuration: { type: Number },
     estimatedDuration: { type: Number, required: true },
     generationTime: { type: Number, required: true },
   },
   { _id: false },
 );
 
+// Edge conditions are a tagged union, checked by the request schema.
+const ChapterGraphSchema = new Schema<ChapterGraph>(
+  {
+    start: { type: String, required: true },
+    chapters: [
+      {
+        _id: false,
+        id: { type: String, required: true },
+        title: { type: String, required: true },
+        startTime: { type: Number, required: true },
+        endTime: { type: Number, required: true },
+      },
+    ],
+    edges: [
+      {
+        _id: false,
+        from: { type: String, required: true },
+        to: { type: String, required: true },
+        condition: { type: Schema.Types.Mixed, required: true },
+      },
+    ],
+  },
+  { _id: false },
+);
+
+export const LessonQuizSchema = new Schema<ILessonQuiz>(
+  {
+    id: { type: String, required: true },
+    type: { type: String, enum: ['multiple_choice', 'short_answer'], required: true },
+    sectionId: { type: String, required: true },
+    question: { type: String, required: true },
+    choices: { type: [String], default: undefined },
+    correctChoice: { type: Number },
+    acceptedAnswers: { type: [String], default: undefined },
+    explanation: { type: String },
+  },
+  { _id: false },
+);
+
 // ---------------------------------------------------------------------------
 // Main Schema
 // ---------------------------------------------------------------------------
@@ -85,6 +157,8 @@ const LessonSchema = new Schema<ILesson>(
       default: 'pending',
     },
     metadata: { type: LessonMetadataSchema, required: true },
+    chapters: { type: ChapterGraphSchema },
+    quizzes: { type: [LessonQuizSchema], default: [] },
   },
   {
     timestamps: true,
@@ -96,6 +170,7 @@ const LessonSchema = new Schema<ILesson>(
 // ---------------------------------------------------------------------------
 
 LessonSchema.index({ userId: 1, status: 1, createdAt: -1 });
+LessonSchema.index({ userId: 1, createdAt: -1, _id: -1 });
 
 // ---------------------------------------------------------------------------
 // Model
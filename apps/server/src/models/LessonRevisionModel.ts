@@ -0,0 +1,110 @@
+import mongoose, { Schema } from 'mongoose';
+import type { Document, Model } from 'mongoose';
+import type {
+  ExplanationBlock,
+  LessonDiffSummary,
+  LessonMetadata,
+  LessonRevisionReason,
+  TimelineEvent,
+} from '@classflowai/types';
+import {
+  ExplanationBlockSchema,
+  LessonMetadataSchema,
+  LessonQuizSchema,
+  TimelineEventSchema,
+} from './LessonModel';
+import type { ILessonQuiz } from './LessonModel';
+
+// ---------------------------------------------------------------------------
+// TypeScript Interfaces
+// ---------------------------------------------------------------------------
+
+export interface ILessonRevision extends Document {
+  _id: mongoose.Types.ObjectId;
+  lessonId: string;
+  number: number;
+  authorId: string;
+  reason: LessonRevisionReason;
+  restoredFrom?: number;
+  summary: LessonDiffSummary;
+  explanation: ExplanationBlock[];
+  timeline: TimelineEvent[];
+  metadata: LessonMetadata;
+  quizzes: ILessonQuiz[];
+  createdAt: Date;
+}
+
+export interface ILessonRevisionLean {
+  _id: mongoose.Types.ObjectId;
+  lessonId: string;
+  number: number;
+  authorId: string;
+  reason: LessonRevisionReason;
+  restoredFrom?: number;
+  summary: LessonDiffSummary;
+  explanation: ExplanationBlock[];
+  timeline: TimelineEvent[];
+  metadata: LessonMetadata;
+  /** Missing on revisions recorded before quizzes were kept with them. */
+  quizzes?: ILessonQuiz[];
+  createdAt: Date;
+}
+
+// ---------------------------------------------------------------------------
+// Subdocument Schemas
+// ---------------------------------------------------------------------------
+
+const LessonDiffSummarySchema = new Schema<LessonDiffSummary>(
+  {
+    blocksAdded: { type: Number, required: true },
+    blocksRemoved: { type: Number, required: true },
+    blocksChanged: { type: Number, required: true },
+    eventsAdded: { type: Number, required: true },
+    eventsRemoved: { type: Number, required: true },
+    eventsRetimed: { type: Number, required: true },
+    durationDelta: { type: Number, required: true },
+  },
+  { _id: false },
+);
+
+// ---------------------------------------------------------------------------
+// Main Schema
+// ---------------------------------------------------------------------------
+
+// Revisions are immutable, so only a creation timestamp is kept.
+const LessonRevisionSchema = new Schema<ILessonRevision>(
+  {
+    lessonId: { type: String, required: true },
+    number: { type: Number, required: true, min: 1 },
+    authorId: { type: String, required: true },
+    reason: {
+      type: String,
+      enum: ['generation', 'timeline_edit', 'block_regeneration', 'import', 'restore'],
+      required: true,
+    },
+    restoredFrom: { type: Number },
+    summary: { type: LessonDiffSummarySchema, required: true },
+    explanation: { type: [ExplanationBlockSchema], default: [] },
+    timeline: { type: [TimelineEventSchema], default: [] },
+    metadata: { type: LessonMetadataSchema, required: true },
+    // With answer keys, so restoring a revision brings its quizzes back.
+    quizzes: { type: [LessonQuizSchema], default: [] },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  },
+);
+
+// ---------------------------------------------------------------------------
+// Indexes
+// ---------------------------------------------------------------------------
+
+LessonRevisionSchema.index({ lessonId: 1, number: -1 }, { unique: true });
+
+// ---------------------------------------------------------------------------
+// Model
+// ---------------------------------------------------------------------------
+
+export const LessonRevisionModel: Model<ILessonRevision> =
+  mongoose.models.LessonRevision ||
+  mongoose.model<ILessonRevision>('LessonRevision', LessonRevisionSchema);
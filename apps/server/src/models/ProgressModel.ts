@@ -0,0 +1,84 @@
+import mongoose, { Schema } from 'mongoose';
+import type { Document, Model } from 'mongoose';
+import type { QuizResult } from '@classflowai/types';
+
+// ---------------------------------------------------------------------------
+// TypeScript Interfaces
+// ---------------------------------------------------------------------------
+
+export interface IProgress extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: string;
+  lessonId: string;
+  watchedDuration: number;
+  totalDuration: number;
+  completionPercentage: number;
+  lastPosition: number;
+  completedAt: Date | null;
+  quizResults: QuizResult[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IProgressLean {
+  _id: mongoose.Types.ObjectId;
+  userId: string;
+  lessonId: string;
+  watchedDuration: number;
+  totalDuration: number;
+  completionPercentage: number;
+  lastPosition: number;
+  completedAt: Date | null;
+  /** Missing on progress recorded before quizzes existed. */
+  quizResults?: QuizResult[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ---------------------------------------------------------------------------
+// Subdocument Schemas
+// ---------------------------------------------------------------------------
+
+const QuizResultSchema = new Schema<QuizResult>(
+  {
+    quizId: { type: String, required: true },
+    correct: { type: Boolean, required: true },
+    attempts: { type: Number, default: 1, min: 1 },
+    answeredAt: { type: Date, required: true },
+  },
+  { _id: false },
+);
+
+// ---------------------------------------------------------------------------
+// Main Schema
+// ---------------------------------------------------------------------------
+
+const ProgressSchema = new Schema<IProgress>(
+  {
+    userId: { type: String, required: true },
+    lessonId: { type: String, required: true },
+    watchedDuration: { type: Number, default: 0 },
+    totalDuration: { type: Number, default: 0 },
+    completionPercentage: { type: Number, default: 0, min: 0, max: 100 },
+    lastPosition: { type: Number, default: 0 },
+    completedAt: { type: Date, default: null },
+    quizResults: { type: [QuizResultSchema], default: [] },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ---------------------------------------------------------------------------
+// Indexes
+// ---------------------------------------------------------------------------
+
+ProgressSchema.index({ userId: 1, lessonId: 1 }, { unique: true });
+ProgressSchema.index({ userId: 1, updatedAt: -1 });
+
+// ---------------------------------------------------------------------------
+// Model
+// ---------------------------------------------------------------------------
+
+export const ProgressModel: Model<IProgress> =
+  mongoose.models.Progress || mongoose.model<IProgress>('Progress', ProgressSchema);
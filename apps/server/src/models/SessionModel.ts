@@ -0,0 +1,55 @@
+import mongoose, { Schema } from 'mongoose';
+import type { Document, Model } from 'mongoose';
+
+// ---------------------------------------------------------------------------
+// TypeScript Interfaces
+// ---------------------------------------------------------------------------
+
+export interface ISession extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: string;
+  lessonId: string;
+  progress: number;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ISessionLean {
+  _id: mongoose.Types.ObjectId;
+  userId: string;
+  lessonId: string;
+  progress: number;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ---------------------------------------------------------------------------
+// Main Schema
+// ---------------------------------------------------------------------------
+
+const SessionSchema = new Schema<ISession>(
+  {
+    userId: { type: String, required: true },
+    lessonId: { type: String, required: true },
+    progress: { type: Number, default: 0, min: 0, max: 100 },
+    completedAt: { type: Date, default: null },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ---------------------------------------------------------------------------
+// Indexes
+// ---------------------------------------------------------------------------
+
+SessionSchema.index({ userId: 1, lessonId: 1 });
+
+// ---------------------------------------------------------------------------
+// Model
+// ---------------------------------------------------------------------------
+
+export const SessionModel: Model<ISession> =
+  mongoose.models.Session || mongoose.model<ISession>('Session', SessionSchema);
@@ -0,0 +1,68 @@
+import mongoose, { Schema } from 'mongoose';
+import type { Document, Model } from 'mongoose';
+import type { UserPreferences } from '@classflowai/types';
+
+// ---------------------------------------------------------------------------
+// TypeScript Interfaces
+// ---------------------------------------------------------------------------
+
+export interface IUser extends Document {
+  _id: mongoose.Types.ObjectId;
+  email: string;
+  name: string;
+  passwordHash: string;
+  preferences: UserPreferences;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IUserLean {
+  _id: mongoose.Types.ObjectId;
+  email: string;
+  name: string;
+  passwordHash: string;
+  preferences: UserPreferences;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ---------------------------------------------------------------------------
+// Subdocument Schemas
+// ---------------------------------------------------------------------------
+
+const UserPreferencesSchema = new Schema<UserPreferences>(
+  {
+    theme: { type: String, enum: ['light', 'dark', 'system'], default: 'system' },
+    playbackSpeed: { type: Number, default: 1 },
+    autoPlay: { type: Boolean, default: false },
+  },
+  { _id: false },
+);
+
+// ---------------------------------------------------------------------------
+// Main Schema
+// ---------------------------------------------------------------------------
+
+const UserSchema = new Schema<IUser>(
+  {
+    email: { type: String, required: true, trim: true, lowercase: true },
+    name: { type: String, required: true, trim: true },
+    passwordHash: { type: String, required: true },
+    preferences: { type: UserPreferencesSchema, default: () => ({}) },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ---------------------------------------------------------------------------
+// Indexes
+// ---------------------------------------------------------------------------
+
+UserSchema.index({ email: 1 }, { unique: true });
+
+// ---------------------------------------------------------------------------
+// Model
+// ---------------------------------------------------------------------------
+
+export const UserModel: Model<IUser> = mongoose.models.User || mongoose.model<IUser>('User', UserSchema);
@@ -1,2 +1,16 @@
 export { LessonModel } from './LessonModel';
 export type { ILesson, ILessonLean } from './LessonModel';
+export { JobModel } from './JobModel';
+export type { IJob, IJobLean } from './JobModel';
+export { UserModel } from './UserModel';
+export type { IUser, IUserLean } from './UserModel';
+export { ProgressModel } from './ProgressModel';
+export type { IProgress, IProgressLean } from './ProgressModel';
+export { SessionModel } from './SessionModel';
+export type { ISession, ISessionLean } from './SessionModel';
+export { LessonRevisionModel } from './LessonRevisionModel';
+export type { ILessonRevision, ILessonRevisionLean } from './LessonRevisionModel';
+export { LessonAsideModel } from './LessonAsideModel';
+export type { ILessonAside, ILessonAsideLean } from './LessonAsideModel';
+export { FlashcardModel } from './FlashcardModel';
+export type { IFlashcard, IFlashcardLean } from './FlashcardModel';
@@ -37,7 +37,14 @@ router.post(
         throw new AppError('Email already registered', 409, 'EMAIL_EXISTS');
       }
 
-      const user = await userService.createUser(email, password, name);
+      // The pre-check above can race a concurrent registration; the unique
+      // email index is the real guard.
+      const user = await userService.createUser(email, password, name).catch((err: unknown) => {
+        if (err instanceof userService.DuplicateEmailError) {
+          throw new AppError('Email already registered', 409, 'EMAIL_EXISTS');
+        }
+        throw err;
+      });
 
       res.status(201).json({
         success: true,
@@ -2,11 +2,15 @@ import { Router } from 'express';
 import healthRouter from './health';
 import lessonRouter from './lesson';
 import authRouter from './auth';
+import meRouter from './me';
+import reviewRouter from './review';
 
 const router = Router();
 
 router.use('/health', healthRouter);
 router.use('/auth', authRouter);
 router.use('/lessons', lessonRouter);
+router.use('/me', meRouter);
+router.use('/reviews', reviewRouter);
 
 export default router;
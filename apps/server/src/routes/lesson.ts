@@ -1,12 +1,40 @@
-import { Router } from 'express';
-import { validate, optionalAuthMiddleware } from '../middleware';
+import express, { Router } from 'express';
+import { validate, authMiddleware, optionalAuthMiddleware } from '../middleware';
 import { rateLimit } from '../middleware/rate-limit';
 import { timeoutGuard } from '../middleware/timeout';
-import { createLessonBody, generateLessonBody, lessonIdParams } from '../schemas';
+import {
+  answerQuizBody,
+  askFollowUpBody,
+  blockParams,
+  createLessonBody,
+  exportJobParams,
+  exportLessonBody,
+  generateLessonBody,
+  lessonIdParams,
+  listLessonsQuery,
+  quizParams,
+  regenerateBlockBody,
+  revisionParams,
+  updateChaptersBody,
+  updateProgressBody,
+  updateTimelineBody,
+} from '../schemas';
 import { lessonController } from '../controllers';
+import { LESSON_PACKAGE_MIME_TYPE, MAX_PACKAGE_SIZE } from '../services/package';
 
 const router = Router();
 
+// ---------------------------------------------------------------------------
+// GET /lessons — List the caller's lessons (protected)
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/',
+  authMiddleware,
+  validate({ query: listLessonsQuery }),
+  lessonController.listLessons,
+);
+
 // ---------------------------------------------------------------------------
 // POST /lessons — Create a new lesson (protected)
 // ---------------------------------------------------------------------------
@@ -25,20 +53,224 @@ router.post(
 
 router.post(
   '/generate',
+  optionalAuthMiddleware,
   rateLimit({ max: 20, windowMs: 60_000 }),
   timeoutGuard(60_000),
   validate({ body: generateLessonBody }),
   lessonController.generateLesson,
 );
 
+// ---------------------------------------------------------------------------
+// POST /lessons/import — Create a lesson from a `.classflow` package
+// ---------------------------------------------------------------------------
+
+router.post(
+  '/import',
+  optionalAuthMiddleware,
+  rateLimit({ max: 10, windowMs: 60_000 }),
+  express.raw({
+    type: [LESSON_PACKAGE_MIME_TYPE, 'application/gzip', 'application/octet-stream'],
+    limit: MAX_PACKAGE_SIZE,
+  }),
+  lessonController.importLesson,
+);
+
 // ---------------------------------------------------------------------------
 // GET /lessons/:id — Retrieve a lesson by ID
 // ---------------------------------------------------------------------------
 
 router.get(
   '/:id',
+  optionalAuthMiddleware,
   validate({ params: lessonIdParams }),
   lessonController.getLessonById,
 );
 
+// ---------------------------------------------------------------------------
+// POST /lessons/:id/cancel — Cancel lesson generation
+// ---------------------------------------------------------------------------
+
+router.post(
+  '/:id/cancel',
+  optionalAuthMiddleware,
+  rateLimit({ max: 20, windowMs: 60_000 }),
+  validate({ params: lessonIdParams }),
+  lessonController.cancelLesson,
+);
+
+// ---------------------------------------------------------------------------
+// GET /lessons/:id/stream — Stream generation progress (Server-Sent Events)
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/:id/stream',
+  optionalAuthMiddleware,
+  validate({ params: lessonIdParams }),
+  lessonController.streamLesson,
+);
+
+// ---------------------------------------------------------------------------
+// PATCH /lessons/:id/timeline — Save timeline edits (protected)
+// ---------------------------------------------------------------------------
+
+router.patch(
+  '/:id/timeline',
+  authMiddleware,
+  rateLimit({ max: 30, windowMs: 60_000 }),
+  validate({ params: lessonIdParams, body: updateTimelineBody }),
+  lessonController.updateTimeline,
+);
+
+// ---------------------------------------------------------------------------
+// PUT /lessons/:id/chapters — Replace the chapter graph (protected)
+// ---------------------------------------------------------------------------
+
+router.put(
+  '/:id/chapters',
+  authMiddleware,
+  rateLimit({ max: 30, windowMs: 60_000 }),
+  validate({ params: lessonIdParams, body: updateChaptersBody }),
+  lessonController.updateChapters,
+);
+
+// ---------------------------------------------------------------------------
+// GET /lessons/:id/revisions — List a lesson's revisions
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/:id/revisions',
+  optionalAuthMiddleware,
+  validate({ params: lessonIdParams }),
+  lessonController.listRevisions,
+);
+
+// ---------------------------------------------------------------------------
+// GET /lessons/:id/revisions/:revision — One revision with its content
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/:id/revisions/:revision',
+  optionalAuthMiddleware,
+  validate({ params: revisionParams }),
+  lessonController.getRevision,
+);
+
+// ---------------------------------------------------------------------------
+// POST /lessons/:id/revisions/:revision/restore — Restore a revision (protected)
+// ---------------------------------------------------------------------------
+
+router.post(
+  '/:id/revisions/:revision/restore',
+  authMiddleware,
+  rateLimit({ max: 10, windowMs: 60_000 }),
+  validate({ params: revisionParams }),
+  lessonController.restoreRevision,
+);
+
+// ---------------------------------------------------------------------------
+// POST /lessons/:id/blocks/:blockId/regenerate — Rewrite one block (protected)
+// ---------------------------------------------------------------------------
+
+router.post(
+  '/:id/blocks/:blockId/regenerate',
+  authMiddleware,
+  rateLimit({ max: 10, windowMs: 60_000 }),
+  timeoutGuard(120_000),
+  validate({ params: blockParams, body: regenerateBlockBody }),
+  lessonController.regenerateBlock,
+);
+
+// ---------------------------------------------------------------------------
+// POST /lessons/:id/quiz/:quizId/answer — Answer a quiz
+// ---------------------------------------------------------------------------
+
+router.post(
+  '/:id/quiz/:quizId/answer',
+  optionalAuthMiddleware,
+  rateLimit({ max: 30, windowMs: 60_000 }),
+  validate({ params: quizParams, body: answerQuizBody }),
+  lessonController.answerQuiz,
+);
+
+// ---------------------------------------------------------------------------
+// POST /lessons/:id/asides — Ask a follow-up question during playback (protected)
+// ---------------------------------------------------------------------------
+
+router.post(
+  '/:id/asides',
+  authMiddleware,
+  rateLimit({ max: 10, windowMs: 60_000 }),
+  timeoutGuard(120_000),
+  validate({ params: lessonIdParams, body: askFollowUpBody }),
+  lessonController.askFollowUp,
+);
+
+// ---------------------------------------------------------------------------
+// GET /lessons/:id/asides — The caller's asides in a lesson (protected)
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/:id/asides',
+  authMiddleware,
+  validate({ params: lessonIdParams }),
+  lessonController.listAsides,
+);
+
+// ---------------------------------------------------------------------------
+// GET /lessons/:id/package — Download a lesson as a `.classflow` package
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/:id/package',
+  optionalAuthMiddleware,
+  rateLimit({ max: 20, windowMs: 60_000 }),
+  validate({ params: lessonIdParams }),
+  lessonController.downloadLessonPackage,
+);
+
+// ---------------------------------------------------------------------------
+// POST /lessons/:id/export — Export a lesson to video
+// ---------------------------------------------------------------------------
+
+router.post(
+  '/:id/export',
+  optionalAuthMiddleware,
+  rateLimit({ max: 5, windowMs: 60_000 }),
+  validate({ params: lessonIdParams, body: exportLessonBody }),
+  lessonController.exportLesson,
+);
+
+// ---------------------------------------------------------------------------
+// GET /lessons/:id/export/:jobId — Video export status
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/:id/export/:jobId',
+  optionalAuthMiddleware,
+  validate({ params: exportJobParams }),
+  lessonController.getLessonExport,
+);
+
+// ---------------------------------------------------------------------------
+// GET /lessons/:id/export/:jobId/video — Download an exported video
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/:id/export/:jobId/video',
+  optionalAuthMiddleware,
+  validate({ params: exportJobParams }),
+  lessonController.downloadLessonExport,
+);
+
+// ---------------------------------------------------------------------------
+// PUT /lessons/:id/progress — Report playback progress (protected)
+// ---------------------------------------------------------------------------
+
+router.put(
+  '/:id/progress',
+  authMiddleware,
+  validate({ params: lessonIdParams, body: updateProgressBody }),
+  lessonController.updateProgress,
+);
+
 export default router;
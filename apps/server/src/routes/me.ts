@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { validate, authMiddleware } from '../middleware';
+import { listDueReviewsQuery, listProgressQuery } from '../schemas';
+import { meController } from '../controllers';
+
+const router = Router();
+
+// ---------------------------------------------------------------------------
+// GET /me/progress — List the caller's playback progress (protected)
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/progress',
+  authMiddleware,
+  validate({ query: listProgressQuery }),
+  meController.listProgress,
+);
+
+// ---------------------------------------------------------------------------
+// GET /me/reviews/due — List the caller's flashcards due for review (protected)
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/reviews/due',
+  authMiddleware,
+  validate({ query: listDueReviewsQuery }),
+  meController.listDueReviews,
+);
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { validate, authMiddleware } from '../middleware';
+import { rateLimit } from '../middleware/rate-limit';
+import { gradeReviewBody, reviewIdParams } from '../schemas';
+import { reviewController } from '../controllers';
+
+const router = Router();
+
+// ---------------------------------------------------------------------------
+// POST /reviews/:id/grade — Grade a flashcard review (protected)
+// ---------------------------------------------------------------------------
+
+router.post(
+  '/:id/grade',
+  authMiddleware,
+  rateLimit({ max: 120, windowMs: 60_000 }),
+  validate({ params: reviewIdParams, body: gradeReviewBody }),
+  reviewController.gradeReview,
+);
+
+export default router;
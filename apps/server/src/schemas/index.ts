@@ -2,9 +2,35 @@ export {
   createLessonBody,
   generateLessonBody,
   lessonIdParams,
+  listLessonsQuery,
+  exportLessonBody,
+  exportJobParams,
+  updateTimelineBody,
+  revisionParams,
+  blockParams,
+  regenerateBlockBody,
+  updateChaptersBody,
+  quizParams,
+  answerQuizBody,
+  askFollowUpBody,
 } from './lesson';
 export type {
   CreateLessonBody,
   GenerateLessonBody,
   LessonIdParams,
+  ListLessonsQuery,
+  ExportLessonBody,
+  ExportJobParams,
+  UpdateTimelineBody,
+  RevisionParams,
+  BlockParams,
+  RegenerateBlockBody,
+  UpdateChaptersBody,
+  QuizParams,
+  AnswerQuizBody,
+  AskFollowUpBody,
 } from './lesson';
+export { updateProgressBody, listProgressQuery } from './progress';
+export type { UpdateProgressBody, ListProgressQuery } from './progress';
+export { listDueReviewsQuery, reviewIdParams, gradeReviewBody } from './review';
+export type { ListDueReviewsQuery, ReviewIdParams, GradeReviewBody } from './review';
@@ -28,6 +28,8 @@ export type CreateLessonBody = z.infer<typeof createLessonBody>;
 
 export const generateLessonBody = z.object({
   lessonId: z.string().min(1, 'lessonId is required'),
+  /** Generate a ready lesson again, keeping its content as a revision. */
+  regenerate: z.boolean().default(false),
 });
 
 export type GenerateLessonBody = z.infer<typeof generateLessonBody>;
@@ -41,3 +43,167 @@ export const lessonIdParams = z.object({
 });
 
 export type LessonIdParams = z.infer<typeof lessonIdParams>;
+
+// ---------------------------------------------------------------------------
+// GET /lessons — List the caller's lessons
+// ---------------------------------------------------------------------------
+
+export const listLessonsQuery = z.object({
+  status: z.enum(['pending', 'generating', 'ready', 'error']).optional(),
+  cursor: z.string().min(1).max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type ListLessonsQuery = z.infer<typeof listLessonsQuery>;
+
+// ---------------------------------------------------------------------------
+// PATCH /lessons/:id/timeline — Edit a lesson's timeline
+// ---------------------------------------------------------------------------
+
+export const updateTimelineBody = z
+  .object({
+    events: z
+      .array(
+        z.object({
+          id: z.string().min(1),
+          startTime: z.number().nonnegative(),
+          endTime: z.number().nonnegative(),
+        }),
+      )
+      .max(5000)
+      .default([]),
+    removed: z.array(z.string().min(1)).max(5000).default([]),
+  })
+  .refine((body) => body.events.length > 0 || body.removed.length > 0, {
+    message: 'No timeline edits given',
+  });
+
+export type UpdateTimelineBody = z.infer<typeof updateTimelineBody>;
+
+// ---------------------------------------------------------------------------
+// POST /lessons/:id/export — Export a lesson to video
+// ---------------------------------------------------------------------------
+
+export const exportLessonBody = z.object({
+  format: z.enum(['mp4', 'webm']).default('mp4'),
+});
+
+export type ExportLessonBody = z.infer<typeof exportLessonBody>;
+
+// ---------------------------------------------------------------------------
+// GET /lessons/:id/export/:jobId — Video export status
+// ---------------------------------------------------------------------------
+
+export const exportJobParams = z.object({
+  id: z.string().min(1, 'Lesson ID is required'),
+  jobId: z.string().min(1, 'Job ID is required'),
+});
+
+export type ExportJobParams = z.infer<typeof exportJobParams>;
+
+// ---------------------------------------------------------------------------
+// GET /lessons/:id/revisions/:revision — One revision of a lesson
+// ---------------------------------------------------------------------------
+
+export const revisionParams = z.object({
+  id: z.string().min(1, 'Lesson ID is required'),
+  revision: z.coerce.number().int().positive(),
+});
+
+export type RevisionParams = z.infer<typeof revisionParams>;
+
+// ---------------------------------------------------------------------------
+// POST /lessons/:id/blocks/:blockId/regenerate — Regenerate one block
+// ---------------------------------------------------------------------------
+
+export const blockParams = z.object({
+  id: z.string().min(1, 'Lesson ID is required'),
+  blockId: z.string().min(1, 'Block ID is required'),
+});
+
+export type BlockParams = z.infer<typeof blockParams>;
+
+// The body is optional, so requests without one parse as `{}`.
+export const regenerateBlockBody = z
+  .object({
+    instructions: z.string().trim().max(500).optional(),
+  })
+  .default({});
+
+export type RegenerateBlockBody = z.infer<typeof regenerateBlockBody>;
+
+// ---------------------------------------------------------------------------
+// PUT /lessons/:id/chapters — Replace a lesson's chapter graph
+// ---------------------------------------------------------------------------
+
+const chapterCondition = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('always') }),
+  z.object({ type: z.literal('choice'), label: z.string().trim().min(1).max(100) }),
+  z.object({ type: z.literal('quiz'), quizId: z.string().min(1), passed: z.boolean() }),
+]);
+
+export const updateChaptersBody = z.object({
+  chapters: z
+    .object({
+      start: z.string().min(1),
+      chapters: z
+        .array(
+          z.object({
+            id: z.string().min(1).max(100),
+            title: z.string().trim().min(1).max(200),
+            startTime: z.number().nonnegative(),
+            endTime: z.number().nonnegative(),
+          }),
+        )
+        .min(1)
+        .max(100),
+      edges: z
+        .array(
+          z.object({
+            from: z.string().min(1),
+            to: z.string().min(1),
+            condition: chapterCondition,
+          }),
+        )
+        .max(500),
+    })
+    .nullable(),
+});
+
+export type UpdateChaptersBody = z.infer<typeof updateChaptersBody>;
+
+// ---------------------------------------------------------------------------
+// POST /lessons/:id/quiz/:quizId/answer — Answer a quiz
+// ---------------------------------------------------------------------------
+
+export const quizParams = z.object({
+  id: z.string().min(1, 'Lesson ID is required'),
+  quizId: z.string().min(1, 'Quiz ID is required'),
+});
+
+export type QuizParams = z.infer<typeof quizParams>;
+
+export const answerQuizBody = z.object({
+  answer: z.union([
+    z.number().int().nonnegative(),
+    z.string().trim().min(1, 'Answer is required').max(500),
+  ]),
+});
+
+export type AnswerQuizBody = z.infer<typeof answerQuizBody>;
+
+// ---------------------------------------------------------------------------
+// POST /lessons/:id/asides — Ask a follow-up question during playback
+// ---------------------------------------------------------------------------
+
+export const askFollowUpBody = z.object({
+  question: z
+    .string()
+    .min(3, 'Question must be at least 3 characters')
+    .max(500, 'Question must be at most 500 characters')
+    .trim(),
+  timestamp: z.number().nonnegative(),
+  blockId: z.string().min(1).optional(),
+});
+
+export type AskFollowUpBody = z.infer<typeof askFollowUpBody>;
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+// ---------------------------------------------------------------------------
+// PUT /lessons/:id/progress — Report playback progress
+// ---------------------------------------------------------------------------
+
+export const updateProgressBody = z.object({
+  position: z.number().min(0),
+  watchedDelta: z.number().min(0),
+  sessionId: z.string().min(1).max(64).optional(),
+});
+
+export type UpdateProgressBody = z.infer<typeof updateProgressBody>;
+
+// ---------------------------------------------------------------------------
+// GET /me/progress — List the caller's progress
+// ---------------------------------------------------------------------------
+
+export const listProgressQuery = z.object({
+  lessonId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type ListProgressQuery = z.infer<typeof listProgressQuery>;
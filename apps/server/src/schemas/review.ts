@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+// ---------------------------------------------------------------------------
+// GET /me/reviews/due — List the caller's flashcards due for review
+// ---------------------------------------------------------------------------
+
+export const listDueReviewsQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type ListDueReviewsQuery = z.infer<typeof listDueReviewsQuery>;
+
+// ---------------------------------------------------------------------------
+// POST /reviews/:id/grade — Grade a flashcard review
+// ---------------------------------------------------------------------------
+
+export const reviewIdParams = z.object({
+  id: z.string().min(1, 'Flashcard ID is required'),
+});
+
+export type ReviewIdParams = z.infer<typeof reviewIdParams>;
+
+export const gradeReviewBody = z.object({
+  grade: z.number().int().min(0, 'Grade must be 0–5').max(5, 'Grade must be 0–5'),
+});
+
+export type GradeReviewBody = z.infer<typeof gradeReviewBody>;
@@ -0,0 +1,70 @@
+import type { Lesson, LessonAside } from '@classflowai/types';
+import { logger } from '@classflowai/utils';
+import { LessonAsideModel } from '../models/LessonAsideModel';
+import type { ILessonAsideLean } from '../models/LessonAsideModel';
+import { generateAside } from './generation';
+import type { FollowUpQuestion } from './generation';
+
+// ---------------------------------------------------------------------------
+// Type conversion helpers
+// ---------------------------------------------------------------------------
+
+function toAside(doc: ILessonAsideLean): LessonAside {
+  return {
+    id: doc._id.toHexString(),
+    lessonId: doc.lessonId,
+    userId: doc.userId,
+    question: doc.question,
+    timestamp: doc.timestamp,
+    ...(doc.blockId !== undefined ? { blockId: doc.blockId } : {}),
+    explanation: doc.explanation,
+    timeline: doc.timeline,
+    createdAt: doc.createdAt,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Service functions
+// ---------------------------------------------------------------------------
+
+/**
+ * Answer a follow-up question asked by {@link userId} during playback with a
+ * generated aside, and keep it so the viewer can replay it.
+ *
+ * @throws {AsideGenerationError} If the model fails to answer.
+ */
+export async function askFollowUp(
+  lesson: Lesson,
+  userId: string,
+  followUp: FollowUpQuestion,
+): Promise<LessonAside> {
+  const startTime = Date.now();
+  const content = await generateAside(lesson, followUp);
+
+  const doc = await LessonAsideModel.create({
+    lessonId: lesson.id,
+    userId,
+    question: followUp.question,
+    timestamp: followUp.timestamp,
+    blockId: followUp.blockId,
+    explanation: content.explanation,
+    timeline: content.timeline,
+  });
+
+  logger.info('Lesson aside generated', {
+    lessonId: lesson.id,
+    asideId: doc._id.toHexString(),
+    blocks: content.explanation.length,
+    durationMs: Date.now() - startTime,
+  });
+
+  return toAside(doc.toObject());
+}
+
+/**
+ * List the asides {@link userId} asked for in a lesson, in lesson order.
+ */
+export async function listAsides(lessonId: string, userId: string): Promise<LessonAside[]> {
+  const docs = await LessonAsideModel.find({ lessonId, userId }).sort({ timestamp: 1 }).lean();
+  return docs.map(toAside);
+}
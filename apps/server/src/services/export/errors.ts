@@ -0,0 +1,27 @@
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/**
+ * Error raised while exporting a lesson to video.  Failures that another
+ * attempt cannot fix — a missing renderer or encoder, a lesson that is not
+ * ready — are not retryable.
+ */
+export class VideoExportError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, options: { retryable?: boolean } = {}) {
+    super(message);
+    this.name = 'VideoExportError';
+    this.retryable = options.retryable ?? true;
+  }
+}
+
+/**
+ * Retry predicate for export jobs: only transient failures are retried.
+ * Unknown errors are treated as transient.
+ */
+export function isRetryableExportError(error: Error): boolean {
+  if (error instanceof VideoExportError) return error.retryable;
+  return true;
+}
@@ -0,0 +1,144 @@
+import { spawn } from 'node:child_process';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { VideoExportFormat } from '@classflowai/types';
+import { VideoExportError } from './errors';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** An audio file played from {@link startTime} (ms) into the video. */
+export interface AudioClip {
+  path: string;
+  startTime: number;
+}
+
+export interface EncodeVideoOptions {
+  /** ffmpeg binary to run. */
+  ffmpegPath: string;
+  /** File the video is written to, replacing any existing file. */
+  output: string;
+  format: VideoExportFormat;
+  /** Raw frames, all {@link width}×{@link height} in {@link pixelFormat}. */
+  frames: AsyncIterable<Buffer>;
+  width: number;
+  height: number;
+  /** ffmpeg `-pix_fmt` name of the frame layout, e.g. `bgra`. */
+  pixelFormat: string;
+  fps: number;
+  audio: AudioClip[];
+  signal?: AbortSignal;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const CODEC_ARGS: Record<VideoExportFormat, string[]> = {
+  mp4: [
+    '-c:v', 'libx264', '-preset', 'medium', '-crf', '23', '-pix_fmt', 'yuv420p',
+    '-c:a', 'aac', '-b:a', '128k',
+    '-movflags', '+faststart',
+  ],
+  webm: [
+    '-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0', '-pix_fmt', 'yuv420p',
+    '-c:a', 'libopus', '-b:a', '96k',
+  ],
+};
+
+/** Bytes of ffmpeg's stderr kept for error messages. */
+const STDERR_LIMIT = 4096;
+
+// ---------------------------------------------------------------------------
+// Encoding
+// ---------------------------------------------------------------------------
+
+/**
+ * Encode raw {@link EncodeVideoOptions.frames} into a video with ffmpeg,
+ * mixing every audio clip in at its start time.
+ *
+ * Frames are piped to ffmpeg's stdin as they are produced, so only one is
+ * held in memory at a time.  Aborting {@link EncodeVideoOptions.signal}
+ * kills ffmpeg.
+ *
+ * @throws {VideoExportError} If ffmpeg cannot be started or fails.
+ */
+export async function encodeVideo(options: EncodeVideoOptions): Promise<void> {
+  const { ffmpegPath, signal } = options;
+  const child = spawn(ffmpegPath, buildArgs(options), { stdio: ['pipe', 'ignore', 'pipe'] });
+
+  let stderr = '';
+  child.stderr.setEncoding('utf8');
+  child.stderr.on('data', (chunk: string) => {
+    stderr = (stderr + chunk).slice(-STDERR_LIMIT);
+  });
+
+  const exited = new Promise<void>((resolve, reject) => {
+    child.once('error', (err: NodeJS.ErrnoException) => {
+      reject(
+        err.code === 'ENOENT'
+          ? new VideoExportError(`ffmpeg not found at "${ffmpegPath}"`, { retryable: false })
+          : err,
+      );
+    });
+    child.once('close', (code, exitSignal) => {
+      const status = code ?? exitSignal;
+      if (code === 0) resolve();
+      else reject(new VideoExportError(`ffmpeg exited with ${status}: ${stderr.trim()}`));
+    });
+  });
+
+  const kill = (): void => {
+    child.kill('SIGKILL');
+  };
+  signal?.addEventListener('abort', kill, { once: true });
+
+  // A failing source ends stdin, so ffmpeg exits on its own; both settle.
+  const [piped, exit] = await Promise.allSettled([
+    pipeline(Readable.from(options.frames), child.stdin, signal ? { signal } : {}),
+    exited,
+  ]);
+  signal?.removeEventListener('abort', kill);
+
+  // A broken pipe only means ffmpeg went away; its exit explains why.
+  if (piped.status === 'rejected' && !isBrokenPipe(piped.reason)) throw piped.reason;
+  if (exit.status === 'rejected') throw exit.reason;
+  if (piped.status === 'rejected') throw new VideoExportError('ffmpeg stopped reading frames');
+}
+
+function isBrokenPipe(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException | null)?.code;
+  return (
+    code === 'EPIPE' || code === 'ERR_STREAM_PREMATURE_CLOSE' || code === 'ERR_STREAM_DESTROYED'
+  );
+}
+
+/** ffmpeg arguments: raw video on stdin (input 0), then one input per clip. */
+function buildArgs(options: EncodeVideoOptions): string[] {
+  const { audio } = options;
+  const args = [
+    '-y', '-hide_banner', '-loglevel', 'error',
+    '-f', 'rawvideo',
+    '-pix_fmt', options.pixelFormat,
+    '-s', `${options.width}x${options.height}`,
+    '-r', String(options.fps),
+    '-i', 'pipe:0',
+  ];
+
+  for (const clip of audio) args.push('-i', clip.path);
+
+  if (audio.length > 0) {
+    const delayed = audio.map((clip, i) => {
+      const delay = Math.max(0, Math.round(clip.startTime));
+      return `[${i + 1}:a]adelay=${delay}:all=1[a${i}]`;
+    });
+    const mix = audio.length > 1
+      ? `${audio.map((_, i) => `[a${i}]`).join('')}amix=inputs=${audio.length}:normalize=0[aout]`
+      : '[a0]anull[aout]';
+    args.push('-filter_complex', [...delayed, mix].join(';'), '-map', '0:v', '-map', '[aout]');
+  }
+
+  args.push(...CODEC_ARGS[options.format], options.output);
+  return args;
+}
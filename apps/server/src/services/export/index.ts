@@ -0,0 +1,234 @@
+import { access, mkdir, readdir, rm, rmdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import type { Job, Lesson, VideoExportFormat } from '@classflowai/types';
+import { logger } from '@classflowai/utils';
+import { getConfig } from '../../config';
+import { getLessonById } from '../lesson';
+import { getAudioStorage } from '../tts';
+import { VideoExportError } from './errors';
+import { encodeVideo } from './ffmpeg';
+import type { AudioClip } from './ffmpeg';
+import {
+  FRAME_HEIGHT,
+  FRAME_PIXEL_FORMAT,
+  FRAME_WIDTH,
+  renderLessonFrames,
+} from './renderer';
+
+export { VideoExportError, isRetryableExportError } from './errors';
+export { encodeVideo } from './ffmpeg';
+export type { AudioClip, EncodeVideoOptions } from './ffmpeg';
+export { renderLessonFrames, getFrameCount } from './renderer';
+export type { RenderOptions } from './renderer';
+
+const DEFAULT_FORMAT: VideoExportFormat = 'mp4';
+
+/** How often videos past `EXPORT_TTL_MS` are looked for and deleted. */
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Files
+// ---------------------------------------------------------------------------
+
+/** Container an export job produces. */
+export function getExportFormat(job: Job): VideoExportFormat {
+  return job.params?.format ?? DEFAULT_FORMAT;
+}
+
+/** Key of an export job's video under `EXPORT_DIR`. */
+function getExportKey(job: Job): string {
+  return `${job.lessonId}/${job.id}.${getExportFormat(job)}`;
+}
+
+/**
+ * URL clients download a completed export job's video from, checked against
+ * the lesson's owner like the job itself.
+ */
+export function getExportUrl(job: Job): string {
+  return `/api/lessons/${job.lessonId}/export/${job.id}/video`;
+}
+
+/** When a completed export job's video is deleted, or `null` if unfinished. */
+export function getExportExpiry(job: Job): Date | null {
+  if (job.status !== 'completed' || !job.completedAt) return null;
+  return new Date(job.completedAt.getTime() + getConfig().EXPORT_TTL_MS);
+}
+
+/**
+ * Path of a completed export job's video, or `null` once it has expired or
+ * its file is gone.
+ */
+export async function getExportFile(job: Job, now = new Date()): Promise<string | null> {
+  const expiresAt = getExportExpiry(job);
+  if (!expiresAt || expiresAt <= now) return null;
+
+  const file = path.resolve(getConfig().EXPORT_DIR, getExportKey(job));
+  try {
+    await access(file);
+    return file;
+  } catch {
+    return null;
+  }
+}
+
+/** File name an export job's video is offered for download under. */
+export function getExportFileName(job: Job): string {
+  return `lesson-${job.lessonId}.${getExportFormat(job)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Cleanup
+// ---------------------------------------------------------------------------
+
+let cleanupTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Delete exported videos written more than `EXPORT_TTL_MS` ago, and the
+ * lesson directories they leave empty.
+ *
+ * @returns How many videos were deleted.
+ */
+export async function removeExpiredExports(now = new Date()): Promise<number> {
+  const config = getConfig();
+  const root = path.resolve(config.EXPORT_DIR);
+  const cutoff = now.getTime() - config.EXPORT_TTL_MS;
+
+  let lessonDirs: string[];
+  try {
+    lessonDirs = await readdir(root);
+  } catch {
+    return 0;
+  }
+
+  let removed = 0;
+  for (const lessonDir of lessonDirs) {
+    const dir = path.join(root, lessonDir);
+    let files: string[];
+    try {
+      files = await readdir(dir);
+    } catch {
+      continue;
+    }
+
+    for (const name of files) {
+      const file = path.join(dir, name);
+      const info = await stat(file).catch(() => null);
+      if (info?.isFile() && info.mtimeMs < cutoff) {
+        await rm(file, { force: true });
+        removed++;
+      }
+    }
+    // Fails, and is left alone, while the lesson still has videos.
+    await rmdir(dir).catch(() => undefined);
+  }
+
+  if (removed > 0) logger.info('Expired exports removed', { count: removed });
+  return removed;
+}
+
+/** Delete expired videos now and every hour until {@link stopExportCleanup}. */
+export function startExportCleanup(): void {
+  if (cleanupTimer !== null) return;
+
+  const run = (): void => {
+    removeExpiredExports().catch((err) => {
+      logger.error('Failed to remove expired exports', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    });
+  };
+  run();
+  cleanupTimer = setInterval(run, CLEANUP_INTERVAL_MS);
+  cleanupTimer.unref();
+}
+
+export function stopExportCleanup(): void {
+  if (cleanupTimer === null) return;
+  clearInterval(cleanupTimer);
+  cleanupTimer = null;
+}
+
+// ---------------------------------------------------------------------------
+// Job handler
+// ---------------------------------------------------------------------------
+
+/**
+ * Render the lesson behind a `lesson_export` job to a video file under
+ * `EXPORT_DIR`, with its narration audio mixed in.
+ *
+ * A failed or aborted attempt leaves no partial file behind.
+ *
+ * @throws {VideoExportError} If the lesson is not ready to export, or
+ *   rendering or encoding fails.
+ */
+export async function exportLessonVideo(job: Job, signal: AbortSignal): Promise<void> {
+  const lesson = await getLessonById(job.lessonId);
+  if (!lesson) {
+    throw new VideoExportError('Lesson not found', { retryable: false });
+  }
+  if (lesson.status !== 'ready') {
+    throw new VideoExportError('Lesson is not ready to export', { retryable: false });
+  }
+
+  const config = getConfig();
+  const format = getExportFormat(job);
+  const output = path.resolve(config.EXPORT_DIR, getExportKey(job));
+  await mkdir(path.dirname(output), { recursive: true });
+
+  const audio = await collectNarrationAudio(lesson);
+  const startedAt = Date.now();
+  try {
+    await encodeVideo({
+      ffmpegPath: config.FFMPEG_PATH,
+      output,
+      format,
+      frames: renderLessonFrames(lesson, { fps: config.EXPORT_FPS, signal }),
+      width: FRAME_WIDTH,
+      height: FRAME_HEIGHT,
+      pixelFormat: FRAME_PIXEL_FORMAT,
+      fps: config.EXPORT_FPS,
+      audio,
+      signal,
+    });
+  } catch (err) {
+    await rm(output, { force: true });
+    throw err;
+  }
+
+  logger.info('Lesson exported', {
+    lessonId: lesson.id,
+    jobId: job.id,
+    format,
+    durationMs: Date.now() - startedAt,
+  });
+}
+
+/**
+ * Narration audio stored for the lesson, placed at the start of its
+ * `narration_segment` event.  Segments without stored audio, or whose file
+ * has gone missing, stay silent.
+ */
+async function collectNarrationAudio(lesson: Lesson): Promise<AudioClip[]> {
+  const storage = getAudioStorage();
+  const clips: AudioClip[] = [];
+
+  for (const event of lesson.timeline) {
+    if (event.type !== 'narration_segment' || !event.payload.audioUrl) continue;
+    const file = storage.resolveUrl(event.payload.audioUrl);
+    if (!file) continue;
+
+    try {
+      await access(file);
+    } catch (err) {
+      logger.warn('Narration audio missing; exporting without it', {
+        lessonId: lesson.id,
+        audioUrl: event.payload.audioUrl,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      continue;
+    }
+    clips.push({ path: file, startTime: event.startTime });
+  }
+
+  return clips;
+}
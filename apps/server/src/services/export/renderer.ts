@@ -0,0 +1,190 @@
+import type * as Canvas from 'canvas';
+import type { CanvasRenderingContext2D } from 'canvas';
+import {
+  DEFAULT_BOARD_SIZE,
+  LessonPlaybackEngine,
+  buildTracksFromEvents,
+  getBoardFrame,
+  getPageDrawing,
+  getStrokePages,
+  layoutBoard,
+} from '@classflowai/engine';
+import type { BoardFrame } from '@classflowai/engine';
+import type { CursorState, DrawingState, Lesson, Stroke } from '@classflowai/types';
+import { VideoExportError } from './errors';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RenderOptions {
+  /** Frames per second of lesson time. */
+  fps: number;
+  signal?: AbortSignal;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Frame size (px); the board is rendered at its natural size. */
+export const FRAME_WIDTH = DEFAULT_BOARD_SIZE.width;
+export const FRAME_HEIGHT = DEFAULT_BOARD_SIZE.height;
+
+/**
+ * Layout of the raw frames yielded by {@link renderLessonFrames}, as an
+ * ffmpeg `-pix_fmt`.  node-canvas stores pixels as native-endian ARGB32.
+ */
+export const FRAME_PIXEL_FORMAT = 'bgra';
+
+/** Colours matching `CanvasBoard` and `CursorLayer` in the web player. */
+const BACKGROUND_COLOR = '#0a0a0a';
+const HIGHLIGHT_COLOR = 'rgba(96, 165, 250, 0.15)';
+const CURSOR_GLOW_COLOR = 'rgba(59, 130, 246, 0.6)';
+
+// ---------------------------------------------------------------------------
+// Frames
+// ---------------------------------------------------------------------------
+
+/** Number of frames covering {@link durationMs}, the final state included. */
+export function getFrameCount(durationMs: number, fps: number): number {
+  return Math.ceil((durationMs / 1000) * fps) + 1;
+}
+
+/**
+ * Play {@link lesson} through a {@link LessonPlaybackEngine} one tick per
+ * frame and yield every frame as raw {@link FRAME_PIXEL_FORMAT} pixels.
+ *
+ * Ticks are given synthetic timestamps exactly one frame apart, so the
+ * output depends on the lesson alone and not on how fast frames are drawn.
+ *
+ * @throws {VideoExportError} If node-canvas is not installed.
+ */
+export async function* renderLessonFrames(
+  lesson: Lesson,
+  options: RenderOptions,
+): AsyncGenerator<Buffer> {
+  const { createCanvas } = await loadCanvas();
+  const canvas = createCanvas(FRAME_WIDTH, FRAME_HEIGHT);
+  const ctx = canvas.getContext('2d');
+
+  const layout = layoutBoard(lesson.explanation, lesson.timeline, DEFAULT_BOARD_SIZE);
+  const strokePages = getStrokePages(layout, lesson.timeline);
+
+  const frameMs = 1000 / options.fps;
+  const engine = new LessonPlaybackEngine({
+    targetFps: options.fps,
+    maxDeltaMs: frameMs,
+    autoPlay: false,
+    // Videos play straight through; nobody is there to answer quizzes.
+    pauseAtQuizzes: false,
+  });
+  engine.load(buildTracksFromEvents(lesson.timeline));
+  engine.play();
+
+  const frameCount = getFrameCount(engine.duration, options.fps);
+
+  for (let i = 0; i < frameCount; i++) {
+    if (options.signal?.aborted) {
+      throw new VideoExportError('Export aborted', { retryable: false });
+    }
+
+    // `play` stamps the wall clock; a first timestamp below it clamps to a
+    // zero delta, and every later tick advances exactly one frame.
+    const snapshot = engine.tick(1 + i * frameMs);
+    const frame = getBoardFrame(layout, snapshot.currentTime);
+
+    drawFrame(
+      ctx,
+      frame,
+      getPageDrawing(snapshot.drawingState, strokePages, frame.page),
+      snapshot.cursorState,
+    );
+    yield canvas.toBuffer('raw');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Drawing
+// ---------------------------------------------------------------------------
+
+function drawFrame(
+  ctx: CanvasRenderingContext2D,
+  frame: BoardFrame,
+  drawing: DrawingState,
+  cursor: CursorState,
+): void {
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = BACKGROUND_COLOR;
+  ctx.fillRect(0, 0, FRAME_WIDTH, FRAME_HEIGHT);
+
+  ctx.fillStyle = HIGHLIGHT_COLOR;
+  for (const highlight of frame.highlights) {
+    ctx.beginPath();
+    ctx.roundRect(highlight.x, highlight.y, highlight.width, highlight.height, 4);
+    ctx.fill();
+  }
+
+  ctx.textBaseline = 'top';
+  for (const line of frame.lines) {
+    const { style } = line;
+    ctx.font = `${style.fontWeight} ${style.fontSize}px ${style.fontFamily}`;
+    ctx.fillStyle = style.color;
+    ctx.fillText(line.text, line.x, line.y);
+  }
+
+  for (const stroke of drawing.strokes) drawStroke(ctx, stroke);
+  if (drawing.activeStroke) drawStroke(ctx, drawing.activeStroke);
+
+  if (cursor.visible) drawCursor(ctx, cursor);
+}
+
+function drawStroke(ctx: CanvasRenderingContext2D, stroke: Stroke): void {
+  const [first, ...rest] = stroke.points;
+  if (!first) return;
+
+  ctx.globalAlpha = stroke.opacity;
+  ctx.strokeStyle = stroke.color;
+  ctx.lineWidth = stroke.width;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  ctx.beginPath();
+  ctx.moveTo(first.x, first.y);
+  // A lone point still leaves a round dot.
+  if (rest.length === 0) ctx.lineTo(first.x, first.y);
+  for (const point of rest) ctx.lineTo(point.x, point.y);
+  ctx.stroke();
+  ctx.globalAlpha = 1;
+}
+
+function drawCursor(ctx: CanvasRenderingContext2D, cursor: CursorState): void {
+  ctx.fillStyle = CURSOR_GLOW_COLOR;
+  ctx.beginPath();
+  ctx.arc(cursor.x, cursor.y, 7, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  ctx.arc(cursor.x, cursor.y, 4, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+// ---------------------------------------------------------------------------
+// node-canvas
+// ---------------------------------------------------------------------------
+
+/**
+ * Load node-canvas on first use.  It is an optional dependency with a native
+ * build, so servers without it still run and only fail export jobs.
+ */
+async function loadCanvas(): Promise<typeof Canvas> {
+  try {
+    return await import('canvas');
+  } catch (err) {
+    throw new VideoExportError(
+      `node-canvas is not available: ${err instanceof Error ? err.message : String(err)}`,
+      { retryable: false },
+    );
+  }
+}
@@ -1,22 +1,185 @@
-import type { ExplanationBlock, TimelineEvent } from '@classflowai/types';
+import { z } from 'zod';
+import type { ContentBlock, ExplanationBlock, Lesson, TimelineEvent } from '@classflowai/types';
 import {
+  INITIAL_BOARD_CURSOR,
+  contentBlockToExplanationBlock,
   parseRawExplanation,
   explanationToBlocks,
+  explanationBlockToMarkdown,
+  calculateTimelineDuration,
+  createStreamingParseState,
+  appendStreamingChunk,
+  finishStreamingParse,
   calculateTransitionDelay,
   createTimelineEvent,
+  estimateWordTimings,
+  placeBoardBlock,
+  handwriteText,
+  estimateHandwritingDuration,
+  createHandwritingEvents,
+  createDiagramEvents,
+  estimateDiagramDuration,
+  createEquationEvents,
+  estimateEquationDuration,
+  getBlockNarrationText,
+  planCodeWalkthrough,
+  createCodeFocusEvents,
+  getBoardLinesInRange,
+  measurePlacement,
+  createPageClearEvent,
+  createCursorTargetEvents,
+  PAGE_CLEAR_DURATION,
+  createLinearChapterGraph,
+  retimeEvent,
 } from '@classflowai/engine';
-import { logger } from '@classflowai/utils';
-import { withRetry } from '../utils';
+import type { BoardCursor, BoardPlacement, HandwrittenLine } from '@classflowai/engine';
+import { generateId, logger } from '@classflowai/utils';
+import { getConfig } from '../config';
+import type { ILessonQuiz } from '../models/LessonModel';
 import * as lessonService from './lesson';
+import { publishLessonEvent } from './lesson-events';
+import * as narrationService from './narration';
+import type { BlockNarration } from './narration';
+import * as revisionService from './revision';
+import {
+  getLLMProvider,
+  buildLessonPrompt,
+  buildBlockPrompt,
+  buildAsidePrompt,
+  buildQuizPrompt,
+  isRetryableLLMError,
+} from './llm';
+import type { LLMMessage } from './llm';
+import { withRetry } from '../utils';
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-interface GenerationResult {
+/**
+ * Position reached while laying blocks out on the timeline, so blocks that
+ * arrive one at a time are timed exactly as if built in a single pass.
+ */
+interface TimelineCursor {
+  time: number;
+  previous: ExplanationBlock | null;
+  /** Where the next block goes on the board. */
+  board: BoardCursor;
+}
+
+interface TimelineBuildStep {
+  events: TimelineEvent[];
+  cursor: TimelineCursor;
+}
+
+/** Blocks of a lesson from one heading to the next, and where they end. */
+interface LessonSection {
+  /** ID of the first block, which is also the ID of the section's chapter. */
+  id: string;
+  title: string;
+  blocks: ExplanationBlock[];
+  endTime: number;
+}
+
+/** A block ready for the timeline, with its narration if synthesized. */
+interface NarratedBlock {
+  block: ExplanationBlock;
+  narration: BlockNarration | null;
+}
+
+export interface BlockRegenerationOptions {
+  authorId: string;
+  /** What the learner wants changed about the block. */
+  instructions?: string;
+}
+
+export interface RegeneratedBlock {
+  lesson: Lesson;
+  block: ExplanationBlock;
+}
+
+export interface FollowUpQuestion {
+  question: string;
+  /** Lesson time (ms) the question was asked at. */
+  timestamp: number;
+  blockId?: string;
+}
+
+/** The content of an aside, timed from 0 on a board of its own. */
+export interface AsideContent {
   explanation: ExplanationBlock[];
   timeline: TimelineEvent[];
-  estimatedDuration: number;
+}
+
+const INITIAL_TIMELINE_CURSOR: TimelineCursor = {
+  time: 0,
+  previous: null,
+  board: INITIAL_BOARD_CURSOR,
+};
+
+/** Distance (px) the cursor keeps to the left of the code it points at. */
+const CODE_POINTER_OFFSET = 18;
+
+/** Blocks shown to the model on each side of a block it rewrites. */
+const BLOCK_CONTEXT_SIZE = 3;
+
+/** Blocks of the lesson shown to the model when answering a follow-up. */
+const ASIDE_CONTEXT_SIZE = 6;
+
+/** Blocks an aside is cut to, however much the model writes. */
+const MAX_ASIDE_BLOCKS = 6;
+
+/** A quiz question as the model writes it; see `buildQuizPrompt`. */
+const generatedQuizSchema = z.discriminatedUnion('type', [
+  z.object({
+    section: z.number().int().positive(),
+    type: z.literal('multiple_choice'),
+    question: z.string().trim().min(1),
+    choices: z.array(z.string().trim().min(1)).min(2).max(6),
+    answer: z.number().int().nonnegative(),
+    explanation: z.string().trim().optional(),
+  }),
+  z.object({
+    section: z.number().int().positive(),
+    type: z.literal('short_answer'),
+    question: z.string().trim().min(1),
+    answers: z.array(z.string().trim().min(1)).min(1).max(10),
+    explanation: z.string().trim().optional(),
+  }),
+]);
+
+type GeneratedQuiz = z.infer<typeof generatedQuizSchema>;
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** Thrown when the model fails to produce a replacement block. */
+export class BlockRegenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockRegenerationError';
+  }
+}
+
+/**
+ * Thrown when a regenerated block would move later blocks on the board
+ * whose events were edited by hand, since laying them out again would
+ * undo the edits.
+ */
+export class BlockLayoutConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockLayoutConflictError';
+  }
+}
+
+/** Thrown when the model fails to answer a follow-up question. */
+export class AsideGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AsideGenerationError';
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -24,52 +187,607 @@ interface GenerationResult {
 // ---------------------------------------------------------------------------
 
 /**
- * Trigger full lesson generation for the given lesson ID.
+ * Run one generation attempt for the given lesson ID.
  *
- * Updates the lesson status to `generating`, runs the content pipeline, and
- * on success sets the lesson to `ready`.  On failure the status is set to
- * `error`.
+ * Updates the lesson status to `generating` and streams the model response
+ * through the engine pipeline.  Each block is appended to the stored lesson
+ * and published to {@link publishLessonEvent} subscribers as soon as it is
+ * final, so playback can start before generation finishes.  Quizzes on its
+ * sections are added once all blocks are in.  On success the lesson is set
+ * to `ready`.
  *
- * Generation runs asynchronously — the returned promise resolves once the
- * lesson record has been updated.
+ * Content left by an earlier attempt is cleared first, and a `reset` event
+ * tells subscribers to discard what they received.  Each finished
+ * generation is recorded as a lesson revision.  Failures are thrown as is;
+ * the job queue decides whether to retry or call
+ * {@link markGenerationFailed}.
  */
-export async function generateLessonContent(lessonId: string): Promise<void> {
+export async function generateLessonContent(
+  lessonId: string,
+  signal?: AbortSignal,
+): Promise<void> {
   const lesson = await lessonService.getLessonById(lessonId);
   if (!lesson) throw new Error(`Lesson not found: ${lessonId}`);
 
+  if (lesson.explanation.length > 0 || lesson.timeline.length > 0) {
+    await lessonService.clearLessonContent(lessonId);
+    // Earlier revisions still play their narration.
+    if (!(await revisionService.hasRevisions(lessonId))) {
+      await narrationService.removeLessonNarration(lessonId);
+    }
+    publishLessonEvent(lessonId, { type: 'reset' });
+  }
+
   await lessonService.updateLessonStatus(lessonId, 'generating');
+  publishLessonEvent(lessonId, { type: 'status', status: 'generating' });
   const startTime = Date.now();
 
+  const provider = getLLMProvider();
+  const messages = buildLessonPrompt(lesson.question, {
+    difficulty: lesson.metadata.difficulty,
+    language: lesson.metadata.language,
+    maxDuration: lesson.metadata.maxDuration,
+  });
+
+  const result = await streamLesson(
+    lessonId,
+    provider.stream({ messages, maxTokens: getConfig().LLM_MAX_TOKENS, signal }),
+    { language: lesson.metadata.language, signal },
+  );
+  await addQuizzes(lessonId, signal);
+
+  const generationTime = Date.now() - startTime;
+
+  // Chapters of the old content would not fit the new.  They are only
+  // dropped now, so a failed or cancelled regeneration keeps them.
+  if (lesson.chapters) {
+    await lessonService.updateLessonChapters(lessonId, null);
+  }
+  await lessonService.updateLessonMetadata(lessonId, { generationTime });
+  const finished = await lessonService.updateLessonStatus(lessonId, 'ready');
+  if (finished) {
+    await revisionService
+      .recordRevision(finished, { authorId: finished.userId, reason: 'generation' })
+      .catch((err: unknown) => {
+        logger.error('Failed to record lesson revision', {
+          lessonId,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+    publishLessonEvent(lessonId, { type: 'complete', lesson: finished });
+  }
+
+  logger.info('Lesson generation complete', {
+    lessonId,
+    provider: provider.name,
+    model: provider.model,
+    blocks: result.blocks,
+    events: result.events,
+    durationMs: generationTime,
+  });
+}
+
+/**
+ * Mark a lesson's generation as failed for good and notify subscribers.
+ *
+ * A failed regeneration instead puts the latest revision back, leaving the
+ * lesson as it was before.
+ */
+export async function markGenerationFailed(lessonId: string, error: Error): Promise<void> {
+  logger.error('Lesson generation failed', { lessonId, error: error.message });
+  if (await revertRegeneration(lessonId).catch(() => false)) return;
+
+  await lessonService.updateLessonStatus(lessonId, 'error').catch(() => {});
+  publishLessonEvent(lessonId, { type: 'error', message: 'Lesson generation failed' });
+}
+
+/**
+ * Return a cancelled lesson to `pending` with its partial content removed,
+ * so it can be generated again later.  A cancelled regeneration puts the
+ * latest revision back instead.
+ */
+export async function resetCancelledLesson(lessonId: string): Promise<void> {
+  if (await revertRegeneration(lessonId)) return;
+
+  await lessonService.clearLessonContent(lessonId);
+  await lessonService.updateLessonChapters(lessonId, null);
+  await narrationService.removeLessonNarration(lessonId);
+  await lessonService.updateLessonStatus(lessonId, 'pending');
+  publishLessonEvent(lessonId, { type: 'reset' });
+  publishLessonEvent(lessonId, { type: 'status', status: 'pending' });
+}
+
+/**
+ * Put a lesson with revisions back to its latest revision, ready to play.
+ *
+ * @returns `false` if the lesson has no revisions to go back to.
+ */
+async function revertRegeneration(lessonId: string): Promise<boolean> {
+  const reverted = await revisionService.revertToLatestRevision(lessonId);
+  if (!reverted) return false;
+
+  const lesson = await lessonService.updateLessonStatus(lessonId, 'ready');
+  if (lesson) {
+    publishLessonEvent(lessonId, { type: 'complete', lesson });
+  }
+  logger.info('Regeneration reverted to the latest revision', { lessonId });
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Block regeneration
+// ---------------------------------------------------------------------------
+
+/**
+ * Ask the model to rewrite one block of a ready lesson, showing it the
+ * blocks around it, and record the result as a new revision.
+ *
+ * The new block takes the old one's place and is narrated afresh.  Only its
+ * window of the timeline is rebuilt: later events move by however much
+ * longer or shorter the block became, so hand edits elsewhere survive.
+ * When the new block takes up a different amount of board space, the later
+ * blocks are laid out again and their events rebuilt, keeping their audio;
+ * this is refused if their events were edited by hand.  Quiz checkpoints
+ * stay at the end of their sections.
+ *
+ * @returns `null` if the lesson has no block {@link blockId}.
+ * @throws {BlockRegenerationError} If the model request fails or its answer
+ *   contains no block.
+ * @throws {BlockLayoutConflictError} If the later blocks would be laid out
+ *   again over hand edits.
+ */
+export async function regenerateBlock(
+  lesson: Lesson,
+  blockId: string,
+  options: BlockRegenerationOptions,
+): Promise<RegeneratedBlock | null> {
+  const blocks = [...lesson.explanation].sort((a, b) => a.order - b.order);
+  const index = blocks.findIndex((block) => block.id === blockId);
+  const original = blocks[index];
+  if (!original) return null;
+
+  const provider = getLLMProvider();
+  const messages = buildBlockPrompt(
+    lesson.question,
+    {
+      block: explanationBlockToMarkdown(original),
+      before: blocks
+        .slice(Math.max(0, index - BLOCK_CONTEXT_SIZE), index)
+        .map(explanationBlockToMarkdown),
+      after: blocks
+        .slice(index + 1, index + 1 + BLOCK_CONTEXT_SIZE)
+        .map(explanationBlockToMarkdown),
+      instructions: options.instructions,
+    },
+    { difficulty: lesson.metadata.difficulty, language: lesson.metadata.language },
+  );
+
+  let text: string;
   try {
-    const rawExplanation = await withRetry(
-      () => simulateLLMResponse(lesson.question),
-      { maxRetries: 2, baseDelayMs: 300 },
+    text = await requestCompletion(messages);
+  } catch (err) {
+    throw new BlockRegenerationError(
+      `Model request failed: ${err instanceof Error ? err.message : String(err)}`,
     );
+  }
+
+  // Models sometimes add more than asked for; keep the block most like the original.
+  const candidates = parseRawExplanation(text).blocks.map((contentBlock) =>
+    contentBlockToExplanationBlock(contentBlock, original.order),
+  );
+  const draft =
+    candidates.find(
+      (block) => block.type === original.type && block.format === original.format,
+    ) ?? candidates[0];
+  if (!draft) {
+    throw new BlockRegenerationError('Model response did not contain a block');
+  }
+
+  let board = INITIAL_BOARD_CURSOR;
+  for (const block of blocks.slice(0, index)) board = placeBoardBlock(block, board).cursor;
 
-    const result = buildLessonFromRaw(rawExplanation);
+  const replacement = await narrateBlock(lesson.id, draft, board, {
+    language: lesson.metadata.language,
+  });
+  const explanation = lesson.explanation.map((block) =>
+    block.id === blockId ? replacement.block : block,
+  );
+  // A section starting with the old block now starts with its replacement.
+  const quizzes = (await lessonService.getLessonQuizzes(lesson.id)).map((quiz) =>
+    quiz.sectionId === blockId ? { ...quiz, sectionId: replacement.block.id } : quiz,
+  );
+  const timeline = anchorQuizCheckpoints(
+    explanation,
+    replaceBlockEvents(lesson.timeline, blocks, index, replacement, board),
+    quizzes,
+  );
 
-    const generationTime = Date.now() - startTime;
+  await revisionService.recordBaselineRevision(lesson);
+  const updated = await lessonService.updateLessonContent(
+    lesson.id,
+    explanation,
+    timeline,
+    { ...lesson.metadata, estimatedDuration: calculateTimelineDuration(timeline) },
+    quizzes,
+  );
+  if (!updated) return null;
+  await revisionService.recordRevision(updated, {
+    authorId: options.authorId,
+    reason: 'block_regeneration',
+  });
+
+  logger.info('Lesson block regenerated', {
+    lessonId: lesson.id,
+    blockId,
+    replacementId: replacement.block.id,
+    provider: provider.name,
+  });
+
+  return { lesson: updated, block: replacement.block };
+}
+
+/**
+ * Swap the events of {@link blocks}[index] in a timeline for those of its
+ * replacement, placed on the board at {@link board}.
+ *
+ * The block's window is rebuilt from the end of the previous block, along
+ * with the page clear in front of it; events after the window move by the
+ * change in its length.  If the replacement leaves the board cursor
+ * somewhere else, the later blocks are rebuilt behind it instead, reusing
+ * the audio and word timings of their narration, provided their events are
+ * still as generated.
+ *
+ * @throws {BlockLayoutConflictError} If later events that would be rebuilt
+ *   were moved, resized or deleted by hand.
+ */
+function replaceBlockEvents(
+  timeline: TimelineEvent[],
+  blocks: ExplanationBlock[],
+  index: number,
+  replacement: NarratedBlock,
+  board: BoardCursor,
+): TimelineEvent[] {
+  const original = blocks[index]!;
+  const earlier = new Set(blocks.slice(0, index).map((block) => block.id));
+  const later = blocks.slice(index + 1);
+
+  const previousEnd = Math.max(
+    0,
+    ...timeline
+      .filter((event) => event.payload.blockId && earlier.has(event.payload.blockId))
+      .map((event) => event.endTime),
+  );
+  const own = timeline.filter((event) => event.payload.blockId === original.id);
+  const oldStart = own.length > 0 ? Math.min(...own.map((event) => event.startTime)) : previousEnd;
+  const oldEnd = Math.max(previousEnd, ...own.map((event) => event.endTime));
+
+  const narrations = new Map<string, BlockNarration>();
+  if (replacement.narration) narrations.set(replacement.block.id, replacement.narration);
+  const step = buildTimelineFromBlocks(
+    [replacement.block],
+    { time: previousEnd, previous: blocks[index - 1] ?? null, board },
+    narrations,
+  );
+  const delta = step.cursor.time - oldEnd;
+
+  const isPageClear = (event: TimelineEvent): boolean =>
+    event.type === 'page_clear' && !event.payload.blockId;
+  const kept = timeline.filter(
+    (event) =>
+      event.payload.blockId !== original.id &&
+      !(isPageClear(event) && event.startTime >= previousEnd && event.startTime < oldStart),
+  );
+
+  const oldCursor = placeBoardBlock(original, board).cursor;
+  const sameLayout =
+    oldCursor.page === step.cursor.board.page &&
+    oldCursor.column === step.cursor.board.column &&
+    oldCursor.offset === step.cursor.board.offset;
+
+  if (sameLayout || later.length === 0) {
+    return [
+      ...kept.map((event) => (event.startTime >= oldEnd ? shiftEvent(event, delta) : event)),
+      ...step.events,
+    ];
+  }
+
+  const laterIds = new Set(later.map((block) => block.id));
+  const isLater = (event: TimelineEvent): boolean =>
+    (event.payload.blockId !== undefined && laterIds.has(event.payload.blockId)) ||
+    (isPageClear(event) && event.startTime >= oldEnd);
+  const recovered = recoverNarrations(timeline);
+
+  // Hand edits only move, resize or delete events, so the later events are
+  // untouched if generating them again behind the old block gives the same.
+  const generated = buildTimelineFromBlocks(
+    later,
+    { time: oldEnd, previous: original, board: oldCursor },
+    recovered,
+  );
+  if (!haveSameTiming(timeline.filter(isLater), generated.events)) {
+    throw new BlockLayoutConflictError(
+      'The new block moves later blocks on the board, and their timing was edited by hand',
+    );
+  }
+
+  const rebuilt = buildTimelineFromBlocks(later, step.cursor, recovered);
+
+  return [
+    ...kept
+      .filter((event) => !isLater(event))
+      .map((event) => (event.startTime >= oldEnd ? shiftEvent(event, delta) : event)),
+    ...step.events,
+    ...rebuilt.events,
+  ];
+}
+
+/**
+ * Move each `quiz_checkpoint` event to the end of the section its quiz
+ * checks, where {@link addQuizzes} put it, once the blocks around it were
+ * retimed.  Checkpoints of quizzes whose section is gone stay where they are.
+ */
+function anchorQuizCheckpoints(
+  explanation: ExplanationBlock[],
+  timeline: TimelineEvent[],
+  quizzes: ILessonQuiz[],
+): TimelineEvent[] {
+  const isCheckpoint = (event: TimelineEvent): boolean => event.type === 'quiz_checkpoint';
+  const { chapters } = createLinearChapterGraph(
+    explanation,
+    timeline.filter((event) => !isCheckpoint(event)),
+  );
+  const sectionEnds = new Map(chapters.map((chapter) => [chapter.id, chapter.endTime]));
+  const sectionIds = new Map(quizzes.map((quiz) => [quiz.id, quiz.sectionId]));
+
+  return timeline.map((event) => {
+    if (!isCheckpoint(event)) return event;
+    const end = sectionEnds.get(sectionIds.get(event.payload.quizId ?? '') ?? '');
+    return end === undefined ? event : { ...event, startTime: end, endTime: end };
+  });
+}
 
-    await lessonService.updateLessonContent(lessonId, result.explanation, result.timeline, {
-      estimatedDuration: result.estimatedDuration,
-      generationTime,
+/** Whether two sets of events have the same types and timing, in any order. */
+function haveSameTiming(a: TimelineEvent[], b: TimelineEvent[]): boolean {
+  const timing = (events: TimelineEvent[]): string[] =>
+    events
+      .map((event) =>
+        [
+          event.type,
+          event.payload.blockId ?? '',
+          Math.round(event.startTime),
+          Math.round(event.endTime),
+        ].join(':'),
+      )
+      .sort();
+
+  const left = timing(a);
+  const right = timing(b);
+  return left.length === right.length && left.every((key, i) => key === right[i]);
+}
+
+/**
+ * The synthesized narration of every block in a timeline, read back from
+ * its `narration_segment` events with word timings made relative again.
+ */
+function recoverNarrations(timeline: TimelineEvent[]): Map<string, BlockNarration> {
+  const narrations = new Map<string, BlockNarration>();
+
+  for (const event of timeline) {
+    const { blockId, audioUrl, wordTimings = [] } = event.payload;
+    if (event.type !== 'narration_segment' || !blockId || !audioUrl) continue;
+
+    narrations.set(blockId, {
+      audioUrl,
+      durationMs: event.endTime - event.startTime,
+      wordTimings: wordTimings.map((timing) => ({
+        ...timing,
+        startTime: timing.startTime - event.startTime,
+        endTime: timing.endTime - event.startTime,
+      })),
     });
-    await lessonService.updateLessonStatus(lessonId, 'ready');
+  }
 
-    logger.info('Lesson generation complete', {
-      lessonId,
-      blocks: result.explanation.length,
-      events: result.timeline.length,
-      durationMs: generationTime,
+  return narrations;
+}
+
+/** Move an event, and the word timings it carries, by {@link delta} ms. */
+function shiftEvent(event: TimelineEvent, delta: number): TimelineEvent {
+  return retimeEvent(event, event.startTime + delta, event.endTime + delta);
+}
+
+// ---------------------------------------------------------------------------
+// Asides
+// ---------------------------------------------------------------------------
+
+/**
+ * Ask the model for a short aside answering a follow-up question asked
+ * part-way through a lesson, showing it the blocks presented up to then.
+ *
+ * The aside is narrated and timed like a lesson of its own, on a fresh
+ * board, so the player can play it as a branch and return to the lesson.
+ *
+ * @throws {AsideGenerationError} If the model request fails or its answer
+ *   contains no block.
+ */
+export async function generateAside(
+  lesson: Lesson,
+  followUp: FollowUpQuestion,
+): Promise<AsideContent> {
+  const blocks = [...lesson.explanation].sort((a, b) => a.order - b.order);
+  const current = followUp.blockId ?? blockAtTime(lesson.timeline, followUp.timestamp);
+  const seen = blocks.slice(0, blocks.findIndex((block) => block.id === current) + 1);
+
+  const messages = buildAsidePrompt(
+    followUp.question,
+    {
+      lessonQuestion: lesson.question,
+      seen: seen.slice(-ASIDE_CONTEXT_SIZE).map(explanationBlockToMarkdown),
+    },
+    { difficulty: lesson.metadata.difficulty, language: lesson.metadata.language },
+  );
+
+  let text: string;
+  try {
+    text = await requestCompletion(messages);
+  } catch (err) {
+    throw new AsideGenerationError(
+      `Model request failed: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  const drafts = explanationToBlocks(parseRawExplanation(text)).slice(0, MAX_ASIDE_BLOCKS);
+  if (drafts.length === 0) {
+    throw new AsideGenerationError('Model response did not contain an answer');
+  }
+
+  const explanation: ExplanationBlock[] = [];
+  const narrations = new Map<string, BlockNarration>();
+  let board = INITIAL_BOARD_CURSOR;
+  for (const draft of drafts) {
+    const { block, narration } = await narrateBlock(lesson.id, draft, board, {
+      language: lesson.metadata.language,
     });
+    explanation.push(block);
+    if (narration) narrations.set(block.id, narration);
+    board = placeBoardBlock(block, board).cursor;
+  }
+
+  const { events } = buildTimelineFromBlocks(explanation, INITIAL_TIMELINE_CURSOR, narrations);
+  return { explanation, timeline: events };
+}
+
+/** The block presented at {@link time}, going by its `text_highlight` event. */
+function blockAtTime(timeline: TimelineEvent[], time: number): string | undefined {
+  return timeline
+    .filter((event) => event.type === 'text_highlight' && event.startTime <= time)
+    .reduce<TimelineEvent | undefined>(
+      (latest, event) => (!latest || event.startTime > latest.startTime ? event : latest),
+      undefined,
+    )?.payload.blockId;
+}
+
+// ---------------------------------------------------------------------------
+// Quizzes
+// ---------------------------------------------------------------------------
+
+/**
+ * Ask the model for a quiz on each section of a freshly generated lesson
+ * and add them, each with a `quiz_checkpoint` event at the end of its
+ * section.
+ *
+ * Sections run from heading to heading like the lesson's default chapters,
+ * so checkpoints fall where `quiz` edges of a chapter graph are followed.
+ * Quizzes are extras: if the model fails or writes none that can be used,
+ * the lesson goes without.
+ */
+async function addQuizzes(lessonId: string, signal?: AbortSignal): Promise<void> {
+  const lesson = await lessonService.getLessonById(lessonId);
+  if (!lesson) return;
+
+  const sections = splitSections(lesson);
+  const messages = buildQuizPrompt(
+    lesson.question,
+    sections.map((section) => ({
+      title: section.title,
+      content: section.blocks.map(explanationBlockToMarkdown).join('\n\n'),
+    })),
+    { difficulty: lesson.metadata.difficulty, language: lesson.metadata.language },
+  );
+
+  let text: string;
+  try {
+    text = await requestCompletion(messages, signal);
   } catch (err) {
-    await lessonService.updateLessonStatus(lessonId, 'error').catch(() => {});
-    logger.error('Lesson generation failed', {
+    signal?.throwIfAborted();
+    logger.warn('Quiz generation failed', {
       lessonId,
       error: err instanceof Error ? err.message : String(err),
     });
-    throw err;
+    return;
+  }
+
+  const quizzes: ILessonQuiz[] = [];
+  const checkpoints: TimelineEvent[] = [];
+  for (const generated of parseGeneratedQuizzes(text)) {
+    const section = sections[generated.section - 1];
+    if (!section || quizzes.some((quiz) => quiz.sectionId === section.id)) continue;
+
+    const quiz: ILessonQuiz =
+      generated.type === 'multiple_choice'
+        ? {
+            id: generateId('quiz'),
+            type: 'multiple_choice',
+            sectionId: section.id,
+            question: generated.question,
+            choices: generated.choices,
+            correctChoice: generated.answer,
+            explanation: generated.explanation,
+          }
+        : {
+            id: generateId('quiz'),
+            type: 'short_answer',
+            sectionId: section.id,
+            question: generated.question,
+            acceptedAnswers: generated.answers,
+            explanation: generated.explanation,
+          };
+    quizzes.push(quiz);
+    checkpoints.push(
+      createTimelineEvent('quiz_checkpoint', section.endTime, section.endTime, { quizId: quiz.id }),
+    );
   }
+
+  if (quizzes.length === 0) {
+    logger.warn('Model response did not contain any usable quiz', { lessonId });
+    return;
+  }
+
+  signal?.throwIfAborted();
+  await lessonService.addLessonQuizzes(lessonId, quizzes, checkpoints);
+  logger.info('Lesson quizzes generated', { lessonId, quizzes: quizzes.length });
+}
+
+/** Group a lesson's blocks into sections, one per chapter of its default graph. */
+function splitSections(lesson: Lesson): LessonSection[] {
+  const { chapters } = createLinearChapterGraph(lesson.explanation, lesson.timeline);
+  const sections: LessonSection[] = [];
+
+  for (const block of [...lesson.explanation].sort((a, b) => a.order - b.order)) {
+    const chapter = chapters.find((c) => c.id === block.id);
+    if (chapter) {
+      sections.push({ id: chapter.id, title: chapter.title, blocks: [], endTime: chapter.endTime });
+    }
+    sections.at(-1)?.blocks.push(block);
+  }
+
+  return sections;
+}
+
+/**
+ * Read the quizzes out of the model's answer, dropping malformed ones.
+ * Models like to wrap JSON in a code fence despite being told not to.
+ */
+function parseGeneratedQuizzes(text: string): GeneratedQuiz[] {
+  const json = text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return [];
+  }
+
+  const items = z.object({ quizzes: z.array(z.unknown()) }).safeParse(parsed);
+  if (!items.success) return [];
+
+  return items.data.quizzes.flatMap((item) => {
+    const quiz = generatedQuizSchema.safeParse(item);
+    if (!quiz.success) return [];
+    if (quiz.data.type === 'multiple_choice' && quiz.data.answer >= quiz.data.choices.length) {
+      return [];
+    }
+    return [quiz.data];
+  });
 }
 
 // ---------------------------------------------------------------------------
@@ -77,18 +795,93 @@ export async function generateLessonContent(lessonId: string): Promise<void> {
 // ---------------------------------------------------------------------------
 
 /**
- * Parse a raw explanation string through the engine pipeline and produce
- * explanation blocks + timeline events.
+ * Consume a stream of raw Markdown chunks, turning every block into
+ * explanation + timeline content as soon as the incremental parser reports
+ * it final.  Each block is narrated before it is published, and lasts at
+ * least as long as its audio and, for handwritten blocks, as long as writing
+ * it out takes.  Stops with the abort reason once
+ * {@link options.signal} fires.
+ *
+ * @returns Counts of the blocks and events produced.
+ * @throws  If the stream ends without producing any block.
+ */
+async function streamLesson(
+  lessonId: string,
+  chunks: AsyncIterable<string>,
+  options: { language?: string; signal?: AbortSignal },
+): Promise<{ blocks: number; events: number }> {
+  const { signal } = options;
+  let parseState = createStreamingParseState();
+  let cursor = INITIAL_TIMELINE_CURSOR;
+  let order = 0;
+  let eventCount = 0;
+
+  const emit = async (contentBlocks: ContentBlock[]): Promise<void> => {
+    for (const contentBlock of contentBlocks) {
+      // Never write into a lesson whose job was cancelled under us.
+      signal?.throwIfAborted();
+
+      const draft = contentBlockToExplanationBlock(contentBlock, order++);
+      const { block, narration } = await narrateBlock(lessonId, draft, cursor.board, options);
+
+      const narrations = new Map<string, BlockNarration>();
+      if (narration) narrations.set(block.id, narration);
+      const step = buildTimelineFromBlocks([block], cursor, narrations);
+      cursor = step.cursor;
+      eventCount += step.events.length;
+
+      await lessonService.appendLessonContent(lessonId, [block], step.events, cursor.time);
+      publishLessonEvent(lessonId, { type: 'block', block, events: step.events });
+    }
+  };
+
+  for await (const chunk of chunks) {
+    const step = appendStreamingChunk(parseState, chunk);
+    parseState = step.state;
+    await emit(step.blocks);
+  }
+
+  await emit(finishStreamingParse(parseState).blocks);
+
+  if (order === 0) {
+    throw new Error('LLM response did not contain any lesson content');
+  }
+
+  return { blocks: order, events: eventCount };
+}
+
+/**
+ * Synthesize a freshly generated block's narration and stretch the block to
+ * last at least as long as its audio and, for handwritten blocks, as long
+ * as writing it out at {@link board} takes.
  */
-function buildLessonFromRaw(rawExplanation: string): GenerationResult {
-  const parsed = parseRawExplanation(rawExplanation);
-  const blocks = explanationToBlocks(parsed);
-  const timeline = buildTimelineFromBlocks(blocks);
-  const estimatedDuration = timeline.length > 0
-    ? Math.max(...timeline.map((e) => e.endTime))
-    : 0;
+async function narrateBlock(
+  lessonId: string,
+  draft: ExplanationBlock,
+  board: BoardCursor,
+  options: { language?: string; signal?: AbortSignal },
+): Promise<NarratedBlock> {
+  const { placement } = placeBoardBlock(draft, board);
+  const diagramErrors = placement.diagram?.compiled.errors ?? [];
+  if (diagramErrors.length > 0) {
+    logger.warn('Diagram has invalid statements', {
+      lessonId,
+      blockId: draft.id,
+      errors: diagramErrors.map((error) => error.message),
+    });
+  }
+
+  const narration = await narrationService.synthesizeBlockNarration(lessonId, draft, options);
+  const block = {
+    ...draft,
+    duration: Math.max(
+      draft.duration,
+      narration?.durationMs ?? 0,
+      estimateBlockWriting(placement),
+    ),
+  };
 
-  return { explanation: blocks, timeline, estimatedDuration };
+  return { block, narration };
 }
 
 /**
@@ -96,94 +889,183 @@ function buildLessonFromRaw(rawExplanation: string): GenerationResult {
  *
  * For each block the function creates:
  * - A `text_highlight` event spanning the block's duration.
- * - A `cursor_move` event showing cursor activity.
- * - A `narration_segment` event for audio narration.
+ * - For blocks written by hand on the board — headings, key terms,
+ *   compiled diagrams and equations — `draw_stroke` events at the block's
+ *   board position, with `cursor_move` events following the pen.
+ *   Equations are written step by step, the cursor pointing at each line.
+ * - For code blocks, a `code_focus` event per walkthrough step, timed to
+ *   the narration of the step, with the cursor pointing at its lines.
+ *   The cursor follows other blocks line by line as they type in.
+ * - A `page_clear` event before a block that starts on a fresh page of the
+ *   board, delaying the block while the board is wiped.
+ * - A `narration_segment` event narrating {@link getBlockNarrationText},
+ *   carrying the block's audio URL (when synthesized) and word timings on
+ *   the timeline clock.  Blocks without audio get timings estimated from
+ *   word lengths.
  *
- * Transition delays between blocks are inserted automatically.
+ * Transition delays between blocks are inserted automatically.  Pass the
+ * cursor returned by a previous call to continue an existing timeline.
  */
-function buildTimelineFromBlocks(blocks: ExplanationBlock[]): TimelineEvent[] {
+function buildTimelineFromBlocks(
+  blocks: ExplanationBlock[],
+  start: TimelineCursor = INITIAL_TIMELINE_CURSOR,
+  narrations: ReadonlyMap<string, BlockNarration> = new Map(),
+): TimelineBuildStep {
   const events: TimelineEvent[] = [];
-  let cursor = 0;
-
-  for (let i = 0; i < blocks.length; i++) {
-    const block = blocks[i]!;
+  let cursor = start.time;
+  let prevBlock = start.previous;
+  let board = start.board;
 
-    if (i > 0) {
-      const prevBlock = blocks[i - 1]!;
+  for (const block of blocks) {
+    if (prevBlock) {
       const delay = calculateTransitionDelay(prevBlock.type, block.type);
       cursor += delay;
     }
 
+    const step = placeBoardBlock(block, board);
+    const firstPage = measurePlacement(step.placement)[0]?.page ?? board.page;
+    if (firstPage > board.page) {
+      events.push(createPageClearEvent(firstPage, cursor));
+      cursor += PAGE_CLEAR_DURATION;
+    }
+    board = step.cursor;
+
     const startTime = cursor;
     const endTime = cursor + block.duration;
 
     events.push(
       createTimelineEvent('text_highlight', startTime, endTime, {
         text: block.content,
+        blockId: block.id,
       }),
     );
 
-    events.push(
-      createTimelineEvent('cursor_move', startTime, endTime, {
-        position: { x: 100, y: 80 + block.order * 60 },
-      }),
-    );
+    const narration = narrations.get(block.id);
+    const narrationText = getBlockNarrationText(block);
+    const wordTimings = narration
+      ? narration.wordTimings.map((timing) => ({
+          ...timing,
+          startTime: startTime + timing.startTime,
+          endTime: startTime + timing.endTime,
+        }))
+      : estimateWordTimings(narrationText, startTime, endTime);
+
+    const { diagram, equation } = step.placement;
+    if (diagram) {
+      events.push(
+        ...createDiagramEvents(diagram.compiled, diagram, startTime, {
+          maxDuration: block.duration,
+          blockId: block.id,
+        }).events,
+      );
+    } else if (equation) {
+      events.push(
+        ...createEquationEvents(equation.typeset, equation, startTime, {
+          mode: 'steps',
+          maxDuration: block.duration,
+          blockId: block.id,
+        }).events,
+      );
+    } else if (step.placement.handwritten) {
+      events.push(
+        ...createHandwritingEvents(writeBlockLines(step.placement), startTime, {
+          maxDuration: block.duration,
+          blockId: block.id,
+        }).events,
+      );
+    } else if (block.type === 'code') {
+      const focus = createCodeFocusEvents(
+        planCodeWalkthrough(block.content, block.language),
+        startTime,
+        endTime,
+        { blockId: block.id, wordTimings },
+      );
+      events.push(
+        ...focus,
+        ...focus.flatMap((event) => pointAtCodeLines(block, step.placement, event)),
+      );
+    } else {
+      events.push(
+        ...createCursorTargetEvents(step.placement, startTime, endTime, { blockId: block.id }),
+      );
+    }
 
     events.push(
       createTimelineEvent('narration_segment', startTime, endTime, {
-        text: block.content,
+        text: narrationText,
+        blockId: block.id,
+        audioUrl: narration?.audioUrl,
+        wordTimings,
       }),
     );
 
     cursor = endTime;
+    prevBlock = block;
   }
 
-  return events;
+  return { events, cursor: { time: cursor, previous: prevBlock, board } };
 }
 
-// ---------------------------------------------------------------------------
-// LLM Simulation (replaced by real API in production)
-// ---------------------------------------------------------------------------
+/**
+ * Complete {@link messages} with the configured model, retrying transient
+ * failures.
+ */
+async function requestCompletion(messages: LLMMessage[], signal?: AbortSignal): Promise<string> {
+  const provider = getLLMProvider();
+  const { text } = await withRetry(
+    () => provider.complete({ messages, maxTokens: getConfig().LLM_MAX_TOKENS, signal }),
+    { maxRetries: 2, baseDelayMs: 500, shouldRetry: isRetryableLLMError },
+  );
+  return text;
+}
 
 /**
- * Simulate an LLM response for a given question.
- *
- * In production this function will call the configured LLM API with retry
- * logic.  The current implementation returns a structured Markdown
- * explanation so the full engine pipeline can be exercised.
+ * Pen strokes for a handwritten block's lines, bullets included, in the
+ * block's text style.
  */
-async function simulateLLMResponse(question: string): Promise<string> {
-  await sleep(50);
+function writeBlockLines(placement: BoardPlacement): HandwrittenLine[] {
+  const { fontSize, color } = placement.style;
 
-  const topic = question.replace(/\?$/, '').trim();
+  return placement.lines.flatMap((line) => [
+    ...(line.bullet
+      ? [handwriteText(line.bullet, { x: line.bulletX, y: line.y }, { fontSize, color })]
+      : []),
+    handwriteText(line.text, { x: line.x, y: line.y }, { fontSize, color }),
+  ]);
+}
+
+/**
+ * A `cursor_move` pointing at the first board line of the code lines a
+ * `code_focus` event is about, for as long as they are in focus.
+ */
+function pointAtCodeLines(
+  block: ExplanationBlock,
+  placement: BoardPlacement,
+  focus: TimelineEvent,
+): TimelineEvent[] {
+  const range = focus.payload.lines;
+  const line = range ? getBoardLinesInRange(placement, block.content, range)[0] : undefined;
+  if (!line) return [];
 
   return [
-    `# ${topic}`,
-    '',
-    `Let's explore this topic step by step. ${topic} is a fundamental concept that we can break down into clear, understandable parts.`,
-    '',
-    '## Key Concepts',
-    '',
-    `- The core idea behind ${topic.toLowerCase()} is built on foundational principles`,
-    `- Understanding the underlying mechanics helps build intuition`,
-    `- Practical applications reinforce theoretical knowledge`,
-    '',
-    '## Detailed Explanation',
-    '',
-    `To understand ${topic.toLowerCase()}, we start with the basics. Every complex concept is built from simpler building blocks that connect in meaningful ways.`,
-    '',
-    `The relationship between these components is what gives ${topic.toLowerCase()} its power and elegance. By examining each piece individually, we can see how they fit together.`,
-    '',
-    '## Summary',
-    '',
-    `In summary, ${topic.toLowerCase()} is a rich topic that combines several interrelated ideas. The key takeaway is that understanding the fundamentals provides a strong foundation for more advanced exploration.`,
-  ].join('\n');
+    createTimelineEvent('cursor_move', focus.startTime, focus.endTime, {
+      blockId: block.id,
+      position: {
+        x: line.x - CODE_POINTER_OFFSET,
+        y: line.y + (placement.style.fontSize * placement.style.lineHeight) / 2,
+      },
+    }),
+  ];
 }
 
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
+/** Natural writing time (ms) of a block, or 0 for blocks that are typed in. */
+function estimateBlockWriting(placement: BoardPlacement): number {
+  if (placement.diagram) return estimateDiagramDuration(placement.diagram.compiled);
+  if (placement.equation) return estimateEquationDuration(placement.equation.typeset, 'steps');
+  if (!placement.handwritten) return 0;
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+  return estimateHandwritingDuration(
+    placement.lines.flatMap((line) => (line.bullet ? [line.bullet, line.text] : [line.text])),
+    placement.style.fontSize,
+  );
 }
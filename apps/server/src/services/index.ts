@@ -1,2 +1,13 @@
 export * as lessonService from './lesson';
 export * as generationService from './generation';
+export * as lessonEvents from './lesson-events';
+export * as jobService from './jobs';
+export * as progressService from './progress';
+export * as narrationService from './narration';
+export * as exportService from './export';
+export * as packageService from './package';
+export * as timelineService from './timeline';
+export * as revisionService from './revision';
+export * as asideService from './aside';
+export * as quizService from './quiz';
+export * as reviewService from './review';
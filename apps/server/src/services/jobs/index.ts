@@ -0,0 +1,59 @@
+import type { JobType } from '@classflowai/types';
+import { getConfig } from '../../config';
+import { isDatabaseConnected } from '../../db';
+import * as generationService from '../generation';
+import * as exportService from '../export';
+import { isRetryableLLMError } from '../llm';
+import { createJobQueue } from './queue';
+import type { JobQueue, JobHandler } from './queue';
+import { createMongoJobStore } from './mongo-store';
+import { createMemoryJobStore } from './memory-store';
+
+export { createJobQueue } from './queue';
+export type { JobQueue, JobQueueOptions, JobHandler } from './queue';
+export type { JobStore, CreateJobInput } from './store';
+export { createMongoJobStore } from './mongo-store';
+export { createMemoryJobStore } from './memory-store';
+
+// ---------------------------------------------------------------------------
+// Handlers
+// ---------------------------------------------------------------------------
+
+const handlers: Record<JobType, JobHandler> = {
+  lesson_generation: {
+    run: (job, signal) => generationService.generateLessonContent(job.lessonId, signal),
+    shouldRetry: isRetryableLLMError,
+    onFailed: (job, error) => generationService.markGenerationFailed(job.lessonId, error),
+  },
+  lesson_export: {
+    run: (job, signal) => exportService.exportLessonVideo(job, signal),
+    shouldRetry: exportService.isRetryableExportError,
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Queue selection
+// ---------------------------------------------------------------------------
+
+let cachedQueue: JobQueue | null = null;
+
+/**
+ * Return the process-wide {@link JobQueue}, creating it on first use.
+ *
+ * Jobs are kept in MongoDB when it is connected and in memory otherwise, so
+ * call this after the database connection has been attempted.
+ */
+export function getJobQueue(): JobQueue {
+  if (!cachedQueue) {
+    const config = getConfig();
+    cachedQueue = createJobQueue({
+      store: isDatabaseConnected() ? createMongoJobStore() : createMemoryJobStore(),
+      handlers,
+      concurrency: config.JOB_CONCURRENCY,
+      maxAttempts: config.JOB_MAX_ATTEMPTS,
+      pollIntervalMs: config.JOB_POLL_INTERVAL_MS,
+      staleAfterMs: config.JOB_STALE_AFTER_MS,
+    });
+  }
+  return cachedQueue;
+}
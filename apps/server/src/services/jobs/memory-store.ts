@@ -0,0 +1,121 @@
+import type { Job, JobType } from '@classflowai/types';
+import { generateId } from '@classflowai/utils';
+import type { JobStore, CreateJobInput } from './store';
+
+// ---------------------------------------------------------------------------
+// In-memory store
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a process-local {@link JobStore}.
+ *
+ * Used when MongoDB is not connected.  Jobs do not survive a restart, so
+ * this store only suits development and single-instance setups.
+ */
+export function createMemoryJobStore(): JobStore {
+  const jobs = new Map<string, Job>();
+
+  const update = (id: string, from: Job['status'][], patch: Partial<Job>): Job | null => {
+    const job = jobs.get(id);
+    if (!job || !from.includes(job.status)) return null;
+
+    const next: Job = { ...job, ...patch, updatedAt: new Date() };
+    jobs.set(id, next);
+    return { ...next };
+  };
+
+  return {
+    async create(input: CreateJobInput): Promise<Job> {
+      const now = new Date();
+      const job: Job = {
+        id: generateId('job'),
+        ...input,
+        status: 'queued',
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      jobs.set(job.id, job);
+      return { ...job };
+    },
+
+    async findById(id: string): Promise<Job | null> {
+      const job = jobs.get(id);
+      return job ? { ...job } : null;
+    },
+
+    async findActiveByLesson(lessonId: string, type: JobType): Promise<Job | null> {
+      for (const job of jobs.values()) {
+        if (job.lessonId !== lessonId || job.type !== type) continue;
+        if (job.status === 'queued' || job.status === 'running') return { ...job };
+      }
+      return null;
+    },
+
+    async claimNext(): Promise<Job | null> {
+      // Map iteration follows insertion order, i.e. oldest first.
+      for (const job of jobs.values()) {
+        if (job.status === 'queued') {
+          return update(job.id, ['queued'], { status: 'running', lockedAt: new Date() });
+        }
+      }
+      return null;
+    },
+
+    async recordAttempt(id: string): Promise<Job | null> {
+      const job = jobs.get(id);
+      if (!job) return null;
+      return update(id, ['running'], { attempts: job.attempts + 1, lockedAt: new Date() });
+    },
+
+    async heartbeat(ids: string[]): Promise<void> {
+      const now = new Date();
+      for (const id of ids) {
+        update(id, ['running'], { lockedAt: now });
+      }
+    },
+
+    async complete(id: string): Promise<void> {
+      update(id, ['running'], { status: 'completed', completedAt: new Date(), lockedAt: undefined });
+    },
+
+    async fail(id: string, error: string): Promise<void> {
+      update(id, ['running'], {
+        status: 'failed',
+        lastError: error,
+        completedAt: new Date(),
+        lockedAt: undefined,
+      });
+    },
+
+    async release(id: string): Promise<void> {
+      update(id, ['running'], { status: 'queued', lockedAt: undefined });
+    },
+
+    async cancelByLesson(lessonId: string, type: JobType): Promise<Job[]> {
+      const cancelled: Job[] = [];
+      for (const job of jobs.values()) {
+        if (job.lessonId !== lessonId || job.type !== type) continue;
+        const previous = { ...job };
+        const next = update(job.id, ['queued', 'running'], {
+          status: 'cancelled',
+          completedAt: new Date(),
+          lockedAt: undefined,
+        });
+        if (next) cancelled.push(previous);
+      }
+      return cancelled;
+    },
+
+    async recoverStale(lockedBefore: Date): Promise<number> {
+      let recovered = 0;
+      for (const job of jobs.values()) {
+        if (job.status === 'running' && job.lockedAt && job.lockedAt < lockedBefore) {
+          update(job.id, ['running'], { status: 'queued', lockedAt: undefined });
+          recovered++;
+        }
+      }
+      return recovered;
+    },
+  };
+}
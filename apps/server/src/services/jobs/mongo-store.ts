@@ -0,0 +1,132 @@
+import mongoose from 'mongoose';
+import type { Job, JobType } from '@classflowai/types';
+import { JobModel } from '../../models/JobModel';
+import type { IJobLean } from '../../models/JobModel';
+import type { JobStore, CreateJobInput } from './store';
+
+// ---------------------------------------------------------------------------
+// Type conversion helpers
+// ---------------------------------------------------------------------------
+
+function toJob(doc: IJobLean): Job {
+  return {
+    id: doc._id.toHexString(),
+    type: doc.type,
+    lessonId: doc.lessonId,
+    status: doc.status,
+    attempts: doc.attempts,
+    maxAttempts: doc.maxAttempts,
+    lastError: doc.lastError,
+    params: doc.params,
+    lockedAt: doc.lockedAt,
+    completedAt: doc.completedAt,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Mongo store
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a {@link JobStore} backed by the `jobs` collection.  Jobs survive
+ * restarts, and claims are atomic across server instances.
+ */
+export function createMongoJobStore(): JobStore {
+  return {
+    async create(input: CreateJobInput): Promise<Job> {
+      const doc = await JobModel.create({ ...input, status: 'queued', attempts: 0 });
+      return toJob(doc.toObject());
+    },
+
+    async findById(id: string): Promise<Job | null> {
+      if (!mongoose.Types.ObjectId.isValid(id)) return null;
+      const doc = await JobModel.findById(id).lean<IJobLean>();
+      return doc ? toJob(doc) : null;
+    },
+
+    async findActiveByLesson(lessonId: string, type: JobType): Promise<Job | null> {
+      const doc = await JobModel.findOne({
+        lessonId,
+        type,
+        status: { $in: ['queued', 'running'] },
+      }).lean<IJobLean>();
+      return doc ? toJob(doc) : null;
+    },
+
+    async claimNext(): Promise<Job | null> {
+      const doc = await JobModel.findOneAndUpdate(
+        { status: 'queued' },
+        { $set: { status: 'running', lockedAt: new Date() } },
+        { sort: { createdAt: 1 }, new: true },
+      ).lean<IJobLean>();
+      return doc ? toJob(doc) : null;
+    },
+
+    async recordAttempt(id: string): Promise<Job | null> {
+      const doc = await JobModel.findOneAndUpdate(
+        { _id: id, status: 'running' },
+        { $inc: { attempts: 1 }, $set: { lockedAt: new Date() } },
+        { new: true },
+      ).lean<IJobLean>();
+      return doc ? toJob(doc) : null;
+    },
+
+    async heartbeat(ids: string[]): Promise<void> {
+      if (ids.length === 0) return;
+      await JobModel.updateMany(
+        { _id: { $in: ids }, status: 'running' },
+        { $set: { lockedAt: new Date() } },
+      );
+    },
+
+    async complete(id: string): Promise<void> {
+      await JobModel.updateOne(
+        { _id: id, status: 'running' },
+        { $set: { status: 'completed', completedAt: new Date() }, $unset: { lockedAt: 1 } },
+      );
+    },
+
+    async fail(id: string, error: string): Promise<void> {
+      await JobModel.updateOne(
+        { _id: id, status: 'running' },
+        {
+          $set: { status: 'failed', lastError: error, completedAt: new Date() },
+          $unset: { lockedAt: 1 },
+        },
+      );
+    },
+
+    async release(id: string): Promise<void> {
+      await JobModel.updateOne(
+        { _id: id, status: 'running' },
+        { $set: { status: 'queued' }, $unset: { lockedAt: 1 } },
+      );
+    },
+
+    async cancelByLesson(lessonId: string, type: JobType): Promise<Job[]> {
+      const active = await JobModel.find({
+        lessonId,
+        type,
+        status: { $in: ['queued', 'running'] },
+      }).lean<IJobLean[]>();
+      if (active.length === 0) return [];
+
+      await JobModel.updateMany(
+        { _id: { $in: active.map((doc) => doc._id) }, status: { $in: ['queued', 'running'] } },
+        { $set: { status: 'cancelled', completedAt: new Date() }, $unset: { lockedAt: 1 } },
+      );
+
+      return active.map(toJob);
+    },
+
+    async recoverStale(lockedBefore: Date): Promise<number> {
+      const result = await JobModel.updateMany(
+        { status: 'running', lockedAt: { $lt: lockedBefore } },
+        { $set: { status: 'queued' }, $unset: { lockedAt: 1 } },
+      );
+      return result.modifiedCount;
+    },
+  };
+}
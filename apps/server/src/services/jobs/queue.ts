@@ -0,0 +1,268 @@
+import type { Job, JobParams, JobType } from '@classflowai/types';
+import { logger } from '@classflowai/utils';
+import { withRetry } from '../../utils';
+import type { JobStore } from './store';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Work performed for one job type.
+ *
+ * `run` is called once per attempt and should honour {@link AbortSignal}: the
+ * signal fires when the job is cancelled or the queue shuts down.
+ */
+export interface JobHandler {
+  run(job: Job, signal: AbortSignal): Promise<void>;
+  /** Return `false` to fail the job without using its remaining attempts. */
+  shouldRetry?(error: Error): boolean;
+  /** Called once a job has failed for good. */
+  onFailed?(job: Job, error: Error): Promise<void>;
+}
+
+export interface JobQueueOptions {
+  store: JobStore;
+  handlers: Record<JobType, JobHandler>;
+  /** Maximum number of jobs running at once in this process. */
+  concurrency: number;
+  /** Attempts given to newly enqueued jobs. */
+  maxAttempts: number;
+  /** How often the store is polled for queued jobs. */
+  pollIntervalMs: number;
+  /** A running job whose lock is older than this is presumed abandoned. */
+  staleAfterMs: number;
+  /** Base delay of the exponential backoff between attempts. */
+  retryBaseDelayMs?: number;
+}
+
+export interface JobQueue {
+  /** Queue a job for a lesson. */
+  enqueue(type: JobType, lessonId: string, params?: JobParams): Promise<Job>;
+  /** Look up a job by ID, whatever its status. */
+  getJob(id: string): Promise<Job | null>;
+  /** Return the lesson's queued or running job of {@link type}, if any. */
+  getActiveJob(lessonId: string, type: JobType): Promise<Job | null>;
+  /**
+   * Cancel the lesson's active job of {@link type}, aborting it if it is
+   * running here, and wait for its worker to wind down.
+   *
+   * @returns `true` if a job was cancelled.
+   */
+  cancel(lessonId: string, type: JobType): Promise<boolean>;
+  /** Requeue abandoned jobs, then start polling for work. */
+  start(): Promise<void>;
+  /** Stop polling and hand jobs running here back to the queue. */
+  stop(): Promise<void>;
+}
+
+interface RunningJob {
+  job: Job;
+  controller: AbortController;
+  done: Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** Thrown inside a worker once its job has been cancelled. */
+class JobAbortedError extends Error {
+  constructor() {
+    super('Job aborted');
+    this.name = 'JobAbortedError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Queue
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a polling job queue on top of a {@link JobStore}.
+ *
+ * Each claimed job runs its handler under {@link withRetry}; every attempt
+ * is counted in the store first, so a job picked up again after a crash
+ * only gets the attempts it has left.  A heartbeat keeps the locks of
+ * running jobs fresh, which lets {@link JobQueue.start} (and every later
+ * poll) tell jobs abandoned by a dead process apart from live ones.
+ */
+export function createJobQueue(options: JobQueueOptions): JobQueue {
+  const { store, handlers, concurrency, maxAttempts, pollIntervalMs, staleAfterMs } = options;
+  const retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+
+  const running = new Map<string, RunningJob>();
+  let pollTimer: NodeJS.Timeout | undefined;
+  let heartbeatTimer: NodeJS.Timeout | undefined;
+  let polling = false;
+  let stopped = true;
+
+  // -------------------------------------------------------------------------
+  // Workers
+  // -------------------------------------------------------------------------
+
+  async function execute(job: Job, signal: AbortSignal): Promise<void> {
+    const handler = handlers[job.type];
+    const remaining = job.maxAttempts - job.attempts;
+
+    try {
+      if (remaining <= 0) {
+        throw new Error(job.lastError ?? 'No attempts left');
+      }
+
+      await withRetry(
+        async () => {
+          if (signal.aborted) throw new JobAbortedError();
+          const attempt = await store.recordAttempt(job.id);
+          if (!attempt) throw new JobAbortedError();
+          await handler.run(attempt, signal);
+        },
+        {
+          maxRetries: remaining - 1,
+          baseDelayMs: retryBaseDelayMs,
+          maxDelayMs: 60_000,
+          shouldRetry: (error) =>
+            !signal.aborted && (handler.shouldRetry ? handler.shouldRetry(error) : true),
+        },
+      );
+
+      await store.complete(job.id);
+      logger.info('Job completed', { jobId: job.id, type: job.type, lessonId: job.lessonId });
+    } catch (err) {
+      // Cancellation and shutdown already moved the job out of `running`.
+      if (signal.aborted) return;
+
+      const error = err instanceof Error ? err : new Error(String(err));
+      await store.fail(job.id, error.message);
+      logger.error('Job failed', {
+        jobId: job.id,
+        type: job.type,
+        lessonId: job.lessonId,
+        error: error.message,
+      });
+      await handler.onFailed?.(job, error);
+    }
+  }
+
+  function launch(job: Job): void {
+    const controller = new AbortController();
+    const done = execute(job, controller.signal)
+      .catch((err: unknown) => {
+        logger.error('Job worker crashed', {
+          jobId: job.id,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      })
+      .finally(() => {
+        running.delete(job.id);
+        void poll();
+      });
+
+    running.set(job.id, { job, controller, done });
+  }
+
+  async function poll(): Promise<void> {
+    if (stopped || polling) return;
+    polling = true;
+
+    try {
+      await store.recoverStale(new Date(Date.now() - staleAfterMs));
+
+      while (!stopped && running.size < concurrency) {
+        const job = await store.claimNext();
+        if (!job) break;
+        launch(job);
+      }
+    } catch (err) {
+      logger.error('Job queue poll failed', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      polling = false;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Public API
+  // -------------------------------------------------------------------------
+
+  return {
+    async enqueue(type: JobType, lessonId: string, params?: JobParams): Promise<Job> {
+      const job = await store.create({
+        type,
+        lessonId,
+        maxAttempts,
+        ...(params ? { params } : {}),
+      });
+      logger.info('Job queued', { jobId: job.id, type, lessonId });
+      void poll();
+      return job;
+    },
+
+    getJob(id: string): Promise<Job | null> {
+      return store.findById(id);
+    },
+
+    getActiveJob(lessonId: string, type: JobType): Promise<Job | null> {
+      return store.findActiveByLesson(lessonId, type);
+    },
+
+    async cancel(lessonId: string, type: JobType): Promise<boolean> {
+      const cancelled = await store.cancelByLesson(lessonId, type);
+
+      await Promise.all(
+        cancelled.map((job) => {
+          const active = running.get(job.id);
+          if (!active) return undefined;
+          active.controller.abort();
+          return active.done;
+        }),
+      );
+
+      if (cancelled.length > 0) {
+        logger.info('Jobs cancelled', { lessonId, type, jobs: cancelled.map((job) => job.id) });
+      }
+
+      return cancelled.length > 0;
+    },
+
+    async start(): Promise<void> {
+      if (!stopped) return;
+      stopped = false;
+
+      // Whatever a previous process left `running` without a fresh lock will
+      // never finish; put it back in the queue before taking new work.
+      const recovered = await store.recoverStale(new Date(Date.now() - staleAfterMs));
+      if (recovered > 0) {
+        logger.warn('Recovered stale jobs', { count: recovered });
+      }
+
+      pollTimer = setInterval(() => void poll(), pollIntervalMs);
+      heartbeatTimer = setInterval(() => {
+        store.heartbeat([...running.keys()]).catch((err: unknown) => {
+          logger.error('Job heartbeat failed', {
+            error: err instanceof Error ? err.message : String(err),
+          });
+        });
+      }, Math.max(1000, Math.floor(staleAfterMs / 3)));
+
+      logger.info('Job queue started', { concurrency, maxAttempts });
+      await poll();
+    },
+
+    async stop(): Promise<void> {
+      stopped = true;
+      clearInterval(pollTimer);
+      clearInterval(heartbeatTimer);
+
+      const active = [...running.values()];
+      await Promise.all(
+        active.map(async ({ job, controller, done }) => {
+          await store.release(job.id);
+          controller.abort();
+          await done;
+        }),
+      );
+    },
+  };
+}
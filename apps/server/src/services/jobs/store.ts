@@ -0,0 +1,71 @@
+import type { Job, JobParams, JobType } from '@classflowai/types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CreateJobInput {
+  type: JobType;
+  lessonId: string;
+  maxAttempts: number;
+  params?: JobParams;
+}
+
+/**
+ * Persistence contract for the job queue.
+ *
+ * Every state transition is conditional on the job's current status so that
+ * concurrent workers (or a cancellation racing a worker) never overwrite
+ * each other: a call that finds the job in an unexpected state is a no-op.
+ */
+export interface JobStore {
+  /** Insert a new job in `queued` status. */
+  create(input: CreateJobInput): Promise<Job>;
+
+  /** Look up a job by ID. */
+  findById(id: string): Promise<Job | null>;
+
+  /** Return the lesson's `queued` or `running` job of {@link type}, if any. */
+  findActiveByLesson(lessonId: string, type: JobType): Promise<Job | null>;
+
+  /**
+   * Atomically move the oldest `queued` job to `running` and lock it.
+   *
+   * @returns The claimed job, or `null` when the queue is empty.
+   */
+  claimNext(): Promise<Job | null>;
+
+  /**
+   * Count an attempt against a `running` job and refresh its lock.
+   *
+   * @returns The updated job, or `null` if it is no longer running.
+   */
+  recordAttempt(id: string): Promise<Job | null>;
+
+  /** Refresh the lock of every listed job that is still `running`. */
+  heartbeat(ids: string[]): Promise<void>;
+
+  /** Mark a `running` job `completed`. */
+  complete(id: string): Promise<void>;
+
+  /** Mark a `running` job `failed`, keeping the last error message. */
+  fail(id: string, error: string): Promise<void>;
+
+  /** Put a `running` job back in the queue without changing its attempts. */
+  release(id: string): Promise<void>;
+
+  /**
+   * Cancel every `queued` or `running` job of {@link type} for a lesson.
+   *
+   * @returns The jobs that were cancelled.
+   */
+  cancelByLesson(lessonId: string, type: JobType): Promise<Job[]>;
+
+  /**
+   * Requeue `running` jobs whose lock is older than {@link lockedBefore};
+   * their worker is presumed dead.
+   *
+   * @returns The number of jobs requeued.
+   */
+  recoverStale(lockedBefore: Date): Promise<number>;
+}
@@ -0,0 +1,44 @@
+import { EventEmitter } from 'node:events';
+import type { LessonStreamEvent } from '@classflowai/types';
+
+// ---------------------------------------------------------------------------
+// Emitter
+// ---------------------------------------------------------------------------
+
+/**
+ * Process-local fan-out of generation progress, keyed by lesson ID.
+ *
+ * The generation pipeline publishes here and every open
+ * `GET /lessons/:id/stream` connection subscribes.  Subscribers that connect
+ * late catch up from the stored lesson, so nothing is buffered here.
+ */
+const emitter = new EventEmitter();
+
+// One listener per open SSE connection; the default cap of 10 is too low.
+emitter.setMaxListeners(0);
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Publish an event to every subscriber of {@link lessonId}.
+ */
+export function publishLessonEvent(lessonId: string, event: LessonStreamEvent): void {
+  emitter.emit(lessonId, event);
+}
+
+/**
+ * Subscribe to events for {@link lessonId}.
+ *
+ * @returns A function that removes the subscription.
+ */
+export function subscribeToLesson(
+  lessonId: string,
+  listener: (event: LessonStreamEvent) => void,
+): () => void {
+  emitter.on(lessonId, listener);
+  return () => {
+    emitter.off(lessonId, listener);
+  };
+}
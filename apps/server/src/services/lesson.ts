@@ -1,6 +1,16 @@
 import mongoose from 'mongoose';
-import type { Lesson, LessonStatus, ExplanationBlock, TimelineEvent, LessonMetadata } from '@classflowai/types';
-import { LessonModel, ILessonLean } from '../models/LessonModel';
+import type {
+  ChapterGraph,
+  Lesson,
+  LessonStatus,
+  ExplanationBlock,
+  TimelineEvent,
+  LessonMetadata,
+  LessonGenerationOptions,
+  LessonQuiz,
+} from '@classflowai/types';
+import { LessonModel } from '../models/LessonModel';
+import type { ILessonLean, ILessonQuiz } from '../models/LessonModel';
 
 // ---------------------------------------------------------------------------
 // Type conversion helpers
@@ -9,27 +19,44 @@ import { LessonModel, ILessonLean } from '../models/LessonModel';
 function toLesson(doc: ILessonLean): Lesson {
   return {
     id: doc._id.toHexString(),
+    userId: doc.userId,
     question: doc.question,
     explanation: doc.explanation,
     timeline: doc.timeline,
     status: doc.status,
     metadata: doc.metadata,
+    ...(doc.chapters ? { chapters: doc.chapters } : {}),
+    ...(doc.quizzes?.length ? { quizzes: doc.quizzes.map(toLessonQuiz) } : {}),
     createdAt: doc.createdAt,
     updatedAt: doc.updatedAt,
   };
 }
 
+/** A quiz without its answer key, as clients see it. */
+function toLessonQuiz(quiz: ILessonQuiz): LessonQuiz {
+  return {
+    id: quiz.id,
+    type: quiz.type,
+    sectionId: quiz.sectionId,
+    question: quiz.question,
+    ...(quiz.choices ? { choices: quiz.choices } : {}),
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Service functions
 // ---------------------------------------------------------------------------
 
 /**
  * Create a new lesson in `pending` status.
+ *
+ * Generation options are persisted on the lesson metadata so the generation
+ * pipeline can honour them when it runs later.
  */
 export async function createLesson(
   question: string,
   userId: string = 'anonymous',
-  difficulty?: LessonMetadata['difficulty'],
+  options: LessonGenerationOptions = {},
 ): Promise<Lesson> {
   const lesson = await LessonModel.create({
     userId,
@@ -39,7 +66,9 @@ export async function createLesson(
     status: 'pending',
     metadata: {
       subject: undefined,
-      difficulty,
+      difficulty: options.difficulty,
+      language: options.language,
+      maxDuration: options.maxDuration,
       estimatedDuration: 0,
       generationTime: 0,
     },
@@ -83,13 +112,15 @@ export async function updateLessonStatus(id: string, status: LessonStatus): Prom
 
 /**
  * Patch a lesson with generated content (explanation blocks, timeline events,
- * metadata).
+ * metadata).  Its quizzes are replaced too when {@link quizzes} is given,
+ * and otherwise left as they are.
  */
 export async function updateLessonContent(
   id: string,
   explanation: ExplanationBlock[],
   timeline: TimelineEvent[],
   metadata: Partial<LessonMetadata>,
+  quizzes?: ILessonQuiz[],
 ): Promise<Lesson | null> {
   if (!mongoose.Types.ObjectId.isValid(id)) {
     return null;
@@ -105,6 +136,183 @@ export async function updateLessonContent(
         'metadata.generationTime': metadata.generationTime,
         'metadata.subject': metadata.subject,
         'metadata.difficulty': metadata.difficulty,
+        ...(quizzes ? { quizzes } : {}),
+        updatedAt: new Date(),
+      },
+    },
+    { new: true },
+  ).lean();
+
+  if (!doc) return null;
+
+  return toLesson(doc);
+}
+
+/**
+ * Replace a lesson's timeline, e.g. after hand edits, keeping its blocks.
+ */
+export async function updateLessonTimeline(
+  id: string,
+  timeline: TimelineEvent[],
+  estimatedDuration: number,
+): Promise<Lesson | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const doc = await LessonModel.findByIdAndUpdate(
+    id,
+    {
+      $set: {
+        timeline,
+        'metadata.estimatedDuration': estimatedDuration,
+        updatedAt: new Date(),
+      },
+    },
+    { new: true },
+  ).lean();
+
+  if (!doc) return null;
+
+  return toLesson(doc);
+}
+
+/**
+ * Replace a lesson's chapter graph, or remove it with `null` so the lesson
+ * plays straight through.
+ */
+export async function updateLessonChapters(
+  id: string,
+  chapters: ChapterGraph | null,
+): Promise<Lesson | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const doc = await LessonModel.findByIdAndUpdate(
+    id,
+    chapters
+      ? { $set: { chapters, updatedAt: new Date() } }
+      : { $set: { updatedAt: new Date() }, $unset: { chapters: 1 } },
+    { new: true },
+  ).lean();
+
+  if (!doc) return null;
+
+  return toLesson(doc);
+}
+
+/**
+ * Append newly generated blocks and timeline events to a lesson without
+ * touching existing content.  Used while generation streams in.
+ */
+export async function appendLessonContent(
+  id: string,
+  explanation: ExplanationBlock[],
+  timeline: TimelineEvent[],
+  estimatedDuration: number,
+): Promise<Lesson | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const doc = await LessonModel.findByIdAndUpdate(
+    id,
+    {
+      $push: {
+        explanation: { $each: explanation },
+        timeline: { $each: timeline },
+      },
+      $set: {
+        'metadata.estimatedDuration': estimatedDuration,
+        updatedAt: new Date(),
+      },
+    },
+    { new: true },
+  ).lean();
+
+  if (!doc) return null;
+
+  return toLesson(doc);
+}
+
+/**
+ * Add quizzes to a lesson along with the `quiz_checkpoint` events asking
+ * them.  The events are appended after the existing ones.
+ */
+export async function addLessonQuizzes(
+  id: string,
+  quizzes: ILessonQuiz[],
+  checkpoints: TimelineEvent[],
+): Promise<Lesson | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const doc = await LessonModel.findByIdAndUpdate(
+    id,
+    {
+      $push: {
+        quizzes: { $each: quizzes },
+        timeline: { $each: checkpoints },
+      },
+      $set: { updatedAt: new Date() },
+    },
+    { new: true },
+  ).lean();
+
+  if (!doc) return null;
+
+  return toLesson(doc);
+}
+
+/**
+ * Retrieve one quiz of a lesson with its answer key, or `null` if not found.
+ */
+export async function getLessonQuiz(id: string, quizId: string): Promise<ILessonQuiz | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const doc = await LessonModel.findOne({ _id: id, 'quizzes.id': quizId }, { 'quizzes.$': 1 })
+    .lean();
+
+  return doc?.quizzes?.[0] ?? null;
+}
+
+/**
+ * Retrieve a lesson's quizzes with their answer keys.
+ */
+export async function getLessonQuizzes(id: string): Promise<ILessonQuiz[]> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return [];
+  }
+
+  const doc = await LessonModel.findById(id, { quizzes: 1 }).lean();
+
+  return doc?.quizzes ?? [];
+}
+
+/**
+ * Remove all generated content from a lesson, quizzes included, keeping its
+ * question, status and generation options.  Chapters are kept, so a
+ * regeneration that fails can go back to the lesson as it was; remove them
+ * with {@link updateLessonChapters} once new content replaces the old.
+ */
+export async function clearLessonContent(id: string): Promise<Lesson | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const doc = await LessonModel.findByIdAndUpdate(
+    id,
+    {
+      $set: {
+        explanation: [],
+        timeline: [],
+        quizzes: [],
+        'metadata.estimatedDuration': 0,
+        'metadata.generationTime': 0,
         updatedAt: new Date(),
       },
     },
@@ -117,25 +325,132 @@ export async function updateLessonContent(
 }
 
 /**
- * Return a paginated slice of all lessons, newest first.
+ * Patch individual metadata fields; fields left `undefined` are untouched.
+ */
+export async function updateLessonMetadata(
+  id: string,
+  metadata: Partial<LessonMetadata>,
+): Promise<Lesson | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const $set: Record<string, unknown> = { updatedAt: new Date() };
+  for (const [key, value] of Object.entries(metadata)) {
+    if (value !== undefined) {
+      $set[`metadata.${key}`] = value;
+    }
+  }
+
+  const doc = await LessonModel.findByIdAndUpdate(id, { $set }, { new: true }).lean();
+
+  if (!doc) return null;
+
+  return toLesson(doc);
+}
+
+/**
+ * Delete a lesson.
+ *
+ * @returns `true` if the lesson existed.
+ */
+export async function deleteLesson(id: string): Promise<boolean> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return false;
+  }
+
+  const doc = await LessonModel.findByIdAndDelete(id).lean();
+  return doc !== null;
+}
+
+// ---------------------------------------------------------------------------
+// Listing
+// ---------------------------------------------------------------------------
+
+/** Position after the last lesson of a page (lessons are newest first). */
+export interface LessonCursor {
+  createdAt: Date;
+  id: string;
+  /** 1-based number of the page this cursor leads to. */
+  page: number;
+}
+
+export interface LessonListFilter {
+  userId: string;
+  status?: LessonStatus;
+}
+
+export interface LessonListPage {
+  items: Lesson[];
+  total: number;
+  page: number;
+  nextCursor: string | null;
+}
+
+/**
+ * Serialise a cursor into the opaque string handed to clients.
+ */
+export function encodeLessonCursor(cursor: LessonCursor): string {
+  const raw = JSON.stringify({ c: cursor.createdAt.getTime(), i: cursor.id, p: cursor.page });
+  return Buffer.from(raw).toString('base64url');
+}
+
+/**
+ * Parse a client-supplied cursor, or return `null` if it is malformed.
+ */
+export function decodeLessonCursor(value: string): LessonCursor | null {
+  try {
+    const raw: unknown = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof raw !== 'object' || raw === null) return null;
+
+    const { c, i, p } = raw as Record<string, unknown>;
+    if (typeof c !== 'number' || typeof i !== 'string' || typeof p !== 'number') return null;
+    if (!mongoose.Types.ObjectId.isValid(i) || !Number.isInteger(p) || p < 2) return null;
+
+    return { createdAt: new Date(c), id: i, page: p };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Return one page of a user's lessons, newest first.
+ *
+ * Pages are keyed on `(createdAt, _id)` rather than offsets, so lessons
+ * created while the client is paging do not shift or repeat entries.
  */
 export async function listLessons(
-  page: number,
+  filter: LessonListFilter,
   pageSize: number,
-): Promise<{ items: Lesson[]; total: number }> {
-  const skip = (page - 1) * pageSize;
-
-  const [items, total] = await Promise.all([
-    LessonModel.find()
-      .sort({ createdAt: -1 })
-      .skip(skip)
-      .limit(pageSize)
+  cursor?: LessonCursor,
+): Promise<LessonListPage> {
+  const match: Record<string, unknown> = { userId: filter.userId };
+  if (filter.status) match.status = filter.status;
+
+  const query: Record<string, unknown> = cursor
+    ? {
+        ...match,
+        $or: [
+          { createdAt: { $lt: cursor.createdAt } },
+          { createdAt: cursor.createdAt, _id: { $lt: new mongoose.Types.ObjectId(cursor.id) } },
+        ],
+      }
+    : match;
+
+  const [docs, total] = await Promise.all([
+    LessonModel.find(query)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(pageSize + 1)
       .lean(),
-    LessonModel.estimatedDocumentCount(),
+    LessonModel.countDocuments(match),
   ]);
 
-  return {
-    items: items.map(toLesson),
-    total,
-  };
+  const page = cursor?.page ?? 1;
+  const items = docs.slice(0, pageSize).map(toLesson);
+  const last = items[items.length - 1];
+  const nextCursor = docs.length > pageSize && last
+    ? encodeLessonCursor({ createdAt: last.createdAt, id: last.id, page: page + 1 })
+    : null;
+
+  return { items, total, page, nextCursor };
 }
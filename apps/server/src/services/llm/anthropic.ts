@@ -0,0 +1,150 @@
+import type { LLMProvider, LLMCompletionRequest, LLMCompletion } from './provider';
+import { LLMProviderError } from './provider';
+import { postJson, postEventStream } from './http';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com/v1';
+const DEFAULT_MODEL = 'claude-3-5-haiku-latest';
+const API_VERSION = '2023-06-01';
+
+/** The messages API requires `max_tokens`; used when the request omits it. */
+const DEFAULT_MAX_TOKENS = 2048;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  baseUrl?: string;
+  model?: string;
+  timeoutMs: number;
+}
+
+interface MessagesResponse {
+  model?: string;
+  content?: { type: string; text?: string }[];
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+interface MessagesStreamEvent {
+  type: string;
+  delta?: { type?: string; text?: string };
+  error?: { type?: string; message?: string };
+}
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a provider for an Anthropic-style `/messages` endpoint.
+ *
+ * System messages are hoisted into the top-level `system` field as the API
+ * does not accept them inside `messages`.
+ */
+export function createAnthropicProvider(options: AnthropicProviderOptions): LLMProvider {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const model = options.model ?? DEFAULT_MODEL;
+  const headers = {
+    'x-api-key': options.apiKey,
+    'anthropic-version': API_VERSION,
+  };
+
+  return {
+    name: 'anthropic',
+    model,
+
+    async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+      const data = await postJson<MessagesResponse>({
+        provider: 'anthropic',
+        url: `${baseUrl}/messages`,
+        headers,
+        body: buildRequestBody(model, request),
+        timeoutMs: options.timeoutMs,
+        signal: request.signal,
+      });
+
+      const text = (data.content ?? [])
+        .filter((part) => part.type === 'text' && typeof part.text === 'string')
+        .map((part) => part.text)
+        .join('');
+
+      if (text.trim().length === 0) {
+        throw new LLMProviderError('Completion contained no text', 'anthropic');
+      }
+
+      return {
+        text,
+        model: data.model ?? model,
+        usage: data.usage
+          ? {
+              inputTokens: data.usage.input_tokens ?? 0,
+              outputTokens: data.usage.output_tokens ?? 0,
+            }
+          : undefined,
+      };
+    },
+
+    async *stream(request: LLMCompletionRequest): AsyncIterable<string> {
+      const events = postEventStream({
+        provider: 'anthropic',
+        url: `${baseUrl}/messages`,
+        headers,
+        body: { ...buildRequestBody(model, request), stream: true },
+        timeoutMs: options.timeoutMs,
+        signal: request.signal,
+      });
+
+      for await (const event of events) {
+        let payload: MessagesStreamEvent;
+        try {
+          payload = JSON.parse(event.data) as MessagesStreamEvent;
+        } catch {
+          throw new LLMProviderError('Malformed stream chunk', 'anthropic');
+        }
+
+        if (payload.type === 'error') {
+          throw new LLMProviderError(
+            payload.error?.message ?? 'Stream error',
+            'anthropic',
+            { retryable: payload.error?.type === 'overloaded_error' },
+          );
+        }
+        if (payload.type === 'message_stop') return;
+        if (payload.type === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+          if (payload.delta.text) yield payload.delta.text;
+        }
+      }
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Build a messages API request body.  System messages are hoisted into the
+ * top-level `system` field.
+ */
+function buildRequestBody(model: string, request: LLMCompletionRequest): Record<string, unknown> {
+  const system = request.messages
+    .filter((m) => m.role === 'system')
+    .map((m) => m.content)
+    .join('\n\n');
+  const messages = request.messages
+    .filter((m) => m.role !== 'system')
+    .map((m) => ({ role: m.role, content: m.content }));
+
+  return {
+    model,
+    system: system.length > 0 ? system : undefined,
+    messages,
+    max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+    temperature: request.temperature,
+  };
+}
@@ -0,0 +1,231 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { logger } from '@classflowai/utils';
+import type { LLMProvider, LLMCompletionRequest, LLMCompletion, LLMMessage } from './provider';
+import { LLMProviderError } from './provider';
+import { extractQuestion, extractQuizSections } from './prompts';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const FIXTURE_MODEL = 'fixture';
+
+/** Size of the chunks a replayed completion is streamed in. */
+const STREAM_CHUNK_CHARS = 48;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface FixtureProviderOptions {
+  /** Directory holding recorded completions; omit to only use the template. */
+  fixtureDir?: string;
+}
+
+/** On-disk format of a recorded completion. */
+interface FixtureFile {
+  messages: LLMMessage[];
+  text: string;
+  model: string;
+}
+
+// ---------------------------------------------------------------------------
+// Fixture provider
+// ---------------------------------------------------------------------------
+
+/**
+ * Create an offline provider that never touches the network.
+ *
+ * Requests are keyed by a hash of their messages.  When a recording with that
+ * key exists in {@link FixtureProviderOptions.fixtureDir} it is replayed
+ * verbatim; otherwise a deterministic templated lesson, or quiz set, is
+ * returned so the whole generation pipeline can run without credentials.
+ */
+export function createFixtureProvider(options: FixtureProviderOptions = {}): LLMProvider {
+  const provider: LLMProvider = {
+    name: 'fixture',
+    model: FIXTURE_MODEL,
+
+    async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+      if (request.signal?.aborted) {
+        throw new LLMProviderError('Request aborted', 'fixture', { retryable: false });
+      }
+
+      if (options.fixtureDir) {
+        const recorded = await readFixture(options.fixtureDir, request.messages);
+        if (recorded) {
+          return { text: recorded.text, model: recorded.model };
+        }
+        logger.debug('No recorded fixture for request — using template', {
+          key: fixtureKey(request.messages),
+        });
+      }
+
+      const sections = extractQuizSections(request.messages);
+      if (sections) {
+        return { text: buildTemplateQuizzes(sections), model: FIXTURE_MODEL };
+      }
+
+      const question = extractQuestion(request.messages) ?? 'this topic';
+      return { text: buildTemplateLesson(question), model: FIXTURE_MODEL };
+    },
+
+    async *stream(request: LLMCompletionRequest): AsyncIterable<string> {
+      const { text } = await provider.complete(request);
+
+      for (let i = 0; i < text.length; i += STREAM_CHUNK_CHARS) {
+        // Yield to the event loop so consumers observe genuinely incremental delivery.
+        await new Promise<void>((resolve) => setImmediate(resolve));
+        if (request.signal?.aborted) {
+          throw new LLMProviderError('Request aborted', 'fixture', { retryable: false });
+        }
+        yield text.slice(i, i + STREAM_CHUNK_CHARS);
+      }
+    },
+  };
+
+  return provider;
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/**
+ * Wrap a provider so every successful completion is written to
+ * {@link fixtureDir}, ready to be replayed by {@link createFixtureProvider}.
+ *
+ * Failures to write a recording are logged and never fail the completion.
+ */
+export function withFixtureRecording(provider: LLMProvider, fixtureDir: string): LLMProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+
+    async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+      const completion = await provider.complete(request);
+      await recordFixture(fixtureDir, {
+        messages: request.messages,
+        text: completion.text,
+        model: completion.model,
+      });
+      return completion;
+    },
+
+    async *stream(request: LLMCompletionRequest): AsyncIterable<string> {
+      let text = '';
+      for await (const chunk of provider.stream(request)) {
+        text += chunk;
+        yield chunk;
+      }
+      await recordFixture(fixtureDir, { messages: request.messages, text, model: provider.model });
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Stable key for a request: the first 16 hex chars of a SHA-256 of its messages. */
+function fixtureKey(messages: LLMMessage[]): string {
+  return createHash('sha256').update(JSON.stringify(messages)).digest('hex').slice(0, 16);
+}
+
+function fixturePath(fixtureDir: string, messages: LLMMessage[]): string {
+  return path.join(fixtureDir, `${fixtureKey(messages)}.json`);
+}
+
+async function recordFixture(fixtureDir: string, file: FixtureFile): Promise<void> {
+  try {
+    await mkdir(fixtureDir, { recursive: true });
+    await writeFile(fixturePath(fixtureDir, file.messages), JSON.stringify(file, null, 2));
+  } catch (err) {
+    logger.warn('Failed to record LLM fixture', {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+async function readFixture(
+  fixtureDir: string,
+  messages: LLMMessage[],
+): Promise<FixtureFile | null> {
+  let raw: string;
+  try {
+    raw = await readFile(fixturePath(fixtureDir, messages), 'utf8');
+  } catch {
+    return null;
+  }
+
+  const parsed = JSON.parse(raw) as Partial<FixtureFile>;
+  if (typeof parsed.text !== 'string') {
+    throw new LLMProviderError('Recorded fixture has no text', 'fixture', { retryable: false });
+  }
+
+  return {
+    messages: parsed.messages ?? messages,
+    text: parsed.text,
+    model: parsed.model ?? FIXTURE_MODEL,
+  };
+}
+
+/**
+ * Deterministic Markdown lesson used when no recording exists.  It exercises
+ * headings, paragraphs, and lists so every stage of the engine pipeline runs.
+ */
+function buildTemplateLesson(question: string): string {
+  const topic = question.replace(/\?$/, '').trim();
+
+  return [
+    `# ${topic}`,
+    '',
+    `Let's explore this topic step by step. ${topic} is a fundamental concept that we can break down into clear, understandable parts.`,
+    '',
+    '## Key Concepts',
+    '',
+    `- Core idea: ${topic.toLowerCase()} is built on foundational principles`,
+    `- Mechanics: understanding how the parts work helps build intuition`,
+    `- Applications: practical use reinforces theoretical knowledge`,
+    '',
+    '## Detailed Explanation',
+    '',
+    `To understand ${topic.toLowerCase()}, we start with the basics. Every complex concept is built from simpler building blocks that connect in meaningful ways.`,
+    '',
+    `The relationship between these components is what gives ${topic.toLowerCase()} its power and elegance. By examining each piece individually, we can see how they fit together.`,
+    '',
+    '## Summary',
+    '',
+    `In summary, ${topic.toLowerCase()} is a rich topic that combines several interrelated ideas. The key takeaway is that understanding the fundamentals provides a strong foundation for more advanced exploration.`,
+  ].join('\n');
+}
+
+/**
+ * Deterministic quiz set used when no recording exists: one question per
+ * section after the introduction, alternating between both kinds.
+ */
+function buildTemplateQuizzes(sections: string[]): string {
+  const quizzes = sections.slice(1).map((title, index) => {
+    const section = index + 2;
+    return index % 2 === 0
+      ? {
+          section,
+          type: 'multiple_choice',
+          question: `Which section of the lesson covered ${title.toLowerCase()}?`,
+          choices: [`Section ${section}`, `Section ${section + 1}`, 'None of them'],
+          answer: 0,
+          explanation: `"${title}" is section ${section} of the lesson.`,
+        }
+      : {
+          section,
+          type: 'short_answer',
+          question: `What was the title of section ${section}?`,
+          answers: [title],
+          explanation: `Section ${section} is titled "${title}".`,
+        };
+  });
+
+  return JSON.stringify({ quizzes }, null, 2);
+}
@@ -0,0 +1,181 @@
+import type { LLMProviderName } from './provider';
+import { LLMProviderError } from './provider';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+export interface JsonRequestOptions {
+  provider: LLMProviderName;
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+  timeoutMs: number;
+  signal?: AbortSignal;
+}
+
+// ---------------------------------------------------------------------------
+// postJson
+// ---------------------------------------------------------------------------
+
+/**
+ * POST a JSON body and parse the JSON response.
+ *
+ * Network failures, timeouts, `429` and `5xx` responses are surfaced as
+ * retryable {@link LLMProviderError}s; other non-2xx responses are not
+ * retryable.  Aborts triggered by the caller's {@link JsonRequestOptions.signal}
+ * are never retried.
+ */
+export async function postJson<T>(options: JsonRequestOptions): Promise<T> {
+  const timeoutSignal = AbortSignal.timeout(options.timeoutMs);
+  const signal = options.signal
+    ? AbortSignal.any([options.signal, timeoutSignal])
+    : timeoutSignal;
+
+  const response = await send(options, signal, () => timeoutSignal.aborted);
+
+  try {
+    return (await response.json()) as T;
+  } catch {
+    throw new LLMProviderError('Response body is not valid JSON', options.provider);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// postEventStream
+// ---------------------------------------------------------------------------
+
+/**
+ * POST a JSON body and iterate the `text/event-stream` response.
+ *
+ * {@link JsonRequestOptions.timeoutMs} is an *idle* timeout: the request is
+ * aborted when no bytes arrive for that long, so long generations are not cut
+ * off while tokens keep flowing.  Errors follow the same retryability rules
+ * as {@link postJson}.
+ */
+export async function* postEventStream(
+  options: JsonRequestOptions,
+): AsyncGenerator<ServerSentEvent> {
+  const idle = new AbortController();
+  let timedOut = false;
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+  const armIdleTimer = (): void => {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      timedOut = true;
+      idle.abort();
+    }, options.timeoutMs);
+  };
+
+  const signal = options.signal ? AbortSignal.any([options.signal, idle.signal]) : idle.signal;
+
+  armIdleTimer();
+  try {
+    const response = await send(options, signal, () => timedOut);
+    if (!response.body) {
+      throw new LLMProviderError('Streaming response has no body', options.provider);
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      for await (const bytes of response.body) {
+        armIdleTimer();
+        buffer += decoder.decode(bytes, { stream: true }).replace(/\r\n/g, '\n');
+
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          const event = parseServerSentEvent(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
+          if (event) yield event;
+          boundary = buffer.indexOf('\n\n');
+        }
+      }
+    } catch (err) {
+      if (err instanceof LLMProviderError) throw err;
+      throw toRequestError(err, options, timedOut);
+    }
+
+    const trailing = parseServerSentEvent(buffer);
+    if (trailing) yield trailing;
+  } finally {
+    if (idleTimer) clearTimeout(idleTimer);
+    // Release the connection if the consumer stopped iterating early.
+    idle.abort();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Issue the request and convert transport / HTTP failures into provider errors. */
+async function send(
+  options: JsonRequestOptions,
+  signal: AbortSignal,
+  hasTimedOut: () => boolean,
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(options.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...options.headers },
+      body: JSON.stringify(options.body),
+      signal,
+    });
+  } catch (err) {
+    throw toRequestError(err, options, hasTimedOut());
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new LLMProviderError(
+      `HTTP ${response.status}: ${detail.slice(0, 500)}`,
+      options.provider,
+      {
+        statusCode: response.status,
+        retryable: response.status === 429 || response.status >= 500,
+      },
+    );
+  }
+
+  return response;
+}
+
+function toRequestError(
+  err: unknown,
+  options: JsonRequestOptions,
+  timedOut: boolean,
+): LLMProviderError {
+  if (options.signal?.aborted) {
+    return new LLMProviderError('Request aborted', options.provider, { retryable: false });
+  }
+  const reason = timedOut
+    ? `Request timed out after ${options.timeoutMs}ms`
+    : `Request failed: ${err instanceof Error ? err.message : String(err)}`;
+  return new LLMProviderError(reason, options.provider);
+}
+
+/** Parse one raw SSE frame; comment-only and empty frames yield `null`. */
+function parseServerSentEvent(frame: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of frame.split('\n')) {
+    if (line.length === 0 || line.startsWith(':')) continue;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
@@ -0,0 +1,93 @@
+import { logger } from '@classflowai/utils';
+import type { EnvConfig } from '../../config';
+import { getConfig } from '../../config';
+import type { LLMProvider, LLMProviderName } from './provider';
+import { createOpenAIProvider } from './openai';
+import { createAnthropicProvider } from './anthropic';
+import { createFixtureProvider, withFixtureRecording } from './fixture';
+
+export { LLMProviderError, isRetryableLLMError } from './provider';
+export type {
+  LLMProvider,
+  LLMProviderName,
+  LLMMessage,
+  LLMCompletionRequest,
+  LLMCompletion,
+  LLMUsage,
+} from './provider';
+export {
+  buildLessonPrompt,
+  buildBlockPrompt,
+  buildAsidePrompt,
+  buildQuizPrompt,
+  extractQuestion,
+  extractQuizSections,
+} from './prompts';
+export type { BlockPromptContext, AsidePromptContext, QuizPromptSection } from './prompts';
+export { createOpenAIProvider } from './openai';
+export { createAnthropicProvider } from './anthropic';
+export { createFixtureProvider, withFixtureRecording } from './fixture';
+
+// ---------------------------------------------------------------------------
+// Provider selection
+// ---------------------------------------------------------------------------
+
+let cachedProvider: LLMProvider | null = null;
+
+/**
+ * Resolve which backend to use: an explicit `LLM_PROVIDER` wins, otherwise
+ * the OpenAI-compatible provider is used when `LLM_API_KEY` is set and the
+ * offline fixture provider when it is not.
+ */
+export function resolveProviderName(config: EnvConfig): LLMProviderName {
+  if (config.LLM_PROVIDER) return config.LLM_PROVIDER;
+  return config.LLM_API_KEY ? 'openai' : 'fixture';
+}
+
+/**
+ * Build an {@link LLMProvider} from environment configuration.
+ *
+ * @throws If a network provider is selected without `LLM_API_KEY`.
+ */
+export function createLLMProvider(config: EnvConfig): LLMProvider {
+  const name = resolveProviderName(config);
+
+  if (name === 'fixture') {
+    return createFixtureProvider({ fixtureDir: config.LLM_FIXTURE_DIR });
+  }
+
+  if (!config.LLM_API_KEY) {
+    throw new Error(`LLM_PROVIDER "${name}" requires LLM_API_KEY`);
+  }
+
+  const options = {
+    apiKey: config.LLM_API_KEY,
+    baseUrl: config.LLM_BASE_URL,
+    model: config.LLM_MODEL,
+    timeoutMs: config.LLM_TIMEOUT_MS,
+  };
+
+  const provider = name === 'anthropic'
+    ? createAnthropicProvider(options)
+    : createOpenAIProvider(options);
+
+  if (config.LLM_RECORD_FIXTURES && config.LLM_FIXTURE_DIR) {
+    return withFixtureRecording(provider, config.LLM_FIXTURE_DIR);
+  }
+
+  return provider;
+}
+
+/**
+ * Return the process-wide {@link LLMProvider}, creating it on first use.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!cachedProvider) {
+    cachedProvider = createLLMProvider(getConfig());
+    logger.info('LLM provider initialised', {
+      provider: cachedProvider.name,
+      model: cachedProvider.model,
+    });
+  }
+  return cachedProvider;
+}
@@ -0,0 +1,118 @@
+import type { LLMProvider, LLMCompletionRequest, LLMCompletion } from './provider';
+import { LLMProviderError } from './provider';
+import { postJson, postEventStream } from './http';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  baseUrl?: string;
+  model?: string;
+  timeoutMs: number;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: { message?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a provider for any OpenAI-compatible `/chat/completions` endpoint
+ * (OpenAI, Azure-style gateways, vLLM, Ollama, LM Studio, …).
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions): LLMProvider {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const model = options.model ?? DEFAULT_MODEL;
+
+  return {
+    name: 'openai',
+    model,
+
+    async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+      const data = await postJson<ChatCompletionResponse>({
+        provider: 'openai',
+        url: `${baseUrl}/chat/completions`,
+        headers: { Authorization: `Bearer ${options.apiKey}` },
+        body: {
+          model,
+          messages: request.messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+        },
+        timeoutMs: options.timeoutMs,
+        signal: request.signal,
+      });
+
+      const text = data.choices?.[0]?.message?.content;
+      if (typeof text !== 'string' || text.trim().length === 0) {
+        throw new LLMProviderError('Completion contained no text', 'openai');
+      }
+
+      return {
+        text,
+        model: data.model ?? model,
+        usage: data.usage
+          ? {
+              inputTokens: data.usage.prompt_tokens ?? 0,
+              outputTokens: data.usage.completion_tokens ?? 0,
+            }
+          : undefined,
+      };
+    },
+
+    async *stream(request: LLMCompletionRequest): AsyncIterable<string> {
+      const events = postEventStream({
+        provider: 'openai',
+        url: `${baseUrl}/chat/completions`,
+        headers: { Authorization: `Bearer ${options.apiKey}` },
+        body: {
+          model,
+          messages: request.messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stream: true,
+        },
+        timeoutMs: options.timeoutMs,
+        signal: request.signal,
+      });
+
+      for await (const event of events) {
+        if (event.data === '[DONE]') return;
+
+        const chunk = parseChunk<ChatCompletionChunk>(event.data, 'openai');
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function parseChunk<T>(data: string, provider: 'openai'): T {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    throw new LLMProviderError('Malformed stream chunk', provider);
+  }
+}
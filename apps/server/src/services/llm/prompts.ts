@@ -0,0 +1,318 @@
+import type { LessonGenerationOptions } from '@classflowai/types';
+import type { LLMMessage } from './provider';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A lesson block to rewrite, in Markdown, with the lesson around it. */
+export interface BlockPromptContext {
+  block: string;
+  /** Blocks before and after {@link block}, nearest last and first. */
+  before: string[];
+  after: string[];
+  /** What the learner wants changed, if anything in particular. */
+  instructions?: string;
+}
+
+/** A section of a lesson to write a quiz for: its heading and Markdown. */
+export interface QuizPromptSection {
+  title: string;
+  content: string;
+}
+
+/** What a learner has seen of a lesson when they ask a follow-up question. */
+export interface AsidePromptContext {
+  /** The question the lesson answers. */
+  lessonQuestion: string;
+  /** Blocks presented so far, the one on the board when asked last. */
+  seen: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Speaking pace used to turn a duration budget into a word budget. */
+const NARRATION_WORDS_PER_MINUTE = 150;
+
+/** Prefix of the line carrying the learner's question in the user message. */
+const QUESTION_PREFIX = 'Question: ';
+
+/** Heading of each lesson section in a quiz prompt, followed by its title. */
+const QUIZ_SECTION_HEADING = /^### Section \d+: (.*)$/;
+
+const DIFFICULTY_GUIDANCE: Record<NonNullable<LessonGenerationOptions['difficulty']>, string> = {
+  beginner:
+    'The learner is a beginner. Avoid jargon, define every new term, and prefer concrete everyday analogies.',
+  intermediate:
+    'The learner has working knowledge of the basics. Use standard terminology and focus on how the parts fit together.',
+  advanced:
+    'The learner is advanced. Be precise and dense, cover edge cases and trade-offs, and skip introductory material.',
+};
+
+const TEACHER_ROLE =
+  'You are ClassFlowAI, a teacher who explains topics on a whiteboard while narrating.';
+
+/** The Markdown subset the engine parses, shared by every lesson prompt. */
+const LESSON_FORMAT_RULES = [
+  'Answer with a lesson written in Markdown using ONLY the following constructs:',
+  '- `# Title` for the lesson title (exactly one, first line) and `## Section` headings',
+  '- plain paragraphs of two to four sentences',
+  '- bullet lists whose items start with `- `; write key terms as `- Term: definition`',
+  '- fenced code blocks with a language tag (```python … ```) when code helps; keep them short, separate',
+  '  logical steps with blank lines and start each step with a one-sentence comment, which is narrated',
+  '  while that step is highlighted',
+  '- display equations wrapped in `$$ … $$` using LaTeX',
+  '- a line starting with `[diagram]` when a drawing helps, followed by `;`-separated statements:',
+  '  `box <id> "label"`, `circle <id> "label"` (optionally `at <col>,<row>`), `arrow <id> -> <id> "label"`,',
+  '  `line <id> -- <id>`, `tree <parent> -> <child>, <child>`, `label "text" at <col>,<row>`,',
+  '  `axes "x label" "y label"` and `caption "one sentence to narrate"`,',
+  '  e.g. `[diagram] box sun "Sun"; box leaf "Leaf"; arrow sun -> leaf "light"; caption "Light travels to the leaf."`',
+  'Do not use tables, images, HTML, block quotes, numbered lists, or inline formatting.',
+];
+
+const LESSON_SYSTEM_PROMPT = [
+  TEACHER_ROLE,
+  ...LESSON_FORMAT_RULES,
+  'End with a `## Summary` section that restates the key takeaway.',
+].join('\n');
+
+const BLOCK_SYSTEM_PROMPT = [
+  TEACHER_ROLE,
+  ...LESSON_FORMAT_RULES,
+  'You are revising one part of an existing lesson. Answer with exactly ONE replacement for the',
+  'block marked for rewriting, of the same kind (heading, paragraph, list, code, equation or diagram),',
+  'so that it reads naturally between the blocks around it. Do not repeat the surrounding blocks.',
+].join('\n');
+
+const ASIDE_SYSTEM_PROMPT = [
+  TEACHER_ROLE,
+  'A learner interrupted your lesson with a follow-up question. Answer it with a short aside of two to',
+  'four blocks that builds on what they have seen so far, then stop; the lesson resumes afterwards.',
+  ...LESSON_FORMAT_RULES,
+  'Leave out the `# Title` and do not end with a summary section; do not repeat the lesson.',
+].join('\n');
+
+const QUIZ_SYSTEM_PROMPT = [
+  'You are ClassFlowAI, a teacher who checks what learners took away from a lesson.',
+  'Write at most one quiz question per section of the lesson you are shown. Skip sections too short',
+  'to ask about, such as an introduction. Mix the two kinds of question:',
+  '- multiple choice, with three or four options of which exactly one is right',
+  '- short answer, answered with a word, a short phrase or a number; list the usual ways of writing it',
+  'Ask about the ideas of the section, not its wording, and add a one-sentence explanation of the answer.',
+  'Answer with JSON only, no Markdown and no code fence, in this shape:',
+  '{"quizzes": [',
+  '  {"section": 2, "type": "multiple_choice", "question": "…", "choices": ["…", "…", "…"], "answer": 0,',
+  '   "explanation": "…"},',
+  '  {"section": 3, "type": "short_answer", "question": "…", "answers": ["…", "…"], "explanation": "…"}',
+  ']}',
+  'where `section` is the number of the section and `answer` the index of the right choice.',
+].join('\n');
+
+// ---------------------------------------------------------------------------
+// buildLessonPrompt
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the chat messages that ask a model for a lesson answering
+ * {@link question}, honouring the learner's {@link LessonGenerationOptions}.
+ *
+ * - `difficulty`  → tone and depth guidance.
+ * - `language`    → the lesson must be written in that language.
+ * - `maxDuration` → converted to a word budget at ~150 spoken words/minute.
+ */
+export function buildLessonPrompt(
+  question: string,
+  options: LessonGenerationOptions = {},
+): LLMMessage[] {
+  const requirements = describeLearner(options);
+
+  if (options.maxDuration) {
+    const words = Math.max(
+      50,
+      Math.round((options.maxDuration / 60_000) * NARRATION_WORDS_PER_MINUTE),
+    );
+    requirements.push(`Keep the lesson under ${words} words so it can be narrated in time.`);
+  }
+
+  return [
+    { role: 'system', content: LESSON_SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: [
+        `${QUESTION_PREFIX}${question}`,
+        '',
+        'Requirements:',
+        ...requirements.map((r) => `- ${r}`),
+      ].join('\n'),
+    },
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// buildBlockPrompt
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the chat messages that ask a model to rewrite one block of the
+ * lesson answering {@link question}.  The surrounding blocks are shown so
+ * the rewrite fits in; the learner's {@link instructions} and
+ * {@link LessonGenerationOptions} (except `maxDuration`) are honoured as in
+ * {@link buildLessonPrompt}.
+ */
+export function buildBlockPrompt(
+  question: string,
+  context: BlockPromptContext,
+  options: LessonGenerationOptions = {},
+): LLMMessage[] {
+  const requirements = describeLearner(options);
+  if (context.instructions) {
+    requirements.push(`The learner asked for this change: ${context.instructions}`);
+  }
+
+  const section = (title: string, blocks: string[]): string[] =>
+    blocks.length > 0 ? ['', `${title}:`, '', blocks.join('\n\n')] : [];
+
+  return [
+    { role: 'system', content: BLOCK_SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: [
+        `${QUESTION_PREFIX}${question}`,
+        ...section('Lesson before the block', context.before),
+        '',
+        'Block to rewrite:',
+        '',
+        context.block,
+        ...section('Lesson after the block', context.after),
+        '',
+        'Requirements:',
+        ...requirements.map((r) => `- ${r}`),
+      ].join('\n'),
+    },
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// buildAsidePrompt
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the chat messages that ask a model for a short aside answering a
+ * follow-up {@link question} asked part-way through a lesson.  The question
+ * is carried on the `Question: ` line, so offline fixtures answer it.
+ */
+export function buildAsidePrompt(
+  question: string,
+  context: AsidePromptContext,
+  options: LessonGenerationOptions = {},
+): LLMMessage[] {
+  const requirements = describeLearner(options);
+
+  return [
+    { role: 'system', content: ASIDE_SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: [
+        `${QUESTION_PREFIX}${question}`,
+        '',
+        `The lesson answers: ${context.lessonQuestion}`,
+        ...(context.seen.length > 0
+          ? ['', 'The lesson so far:', '', context.seen.join('\n\n')]
+          : []),
+        '',
+        'Requirements:',
+        ...requirements.map((r) => `- ${r}`),
+      ].join('\n'),
+    },
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// buildQuizPrompt
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the chat messages that ask a model for quiz questions on the
+ * {@link sections} of the lesson answering {@link question}, numbered from
+ * 1 in the order given.
+ */
+export function buildQuizPrompt(
+  question: string,
+  sections: QuizPromptSection[],
+  options: LessonGenerationOptions = {},
+): LLMMessage[] {
+  const requirements = describeLearner(options);
+
+  return [
+    { role: 'system', content: QUIZ_SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: [
+        `${QUESTION_PREFIX}${question}`,
+        ...sections.flatMap((section, index) => [
+          '',
+          `### Section ${index + 1}: ${section.title}`,
+          '',
+          section.content,
+        ]),
+        '',
+        'Requirements:',
+        ...requirements.map((r) => `- ${r}`),
+      ].join('\n'),
+    },
+  ];
+}
+
+/**
+ * Requirements describing the learner, shared by every lesson prompt.
+ */
+function describeLearner(options: LessonGenerationOptions): string[] {
+  const requirements = [DIFFICULTY_GUIDANCE[options.difficulty ?? 'intermediate']];
+
+  if (options.language) {
+    requirements.push(
+      `Write the entire lesson in the language with code "${options.language}". Keep code and LaTeX unchanged.`,
+    );
+  }
+
+  return requirements;
+}
+
+// ---------------------------------------------------------------------------
+// extractQuestion
+// ---------------------------------------------------------------------------
+
+/**
+ * Recover the learner's question from messages produced by
+ * {@link buildLessonPrompt}, or `null` if none of the messages carries one.
+ */
+export function extractQuestion(messages: LLMMessage[]): string | null {
+  for (const message of messages) {
+    if (message.role !== 'user') continue;
+    const line = message.content.split('\n').find((l) => l.startsWith(QUESTION_PREFIX));
+    if (line) return line.slice(QUESTION_PREFIX.length).trim();
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// extractQuizSections
+// ---------------------------------------------------------------------------
+
+/**
+ * Recover the section titles from messages produced by
+ * {@link buildQuizPrompt}, or `null` if the messages do not ask for quizzes.
+ */
+export function extractQuizSections(messages: LLMMessage[]): string[] | null {
+  if (!messages.some((m) => m.role === 'system' && m.content === QUIZ_SYSTEM_PROMPT)) {
+    return null;
+  }
+
+  return messages
+    .filter((message) => message.role === 'user')
+    .flatMap((message) => message.content.split('\n'))
+    .map((line) => QUIZ_SECTION_HEADING.exec(line)?.[1])
+    .filter((title): title is string => title !== undefined);
+}
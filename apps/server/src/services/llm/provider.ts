@@ -0,0 +1,84 @@
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'fixture';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMCompletion {
+  text: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+/**
+ * A chat-style text completion backend.
+ *
+ * Providers are stateless; retries, timeouts, and prompt construction are the
+ * caller's responsibility so every backend behaves identically under
+ * {@link withRetry}.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+  /**
+   * Stream the completion as text deltas in arrival order.  Concatenating
+   * every yielded chunk gives the same text {@link complete} would return.
+   */
+  stream(request: LLMCompletionRequest): AsyncIterable<string>;
+}
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/**
+ * Error raised by an {@link LLMProvider}.
+ *
+ * `retryable` is `true` for transient failures (network errors, timeouts,
+ * rate limits, 5xx responses) and `false` for failures that will not succeed
+ * on a second attempt (bad credentials, malformed requests).
+ */
+export class LLMProviderError extends Error {
+  readonly provider: LLMProviderName;
+  readonly statusCode?: number;
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    provider: LLMProviderName,
+    options: { statusCode?: number; retryable?: boolean } = {},
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.statusCode = options.statusCode;
+    this.retryable = options.retryable ?? true;
+  }
+}
+
+/**
+ * Retry predicate for {@link withRetry}: only transient provider failures are
+ * retried.  Unknown errors are treated as transient.
+ */
+export function isRetryableLLMError(error: Error): boolean {
+  if (error instanceof LLMProviderError) return error.retryable;
+  return true;
+}
@@ -0,0 +1,71 @@
+import type { ExplanationBlock, WordTiming } from '@classflowai/types';
+import { getBlockNarrationText } from '@classflowai/engine';
+import { logger } from '@classflowai/utils';
+import { withRetry } from '../utils';
+import { getTTSProvider, getAudioStorage, isRetryableTTSError } from './tts';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface BlockNarration {
+  audioUrl: string;
+  durationMs: number;
+  /** Word timings relative to the start of the audio (ms). */
+  wordTimings: WordTiming[];
+}
+
+// ---------------------------------------------------------------------------
+// Service functions
+// ---------------------------------------------------------------------------
+
+/**
+ * Synthesize and store narration audio for one explanation block.
+ *
+ * Narration is an enhancement: when the provider keeps failing, the lesson
+ * is still generated without audio, so this resolves to `null` instead of
+ * throwing.  Only an abort through {@link options.signal} is rethrown.
+ */
+export async function synthesizeBlockNarration(
+  lessonId: string,
+  block: ExplanationBlock,
+  options: { language?: string; signal?: AbortSignal } = {},
+): Promise<BlockNarration | null> {
+  const text = getBlockNarrationText(block).trim();
+  if (text.length === 0) return null;
+
+  try {
+    const provider = getTTSProvider();
+    const result = await withRetry(
+      () => provider.synthesize({ text, language: options.language, signal: options.signal }),
+      { maxRetries: 2, baseDelayMs: 300, shouldRetry: isRetryableTTSError },
+    );
+
+    const audioUrl = await getAudioStorage().save(
+      `${lessonId}/${block.id}.${result.extension}`,
+      result.audio,
+    );
+
+    return { audioUrl, durationMs: result.durationMs, wordTimings: result.wordTimings };
+  } catch (err) {
+    if (options.signal?.aborted) throw err;
+    logger.warn('Narration synthesis failed; continuing without audio', {
+      lessonId,
+      blockId: block.id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
+
+/**
+ * Delete all stored narration audio of a lesson.
+ */
+export async function removeLessonNarration(lessonId: string): Promise<void> {
+  await getAudioStorage().removeAll(lessonId).catch((err: unknown) => {
+    logger.warn('Failed to remove narration audio', {
+      lessonId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  });
+}
@@ -0,0 +1,162 @@
+import { promisify } from 'node:util';
+import { gunzip, gzip } from 'node:zlib';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A file inside an archive, keyed by its `/`-separated path. */
+export interface ArchiveEntry {
+  path: string;
+  data: Buffer;
+}
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** Thrown when an archive cannot be read. */
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const BLOCK_SIZE = 512;
+const NAME_LENGTH = 100;
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+/**
+ * Pack {@link entries} into a gzip-compressed ustar archive, readable with
+ * `tar -xzf` as well as {@link readArchive}.
+ */
+export async function writeArchive(entries: ArchiveEntry[]): Promise<Buffer> {
+  const mtime = Math.floor(Date.now() / 1000);
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    blocks.push(createHeader(entry.path, entry.data.length, mtime), entry.data);
+    const padding = (BLOCK_SIZE - (entry.data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) blocks.push(Buffer.alloc(padding));
+  }
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+
+  return gzipAsync(Buffer.concat(blocks));
+}
+
+function createHeader(path: string, size: number, mtime: number): Buffer {
+  if (Buffer.byteLength(path) > NAME_LENGTH) {
+    throw new ArchiveError(`Archive path too long: ${path}`);
+  }
+
+  const header = Buffer.alloc(BLOCK_SIZE);
+  header.write(path, 0, NAME_LENGTH, 'utf8');
+  writeOctal(header, 100, 8, 0o644);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, mtime);
+  header.write('0', 156, 'ascii');
+  header.write('ustar\0', 257, 'ascii');
+  header.write('00', 263, 'ascii');
+
+  header.fill(' ', 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'ascii');
+
+  return header;
+}
+
+function writeOctal(header: Buffer, offset: number, length: number, value: number): void {
+  header.write(`${value.toString(8).padStart(length - 1, '0')}\0`, offset, length, 'ascii');
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+/**
+ * Unpack a gzip-compressed tar archive written by {@link writeArchive}.
+ * Only regular files are returned; directories and links are skipped.
+ *
+ * @param maxSize Largest decompressed size (bytes) accepted.
+ * @throws {ArchiveError} If the data is not a readable archive or
+ *   decompresses to more than {@link maxSize}.
+ */
+export async function readArchive(data: Buffer, maxSize: number): Promise<ArchiveEntry[]> {
+  let tar: Buffer;
+  try {
+    tar = await gunzipAsync(data, { maxOutputLength: maxSize });
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    throw new ArchiveError(
+      code === 'ERR_BUFFER_TOO_LARGE' ? 'Archive is too large' : 'Archive is not gzip-compressed',
+    );
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) break;
+
+    if (readOctal(header, 148, 8) !== computeChecksum(header)) {
+      throw new ArchiveError('Archive header checksum mismatch');
+    }
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] ?? 0);
+    const start = offset + BLOCK_SIZE;
+    if (start + size > tar.length) {
+      throw new ArchiveError('Archive is truncated');
+    }
+
+    if (type === '0' || type === '\0') {
+      const prefix = readString(header, 345, 155);
+      const name = readString(header, 0, NAME_LENGTH);
+      entries.push({
+        path: prefix ? `${prefix}/${name}` : name,
+        data: Buffer.from(tar.subarray(start, start + size)),
+      });
+    }
+
+    offset = start + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+
+  return entries;
+}
+
+function computeChecksum(header: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    // The checksum field itself counts as spaces.
+    sum += i >= 148 && i < 156 ? 0x20 : header[i]!;
+  }
+  return sum;
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf8');
+}
+
+function readOctal(header: Buffer, offset: number, length: number): number {
+  const value = parseInt(readString(header, offset, length).trim() || '0', 8);
+  if (!Number.isFinite(value)) {
+    throw new ArchiveError('Archive header is malformed');
+  }
+  return value;
+}
@@ -0,0 +1,268 @@
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Lesson, TimelineEvent } from '@classflowai/types';
+import { logger } from '@classflowai/utils';
+import * as lessonService from '../lesson';
+import { removeLessonNarration } from '../narration';
+import { deleteLessonRevisions, recordRevision } from '../revision';
+import { getAudioStorage } from '../tts';
+import { ArchiveError, readArchive, writeArchive } from './archive';
+import type { ArchiveEntry } from './archive';
+import { MANIFEST_VERSION, ManifestError, parseManifest } from './manifest';
+import type { LessonManifest, PackagedAsset } from './manifest';
+
+export { ArchiveError } from './archive';
+export { MANIFEST_VERSION, ManifestError, parseManifest } from './manifest';
+export type { LessonManifest, PackagedAsset, PackagedLesson } from './manifest';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ImportedLesson {
+  lesson: Lesson;
+  /** Manifest version of the package before migration. */
+  packageVersion: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** File extension of lesson packages, with the dot. */
+export const LESSON_PACKAGE_EXTENSION = '.classflow';
+
+/** Media type lesson packages are served and uploaded with. */
+export const LESSON_PACKAGE_MIME_TYPE = 'application/vnd.classflow+gzip';
+
+/** Largest package accepted for import (bytes, compressed). */
+export const MAX_PACKAGE_SIZE = 50 * 1024 * 1024;
+
+/** Largest package contents accepted for import (bytes, decompressed). */
+const MAX_UNPACKED_SIZE = 200 * 1024 * 1024;
+
+const MANIFEST_PATH = 'manifest.json';
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** Thrown when an uploaded package cannot be imported. */
+export class LessonPackageError extends Error {
+  readonly details?: Record<string, unknown>;
+
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'LessonPackageError';
+    this.details = details;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Packaging
+// ---------------------------------------------------------------------------
+
+/**
+ * Pack a lesson into a `.classflow` archive: a `manifest.json` describing
+ * the lesson, plus its narration audio under `audio/`.
+ *
+ * Narration whose audio file is missing is packaged without audio.
+ */
+export async function createLessonPackage(lesson: Lesson): Promise<Buffer> {
+  const storage = getAudioStorage();
+  const entries: ArchiveEntry[] = [];
+  const assets: PackagedAsset[] = [];
+  const assetPaths = new Map<string, string | null>();
+
+  const packageAudio = async (url: string): Promise<string | null> => {
+    const known = assetPaths.get(url);
+    if (known !== undefined) return known;
+
+    const file = storage.resolveUrl(url);
+    let assetPath: string | null = null;
+    if (file) {
+      try {
+        const data = await readFile(file);
+        assetPath = `audio/${path.basename(file)}`;
+        entries.push({ path: assetPath, data });
+        assets.push({ path: assetPath, size: data.length, sha256: sha256(data) });
+      } catch (err) {
+        logger.warn('Narration audio missing; packaging without it', {
+          lessonId: lesson.id,
+          audioUrl: url,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    assetPaths.set(url, assetPath);
+    return assetPath;
+  };
+
+  const timeline: TimelineEvent[] = [];
+  for (const event of lesson.timeline) {
+    // Quizzes carry answer keys and are not packaged, nor are their checkpoints.
+    if (event.type === 'quiz_checkpoint') continue;
+    const { audioUrl, ...payload } = event.payload;
+    const assetPath = audioUrl ? await packageAudio(audioUrl) : null;
+    timeline.push({ ...event, payload: assetPath ? { ...payload, audioUrl: assetPath } : payload });
+  }
+
+  const manifest: LessonManifest = {
+    format: 'classflow',
+    version: MANIFEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    lesson: {
+      question: lesson.question,
+      explanation: lesson.explanation,
+      timeline,
+      metadata: lesson.metadata,
+    },
+    assets,
+  };
+
+  return writeArchive([
+    { path: MANIFEST_PATH, data: Buffer.from(JSON.stringify(manifest, null, 2)) },
+    ...entries,
+  ]);
+}
+
+/**
+ * File name a lesson package is offered for download under, derived from
+ * the lesson's question.
+ */
+export function getPackageFileName(lesson: Lesson): string {
+  const slug = lesson.question
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+  return `${slug || `lesson-${lesson.id}`}${LESSON_PACKAGE_EXTENSION}`;
+}
+
+// ---------------------------------------------------------------------------
+// Importing
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a ready lesson owned by {@link userId} from a `.classflow`
+ * archive.  Manifests of older versions are migrated forward first.
+ *
+ * The package is validated completely before anything is stored, and a
+ * failed import leaves no lesson or audio behind.
+ *
+ * @throws {LessonPackageError} If the archive, its manifest or its assets
+ *   are invalid.
+ */
+export async function importLessonPackage(data: Buffer, userId: string): Promise<ImportedLesson> {
+  const { manifest, version, files } = await unpack(data);
+  const { question, explanation, timeline, metadata } = manifest.lesson;
+
+  const created = await lessonService.createLesson(question, userId, {
+    difficulty: metadata.difficulty,
+    language: metadata.language,
+    maxDuration: metadata.maxDuration,
+  });
+
+  try {
+    const storage = getAudioStorage();
+    const audioUrls = new Map<string, string>();
+    for (const asset of manifest.assets) {
+      const key = `${created.id}/${path.posix.basename(asset.path)}`;
+      audioUrls.set(asset.path, await storage.save(key, files.get(asset.path)!));
+    }
+
+    const imported = timeline.map((event) => {
+      const audioUrl = event.payload.audioUrl && audioUrls.get(event.payload.audioUrl);
+      return audioUrl ? { ...event, payload: { ...event.payload, audioUrl } } : event;
+    });
+
+    await lessonService.updateLessonContent(created.id, explanation, imported, metadata);
+    const lesson = await lessonService.updateLessonStatus(created.id, 'ready');
+    if (!lesson) {
+      throw new Error('Imported lesson disappeared');
+    }
+    await recordRevision(lesson, { authorId: userId, reason: 'import' });
+
+    logger.info('Lesson imported', {
+      lessonId: lesson.id,
+      packageVersion: version,
+      assets: manifest.assets.length,
+    });
+    return { lesson, packageVersion: version };
+  } catch (err) {
+    await removeLessonNarration(created.id);
+    await deleteLessonRevisions(created.id);
+    await lessonService.deleteLesson(created.id);
+    throw err;
+  }
+}
+
+/**
+ * Read and validate an archive: its manifest, migrated to the current
+ * version, and every asset the manifest lists.
+ */
+async function unpack(data: Buffer): Promise<{
+  manifest: LessonManifest;
+  version: number;
+  files: Map<string, Buffer>;
+}> {
+  let files: Map<string, Buffer>;
+  try {
+    const entries = await readArchive(data, MAX_UNPACKED_SIZE);
+    files = new Map(entries.map((entry) => [entry.path, entry.data]));
+  } catch (err) {
+    if (err instanceof ArchiveError) throw new LessonPackageError(err.message);
+    throw err;
+  }
+
+  const rawManifest = files.get(MANIFEST_PATH);
+  if (!rawManifest) {
+    throw new LessonPackageError(`Package has no ${MANIFEST_PATH}`);
+  }
+
+  let parsed: ReturnType<typeof parseManifest>;
+  try {
+    parsed = parseManifest(JSON.parse(rawManifest.toString('utf8')));
+  } catch (err) {
+    if (err instanceof ManifestError) throw new LessonPackageError(err.message, err.details);
+    if (err instanceof SyntaxError) throw new LessonPackageError(`${MANIFEST_PATH} is not JSON`);
+    throw err;
+  }
+
+  const { manifest } = parsed;
+  const listed = new Set<string>();
+  const names = new Set<string>();
+  for (const asset of manifest.assets) {
+    // Assets are stored under their file name, so two with one name collide.
+    const name = path.posix.basename(asset.path);
+    if (names.has(name)) {
+      throw new LessonPackageError(`Package lists ${name} more than once`);
+    }
+    names.add(name);
+
+    const file = files.get(asset.path);
+    if (!file) {
+      throw new LessonPackageError(`Package is missing ${asset.path}`);
+    }
+    if (file.length !== asset.size || sha256(file) !== asset.sha256) {
+      throw new LessonPackageError(`${asset.path} does not match the manifest`);
+    }
+    listed.add(asset.path);
+  }
+
+  for (const event of manifest.lesson.timeline) {
+    const audio = event.payload.audioUrl;
+    if (audio !== undefined && !listed.has(audio)) {
+      throw new LessonPackageError(`Event ${event.id} refers to unknown audio ${audio}`);
+    }
+  }
+
+  return { manifest, version: parsed.version, files };
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
@@ -0,0 +1,213 @@
+import { z } from 'zod';
+
+// ---------------------------------------------------------------------------
+// Shared schemas
+// ---------------------------------------------------------------------------
+
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+const wordTimingSchema = z.object({
+  word: z.string(),
+  startTime: z.number(),
+  endTime: z.number(),
+  index: z.number().int(),
+});
+
+const explanationBlockSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['text', 'code', 'diagram', 'equation']),
+  content: z.string(),
+  order: z.number(),
+  duration: z.number().nonnegative(),
+  format: z.enum(['heading', 'paragraph', 'list']).optional(),
+  language: z.string().optional(),
+});
+
+const timelineEventSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum([
+    'cursor_move',
+    'draw_stroke',
+    'text_highlight',
+    'narration_segment',
+    'code_focus',
+    'page_clear',
+    'pause',
+    'quiz_checkpoint',
+  ]),
+  startTime: z.number().nonnegative(),
+  endTime: z.number().nonnegative(),
+  payload: z.object({
+    position: pointSchema.optional(),
+    path: z.array(pointSchema).optional(),
+    text: z.string().optional(),
+    blockId: z.string().optional(),
+    audioUrl: z.string().optional(),
+    wordTimings: z.array(wordTimingSchema).optional(),
+    color: z.string().optional(),
+    strokeWidth: z.number().optional(),
+    lines: z.object({ start: z.number().int(), end: z.number().int() }).optional(),
+    page: z.number().int().nonnegative().optional(),
+    quizId: z.string().optional(),
+  }),
+});
+
+const lessonMetadataSchema = z.object({
+  subject: z.string().optional(),
+  difficulty: z.enum(['beginner', 'intermediate', 'advanced']).optional(),
+  language: z.string().optional(),
+  maxDuration: z.number().positive().optional(),
+  estimatedDuration: z.number().nonnegative(),
+  generationTime: z.number().nonnegative(),
+});
+
+// ---------------------------------------------------------------------------
+// Version 1
+// ---------------------------------------------------------------------------
+
+/**
+ * The first package format: the lesson exactly as the API serves it.  Audio
+ * stayed on the server it was generated on and was not packaged.
+ */
+const manifestV1Schema = z.object({
+  version: z.literal(1),
+  lesson: z.object({
+    id: z.string().optional(),
+    userId: z.string().optional(),
+    question: z.string().min(1),
+    explanation: z.array(explanationBlockSchema),
+    timeline: z.array(timelineEventSchema),
+    status: z.string().optional(),
+    metadata: lessonMetadataSchema,
+    createdAt: z.string().optional(),
+    updatedAt: z.string().optional(),
+  }),
+});
+
+// ---------------------------------------------------------------------------
+// Version 2 (current)
+// ---------------------------------------------------------------------------
+
+/** Archive path of a packaged audio file; `.` and `..` are not file names. */
+const assetPathSchema = z.string().regex(/^audio\/(?!\.{1,2}$)[\w.-]+$/, 'Invalid asset path');
+
+/**
+ * A portable lesson: content without owner or server IDs, and narration
+ * audio packaged alongside the manifest.  `narration_segment` events refer
+ * to their audio by asset path instead of URL.
+ */
+const manifestV2Schema = z.object({
+  format: z.literal('classflow'),
+  version: z.literal(2),
+  exportedAt: z.string(),
+  lesson: z.object({
+    question: z.string().min(1).max(2000),
+    explanation: z.array(explanationBlockSchema),
+    timeline: z.array(timelineEventSchema),
+    metadata: lessonMetadataSchema,
+  }),
+  assets: z.array(
+    z.object({
+      path: assetPathSchema,
+      size: z.number().int().nonnegative(),
+      sha256: z.string().regex(/^[0-9a-f]{64}$/),
+    }),
+  ),
+});
+
+export type ManifestV1 = z.infer<typeof manifestV1Schema>;
+export type LessonManifest = z.infer<typeof manifestV2Schema>;
+export type PackagedLesson = LessonManifest['lesson'];
+export type PackagedAsset = LessonManifest['assets'][number];
+
+export const MANIFEST_VERSION = 2;
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+
+/**
+ * Forward migrations, keyed by the version they upgrade from.  Each one
+ * validates the manifest against its own version's schema first.
+ */
+const MIGRATIONS: Record<number, (manifest: unknown) => unknown> = {
+  1: (manifest) => migrateV1(validate(manifestV1Schema, manifest, 1)),
+};
+
+function migrateV1(manifest: ManifestV1): LessonManifest {
+  const { question, explanation, timeline, metadata, updatedAt } = manifest.lesson;
+  return {
+    format: 'classflow',
+    version: 2,
+    exportedAt: updatedAt ?? new Date().toISOString(),
+    lesson: {
+      question,
+      explanation,
+      // Audio URLs point at the originating server; drop them.
+      timeline: timeline.map(({ payload: { audioUrl: _audioUrl, ...payload }, ...event }) => ({
+        ...event,
+        payload,
+      })),
+      metadata,
+    },
+    assets: [],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** Thrown when a manifest is invalid or of an unsupported version. */
+export class ManifestError extends Error {
+  readonly details?: Record<string, unknown>;
+
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'ManifestError';
+    this.details = details;
+  }
+}
+
+/**
+ * Validate a parsed `manifest.json` of any supported version and migrate it
+ * forward, one version at a time, to {@link MANIFEST_VERSION}.
+ *
+ * @returns The current-version manifest and the version it was written in.
+ * @throws {ManifestError} If any version's schema rejects the manifest, or
+ *   its version is unknown.
+ */
+export function parseManifest(raw: unknown): { manifest: LessonManifest; version: number } {
+  const version = z.object({ version: z.number().int().positive() }).safeParse(raw);
+  if (!version.success) {
+    throw new ManifestError('Manifest has no version');
+  }
+
+  const original = version.data.version;
+  if (original > MANIFEST_VERSION) {
+    throw new ManifestError(
+      `Manifest version ${original} is newer than supported (${MANIFEST_VERSION})`,
+    );
+  }
+
+  let current: unknown = raw;
+  for (let from = original; from < MANIFEST_VERSION; from++) {
+    const migration = MIGRATIONS[from];
+    if (!migration) {
+      throw new ManifestError(`Manifest version ${from} is not supported`);
+    }
+    current = migration(current);
+  }
+
+  return { manifest: validate(manifestV2Schema, current, MANIFEST_VERSION), version: original };
+}
+
+function validate<T>(schema: z.ZodType<T>, value: unknown, version: number): T {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new ManifestError(`Invalid version ${version} manifest`, {
+      manifest: result.error.format(),
+    });
+  }
+  return result.data;
+}
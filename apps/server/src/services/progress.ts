@@ -0,0 +1,243 @@
+import mongoose from 'mongoose';
+import type {
+  Lesson,
+  LessonProgress,
+  QuizResult,
+  UpdateProgressRequest,
+  UpdateProgressResponse,
+} from '@classflowai/types';
+import { logger } from '@classflowai/utils';
+import { ProgressModel } from '../models/ProgressModel';
+import type { IProgressLean } from '../models/ProgressModel';
+import { SessionModel } from '../models/SessionModel';
+import { addLessonFlashcards } from './review';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Percentage of a lesson that counts as having finished it. */
+const COMPLETION_THRESHOLD = 95;
+
+/**
+ * Upper bound on watched time accepted from a single report.  Clients report
+ * every few seconds, so anything larger is a bug or tampering.
+ */
+const MAX_WATCHED_DELTA_MS = 60_000;
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// ---------------------------------------------------------------------------
+// Type conversion helpers
+// ---------------------------------------------------------------------------
+
+function toLessonProgress(doc: IProgressLean): LessonProgress {
+  return {
+    lessonId: doc.lessonId,
+    lastPosition: doc.lastPosition,
+    watchedDuration: doc.watchedDuration,
+    totalDuration: doc.totalDuration,
+    completionPercentage: doc.completionPercentage,
+    completedAt: doc.completedAt,
+    quizResults: (doc.quizResults ?? []).map(toQuizResult),
+    updatedAt: doc.updatedAt,
+  };
+}
+
+function toQuizResult(result: QuizResult): QuizResult {
+  return {
+    quizId: result.quizId,
+    correct: result.correct,
+    attempts: result.attempts,
+    answeredAt: result.answeredAt,
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+// ---------------------------------------------------------------------------
+// Service functions
+// ---------------------------------------------------------------------------
+
+/**
+ * Record a playback progress report for a user and lesson.
+ *
+ * Updates the user's aggregate progress (one document per lesson) and the
+ * viewing session the report belongs to, starting a new session when
+ * {@link UpdateProgressRequest.sessionId} is missing or unknown.  Completion
+ * only ever moves forward, and is only awarded once the lesson has finished
+ * generating, since its duration is not final before that.  Completing a
+ * lesson adds its flashcards to the user's reviews.
+ */
+export async function recordProgress(
+  userId: string,
+  lesson: Lesson,
+  update: UpdateProgressRequest,
+): Promise<UpdateProgressResponse> {
+  const totalDuration = lesson.metadata.estimatedDuration;
+  const position = clamp(update.position, 0, totalDuration);
+  const reached = totalDuration > 0
+    ? Math.round((position / totalDuration) * 10_000) / 100
+    : 0;
+  const watchedDelta = clamp(update.watchedDelta, 0, MAX_WATCHED_DELTA_MS);
+  const isComplete = lesson.status === 'ready' && reached >= COMPLETION_THRESHOLD;
+  const now = new Date();
+
+  let doc = await ProgressModel.findOneAndUpdate(
+    { userId, lessonId: lesson.id },
+    {
+      $set: { lastPosition: position, totalDuration },
+      $inc: { watchedDuration: watchedDelta },
+      $max: { completionPercentage: reached },
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true },
+  ).lean<IProgressLean>();
+
+  if (isComplete && doc && !doc.completedAt) {
+    const completed = await ProgressModel.findOneAndUpdate(
+      { _id: doc._id, completedAt: null },
+      { $set: { completedAt: now } },
+      { new: true },
+    ).lean<IProgressLean>();
+
+    if (completed) {
+      doc = completed;
+      await addFlashcardsOnCompletion(userId, lesson);
+    }
+  }
+
+  const sessionId = await touchSession(userId, lesson.id, update.sessionId, reached, isComplete);
+
+  return { progress: toLessonProgress(doc!), sessionId };
+}
+
+/**
+ * Record a user's answer to one of a lesson's quizzes, counting attempts.
+ * The latest answer decides whether the quiz counts as passed.  Answers that
+ * race each other still keep a single result per quiz.
+ */
+export async function recordQuizResult(
+  userId: string,
+  lesson: Lesson,
+  quizId: string,
+  correct: boolean,
+): Promise<QuizResult> {
+  const answeredAt = new Date();
+
+  const updateResult = () =>
+    ProgressModel.findOneAndUpdate(
+      { userId, lessonId: lesson.id, 'quizResults.quizId': quizId },
+      {
+        $set: { 'quizResults.$.correct': correct, 'quizResults.$.answeredAt': answeredAt },
+        $inc: { 'quizResults.$.attempts': 1 },
+      },
+      { new: true },
+    ).lean<IProgressLean>();
+
+  let doc = await updateResult();
+  if (!doc) {
+    try {
+      doc = await ProgressModel.findOneAndUpdate(
+        { userId, lessonId: lesson.id, 'quizResults.quizId': { $ne: quizId } },
+        {
+          $push: { quizResults: { quizId, correct, attempts: 1, answeredAt } },
+          $setOnInsert: { totalDuration: lesson.metadata.estimatedDuration },
+        },
+        { upsert: true, new: true, setDefaultsOnInsert: true },
+      ).lean<IProgressLean>();
+    } catch (err) {
+      // A concurrent answer added the result, or created the progress,
+      // first; count this one as another attempt instead.
+      if ((err as { code?: number }).code !== DUPLICATE_KEY_ERROR) throw err;
+      doc = await updateResult();
+    }
+  }
+
+  const result = doc?.quizResults?.find((r) => r.quizId === quizId);
+  return toQuizResult(result ?? { quizId, correct, attempts: 1, answeredAt });
+}
+
+/**
+ * List a user's progress, most recently watched first.
+ */
+export async function listProgress(
+  userId: string,
+  options: { lessonId?: string; limit: number },
+): Promise<LessonProgress[]> {
+  const filter: Record<string, unknown> = { userId };
+  if (options.lessonId) filter.lessonId = options.lessonId;
+
+  const docs = await ProgressModel.find(filter)
+    .sort({ updatedAt: -1 })
+    .limit(options.limit)
+    .lean<IProgressLean[]>();
+
+  return docs.map(toLessonProgress);
+}
+
+// ---------------------------------------------------------------------------
+// Flashcards
+// ---------------------------------------------------------------------------
+
+/**
+ * Flashcards are a bonus of finishing a lesson; failing to add them must
+ * not fail the progress report that finished it.
+ */
+async function addFlashcardsOnCompletion(userId: string, lesson: Lesson): Promise<void> {
+  try {
+    await addLessonFlashcards(userId, lesson);
+  } catch (err) {
+    logger.warn('Failed to add flashcards', {
+      userId,
+      lessonId: lesson.id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+/**
+ * Advance an existing session, or create one when {@link sessionId} does
+ * not name a session of this user and lesson.
+ *
+ * @returns The ID of the session that was updated.
+ */
+async function touchSession(
+  userId: string,
+  lessonId: string,
+  sessionId: string | undefined,
+  reached: number,
+  isComplete: boolean,
+): Promise<string> {
+  if (sessionId && mongoose.Types.ObjectId.isValid(sessionId)) {
+    const session = await SessionModel.findOneAndUpdate(
+      { _id: sessionId, userId, lessonId },
+      { $max: { progress: reached } },
+      { new: true },
+    ).lean();
+
+    if (session) {
+      if (isComplete && !session.completedAt) {
+        await SessionModel.updateOne(
+          { _id: session._id, completedAt: null },
+          { $set: { completedAt: new Date() } },
+        );
+      }
+      return session._id.toHexString();
+    }
+  }
+
+  const session = await SessionModel.create({
+    userId,
+    lessonId,
+    progress: reached,
+    completedAt: isComplete ? new Date() : null,
+  });
+
+  return session._id.toHexString();
+}
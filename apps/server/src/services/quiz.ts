@@ -0,0 +1,101 @@
+import type { AnswerQuizResponse, Lesson } from '@classflowai/types';
+import { logger } from '@classflowai/utils';
+import type { ILessonQuiz } from '../models/LessonModel';
+import { getLessonQuiz } from './lesson';
+import { recordQuizResult } from './progress';
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** Thrown when an answer does not fit the kind of quiz it answers. */
+export class QuizAnswerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuizAnswerError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Service functions
+// ---------------------------------------------------------------------------
+
+/**
+ * Grade an answer to quiz {@link quizId} of a lesson and, for signed-in
+ * learners, record the result against their progress in the lesson.
+ *
+ * Multiple-choice quizzes are answered with the index of an option.  Short
+ * answers are compared with the accepted answers after normalizing case,
+ * punctuation and spacing; numbers are compared by value.
+ *
+ * @returns `null` if the lesson has no quiz {@link quizId}.
+ * @throws {QuizAnswerError} If the answer does not fit the kind of quiz.
+ */
+export async function answerQuiz(
+  lesson: Lesson,
+  quizId: string,
+  answer: number | string,
+  userId: string | null,
+): Promise<AnswerQuizResponse | null> {
+  const quiz = await getLessonQuiz(lesson.id, quizId);
+  if (!quiz) return null;
+
+  const correct = gradeAnswer(quiz, answer);
+  const result = userId ? await recordQuizResult(userId, lesson, quizId, correct) : null;
+
+  logger.info('Quiz answered', { lessonId: lesson.id, quizId, correct, recorded: !!result });
+
+  return {
+    quizId,
+    correct,
+    correctAnswer: describeCorrectAnswer(quiz),
+    ...(quiz.explanation ? { explanation: quiz.explanation } : {}),
+    result,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Grading
+// ---------------------------------------------------------------------------
+
+function gradeAnswer(quiz: ILessonQuiz, answer: number | string): boolean {
+  if (quiz.type === 'multiple_choice') {
+    if (typeof answer !== 'number' || answer >= (quiz.choices?.length ?? 0)) {
+      throw new QuizAnswerError('Answer must be the index of one of the choices');
+    }
+    return answer === quiz.correctChoice;
+  }
+
+  if (typeof answer !== 'string') {
+    throw new QuizAnswerError('Answer must be text');
+  }
+  const given = normalizeAnswer(answer);
+  return (quiz.acceptedAnswers ?? []).some((accepted) =>
+    answersMatch(given, normalizeAnswer(accepted)),
+  );
+}
+
+function describeCorrectAnswer(quiz: ILessonQuiz): string {
+  return quiz.type === 'multiple_choice'
+    ? (quiz.choices?.[quiz.correctChoice ?? -1] ?? '')
+    : (quiz.acceptedAnswers?.[0] ?? '');
+}
+
+/** Lower-case, with punctuation other than decimal points and signs turned into spaces. */
+function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}.\-\s]+/gu, ' ')
+    .replace(/\.(?!\d)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function answersMatch(given: string, accepted: string): boolean {
+  if (given === accepted) return true;
+
+  const a = Number(given);
+  const b = Number(accepted);
+  return given !== '' && accepted !== '' && Number.isFinite(a) && a === b;
+}
@@ -0,0 +1,119 @@
+import mongoose from 'mongoose';
+import type { Flashcard, Lesson, ReviewGrade } from '@classflowai/types';
+import {
+  createReviewSchedule,
+  explanationBlockToMarkdown,
+  extractFlashcards,
+  parseRawExplanation,
+  scheduleReview,
+  sortBlocks,
+} from '@classflowai/engine';
+import { logger } from '@classflowai/utils';
+import { FlashcardModel } from '../models/FlashcardModel';
+import type { IFlashcardLean } from '../models/FlashcardModel';
+
+// ---------------------------------------------------------------------------
+// Type conversion helpers
+// ---------------------------------------------------------------------------
+
+function toFlashcard(doc: IFlashcardLean): Flashcard {
+  return {
+    id: doc._id.toHexString(),
+    userId: doc.userId,
+    lessonId: doc.lessonId,
+    lessonQuestion: doc.lessonQuestion,
+    source: doc.source,
+    front: doc.front,
+    back: doc.back,
+    easeFactor: doc.easeFactor,
+    interval: doc.interval,
+    repetitions: doc.repetitions,
+    dueAt: doc.dueAt,
+    ...(doc.lastReviewedAt ? { lastReviewedAt: doc.lastReviewedAt } : {}),
+    createdAt: doc.createdAt,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Service functions
+// ---------------------------------------------------------------------------
+
+/**
+ * Give {@link userId} flashcards for the key terms and ideas of a lesson
+ * they completed, due for a first review straight away.  Cards they
+ * already have for the lesson keep their schedule.
+ *
+ * @returns The number of cards added.
+ */
+export async function addLessonFlashcards(userId: string, lesson: Lesson): Promise<number> {
+  const markdown = sortBlocks(lesson.explanation).map(explanationBlockToMarkdown).join('\n\n');
+  const drafts = extractFlashcards(parseRawExplanation(markdown));
+  if (drafts.length === 0) return 0;
+
+  const schedule = createReviewSchedule(new Date());
+  const result = await FlashcardModel.bulkWrite(
+    drafts.map(({ source, front, back }) => ({
+      updateOne: {
+        filter: { userId, lessonId: lesson.id, front },
+        update: {
+          $setOnInsert: { lessonQuestion: lesson.question, source, back, ...schedule },
+        },
+        upsert: true,
+      },
+    })),
+    { ordered: false },
+  );
+
+  logger.info('Flashcards added', {
+    userId,
+    lessonId: lesson.id,
+    extracted: drafts.length,
+    added: result.upsertedCount,
+  });
+
+  return result.upsertedCount;
+}
+
+/**
+ * List the flashcards of {@link userId} due for review, longest overdue
+ * first.
+ */
+export async function listDueFlashcards(
+  userId: string,
+  options: { limit: number },
+): Promise<Flashcard[]> {
+  const docs = await FlashcardModel.find({ userId, dueAt: { $lte: new Date() } })
+    .sort({ dueAt: 1 })
+    .limit(options.limit)
+    .lean<IFlashcardLean[]>();
+
+  return docs.map(toFlashcard);
+}
+
+/**
+ * Record a review of flashcard {@link id} and schedule the next one.
+ *
+ * @returns The rescheduled card, or `null` if {@link userId} has no such
+ *          card.
+ */
+export async function gradeFlashcard(
+  userId: string,
+  id: string,
+  grade: ReviewGrade,
+): Promise<Flashcard | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+
+  const doc = await FlashcardModel.findOne({ _id: id, userId }).lean<IFlashcardLean>();
+  if (!doc) return null;
+
+  const now = new Date();
+  const schedule = scheduleReview(doc, grade, now);
+
+  const updated = await FlashcardModel.findOneAndUpdate(
+    { _id: doc._id, userId },
+    { $set: { ...schedule, lastReviewedAt: now } },
+    { new: true },
+  ).lean<IFlashcardLean>();
+
+  return updated ? toFlashcard(updated) : null;
+}
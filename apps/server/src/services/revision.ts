@@ -0,0 +1,249 @@
+import type {
+  Lesson,
+  LessonRevision,
+  LessonRevisionInfo,
+  LessonRevisionReason,
+  TimelineEvent,
+} from '@classflowai/types';
+import { summarizeLessonDiff } from '@classflowai/engine';
+import { logger } from '@classflowai/utils';
+import { LessonRevisionModel } from '../models/LessonRevisionModel';
+import type { ILessonRevisionLean } from '../models/LessonRevisionModel';
+import type { ILessonQuiz } from '../models/LessonModel';
+import { getLessonQuizzes, updateLessonContent } from './lesson';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RecordRevisionOptions {
+  authorId: string;
+  reason: LessonRevisionReason;
+  restoredFrom?: number;
+}
+
+export interface RestoredRevision {
+  lesson: Lesson;
+  revision: LessonRevisionInfo;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Attempts at claiming the next revision number when edits race. */
+const MAX_RECORD_ATTEMPTS = 3;
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** Thrown when a revision cannot be restored. */
+export class RevisionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RevisionError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Type conversion helpers
+// ---------------------------------------------------------------------------
+
+function toRevisionInfo(
+  doc: Omit<ILessonRevisionLean, 'explanation' | 'timeline' | 'metadata' | 'quizzes'>,
+): LessonRevisionInfo {
+  return {
+    id: doc._id.toHexString(),
+    lessonId: doc.lessonId,
+    number: doc.number,
+    authorId: doc.authorId,
+    reason: doc.reason,
+    ...(doc.restoredFrom !== undefined ? { restoredFrom: doc.restoredFrom } : {}),
+    summary: doc.summary,
+    createdAt: doc.createdAt,
+  };
+}
+
+function toRevision(doc: ILessonRevisionLean): LessonRevision {
+  return {
+    ...toRevisionInfo(doc),
+    explanation: doc.explanation,
+    timeline: doc.timeline,
+    metadata: doc.metadata,
+  };
+}
+
+/**
+ * The quizzes of a revision and its timeline, less any checkpoint asking a
+ * quiz the revision does not have, e.g. one recorded before quizzes were
+ * kept with revisions.
+ */
+function toQuizContent(doc: ILessonRevisionLean): {
+  timeline: TimelineEvent[];
+  quizzes: ILessonQuiz[];
+} {
+  const quizzes = doc.quizzes ?? [];
+  const ids = new Set(quizzes.map((quiz) => quiz.id));
+  const timeline = doc.timeline.filter(
+    (event) => event.type !== 'quiz_checkpoint' || ids.has(event.payload.quizId ?? ''),
+  );
+  return { timeline, quizzes };
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/**
+ * Snapshot a lesson's current content as its next revision, summarising
+ * the changes since the previous one.  Its quizzes are read from the store,
+ * since a {@link Lesson} leaves out their answer keys.
+ */
+export async function recordRevision(
+  lesson: Lesson,
+  options: RecordRevisionOptions,
+): Promise<LessonRevisionInfo> {
+  const quizzes = await getLessonQuizzes(lesson.id);
+
+  for (let attempt = 1; ; attempt++) {
+    const previous = await LessonRevisionModel.findOne({ lessonId: lesson.id })
+      .sort({ number: -1 })
+      .lean();
+
+    try {
+      const doc = await LessonRevisionModel.create({
+        lessonId: lesson.id,
+        number: (previous?.number ?? 0) + 1,
+        authorId: options.authorId,
+        reason: options.reason,
+        restoredFrom: options.restoredFrom,
+        summary: summarizeLessonDiff(previous ?? { explanation: [], timeline: [] }, lesson),
+        explanation: lesson.explanation,
+        timeline: lesson.timeline,
+        metadata: lesson.metadata,
+        quizzes,
+      });
+
+      logger.info('Lesson revision recorded', {
+        lessonId: lesson.id,
+        revision: doc.number,
+        reason: options.reason,
+      });
+      return toRevisionInfo(doc.toObject());
+    } catch (err) {
+      // Another edit claimed the number first; summarise against it instead.
+      const code = (err as { code?: number }).code;
+      if (code !== DUPLICATE_KEY_ERROR || attempt >= MAX_RECORD_ATTEMPTS) throw err;
+    }
+  }
+}
+
+/**
+ * Record a lesson's content as its first revision if it has none, so
+ * lessons generated before revisions existed keep the content an edit or
+ * regeneration is about to replace.
+ */
+export async function recordBaselineRevision(lesson: Lesson): Promise<void> {
+  if (await hasRevisions(lesson.id)) return;
+  await recordRevision(lesson, { authorId: lesson.userId, reason: 'generation' });
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+export async function hasRevisions(lessonId: string): Promise<boolean> {
+  return (await LessonRevisionModel.exists({ lessonId })) !== null;
+}
+
+/**
+ * List a lesson's revisions without their content, newest first.
+ */
+export async function listRevisions(lessonId: string): Promise<LessonRevisionInfo[]> {
+  const docs = await LessonRevisionModel.find({ lessonId })
+    .select('-explanation -timeline -metadata -quizzes')
+    .sort({ number: -1 })
+    .lean();
+
+  return docs.map(toRevisionInfo);
+}
+
+/**
+ * Retrieve one revision with its content, or `null` if not found.
+ */
+export async function getRevision(
+  lessonId: string,
+  number: number,
+): Promise<LessonRevision | null> {
+  const doc = await LessonRevisionModel.findOne({ lessonId, number }).lean();
+  return doc ? toRevision(doc) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Restoring
+// ---------------------------------------------------------------------------
+
+/**
+ * Put a revision's content back on the lesson, recording the restore as a
+ * new revision so history only ever grows.
+ *
+ * @returns `null` if the lesson has no such revision.
+ * @throws {RevisionError} If the revision is already the current content.
+ */
+export async function restoreRevision(
+  lesson: Lesson,
+  number: number,
+  authorId: string,
+): Promise<RestoredRevision | null> {
+  const revision = await LessonRevisionModel.findOne({ lessonId: lesson.id, number }).lean();
+  if (!revision) return null;
+
+  const latest = await LessonRevisionModel.findOne({ lessonId: lesson.id })
+    .sort({ number: -1 })
+    .select('number')
+    .lean();
+  if (latest?.number === number) {
+    throw new RevisionError(`Revision ${number} is the current content`);
+  }
+
+  const { timeline, quizzes } = toQuizContent(revision);
+  const restored = await updateLessonContent(
+    lesson.id,
+    revision.explanation,
+    timeline,
+    revision.metadata,
+    quizzes,
+  );
+  if (!restored) return null;
+
+  const recorded = await recordRevision(restored, {
+    authorId,
+    reason: 'restore',
+    restoredFrom: number,
+  });
+  return { lesson: restored, revision: recorded };
+}
+
+/**
+ * Put the latest revision's content back on the lesson without recording
+ * a new revision, e.g. when a regeneration fails or is cancelled.
+ *
+ * @returns The lesson, or `null` if it has no revisions.
+ */
+export async function revertToLatestRevision(lessonId: string): Promise<Lesson | null> {
+  const latest = await LessonRevisionModel.findOne({ lessonId }).sort({ number: -1 }).lean();
+  if (!latest) return null;
+
+  const { timeline, quizzes } = toQuizContent(latest);
+  return updateLessonContent(lessonId, latest.explanation, timeline, latest.metadata, quizzes);
+}
+
+/**
+ * Delete every revision of a lesson.
+ */
+export async function deleteLessonRevisions(lessonId: string): Promise<void> {
+  await LessonRevisionModel.deleteMany({ lessonId });
+}
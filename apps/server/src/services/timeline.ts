@@ -0,0 +1,181 @@
+import type {
+  ChapterGraph,
+  Lesson,
+  TimelineEvent,
+  TimelineEventTiming,
+  TimelineValidationError,
+} from '@classflowai/types';
+import {
+  buildTracksFromEvents,
+  calculateTimelineDuration,
+  retimeEvent,
+  validateChapterGraph,
+  validateTimeline,
+} from '@classflowai/engine';
+import { logger } from '@classflowai/utils';
+import { updateLessonChapters, updateLessonTimeline } from './lesson';
+import { recordBaselineRevision, recordRevision } from './revision';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TimelineEdits {
+  /** New start and end times of moved or resized events. */
+  events: TimelineEventTiming[];
+  /** IDs of events to delete. */
+  removed: string[];
+}
+
+export interface TimelineEditResult {
+  lesson: Lesson;
+  /** Validation warnings of the edited timeline, such as large gaps. */
+  warnings: TimelineValidationError[];
+}
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** Thrown when edits refer to unknown events or break the timeline. */
+export class TimelineEditError extends Error {
+  readonly details?: Record<string, unknown>;
+
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'TimelineEditError';
+    this.details = details;
+  }
+}
+
+/** Thrown when a chapter graph does not fit the lesson's timeline. */
+export class ChapterGraphError extends Error {
+  readonly details?: Record<string, unknown>;
+
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'ChapterGraphError';
+    this.details = details;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Service functions
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply timing changes and deletions to a timeline, keeping event order.
+ * Narration word timings follow their events.
+ *
+ * @throws {TimelineEditError} If an edit refers to an event that is not in
+ *   {@link timeline}.
+ */
+export function applyTimelineEdits(
+  timeline: TimelineEvent[],
+  edits: TimelineEdits,
+): TimelineEvent[] {
+  const known = new Set(timeline.map((event) => event.id));
+  const unknown = [...edits.events.map((edit) => edit.id), ...edits.removed]
+    .filter((id) => !known.has(id));
+  if (unknown.length > 0) {
+    throw new TimelineEditError('Edits refer to unknown events', { eventIds: unknown });
+  }
+
+  const timings = new Map(edits.events.map((edit) => [edit.id, edit]));
+  const removed = new Set(edits.removed);
+
+  return timeline
+    .filter((event) => !removed.has(event.id))
+    .map((event) => {
+      const timing = timings.get(event.id);
+      return timing ? retimeEvent(event, timing.startTime, timing.endTime) : event;
+    });
+}
+
+/**
+ * Persist hand-made edits to a lesson's timeline as a new revision,
+ * authored by {@link authorId}.
+ *
+ * Generated timelines are not always spotless, so only validation errors
+ * the edits introduce are rejected; the lesson's duration follows the
+ * edited timeline.
+ *
+ * @throws {TimelineEditError} If the edits refer to unknown events or
+ *   introduce validation errors.
+ */
+export async function editLessonTimeline(
+  lesson: Lesson,
+  edits: TimelineEdits,
+  authorId: string,
+): Promise<TimelineEditResult> {
+  const timeline = applyTimelineEdits(lesson.timeline, edits);
+
+  const before = new Set(
+    validateTimeline(buildTracksFromEvents(lesson.timeline))
+      .filter((issue) => issue.severity === 'error')
+      .map((issue) => issue.eventId),
+  );
+  const issues = validateTimeline(buildTracksFromEvents(timeline));
+  const introduced = issues.filter(
+    (issue) => issue.severity === 'error' && !before.has(issue.eventId),
+  );
+  if (introduced.length > 0) {
+    throw new TimelineEditError('Edited timeline is invalid', { errors: introduced });
+  }
+
+  await recordBaselineRevision(lesson);
+  const updated = await updateLessonTimeline(
+    lesson.id,
+    timeline,
+    calculateTimelineDuration(timeline),
+  );
+  if (!updated) {
+    throw new TimelineEditError('Lesson no longer exists');
+  }
+  await recordRevision(updated, { authorId, reason: 'timeline_edit' });
+
+  logger.info('Lesson timeline edited', {
+    lessonId: lesson.id,
+    changed: edits.events.length,
+    removed: edits.removed.length,
+  });
+
+  return {
+    lesson: updated,
+    warnings: issues.filter((issue) => issue.severity === 'warning'),
+  };
+}
+
+/**
+ * Replace a lesson's chapter graph, or remove it with `null` so players
+ * fall back to one chapter per heading.
+ *
+ * Chapters are segments of the timeline, so later timeline edits can leave
+ * a graph that no longer fits; players ignore such graphs.
+ *
+ * @throws {ChapterGraphError} If the graph does not fit the lesson's
+ *   timeline.
+ */
+export async function setLessonChapters(
+  lesson: Lesson,
+  chapters: ChapterGraph | null,
+): Promise<Lesson> {
+  if (chapters) {
+    const issues = validateChapterGraph(chapters, calculateTimelineDuration(lesson.timeline));
+    if (issues.length > 0) {
+      throw new ChapterGraphError('Chapter graph is invalid', { issues });
+    }
+  }
+
+  const updated = await updateLessonChapters(lesson.id, chapters);
+  if (!updated) {
+    throw new ChapterGraphError('Lesson no longer exists');
+  }
+
+  logger.info('Lesson chapters updated', {
+    lessonId: lesson.id,
+    chapters: chapters?.chapters.length ?? 0,
+  });
+
+  return updated;
+}
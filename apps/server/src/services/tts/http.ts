@@ -0,0 +1,159 @@
+import type { WordTiming } from '@classflowai/types';
+import type { TTSProvider, TTSRequest, TTSResult } from './provider';
+import { TTSProviderError } from './provider';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_BASE_URL = 'https://api.elevenlabs.io';
+const DEFAULT_VOICE = '21m00Tcm4TlvDq8ikWAM';
+const DEFAULT_MODEL = 'eleven_multilingual_v2';
+const OUTPUT_FORMAT = 'mp3_44100_128';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface HttpTTSProviderOptions {
+  apiKey: string;
+  baseUrl?: string;
+  voice?: string;
+  model?: string;
+  timeoutMs: number;
+}
+
+interface CharacterAlignment {
+  characters?: string[];
+  character_start_times_seconds?: number[];
+  character_end_times_seconds?: number[];
+}
+
+interface TimestampedSpeechResponse {
+  audio_base64?: string;
+  alignment?: CharacterAlignment | null;
+}
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a provider for ElevenLabs-compatible
+ * `/v1/text-to-speech/{voice}/with-timestamps` endpoints, which return MP3
+ * audio together with per-character timings that are folded into words.
+ */
+export function createHttpTTSProvider(options: HttpTTSProviderOptions): TTSProvider {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const voice = options.voice ?? DEFAULT_VOICE;
+  const model = options.model ?? DEFAULT_MODEL;
+
+  return {
+    name: 'http',
+    voice,
+
+    async synthesize(request: TTSRequest): Promise<TTSResult> {
+      const timeoutSignal = AbortSignal.timeout(options.timeoutMs);
+      const signal = request.signal
+        ? AbortSignal.any([request.signal, timeoutSignal])
+        : timeoutSignal;
+
+      let response: Response;
+      try {
+        response = await fetch(
+          `${baseUrl}/v1/text-to-speech/${encodeURIComponent(voice)}/with-timestamps?output_format=${OUTPUT_FORMAT}`,
+          {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'xi-api-key': options.apiKey },
+            body: JSON.stringify({
+              text: request.text,
+              model_id: model,
+              language_code: request.language,
+            }),
+            signal,
+          },
+        );
+      } catch (err) {
+        if (request.signal?.aborted) throw err;
+        const reason = timeoutSignal.aborted
+          ? `timed out after ${options.timeoutMs}ms`
+          : err instanceof Error ? err.message : String(err);
+        throw new TTSProviderError(`Request failed: ${reason}`, 'http');
+      }
+
+      if (!response.ok) {
+        const retryable = response.status === 429 || response.status >= 500;
+        throw new TTSProviderError(`HTTP ${response.status}`, 'http', {
+          statusCode: response.status,
+          retryable,
+        });
+      }
+
+      const data = (await response.json().catch(() => null)) as TimestampedSpeechResponse | null;
+      if (!data?.audio_base64) {
+        throw new TTSProviderError('Response did not contain audio', 'http', { retryable: false });
+      }
+
+      const wordTimings = alignmentToWordTimings(data.alignment ?? {});
+      const last = wordTimings[wordTimings.length - 1];
+
+      return {
+        audio: Buffer.from(data.audio_base64, 'base64'),
+        mimeType: 'audio/mpeg',
+        extension: 'mp3',
+        durationMs: lastCharacterEnd(data.alignment ?? {}) ?? last?.endTime ?? 0,
+        wordTimings,
+      };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Fold per-character timings into per-word timings (ms).  Whitespace ends a
+ * word; a word spans from its first character's start to its last's end.
+ */
+function alignmentToWordTimings(alignment: CharacterAlignment): WordTiming[] {
+  const characters = alignment.characters ?? [];
+  const starts = alignment.character_start_times_seconds ?? [];
+  const ends = alignment.character_end_times_seconds ?? [];
+
+  const timings: WordTiming[] = [];
+  let word = '';
+  let wordStart = 0;
+  let wordEnd = 0;
+
+  const flush = (): void => {
+    if (word.length === 0) return;
+    timings.push({
+      word,
+      startTime: Math.round(wordStart * 1000),
+      endTime: Math.round(wordEnd * 1000),
+      index: timings.length,
+    });
+    word = '';
+  };
+
+  for (let i = 0; i < characters.length; i++) {
+    const char = characters[i]!;
+    if (/\s/.test(char)) {
+      flush();
+      continue;
+    }
+    if (word.length === 0) wordStart = starts[i] ?? wordEnd;
+    word += char;
+    wordEnd = ends[i] ?? wordStart;
+  }
+  flush();
+
+  return timings;
+}
+
+function lastCharacterEnd(alignment: CharacterAlignment): number | undefined {
+  const ends = alignment.character_end_times_seconds;
+  if (!ends || ends.length === 0) return undefined;
+  return Math.round(ends[ends.length - 1]! * 1000);
+}
@@ -0,0 +1,88 @@
+import { logger } from '@classflowai/utils';
+import type { EnvConfig } from '../../config';
+import { getConfig } from '../../config';
+import type { TTSProvider, TTSProviderName } from './provider';
+import type { AudioStorage } from './storage';
+import { createHttpTTSProvider } from './http';
+import { createLocalTTSProvider } from './local';
+import { createLocalAudioStorage } from './storage';
+
+export { TTSProviderError, isRetryableTTSError } from './provider';
+export type { TTSProvider, TTSProviderName, TTSRequest, TTSResult } from './provider';
+export type { AudioStorage, LocalAudioStorageOptions } from './storage';
+export { createHttpTTSProvider } from './http';
+export { createLocalTTSProvider } from './local';
+export { createLocalAudioStorage } from './storage';
+export { encodeWav } from './wav';
+
+/** URL path generated audio is served under (see `createApp`). */
+export const AUDIO_PUBLIC_PATH = '/api/audio';
+
+// ---------------------------------------------------------------------------
+// Provider selection
+// ---------------------------------------------------------------------------
+
+let cachedProvider: TTSProvider | null = null;
+let cachedStorage: AudioStorage | null = null;
+
+/**
+ * Resolve which backend to use: an explicit `TTS_PROVIDER` wins, otherwise
+ * the HTTP provider is used when `TTS_API_KEY` is set and the local stub
+ * when it is not.
+ */
+export function resolveTTSProviderName(config: EnvConfig): TTSProviderName {
+  if (config.TTS_PROVIDER) return config.TTS_PROVIDER;
+  return config.TTS_API_KEY ? 'http' : 'local';
+}
+
+/**
+ * Build a {@link TTSProvider} from environment configuration.
+ *
+ * @throws If the HTTP provider is selected without `TTS_API_KEY`.
+ */
+export function createTTSProvider(config: EnvConfig): TTSProvider {
+  const name = resolveTTSProviderName(config);
+
+  if (name === 'local') {
+    return createLocalTTSProvider({ mode: config.TTS_STUB_MODE });
+  }
+
+  if (!config.TTS_API_KEY) {
+    throw new Error('TTS_PROVIDER "http" requires TTS_API_KEY');
+  }
+
+  return createHttpTTSProvider({
+    apiKey: config.TTS_API_KEY,
+    baseUrl: config.TTS_BASE_URL,
+    voice: config.TTS_VOICE,
+    model: config.TTS_MODEL,
+    timeoutMs: config.TTS_TIMEOUT_MS,
+  });
+}
+
+/**
+ * Return the process-wide {@link TTSProvider}, creating it on first use.
+ */
+export function getTTSProvider(): TTSProvider {
+  if (!cachedProvider) {
+    cachedProvider = createTTSProvider(getConfig());
+    logger.info('TTS provider initialised', {
+      provider: cachedProvider.name,
+      voice: cachedProvider.voice,
+    });
+  }
+  return cachedProvider;
+}
+
+/**
+ * Return the process-wide {@link AudioStorage}, creating it on first use.
+ */
+export function getAudioStorage(): AudioStorage {
+  if (!cachedStorage) {
+    cachedStorage = createLocalAudioStorage({
+      rootDir: getConfig().TTS_AUDIO_DIR,
+      publicPath: AUDIO_PUBLIC_PATH,
+    });
+  }
+  return cachedStorage;
+}
@@ -0,0 +1,66 @@
+import { estimateSpeechDuration, estimateWordTimings } from '@classflowai/engine';
+import type { TTSProvider, TTSRequest, TTSResult } from './provider';
+import { encodeWav } from './wav';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const SAMPLE_RATE = 16_000;
+const TONE_HZ = 440;
+const TONE_AMPLITUDE = 0.08;
+
+/** Gap left silent at the end of every word so words are audibly separate. */
+const WORD_GAP_MS = 40;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface LocalTTSProviderOptions {
+  /** `tone` beeps once per word; `silent` writes silence of the same length. */
+  mode: 'tone' | 'silent';
+}
+
+// ---------------------------------------------------------------------------
+// Local provider
+// ---------------------------------------------------------------------------
+
+/**
+ * Create an offline provider that never touches the network.
+ *
+ * The audio is synthetic but its length and word timings follow the same
+ * speaking-rate estimate the engine uses, and identical text always yields
+ * identical bytes, so development and tests exercise the real audio path.
+ */
+export function createLocalTTSProvider(options: LocalTTSProviderOptions): TTSProvider {
+  return {
+    name: 'local',
+    voice: options.mode,
+
+    async synthesize(request: TTSRequest): Promise<TTSResult> {
+      const durationMs = Math.round(estimateSpeechDuration(request.text) * 1000);
+      const wordTimings = estimateWordTimings(request.text, 0, durationMs);
+      const samples = new Int16Array(Math.ceil((durationMs / 1000) * SAMPLE_RATE));
+
+      if (options.mode === 'tone') {
+        for (const timing of wordTimings) {
+          const from = Math.floor((timing.startTime / 1000) * SAMPLE_RATE);
+          const to = Math.floor(((timing.endTime - WORD_GAP_MS) / 1000) * SAMPLE_RATE);
+          for (let i = from; i < to && i < samples.length; i++) {
+            const phase = (2 * Math.PI * TONE_HZ * i) / SAMPLE_RATE;
+            samples[i] = Math.round(Math.sin(phase) * TONE_AMPLITUDE * 32767);
+          }
+        }
+      }
+
+      return {
+        audio: encodeWav(samples, SAMPLE_RATE),
+        mimeType: 'audio/wav',
+        extension: 'wav',
+        durationMs,
+        wordTimings,
+      };
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import type { WordTiming } from '@classflowai/types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type TTSProviderName = 'http' | 'local';
+
+export interface TTSRequest {
+  text: string;
+  /** BCP 47 language tag of the text, when known. */
+  language?: string;
+  signal?: AbortSignal;
+}
+
+export interface TTSResult {
+  audio: Buffer;
+  mimeType: string;
+  /** File extension matching {@link mimeType}, without the dot. */
+  extension: string;
+  /** Length of the audio (ms). */
+  durationMs: number;
+  /** Word timings relative to the start of the audio (ms). */
+  wordTimings: WordTiming[];
+}
+
+/**
+ * A text-to-speech backend that also reports when each word is spoken.
+ *
+ * Like {@link LLMProvider}s, providers are stateless; retries and storage of
+ * the produced audio are the caller's responsibility.
+ */
+export interface TTSProvider {
+  readonly name: TTSProviderName;
+  readonly voice: string;
+  synthesize(request: TTSRequest): Promise<TTSResult>;
+}
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/**
+ * Error raised by a {@link TTSProvider}.  `retryable` follows the same rules
+ * as {@link LLMProviderError}.
+ */
+export class TTSProviderError extends Error {
+  readonly provider: TTSProviderName;
+  readonly statusCode?: number;
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    provider: TTSProviderName,
+    options: { statusCode?: number; retryable?: boolean } = {},
+  ) {
+    super(message);
+    this.name = 'TTSProviderError';
+    this.provider = provider;
+    this.statusCode = options.statusCode;
+    this.retryable = options.retryable ?? true;
+  }
+}
+
+/**
+ * Retry predicate for {@link withRetry}: only transient provider failures are
+ * retried.  Aborted requests are not; other unknown errors are treated as
+ * transient.
+ */
+export function isRetryableTTSError(error: Error): boolean {
+  if (error instanceof TTSProviderError) return error.retryable;
+  if (error.name === 'AbortError') return false;
+  return true;
+}
@@ -0,0 +1,77 @@
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Where generated narration audio lives.  Keys are `/`-separated relative
+ * paths such as `<lessonId>/<blockId>.wav`.
+ */
+export interface AudioStorage {
+  /**
+   * Store {@link data} under {@link key}, replacing any existing file.
+   *
+   * @returns The URL clients use to fetch the audio.
+   */
+  save(key: string, data: Buffer): Promise<string>;
+  /** Delete every file whose key starts with `<prefix>/`. */
+  removeAll(prefix: string): Promise<void>;
+  /**
+   * Local path of the file behind a URL returned by {@link save}, or `null`
+   * for URLs this storage did not hand out.
+   */
+  resolveUrl(url: string): string | null;
+}
+
+export interface LocalAudioStorageOptions {
+  /** Directory files are written to. */
+  rootDir: string;
+  /** URL path the directory is served under. */
+  publicPath: string;
+}
+
+// ---------------------------------------------------------------------------
+// Local storage
+// ---------------------------------------------------------------------------
+
+/**
+ * Create an {@link AudioStorage} on the local file system.  The server
+ * exposes {@link LocalAudioStorageOptions.rootDir} statically at
+ * {@link LocalAudioStorageOptions.publicPath}.
+ */
+export function createLocalAudioStorage(options: LocalAudioStorageOptions): AudioStorage {
+  const rootDir = path.resolve(options.rootDir);
+  const publicPath = options.publicPath.replace(/\/+$/, '');
+
+  const resolve = (key: string): string => {
+    const target = path.resolve(rootDir, key);
+    if (!target.startsWith(rootDir + path.sep)) {
+      throw new Error(`Audio key escapes storage root: ${key}`);
+    }
+    return target;
+  };
+
+  return {
+    async save(key: string, data: Buffer): Promise<string> {
+      const target = resolve(key);
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, data);
+      return `${publicPath}/${key}`;
+    },
+
+    async removeAll(prefix: string): Promise<void> {
+      await rm(resolve(prefix), { recursive: true, force: true });
+    },
+
+    resolveUrl(url: string): string | null {
+      if (!url.startsWith(`${publicPath}/`)) return null;
+      try {
+        return resolve(decodeURIComponent(url.slice(publicPath.length + 1)));
+      } catch {
+        return null;
+      }
+    },
+  };
+}
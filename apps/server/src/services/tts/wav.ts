@@ -0,0 +1,42 @@
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const HEADER_BYTES = 44;
+const BITS_PER_SAMPLE = 16;
+const CHANNELS = 1;
+
+// ---------------------------------------------------------------------------
+// encodeWav
+// ---------------------------------------------------------------------------
+
+/**
+ * Wrap mono 16-bit PCM samples in a canonical RIFF/WAVE container.
+ */
+export function encodeWav(samples: Int16Array, sampleRate: number): Buffer {
+  const blockAlign = (CHANNELS * BITS_PER_SAMPLE) / 8;
+  const dataBytes = samples.length * blockAlign;
+  const buffer = Buffer.alloc(HEADER_BYTES + dataBytes);
+
+  buffer.write('RIFF', 0, 'ascii');
+  buffer.writeUInt32LE(36 + dataBytes, 4);
+  buffer.write('WAVE', 8, 'ascii');
+
+  buffer.write('fmt ', 12, 'ascii');
+  buffer.writeUInt32LE(16, 16); // PCM chunk size
+  buffer.writeUInt16LE(1, 20); // PCM format
+  buffer.writeUInt16LE(CHANNELS, 22);
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * blockAlign, 28);
+  buffer.writeUInt16LE(blockAlign, 32);
+  buffer.writeUInt16LE(BITS_PER_SAMPLE, 34);
+
+  buffer.write('data', 36, 'ascii');
+  buffer.writeUInt32LE(dataBytes, 40);
+
+  for (let i = 0; i < samples.length; i++) {
+    buffer.writeInt16LE(samples[i]!, HEADER_BYTES + i * blockAlign);
+  }
+
+  return buffer;
+}
@@ -0,0 +1,164 @@
+import type { UserPreferences } from '@classflowai/types';
+import { generateId } from '@classflowai/utils';
+import mongoose from 'mongoose';
+import { UserModel } from '../models/UserModel';
+import type { IUserLean } from '../models/UserModel';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A stored account, including the password hash. */
+export interface UserRecord {
+  id: string;
+  email: string;
+  name: string;
+  passwordHash: string;
+  preferences: UserPreferences;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateUserInput {
+  email: string;
+  name: string;
+  passwordHash: string;
+}
+
+/**
+ * Persistence contract for user accounts.  Emails are stored lower-cased and
+ * are unique.
+ */
+export interface UserRepository {
+  /**
+   * Insert a new user.
+   *
+   * @throws {DuplicateEmailError} If the email is already registered.
+   */
+  create(input: CreateUserInput): Promise<UserRecord>;
+  findByEmail(email: string): Promise<UserRecord | null>;
+  findById(id: string): Promise<UserRecord | null>;
+}
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+export class DuplicateEmailError extends Error {
+  constructor(email: string) {
+    super(`Email already registered: ${email}`);
+    this.name = 'DuplicateEmailError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Defaults
+// ---------------------------------------------------------------------------
+
+const DEFAULT_PREFERENCES: UserPreferences = {
+  theme: 'system',
+  playbackSpeed: 1,
+  autoPlay: false,
+};
+
+/** MongoDB duplicate key error code. */
+const DUPLICATE_KEY = 11000;
+
+// ---------------------------------------------------------------------------
+// Mongo repository
+// ---------------------------------------------------------------------------
+
+function toUserRecord(doc: IUserLean): UserRecord {
+  return {
+    id: doc._id.toHexString(),
+    email: doc.email,
+    name: doc.name,
+    passwordHash: doc.passwordHash,
+    preferences: doc.preferences,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+/**
+ * Create a {@link UserRepository} backed by the `users` collection.
+ */
+export function createMongoUserRepository(): UserRepository {
+  return {
+    async create(input: CreateUserInput): Promise<UserRecord> {
+      try {
+        const doc = await UserModel.create({
+          ...input,
+          email: input.email.toLowerCase(),
+          preferences: DEFAULT_PREFERENCES,
+        });
+        return toUserRecord(doc.toObject());
+      } catch (err) {
+        if ((err as { code?: number }).code === DUPLICATE_KEY) {
+          throw new DuplicateEmailError(input.email);
+        }
+        throw err;
+      }
+    },
+
+    async findByEmail(email: string): Promise<UserRecord | null> {
+      const doc = await UserModel.findOne({ email: email.toLowerCase() }).lean<IUserLean>();
+      return doc ? toUserRecord(doc) : null;
+    },
+
+    async findById(id: string): Promise<UserRecord | null> {
+      if (!mongoose.Types.ObjectId.isValid(id)) return null;
+      const doc = await UserModel.findById(id).lean<IUserLean>();
+      return doc ? toUserRecord(doc) : null;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// In-memory repository
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a process-local {@link UserRepository}.
+ *
+ * Used when MongoDB is not connected; accounts are lost on restart.
+ */
+export function createMemoryUserRepository(): UserRepository {
+  const users = new Map<string, UserRecord>();
+
+  const findByEmail = (email: string): UserRecord | undefined => {
+    const normalized = email.toLowerCase();
+    return Array.from(users.values()).find((u) => u.email === normalized);
+  };
+
+  return {
+    async create(input: CreateUserInput): Promise<UserRecord> {
+      if (findByEmail(input.email)) {
+        throw new DuplicateEmailError(input.email);
+      }
+
+      const now = new Date();
+      const user: UserRecord = {
+        id: generateId('user'),
+        email: input.email.toLowerCase(),
+        name: input.name,
+        passwordHash: input.passwordHash,
+        preferences: { ...DEFAULT_PREFERENCES },
+        createdAt: now,
+        updatedAt: now,
+      };
+      users.set(user.id, user);
+      return { ...user };
+    },
+
+    async findByEmail(email: string): Promise<UserRecord | null> {
+      const user = findByEmail(email);
+      return user ? { ...user } : null;
+    },
+
+    async findById(id: string): Promise<UserRecord | null> {
+      const user = users.get(id);
+      return user ? { ...user } : null;
+    },
+  };
+}
@@ -1,5 +1,9 @@
 import bcrypt from 'bcryptjs';
-import { generateId } from '@classflowai/utils';
+import { isDatabaseConnected } from '../db';
+import { createMongoUserRepository, createMemoryUserRepository } from './user-repository';
+import type { UserRepository, UserRecord } from './user-repository';
+
+export { DuplicateEmailError } from './user-repository';
 
 interface User {
   id: string;
@@ -7,72 +11,63 @@ interface User {
   name: string;
 }
 
-// In-memory user store (to be replaced with MongoDB in Phase 7 extension)
-const users = new Map<string, { id: string; email: string; passwordHash: string; name: string }>();
+// Chosen on first use: MongoDB when connected, otherwise an in-memory store
+// that mirrors how createApp degrades without MONGODB_URI.
+let repository: UserRepository | null = null;
+
+function getRepository(): UserRepository {
+  if (!repository) {
+    repository = isDatabaseConnected() ? createMongoUserRepository() : createMemoryUserRepository();
+  }
+  return repository;
+}
+
+function toUser(record: UserRecord): User {
+  return {
+    id: record.id,
+    email: record.email,
+    name: record.name,
+  };
+}
 
 /**
  * Create a new user with hashed password
+ *
+ * @throws {DuplicateEmailError} If the email is already registered.
  */
 export async function createUser(email: string, password: string, name: string): Promise<User> {
   const passwordHash = await bcrypt.hash(password, 12);
-  
-  const user = {
-    id: generateId('user'),
-    email: email.toLowerCase(),
-    passwordHash,
-    name,
-  };
-  
-  users.set(user.id, user);
-  
-  return {
-    id: user.id,
-    email: user.email,
-    name: user.name,
-  };
+
+  const user = await getRepository().create({ email, name, passwordHash });
+
+  return toUser(user);
 }
 
 /**
  * Get user by email
  */
-export function getUserByEmail(email: string): User | null {
-  const user = Array.from(users.values()).find(u => u.email === email.toLowerCase());
-  if (!user) return null;
-  
-  return {
-    id: user.id,
-    email: user.email,
-    name: user.name,
-  };
+export async function getUserByEmail(email: string): Promise<User | null> {
+  const user = await getRepository().findByEmail(email);
+  return user ? toUser(user) : null;
 }
 
 /**
  * Validate user credentials
  */
 export async function validateUserCredentials(email: string, password: string): Promise<User | null> {
-  const user = Array.from(users.values()).find(u => u.email === email.toLowerCase());
+  const user = await getRepository().findByEmail(email);
   if (!user) return null;
-  
+
   const isValid = await bcrypt.compare(password, user.passwordHash);
   if (!isValid) return null;
-  
-  return {
-    id: user.id,
-    email: user.email,
-    name: user.name,
-  };
+
+  return toUser(user);
 }
 
 /**
  * Get user by ID
  */
-export function getUserById(id: string): User | null {
-  const user = users.get(id);
-  if (!user) return null;
-  
-  return {
-    id: user.id,
-    email: user.email,
-    name: user.name,
-  };
+export async function getUserById(id: string): Promise<User | null> {
+  const user = await getRepository().findById(id);
+  return user ? toUser(user) : null;
 }
@@ -9,6 +9,8 @@ export interface RetryConfig {
   baseDelayMs: number;
   maxDelayMs: number;
   backoffMultiplier: number;
+  /** Return `false` to fail fast on errors that will not succeed on retry. */
+  shouldRetry?: (error: Error) => boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -50,6 +52,10 @@ export async function withRetry<T>(
     } catch (err) {
       lastError = err instanceof Error ? err : new Error(String(err));
 
+      if (opts.shouldRetry && !opts.shouldRetry(lastError)) {
+        break;
+      }
+
       if (attempt < opts.maxRetries) {
         const baseDelay = Math.min(
           opts.baseDelayMs * Math.pow(opts.backoffMultiplier, attempt),
@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { authHeaders } from '@/lib/auth-client';
 
 interface CreateLessonResponse {
   lessonId: string;
@@ -36,7 +37,7 @@ export default function AskPage() {
     try {
       const response = await fetch('/api/lessons', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
         body: JSON.stringify({ question: question.trim() }),
       });
 
@@ -46,12 +47,12 @@ export default function AskPage() {
         throw new Error(json.error?.message ?? 'Failed to create lesson');
       }
 
-      const { lessonId, status, estimatedTime } = json.data;
+      const { lessonId, status } = json.data;
 
       if (status === 'pending') {
         const generateResponse = await fetch('/api/lessons/generate', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', ...authHeaders() },
           body: JSON.stringify({ lessonId }),
         });
 
@@ -61,7 +62,7 @@ export default function AskPage() {
         }
       }
 
-      router.push(`/lesson/${lessonId}?wait=${estimatedTime}`);
+      router.push(`/lesson/${lessonId}`);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
     } finally {
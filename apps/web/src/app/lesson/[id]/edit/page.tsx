@@ -0,0 +1,131 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import type {
+  ApiResponse,
+  Lesson,
+  RegenerateBlockRequest,
+  RegenerateBlockResponse,
+  UpdateTimelineRequest,
+  UpdateTimelineResponse,
+} from '@classflowai/types';
+import { BlockRegenerator, TimelineEditor } from '@/components';
+import { authHeaders } from '@/lib/auth-client';
+import { useAuthStore } from '@/store/auth-store';
+
+export default function EditLessonPage() {
+  const params = useParams();
+  const router = useRouter();
+  const lessonId = params.id as string;
+  const { isAuthenticated } = useAuthStore();
+
+  const [lesson, setLesson] = useState<Lesson | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      router.push(`/login?callbackUrl=/lesson/${lessonId}/edit`);
+      return;
+    }
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/lessons/${lessonId}`, { headers: authHeaders() });
+        const json: ApiResponse<Lesson> = await response.json();
+
+        if (!json.success || !json.data) {
+          throw new Error(json.error?.message ?? 'Failed to load lesson');
+        }
+        setLesson(json.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load lesson');
+      }
+    };
+
+    load();
+  }, [isAuthenticated, lessonId, router]);
+
+  const handleSave = useCallback(async (edits: UpdateTimelineRequest) => {
+    const response = await fetch(`/api/lessons/${lessonId}/timeline`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify(edits),
+    });
+    const json: ApiResponse<UpdateTimelineResponse> = await response.json();
+
+    if (!json.success || !json.data) {
+      throw new Error(json.error?.message ?? 'Failed to save timeline');
+    }
+    setLesson(json.data.lesson);
+  }, [lessonId]);
+
+  const handleRegenerateBlock = useCallback(
+    async (blockId: string, request: RegenerateBlockRequest) => {
+      const response = await fetch(`/api/lessons/${lessonId}/blocks/${blockId}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify(request),
+      });
+      const json: ApiResponse<RegenerateBlockResponse> = await response.json();
+
+      if (!json.success || !json.data) {
+        throw new Error(json.error?.message ?? 'Failed to regenerate block');
+      }
+      setLesson(json.data.lesson);
+    },
+    [lessonId],
+  );
+
+  if (error) {
+    return (
+      <main className="flex min-h-screen flex-col items-center justify-center p-4">
+        <div className="text-center space-y-4 max-w-md">
+          <h1 className="text-2xl font-bold text-white">Lesson Not Available</h1>
+          <p className="text-gray-400">{error}</p>
+          <Link href="/lessons" className="text-blue-400 hover:text-blue-300 text-sm font-medium">
+            ← My lessons
+          </Link>
+        </div>
+      </main>
+    );
+  }
+
+  if (!lesson) {
+    return (
+      <main className="flex min-h-screen flex-col items-center justify-center p-4">
+        <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </main>
+    );
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col p-4 sm:p-8">
+      <header className="flex items-center justify-between mb-6">
+        <Link
+          href={`/lesson/${lesson.id}`}
+          className="text-blue-400 hover:text-blue-300 text-sm font-medium"
+        >
+          ← Back to lesson
+        </Link>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-500">Editing:</span>
+          <span className="text-white font-medium max-w-md truncate">{lesson.question}</span>
+        </div>
+        <span />
+      </header>
+
+      {lesson.status === 'ready' ? (
+        <div className="space-y-6">
+          <TimelineEditor lesson={lesson} onSave={handleSave} />
+          <BlockRegenerator blocks={lesson.explanation} onRegenerate={handleRegenerateBlock} />
+        </div>
+      ) : (
+        <p className="text-center text-gray-400">
+          The timeline can be edited once the lesson has finished generating.
+        </p>
+      )}
+    </main>
+  );
+}
@@ -1,32 +1,26 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { useParams, useSearchParams } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
 import Link from 'next/link';
-import type { Lesson } from '@classflowai/types';
+import type { Lesson, LessonStreamEvent } from '@classflowai/types';
 import { LessonPlayer } from '@/components';
+import { authHeaders, getToken } from '@/lib/auth-client';
+import { useAuthStore } from '@/store/auth-store';
 import { useLessonStore } from '@/store/lesson-store';
 
-interface ApiResponse<T> {
-  success: boolean;
-  data: T;
-  error?: {
-    code: string;
-    message: string;
-  };
-  timestamp: number;
-}
-
 export default function LessonPage() {
   const params = useParams();
-  const searchParams = useSearchParams();
   const lessonId = params.id as string;
-  const waitTime = parseInt(searchParams.get('wait') ?? '0', 10);
 
   const [lesson, setLesson] = useState<Lesson | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [regenerateError, setRegenerateError] = useState<string | null>(null);
+  // Bumped to reopen the stream, e.g. once a regeneration has been queued.
+  const [streamKey, setStreamKey] = useState(0);
   const { setLessonId, reset } = useLessonStore();
+  const { user } = useAuthStore();
 
   useEffect(() => {
     reset();
@@ -34,67 +28,86 @@ export default function LessonPage() {
   }, [lessonId, reset, setLessonId]);
 
   useEffect(() => {
-    let isMounted = true;
-
-    const fetchLesson = async () => {
-      setIsLoading(true);
-      setError(null);
-
-      try {
-        const response = await fetch(`/api/lessons/${lessonId}`);
-        const json: ApiResponse<Lesson> = await response.json();
-
-        if (!json.success || !json.data) {
-          throw new Error(json.error?.message ?? 'Lesson not found');
-        }
-
-        if (isMounted) {
-          setLesson(json.data);
-          
-          if (json.data.status === 'generating' || json.data.status === 'pending') {
-            const pollInterval = setInterval(async () => {
-              const statusResponse = await fetch(`/api/lessons/${lessonId}`);
-              const statusJson: ApiResponse<Lesson> = await statusResponse.json();
-              
-              if (statusJson.success && statusJson.data) {
-                if (statusJson.data.status === 'ready') {
-                  clearInterval(pollInterval);
-                  setLesson(statusJson.data);
-                  setIsLoading(false);
-                } else if (statusJson.data.status === 'error') {
-                  clearInterval(pollInterval);
-                  setError('Lesson generation failed');
-                  setIsLoading(false);
-                }
-              }
-            }, 2000);
-
-            return () => clearInterval(pollInterval);
-          }
-        }
-      } catch (err) {
-        if (isMounted) {
-          setError(err instanceof Error ? err.message : 'Failed to load lesson');
-        }
-      } finally {
-        if (isMounted) {
+    setIsLoading(true);
+    setError(null);
+
+    // The stream opens with a snapshot of the lesson, then delivers blocks as
+    // they are generated so playback can start before generation finishes.
+    // EventSource cannot send headers, so the token travels in the query.
+    const token = getToken();
+    const query = token ? `?access_token=${encodeURIComponent(token)}` : '';
+    const source = new EventSource(`/api/lessons/${lessonId}/stream${query}`);
+    let hasSnapshot = false;
+
+    source.onmessage = (message: MessageEvent<string>) => {
+      const event = JSON.parse(message.data) as LessonStreamEvent;
+
+      switch (event.type) {
+        case 'snapshot':
+          hasSnapshot = true;
+          setLesson(event.lesson);
           setIsLoading(false);
-        }
+          break;
+        case 'block':
+          setLesson((current) => current && {
+            ...current,
+            explanation: [...current.explanation, event.block],
+            timeline: [...current.timeline, ...event.events],
+          });
+          break;
+        case 'reset':
+          setLesson((current) => current && { ...current, explanation: [], timeline: [] });
+          break;
+        case 'status':
+          setLesson((current) => current && { ...current, status: event.status });
+          break;
+        case 'complete':
+          source.close();
+          setLesson(event.lesson);
+          break;
+        case 'error':
+          source.close();
+          setError(event.message);
+          break;
       }
     };
 
-    if (waitTime > 0) {
-      setTimeout(() => {
-        fetchLesson();
-      }, waitTime);
-    } else {
-      fetchLesson();
-    }
+    source.onerror = () => {
+      // Once a snapshot has arrived the browser reconnects on its own and the
+      // next snapshot catches up; before that the lesson is unreachable.
+      if (!hasSnapshot) {
+        source.close();
+        setError('Failed to load lesson');
+        setIsLoading(false);
+      }
+    };
 
     return () => {
-      isMounted = false;
+      source.close();
     };
-  }, [lessonId, waitTime]);
+  }, [lessonId, streamKey]);
+
+  const handleRegenerate = useCallback(async () => {
+    if (!window.confirm('Generate this lesson again? The current version stays in its history.')) {
+      return;
+    }
+    setRegenerateError(null);
+
+    try {
+      const response = await fetch('/api/lessons/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({ lessonId, regenerate: true }),
+      });
+      const json = await response.json();
+      if (!json.success) {
+        throw new Error(json.error?.message ?? 'Failed to regenerate lesson');
+      }
+      setStreamKey((key) => key + 1);
+    } catch (err) {
+      setRegenerateError(err instanceof Error ? err.message : 'Failed to regenerate lesson');
+    }
+  }, [lessonId]);
 
   if (isLoading) {
     return (
@@ -102,9 +115,6 @@ export default function LessonPage() {
         <div className="text-center space-y-4">
           <div className="w-12 h-12 mx-auto border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
           <p className="text-gray-400 text-lg">Loading lesson...</p>
-          {waitTime > 0 && (
-            <p className="text-gray-500 text-sm">Please wait while we generate your lesson</p>
-          )}
         </div>
       </main>
     );
@@ -151,6 +161,33 @@ export default function LessonPage() {
         </div>
 
         <div className="flex items-center gap-2">
+          {regenerateError && (
+            <span className="text-xs text-red-400">{regenerateError}</span>
+          )}
+          {lesson.status === 'ready' && (
+            <Link
+              href={`/lesson/${lesson.id}/revisions`}
+              className="px-3 py-1 text-xs font-medium rounded-full bg-gray-800 text-gray-300 hover:text-white"
+            >
+              History
+            </Link>
+          )}
+          {lesson.status === 'ready' && user?.id === lesson.userId && (
+            <>
+              <Link
+                href={`/lesson/${lesson.id}/edit`}
+                className="px-3 py-1 text-xs font-medium rounded-full bg-gray-800 text-gray-300 hover:text-white"
+              >
+                Edit timeline
+              </Link>
+              <button
+                onClick={handleRegenerate}
+                className="px-3 py-1 text-xs font-medium rounded-full bg-gray-800 text-gray-300 hover:text-white"
+              >
+                Regenerate
+              </button>
+            </>
+          )}
           <span className={`px-3 py-1 text-xs font-medium rounded-full
             ${lesson.status === 'ready' ? 'bg-green-500/20 text-green-400' : 
               lesson.status === 'generating' ? 'bg-blue-500/20 text-blue-400' :
@@ -164,7 +201,10 @@ export default function LessonPage() {
       </header>
 
       <div className="flex-1 flex items-center justify-center">
-        <LessonPlayer lesson={lesson} />
+        <LessonPlayer
+          lesson={lesson}
+          isStreaming={lesson.status === 'pending' || lesson.status === 'generating'}
+        />
       </div>
     </main>
   );
@@ -0,0 +1,223 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import type {
+  ApiResponse,
+  Lesson,
+  LessonDiffSummary,
+  LessonRevision,
+  LessonRevisionInfo,
+  LessonRevisionReason,
+  RestoreRevisionResponse,
+} from '@classflowai/types';
+import { RevisionDiff } from '@/components';
+import { authHeaders } from '@/lib/auth-client';
+import { useAuthStore } from '@/store/auth-store';
+
+const REASON_LABELS: Record<LessonRevisionReason, string> = {
+  generation: 'Generated',
+  timeline_edit: 'Timeline edited',
+  block_regeneration: 'Block regenerated',
+  import: 'Imported',
+  restore: 'Restored',
+};
+
+const describeSummary = (summary: LessonDiffSummary): string => {
+  const parts = [
+    summary.blocksAdded && `+${summary.blocksAdded} blocks`,
+    summary.blocksRemoved && `−${summary.blocksRemoved} blocks`,
+    summary.blocksChanged && `${summary.blocksChanged} blocks changed`,
+    summary.eventsRetimed && `${summary.eventsRetimed} events retimed`,
+    summary.eventsRemoved && `${summary.eventsRemoved} events removed`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'No content changes';
+};
+
+async function fetchData<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { ...init, headers: { ...init?.headers, ...authHeaders() } });
+  const json: ApiResponse<T> = await response.json();
+  if (!json.success || !json.data) {
+    throw new Error(json.error?.message ?? 'Request failed');
+  }
+  return json.data;
+}
+
+export default function LessonRevisionsPage() {
+  const params = useParams();
+  const lessonId = params.id as string;
+  const { user } = useAuthStore();
+
+  const [lesson, setLesson] = useState<Lesson | null>(null);
+  const [revisions, setRevisions] = useState<LessonRevisionInfo[]>([]);
+  const [contents, setContents] = useState<Map<number, LessonRevision>>(new Map());
+  // Revision numbers being compared: `base` → `target`.
+  const [base, setBase] = useState<number | null>(null);
+  const [target, setTarget] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [loaded, list] = await Promise.all([
+        fetchData<Lesson>(`/api/lessons/${lessonId}`),
+        fetchData<LessonRevisionInfo[]>(`/api/lessons/${lessonId}/revisions`),
+      ]);
+      setLesson(loaded);
+      setRevisions(list);
+      setTarget(list[0]?.number ?? null);
+      setBase(list[1]?.number ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load revisions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [lessonId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Fetch the content of the revisions being compared, once each.
+  useEffect(() => {
+    const missing = [base, target].filter(
+      (number): number is number => number !== null && !contents.has(number),
+    );
+    if (missing.length === 0) return;
+
+    Promise.all(
+      missing.map((number) =>
+        fetchData<LessonRevision>(`/api/lessons/${lessonId}/revisions/${number}`),
+      ),
+    )
+      .then((fetched) => {
+        setContents((current) => {
+          const next = new Map(current);
+          for (const revision of fetched) next.set(revision.number, revision);
+          return next;
+        });
+      })
+      .catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : 'Failed to load revision');
+      });
+  }, [lessonId, base, target, contents]);
+
+  const handleRestore = useCallback(async (number: number) => {
+    if (!window.confirm(`Restore revision ${number}? The current version stays in the history.`)) {
+      return;
+    }
+    try {
+      await fetchData<RestoreRevisionResponse>(
+        `/api/lessons/${lessonId}/revisions/${number}/restore`,
+        { method: 'POST' },
+      );
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore revision');
+    }
+  }, [lessonId, load]);
+
+  const isOwner = lesson !== null && user?.id === lesson.userId;
+  const latest = revisions[0]?.number;
+  const before = base !== null ? contents.get(base) : undefined;
+  const after = target !== null ? contents.get(target) : undefined;
+
+  return (
+    <main className="flex min-h-screen flex-col p-4 sm:p-8">
+      <header className="flex items-center justify-between mb-6">
+        <Link
+          href={`/lesson/${lessonId}`}
+          className="text-blue-400 hover:text-blue-300 text-sm font-medium"
+        >
+          ← Back to lesson
+        </Link>
+        {lesson && (
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-gray-500">History:</span>
+            <span className="text-white font-medium max-w-md truncate">{lesson.question}</span>
+          </div>
+        )}
+        <span />
+      </header>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-900/30 border border-red-700 rounded-lg text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="w-8 h-8 mx-auto border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      ) : revisions.length === 0 ? (
+        <p className="text-center text-gray-500">
+          No revisions yet. Editing or regenerating the lesson records one.
+        </p>
+      ) : (
+        <div className="grid gap-8 lg:grid-cols-[20rem_1fr]">
+          <ul className="space-y-2">
+            {revisions.map((revision) => (
+              <li
+                key={revision.id}
+                className="p-3 bg-gray-900 border border-gray-800 rounded-xl space-y-2"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-white font-medium">
+                    #{revision.number} {REASON_LABELS[revision.reason]}
+                    {revision.restoredFrom !== undefined && ` #${revision.restoredFrom}`}
+                  </span>
+                  {revision.number === latest && (
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-green-500/20 text-green-400">
+                      Current
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {new Date(revision.createdAt).toLocaleString()}
+                  {user?.id === revision.authorId && ' • by you'}
+                </p>
+                <p className="text-xs text-gray-400">{describeSummary(revision.summary)}</p>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => setBase(revision.number)}
+                    className={`px-2 py-1 text-xs rounded-md transition-colors
+                      ${base === revision.number ? 'bg-red-600/60 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                  >
+                    Compare from
+                  </button>
+                  <button
+                    onClick={() => setTarget(revision.number)}
+                    className={`px-2 py-1 text-xs rounded-md transition-colors
+                      ${target === revision.number ? 'bg-green-600/60 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                  >
+                    Compare to
+                  </button>
+                  {isOwner && lesson.status === 'ready' && revision.number !== latest && (
+                    <button
+                      onClick={() => handleRestore(revision.number)}
+                      className="px-2 py-1 text-xs rounded-md bg-blue-600 hover:bg-blue-500 text-white transition-colors"
+                    >
+                      Restore
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div>
+            {base === null || target === null ? (
+              <p className="text-gray-500">Pick two revisions to compare.</p>
+            ) : before && after ? (
+              <RevisionDiff before={before} after={after} />
+            ) : (
+              <div className="w-8 h-8 mx-auto border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+            )}
+          </div>
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import type { ApiResponse, Lesson, LessonStatus, PaginatedResponse } from '@classflowai/types';
+import { authHeaders } from '@/lib/auth-client';
+import { useAuthStore } from '@/store/auth-store';
+
+const PAGE_SIZE = 20;
+
+const STATUS_FILTERS: { label: string; value: LessonStatus | null }[] = [
+  { label: 'All', value: null },
+  { label: 'Ready', value: 'ready' },
+  { label: 'Generating', value: 'generating' },
+  { label: 'Pending', value: 'pending' },
+  { label: 'Failed', value: 'error' },
+];
+
+const STATUS_STYLES: Record<LessonStatus, string> = {
+  ready: 'bg-green-500/20 text-green-400',
+  generating: 'bg-blue-500/20 text-blue-400',
+  pending: 'bg-gray-500/20 text-gray-400',
+  error: 'bg-red-500/20 text-red-400',
+};
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export default function MyLessonsPage() {
+  const router = useRouter();
+  const { isAuthenticated } = useAuthStore();
+
+  const [status, setStatus] = useState<LessonStatus | null>(null);
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (status) params.set('status', status);
+      if (cursor) params.set('cursor', cursor);
+
+      const response = await fetch(`/api/lessons?${params.toString()}`, {
+        headers: authHeaders(),
+      });
+      const json: ApiResponse<PaginatedResponse<Lesson>> = await response.json();
+
+      if (!json.success || !json.data) {
+        throw new Error(json.error?.message ?? 'Failed to load lessons');
+      }
+
+      const page = json.data;
+      setLessons((current) => (cursor ? [...current, ...page.items] : page.items));
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load lessons');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      router.push('/login?callbackUrl=/lessons');
+      return;
+    }
+    fetchPage(null);
+  }, [isAuthenticated, fetchPage, router]);
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-4 sm:p-8">
+      <div className="w-full max-w-3xl space-y-8">
+        <div className="flex items-center justify-between">
+          <Link href="/" className="text-blue-400 hover:text-blue-300 text-sm font-medium">
+            ← Back to home
+          </Link>
+          <Link
+            href="/ask"
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white font-medium rounded-lg transition-colors"
+          >
+            New Lesson
+          </Link>
+        </div>
+
+        <div className="space-y-2">
+          <h1 className="text-4xl font-bold tracking-tight">My Lessons</h1>
+          <p className="text-gray-400">
+            {total} {total === 1 ? 'lesson' : 'lessons'}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {STATUS_FILTERS.map((filter) => (
+            <button
+              key={filter.label}
+              onClick={() => setStatus(filter.value)}
+              className={`px-3 py-1 text-sm font-medium rounded-full transition-colors
+                ${status === filter.value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:text-white'
+                }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-900/30 border border-red-700 rounded-lg text-red-300 text-sm">
+            {error}
+          </div>
+        )}
+
+        <ul className="space-y-3">
+          {lessons.map((lesson) => (
+            <li key={lesson.id}>
+              <Link
+                href={`/lesson/${lesson.id}`}
+                className="flex items-center justify-between gap-4 p-4 bg-gray-900 border border-gray-800
+                           hover:border-gray-700 rounded-xl transition-colors"
+              >
+                <div className="min-w-0 space-y-1">
+                  <p className="text-white font-medium truncate">{lesson.question}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(lesson.createdAt).toLocaleDateString()}
+                    {lesson.status === 'ready' && ` • ${formatDuration(lesson.metadata.estimatedDuration)}`}
+                  </p>
+                </div>
+                <span className={`shrink-0 px-3 py-1 text-xs font-medium rounded-full ${STATUS_STYLES[lesson.status]}`}>
+                  {lesson.status.charAt(0).toUpperCase() + lesson.status.slice(1)}
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+
+        {!isLoading && !error && lessons.length === 0 && (
+          <p className="text-center text-gray-500">No lessons yet.</p>
+        )}
+
+        {isLoading && (
+          <div className="w-8 h-8 mx-auto border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+        )}
+
+        {!isLoading && nextCursor && (
+          <button
+            onClick={() => fetchPage(nextCursor)}
+            className="w-full py-3 bg-gray-800 hover:bg-gray-700 text-white font-medium rounded-xl transition-colors"
+          >
+            Load more
+          </button>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -18,6 +18,18 @@ export default function HomePage() {
           <nav className="flex items-center gap-4">
             {isAuthenticated && user ? (
               <>
+                <Link 
+                  href="/lessons" 
+                  className="px-4 py-2 text-gray-300 hover:text-white font-medium transition-colors"
+                >
+                  My Lessons
+                </Link>
+                <Link 
+                  href="/reviews" 
+                  className="px-4 py-2 text-gray-300 hover:text-white font-medium transition-colors"
+                >
+                  Reviews
+                </Link>
                 <Link 
                   href="/ask" 
                   className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white font-medium rounded-lg transition-colors"
@@ -0,0 +1,160 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { scheduleReview } from '@classflowai/engine';
+import type { Flashcard, ReviewGrade } from '@classflowai/types';
+import { fetchDueReviews, gradeReview } from '@/lib/review-client';
+import { useAuthStore } from '@/store/auth-store';
+
+const GRADES: { label: string; grade: ReviewGrade; style: string }[] = [
+  { label: 'Again', grade: 1, style: 'bg-red-600 hover:bg-red-500' },
+  { label: 'Hard', grade: 3, style: 'bg-orange-600 hover:bg-orange-500' },
+  { label: 'Good', grade: 4, style: 'bg-green-600 hover:bg-green-500' },
+  { label: 'Easy', grade: 5, style: 'bg-blue-600 hover:bg-blue-500' },
+];
+
+const formatInterval = (days: number): string => {
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round(days / 365)}y`;
+};
+
+export default function ReviewsPage() {
+  const router = useRouter();
+  const { isAuthenticated } = useAuthStore();
+
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGrading, setIsGrading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setCards(await fetchDueReviews());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reviews');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      router.push('/login?callbackUrl=/reviews');
+      return;
+    }
+    load();
+  }, [isAuthenticated, load, router]);
+
+  const card = cards[0];
+
+  const handleGrade = useCallback(async (grade: ReviewGrade) => {
+    if (!card) return;
+
+    setIsGrading(true);
+    setError(null);
+    try {
+      await gradeReview(card.id, { grade });
+      setReviewed((count) => count + 1);
+      setIsRevealed(false);
+      // Fetch the next batch once this one is done; more may have come due.
+      if (cards.length > 1) {
+        setCards((current) => current.slice(1));
+      } else {
+        await load();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record the review');
+    } finally {
+      setIsGrading(false);
+    }
+  }, [card, cards.length, load]);
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-4 sm:p-8">
+      <div className="w-full max-w-2xl space-y-8">
+        <div className="flex items-center justify-between">
+          <Link href="/" className="text-blue-400 hover:text-blue-300 text-sm font-medium">
+            ← Back to home
+          </Link>
+          <Link href="/lessons" className="text-gray-400 hover:text-white text-sm font-medium">
+            My Lessons
+          </Link>
+        </div>
+
+        <div className="space-y-2">
+          <h1 className="text-4xl font-bold tracking-tight">Reviews</h1>
+          <p className="text-gray-400">
+            Flashcards from the lessons you finished, due when you are about to forget them.
+            {reviewed > 0 && ` ${reviewed} reviewed this session.`}
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-900/30 border border-red-700 rounded-lg text-red-300 text-sm">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="w-8 h-8 mx-auto border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+        ) : !card ? (
+          <div className="p-8 text-center bg-gray-900 border border-gray-800 rounded-xl space-y-2">
+            <p className="text-white font-medium">You&apos;re all caught up.</p>
+            <p className="text-sm text-gray-500">
+              Finish a lesson to get flashcards for it, or come back when more are due.
+            </p>
+          </div>
+        ) : (
+          <div className="p-6 bg-gray-900 border border-gray-800 rounded-xl space-y-6">
+            <div className="flex items-center justify-between gap-4 text-xs text-gray-500">
+              <Link href={`/lesson/${card.lessonId}`} className="truncate hover:text-gray-300">
+                From: {card.lessonQuestion}
+              </Link>
+              <span className="shrink-0">{cards.length} due</span>
+            </div>
+
+            <h2 className="text-2xl font-semibold text-white text-center">{card.front}</h2>
+
+            {isRevealed ? (
+              <>
+                <p className="text-gray-300 text-center">{card.back}</p>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  {GRADES.map(({ label, grade, style }) => (
+                    <button
+                      key={grade}
+                      onClick={() => handleGrade(grade)}
+                      disabled={isGrading}
+                      className={`px-3 py-2 text-white text-sm font-medium rounded-lg transition-colors
+                        disabled:opacity-50 disabled:cursor-not-allowed ${style}`}
+                    >
+                      {label}
+                      <span className="block text-xs opacity-75">
+                        {formatInterval(scheduleReview(card, grade, new Date()).interval)}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <div className="flex justify-center">
+                <button
+                  onClick={() => setIsRevealed(true)}
+                  className="px-6 py-2 bg-gray-800 hover:bg-gray-700 text-white font-medium rounded-lg transition-colors"
+                >
+                  Show answer
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
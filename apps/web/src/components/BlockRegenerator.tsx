@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import type { ExplanationBlock, RegenerateBlockRequest } from '@classflowai/types';
+
+interface BlockRegeneratorProps {
+  blocks: ExplanationBlock[];
+  /** Replace a block; rejects with a displayable message on failure. */
+  onRegenerate: (blockId: string, request: RegenerateBlockRequest) => Promise<void>;
+}
+
+const MAX_INSTRUCTIONS_LENGTH = 500;
+
+const describeBlock = (block: ExplanationBlock): string =>
+  block.type === 'text' ? (block.format ?? 'paragraph') : block.type;
+
+/**
+ * The blocks of a lesson, each of which can be rewritten by the model with
+ * optional instructions, e.g. "use a simpler example".  One block is
+ * regenerated at a time.
+ */
+export function BlockRegenerator({ blocks, onRegenerate }: BlockRegeneratorProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [instructions, setInstructions] = useState('');
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const ordered = [...blocks].sort((a, b) => a.order - b.order);
+
+  const regenerate = async (blockId: string) => {
+    setPendingId(blockId);
+    setError(null);
+    try {
+      await onRegenerate(blockId, { instructions: instructions.trim() || undefined });
+      setSelectedId(null);
+      setInstructions('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to regenerate block');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-900 border border-gray-800 rounded-xl space-y-3">
+      <h2 className="text-sm font-semibold text-white">Blocks</h2>
+      <p className="text-xs text-gray-500">
+        Regenerating a block rewrites it in place and retimes the rest of the lesson around it.
+        Unsaved timeline edits are discarded.
+      </p>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <ol className="space-y-2 max-h-96 overflow-y-auto">
+        {ordered.map((block) => (
+          <li key={block.id} className="p-3 bg-gray-950 border border-gray-800 rounded-lg space-y-2">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <span className="text-xs font-medium uppercase tracking-wide text-gray-500">
+                  {describeBlock(block)}
+                </span>
+                <p
+                  className={`text-sm text-gray-300 truncate ${block.type === 'code' ? 'font-mono' : ''}`}
+                >
+                  {block.content}
+                </p>
+              </div>
+              <button
+                onClick={() => setSelectedId(selectedId === block.id ? null : block.id)}
+                disabled={pendingId !== null}
+                className="shrink-0 px-2 py-1 text-xs rounded-md bg-gray-800 text-gray-400 hover:text-white
+                           disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {selectedId === block.id ? 'Cancel' : 'Regenerate'}
+              </button>
+            </div>
+            {selectedId === block.id && (
+              <div className="flex gap-2">
+                <input
+                  value={instructions}
+                  onChange={(e) => setInstructions(e.target.value)}
+                  maxLength={MAX_INSTRUCTIONS_LENGTH}
+                  placeholder="What should change? (optional)"
+                  disabled={pendingId !== null}
+                  className="flex-1 px-3 py-1.5 bg-gray-900 border border-gray-700 rounded-md text-sm text-white
+                             placeholder-gray-600 focus:outline-none focus:border-blue-500"
+                />
+                <button
+                  onClick={() => regenerate(block.id)}
+                  disabled={pendingId !== null}
+                  className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed
+                             text-white text-xs font-medium rounded-md transition-colors"
+                >
+                  {pendingId === block.id ? 'Rewriting…' : 'Rewrite'}
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
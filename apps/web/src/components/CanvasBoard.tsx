@@ -1,13 +1,16 @@
 'use client';
 
 import { useRef, useCallback } from 'react';
-import { Stage, Layer, Line } from 'react-konva';
+import { Stage, Layer, Line, Rect, Text } from 'react-konva';
+import type { BoardFrame } from '@classflowai/engine';
 import type { DrawingState, Stroke } from '@classflowai/types';
 
 interface CanvasBoardProps {
   width: number;
   height: number;
   drawingState: DrawingState;
+  /** Whiteboard text to draw, as computed by `getBoardFrame`. */
+  boardFrame?: BoardFrame;
   backgroundColor?: string;
 }
 
@@ -15,6 +18,7 @@ export function CanvasBoard({
   width,
   height,
   drawingState,
+  boardFrame,
   backgroundColor = '#0a0a0a',
 }: CanvasBoardProps) {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -52,6 +56,32 @@ export function CanvasBoard({
         height={height}
         style={{ backgroundColor }}
       >
+        <Layer listening={false}>
+          {boardFrame?.highlights.map((highlight) => (
+            <Rect
+              key={highlight.key}
+              x={highlight.x}
+              y={highlight.y}
+              width={highlight.width}
+              height={highlight.height}
+              fill="rgba(96, 165, 250, 0.15)"
+              cornerRadius={4}
+            />
+          ))}
+          {boardFrame?.lines.map((line) => (
+            <Text
+              key={line.key}
+              x={line.x}
+              y={line.y}
+              text={line.text}
+              fontSize={line.style.fontSize}
+              fontFamily={line.style.fontFamily}
+              fontStyle={line.style.fontWeight}
+              fill={line.style.color}
+              wrap="none"
+            />
+          ))}
+        </Layer>
         <Layer>
           {drawingState.strokes.map((stroke) => renderStroke(stroke, false))}
           {drawingState.activeStroke && renderStroke(drawingState.activeStroke, true)}
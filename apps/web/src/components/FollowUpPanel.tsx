@@ -0,0 +1,148 @@
+'use client';
+
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { formatDuration } from '@classflowai/utils';
+import type { LessonAside } from '@classflowai/types';
+
+interface FollowUpPanelProps {
+  /** Earlier asides of the viewer, in lesson order. */
+  asides: LessonAside[];
+  /** The aside playing in place of the lesson, if any. */
+  activeAside: LessonAside | null;
+  /** Questions can only be asked when signed in, once the lesson is fully generated. */
+  canAsk: boolean;
+  /** The viewer raised their hand; playback should pause. */
+  onOpen: () => void;
+  /** Ask a question; rejects with a displayable message on failure. */
+  onAsk: (question: string) => Promise<void>;
+  onReplay: (aside: LessonAside) => void;
+  /** Leave the playing aside and carry on with the lesson. */
+  onReturn: () => void;
+}
+
+const MAX_QUESTION_LENGTH = 500;
+
+/**
+ * "Raise your hand" during a lesson: pauses playback for a follow-up
+ * question, shows which aside is answering it, and lists earlier questions
+ * so their asides can be replayed.
+ */
+export function FollowUpPanel({
+  asides,
+  activeAside,
+  canAsk,
+  onOpen,
+  onAsk,
+  onReplay,
+  onReturn,
+}: FollowUpPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const open = () => {
+    onOpen();
+    setIsOpen(true);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (question.trim().length < 3) return;
+
+    setIsAsking(true);
+    setError(null);
+    try {
+      await onAsk(question.trim());
+      setQuestion('');
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to answer the question');
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  if (activeAside) {
+    return (
+      <div className="flex items-center justify-between gap-4 p-4 bg-blue-900/30 border border-blue-700 rounded-xl">
+        <div className="min-w-0">
+          <p className="text-xs font-medium uppercase tracking-wide text-blue-300">
+            Answering your question
+          </p>
+          <p className="text-white truncate">{activeAside.question}</p>
+        </div>
+        <button
+          onClick={onReturn}
+          className="shrink-0 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-white text-sm rounded-md transition-colors"
+        >
+          Back to lesson
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {isOpen ? (
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <input
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            maxLength={MAX_QUESTION_LENGTH}
+            placeholder="What would you like to ask?"
+            disabled={isAsking}
+            autoFocus
+            className="flex-1 px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white
+                       placeholder-gray-600 focus:outline-none focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={isAsking || question.trim().length < 3}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed
+                       text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            {isAsking ? 'Thinking…' : 'Ask'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsOpen(false)}
+            disabled={isAsking}
+            className="px-3 py-2 text-gray-400 hover:text-white text-sm transition-colors"
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        canAsk && (
+          <button
+            onClick={open}
+            className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white text-sm rounded-lg transition-colors"
+          >
+            ✋ Ask a question
+          </button>
+        )
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {asides.length > 0 && (
+        <ul className="space-y-1">
+          {asides.map((aside) => (
+            <li key={aside.id} className="flex items-center gap-3 text-sm">
+              <span className="font-mono text-gray-500">{formatDuration(aside.timestamp)}</span>
+              <span className="flex-1 text-gray-300 truncate">{aside.question}</span>
+              <button
+                onClick={() => onReplay(aside)}
+                className="text-blue-400 hover:text-blue-300 text-xs font-medium"
+              >
+                Replay
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,74 +1,206 @@
 'use client';
 
-import { useEffect, useRef, useCallback } from 'react';
-import { LessonPlaybackEngine } from '@classflowai/engine';
-import type { TimelineTrack, PlaybackSnapshot, Lesson } from '@classflowai/types';
+import { useEffect, useRef, useCallback, useMemo, useState } from 'react';
+import {
+  DEFAULT_BOARD_SIZE,
+  LessonPlaybackEngine,
+  buildTracksFromEvents,
+  calculateTimelineDuration,
+  createLinearChapterGraph,
+  getBoardFrame,
+  getPageDrawing,
+  getStrokePages,
+  layoutBoard,
+  narrationSegmentFromEvent,
+  validateChapterGraph,
+} from '@classflowai/engine';
+import type {
+  ChapterEdge,
+  PlaybackSnapshot,
+  Lesson,
+  LessonAside,
+  LessonQuiz,
+} from '@classflowai/types';
 import { useLessonStore } from '@/store/lesson-store';
+import { useAuthStore } from '@/store/auth-store';
+import { fetchLessonProgress, reportProgress } from '@/lib/progress-client';
+import { askFollowUp, fetchAsides } from '@/lib/aside-client';
+import { answerQuiz } from '@/lib/quiz-client';
 import { CanvasBoard } from './CanvasBoard';
 import { CursorLayer } from './CursorLayer';
+import { NarrationAudioLayer } from './NarrationAudioLayer';
+import { TranscriptPanel } from './TranscriptPanel';
 import { TimelineController } from './TimelineController';
+import { FollowUpPanel } from './FollowUpPanel';
+import { QuizPanel } from './QuizPanel';
 
 interface LessonPlayerProps {
   lesson: Lesson;
+  /** The lesson is still being generated and its timeline may grow. */
+  isStreaming?: boolean;
 }
 
-const CANVAS_WIDTH = 800;
-const CANVAS_HEIGHT = 600;
+const CANVAS_WIDTH = DEFAULT_BOARD_SIZE.width;
+const CANVAS_HEIGHT = DEFAULT_BOARD_SIZE.height;
+const PROGRESS_REPORT_INTERVAL_MS = 5000;
+const NO_CHOICES: ChapterEdge[] = [];
 
-const getTrackTypeForEvent = (eventType: string): string => {
-  switch (eventType) {
-    case 'cursor_move': return 'cursor';
-    case 'draw_stroke': return 'drawing';
-    case 'text_highlight': return 'text';
-    case 'narration_segment': return 'narration';
-    default: return 'text';
-  }
-};
-
-export function LessonPlayer({ lesson }: LessonPlayerProps) {
+export function LessonPlayer({ lesson, isStreaming = false }: LessonPlayerProps) {
   const engineRef = useRef<LessonPlaybackEngine | null>(null);
+  const lessonRef = useRef(lesson);
+  const isStreamingRef = useRef(isStreaming);
+  // Number of timeline events already handed to the engine.
+  const loadedCountRef = useRef(0);
+  // Playback ran out of content while generation was still in progress.
+  const stalledRef = useRef(false);
+  // Lesson time played since progress was last reported.
+  const watchedRef = useRef(0);
+  const lastReportRef = useRef(0);
+  const sessionIdRef = useRef<string | undefined>(undefined);
+  const resumedRef = useRef(false);
+  const [asides, setAsides] = useState<LessonAside[]>([]);
+  // Aside playing as a branch in place of the lesson.
+  const [activeAside, setActiveAside] = useState<LessonAside | null>(null);
+  const [chapterId, setChapterId] = useState<string | null>(null);
+  const [choices, setChoices] = useState<ChapterEdge[]>(NO_CHOICES);
+  // Quiz playback stopped at, waiting for an answer.
+  const [quiz, setQuiz] = useState<LessonQuiz | null>(null);
   const { 
     engineState, 
     cursorState, 
     drawingState, 
+    narrationState,
+    activeEvents,
     progress,
     updateSnapshot 
   } = useLessonStore();
+  const { isAuthenticated } = useAuthStore();
 
-  const buildTracksFromLesson = useCallback((): TimelineTrack[] => {
-    const tracksByType = new Map<string, TimelineTrack>();
-    
-    for (const event of lesson.timeline) {
-      const type = getTrackTypeForEvent(event.type);
-      if (!tracksByType.has(type)) {
-        tracksByType.set(type, {
-          id: `track-${type}`,
-          type: type as TimelineTrack['type'],
-          events: [],
-          locked: false,
-          visible: true,
-        });
-      }
-      tracksByType.get(type)!.events.push(event);
+  lessonRef.current = lesson;
+  isStreamingRef.current = isStreaming;
+
+  // What is on screen: the lesson, or the aside playing in its place.
+  const { explanation, timeline } = activeAside ?? lesson;
+
+  const narrationSegments = useMemo(
+    () => timeline
+      .filter((event) => event.type === 'narration_segment')
+      .map(narrationSegmentFromEvent)
+      .sort((a, b) => a.startTime - b.startTime),
+    [timeline],
+  );
+
+  const boardLayout = useMemo(
+    () => layoutBoard(explanation, timeline, DEFAULT_BOARD_SIZE),
+    [explanation, timeline],
+  );
+  const boardFrame = useMemo(
+    () => getBoardFrame(boardLayout, engineState.currentTime),
+    [boardLayout, engineState.currentTime],
+  );
+
+  // Handwriting from earlier pages is wiped along with their text.
+  const strokePages = useMemo(
+    () => getStrokePages(boardLayout, timeline),
+    [boardLayout, timeline],
+  );
+  const visibleDrawing = useMemo(
+    () => getPageDrawing(drawingState, strokePages, boardFrame.page),
+    [drawingState, strokePages, boardFrame.page],
+  );
+
+  // The lesson's own chapter graph, unless later edits left it out of step
+  // with the timeline; then one chapter per heading.
+  const chapterGraph = useMemo(() => {
+    const { chapters, explanation, timeline } = lesson;
+    if (
+      chapters &&
+      validateChapterGraph(chapters, calculateTimelineDuration(timeline)).length === 0
+    ) {
+      return chapters;
     }
+    return createLinearChapterGraph(explanation, timeline);
+  }, [lesson]);
+  const orderedChapters = useMemo(
+    () => [...chapterGraph.chapters].sort((a, b) => a.startTime - b.startTime),
+    [chapterGraph],
+  );
 
-    return Array.from(tracksByType.values());
-  }, [lesson.timeline]);
+  const flushProgress = useCallback((keepalive = false) => {
+    const engine = engineRef.current;
+    // Asides have a clock of their own; progress is about the lesson.
+    if (!engine || engine.inBranch) return;
 
-  useEffect(() => {
-    if (!lesson || !lesson.timeline.length) return;
+    const watchedDelta = Math.round(watchedRef.current);
+    watchedRef.current = 0;
+    lastReportRef.current = performance.now();
 
+    reportProgress(
+      lessonRef.current.id,
+      { position: engine.currentTime, watchedDelta, sessionId: sessionIdRef.current },
+      { keepalive },
+    ).then((result) => {
+      if (result) sessionIdRef.current = result.sessionId;
+    });
+  }, []);
+
+  useEffect(() => {
     const engine = new LessonPlaybackEngine({
       targetFps: 60,
       maxDeltaMs: 100,
       autoPlay: false,
     });
 
-    const tracks = buildTracksFromLesson();
-    engine.load(tracks);
+    const { timeline } = lessonRef.current;
+    engine.load(buildTracksFromEvents(timeline));
+    loadedCountRef.current = timeline.length;
+    stalledRef.current = false;
+    watchedRef.current = 0;
+    lastReportRef.current = performance.now();
+    sessionIdRef.current = undefined;
+    resumedRef.current = false;
+    setActiveAside(null);
+    setChapterId(null);
+    setChoices(NO_CHOICES);
+    setQuiz(null);
 
     engine.on('frame', (snapshot: PlaybackSnapshot) => {
       updateSnapshot(snapshot);
+      setChapterId(snapshot.chapterId);
+      setChoices(engine.pendingChoice ?? NO_CHOICES);
+      // Seeking away or going on after answering leaves the quiz behind.
+      setQuiz((current) => (current && current.id === engine.pendingQuiz ? current : null));
+
+      const { isPlaying, playbackRate } = snapshot.engineState;
+      if (isPlaying && !engine.inBranch) {
+        watchedRef.current += snapshot.deltaMs * playbackRate;
+      }
+      if (
+        watchedRef.current > 0 &&
+        performance.now() - lastReportRef.current >= PROGRESS_REPORT_INTERVAL_MS
+      ) {
+        flushProgress();
+      }
+    });
+
+    engine.on('complete', () => {
+      stalledRef.current = isStreamingRef.current;
+      flushProgress();
+    });
+
+    engine.on('branch', (active: boolean) => {
+      if (!active) setActiveAside(null);
+    });
+
+    engine.on('quiz', (quizId: string) => {
+      const found = lessonRef.current.quizzes?.find((q) => q.id === quizId);
+      if (found) {
+        setQuiz(found);
+      } else {
+        // A checkpoint left behind by an older version of the lesson.
+        engine.skipQuiz();
+        engine.play();
+      }
     });
 
     engine.startLoop();
@@ -76,27 +208,143 @@ export function LessonPlayer({ lesson }: LessonPlayerProps) {
     engineRef.current = engine;
 
     return () => {
+      if (watchedRef.current > 0) flushProgress(true);
       engine.destroy();
       engineRef.current = null;
     };
-  }, [lesson.id, buildTracksFromLesson, updateSnapshot]);
+  }, [lesson.id, updateSnapshot, flushProgress]);
+
+  // Resume from the saved position once the lesson is complete, unless the
+  // viewer already started watching or finished it last time.  Quizzes
+  // answered before are not asked again.
+  useEffect(() => {
+    if (isStreaming || resumedRef.current) return;
+    resumedRef.current = true;
+
+    fetchLessonProgress(lesson.id).then((saved) => {
+      const engine = engineRef.current;
+      if (!engine || !saved) return;
+      for (const result of saved.quizResults) {
+        engine.setQuizResult(result.quizId, result.correct);
+      }
+      if (saved.completedAt) return;
+      if (engine.isPlaying || engine.currentTime > 0) return;
+      engine.seek(saved.lastPosition);
+    });
+  }, [lesson.id, isStreaming]);
+
+  // Earlier questions can be replayed once the lesson is complete.
+  useEffect(() => {
+    if (isStreaming) return;
+    fetchAsides(lesson.id).then(setAsides);
+  }, [lesson.id, isStreaming]);
+
+  // Feed events that arrive while the lesson streams in to the running engine.
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine) return;
+
+    const { timeline } = lesson;
+    const loaded = loadedCountRef.current;
+
+    if (timeline.length < loaded) {
+      // Generation restarted — start over with what is there now.
+      engine.load(buildTracksFromEvents(timeline));
+      stalledRef.current = false;
+    } else if (timeline.length > loaded) {
+      engine.extend(buildTracksFromEvents(timeline.slice(loaded)));
+
+      if (stalledRef.current) {
+        stalledRef.current = false;
+        engine.startLoop();
+        engine.play();
+      }
+    }
+
+    loadedCountRef.current = timeline.length;
+  }, [lesson]);
+
+  // Timelines still growing are played straight through.
+  useEffect(() => {
+    engineRef.current?.setChapterGraph(isStreaming ? null : chapterGraph);
+  }, [lesson.id, isStreaming, chapterGraph]);
 
   const handlePlay = useCallback(() => {
+    stalledRef.current = false;
+    engineRef.current?.startLoop();
     engineRef.current?.play();
   }, []);
 
   const handlePause = useCallback(() => {
     engineRef.current?.pause();
-  }, []);
+    flushProgress();
+  }, [flushProgress]);
 
   const handleSeek = useCallback((time: number) => {
     engineRef.current?.seek(time);
+    flushProgress();
+  }, [flushProgress]);
+
+  const handleChapterSelect = useCallback((id: string) => {
+    engineRef.current?.jumpToChapter(id);
+    flushProgress();
+  }, [flushProgress]);
+
+  const handleChoose = useCallback((id: string) => {
+    engineRef.current?.startLoop();
+    engineRef.current?.choose(id);
+  }, []);
+
+  const handleQuizAnswer = useCallback(async (answer: number | string) => {
+    const quizId = engineRef.current?.pendingQuiz;
+    if (!quizId) throw new Error('The quiz is no longer open');
+
+    const result = await answerQuiz(lessonRef.current.id, quizId, { answer });
+    engineRef.current?.setQuizResult(quizId, result.correct);
+    return result;
+  }, []);
+
+  const handleQuizContinue = useCallback(() => {
+    engineRef.current?.startLoop();
+    engineRef.current?.play();
   }, []);
 
   const handleSpeedChange = useCallback((speed: number) => {
     engineRef.current?.setSpeed(speed);
   }, []);
 
+  const handleVolumeChange = useCallback((volume: number) => {
+    engineRef.current?.setVolume(volume);
+  }, []);
+
+  const playAside = useCallback((aside: LessonAside) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+
+    setActiveAside(aside);
+    engine.startLoop();
+    engine.enterBranch(buildTracksFromEvents(aside.timeline));
+  }, []);
+
+  const handleAsk = useCallback(async (question: string) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+
+    const aside = await askFollowUp(lessonRef.current.id, {
+      question,
+      timestamp: engine.currentTime,
+      blockId: engine.snapshot?.activeEvents.text[0]?.payload.blockId,
+    });
+    setAsides((current) =>
+      [...current, aside].sort((a, b) => a.timestamp - b.timestamp),
+    );
+    playAside(aside);
+  }, [playAside]);
+
+  const handleReturn = useCallback(() => {
+    engineRef.current?.exitBranch();
+  }, []);
+
   return (
     <div className="flex flex-col gap-6">
       {/* Canvas Area */}
@@ -104,8 +352,36 @@ export function LessonPlayer({ lesson }: LessonPlayerProps) {
         <CanvasBoard
           width={CANVAS_WIDTH}
           height={CANVAS_HEIGHT}
-          drawingState={drawingState}
+          drawingState={visibleDrawing}
+          boardFrame={boardFrame}
         />              <CursorLayer cursorState={cursorState} />
+        {quiz && (
+          <div className="absolute inset-0 flex items-center justify-center p-4 bg-gray-950/70">
+            <QuizPanel
+              key={quiz.id}
+              quiz={quiz}
+              onAnswer={handleQuizAnswer}
+              onContinue={handleQuizContinue}
+            />
+          </div>
+        )}
+      </div>
+
+      <NarrationAudioLayer
+        segments={narrationSegments}
+        engineState={engineState}
+        narrationState={narrationState}
+        language={lesson.metadata.language}
+      />
+
+      {/* Transcript */}
+      <div className="w-full max-w-2xl mx-auto">
+        <TranscriptPanel
+          segments={narrationSegments}
+          currentTime={engineState.currentTime}
+          narrationState={narrationState}
+          activeTextEvents={activeEvents.text}
+        />
       </div>
 
       {/* Timeline Controller */}
@@ -113,10 +389,30 @@ export function LessonPlayer({ lesson }: LessonPlayerProps) {
         <TimelineController
           engineState={engineState}
           progress={progress}
+          volume={narrationState.volume}
           onPlay={handlePlay}
           onPause={handlePause}
           onSeek={handleSeek}
           onSpeedChange={handleSpeedChange}
+          onVolumeChange={handleVolumeChange}
+          chapters={isStreaming || activeAside ? undefined : orderedChapters}
+          chapterId={chapterId}
+          choices={choices}
+          onChapterSelect={handleChapterSelect}
+          onChoose={handleChoose}
+        />
+      </div>
+
+      {/* Follow-up questions */}
+      <div className="w-full max-w-2xl mx-auto">
+        <FollowUpPanel
+          asides={asides}
+          activeAside={activeAside}
+          canAsk={isAuthenticated && !isStreaming && lesson.status === 'ready'}
+          onOpen={handlePause}
+          onAsk={handleAsk}
+          onReplay={playAside}
+          onReturn={handleReturn}
         />
       </div>
     </div>
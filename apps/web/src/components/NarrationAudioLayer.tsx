@@ -0,0 +1,206 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { EngineState, NarrationSegmentConfig, NarrationState } from '@classflowai/types';
+
+interface NarrationAudioLayerProps {
+  /** Narration segments of the lesson, ordered by start time. */
+  segments: NarrationSegmentConfig[];
+  engineState: EngineState;
+  narrationState: NarrationState;
+  /** BCP 47 language tag used by the speech synthesis fallback. */
+  language?: string;
+}
+
+/** Number of upcoming segments whose audio is fetched ahead of time. */
+const PRELOAD_AHEAD = 2;
+/** Drift (s) below which audio is left alone. */
+const DRIFT_TOLERANCE_S = 0.05;
+/** Drift (s) above which audio is re-seeked instead of nudged. */
+const DRIFT_RESYNC_S = 0.3;
+/** Largest playback-rate nudge applied while catching up. */
+const MAX_RATE_CORRECTION = 0.1;
+/** Clock jump (ms) between frames that is treated as a seek. */
+const SEEK_JUMP_MS = 500;
+
+interface SpeechRun {
+  segmentId: string;
+  rate: number;
+  volume: number;
+}
+
+const hasSpeechSynthesis = (): boolean =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/** Text of the segment from the word being spoken at `time` onwards. */
+const remainingText = (segment: NarrationSegmentConfig, time: number): string => {
+  const words = segment.wordTimings.filter((word) => word.endTime > time);
+  return words.length > 0 ? words.map((word) => word.word).join(' ') : '';
+};
+
+/**
+ * Plays lesson narration in step with the playback engine.
+ *
+ * Segments with synthesized audio play through one `HTMLAudioElement` each,
+ * preloaded a couple of segments ahead.  Every frame the element is compared
+ * with the engine clock: small drift is absorbed by nudging the playback
+ * rate, large drift (seeks, stalls) by re-seeking the element.  Segments
+ * without audio are spoken with the browser's SpeechSynthesis API, restarted
+ * from the current word whenever the clock jumps or the rate or volume
+ * changes, since an utterance cannot be adjusted once it has started.
+ *
+ * Renders nothing.
+ */
+export function NarrationAudioLayer({
+  segments,
+  engineState,
+  narrationState,
+  language,
+}: NarrationAudioLayerProps) {
+  const audioRef = useRef(new Map<string, HTMLAudioElement>());
+  const speechRef = useRef<SpeechRun | null>(null);
+  const lastTimeRef = useRef(0);
+
+  const { isPlaying, currentTime, playbackRate } = engineState;
+  const { currentSegmentId, volume } = narrationState;
+
+  const activeIndex = segments.findIndex((segment) => segment.id === currentSegmentId);
+  const activeSegment = activeIndex >= 0 ? segments[activeIndex] : undefined;
+
+  // Preload the active segment and the next few.
+  useEffect(() => {
+    const from = Math.max(activeIndex, 0);
+    for (const segment of segments.slice(from, from + PRELOAD_AHEAD + 1)) {
+      if (!segment.audioUrl || audioRef.current.has(segment.audioUrl)) continue;
+
+      const audio = new Audio();
+      audio.preload = 'auto';
+      audio.src = segment.audioUrl;
+      audioRef.current.set(segment.audioUrl, audio);
+    }
+  }, [segments, activeIndex]);
+
+  // Keep audio and speech in step with the engine clock.
+  useEffect(() => {
+    const jumped = Math.abs(currentTime - lastTimeRef.current) > SEEK_JUMP_MS;
+    lastTimeRef.current = currentTime;
+
+    const activeAudio = activeSegment?.audioUrl
+      ? audioRef.current.get(activeSegment.audioUrl)
+      : undefined;
+
+    for (const audio of audioRef.current.values()) {
+      if (audio !== activeAudio && !audio.paused) audio.pause();
+    }
+
+    if (activeSegment && activeAudio) {
+      stopSpeech(speechRef);
+      syncAudio(activeAudio, {
+        expected: (currentTime - activeSegment.startTime) / 1000,
+        isPlaying,
+        playbackRate,
+        volume,
+      });
+      return;
+    }
+
+    if (!activeSegment || !isPlaying || !hasSpeechSynthesis()) {
+      stopSpeech(speechRef);
+      return;
+    }
+
+    const run = speechRef.current;
+    const isCurrent = run !== null
+      && run.segmentId === activeSegment.id
+      && run.rate === playbackRate
+      && run.volume === volume
+      && !jumped;
+    if (isCurrent) return;
+
+    stopSpeech(speechRef);
+    const text = remainingText(activeSegment, currentTime);
+    if (!text) return;
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = playbackRate;
+    utterance.volume = volume;
+    if (language) utterance.lang = language;
+    window.speechSynthesis.speak(utterance);
+    speechRef.current = { segmentId: activeSegment.id, rate: playbackRate, volume };
+  }, [activeSegment, currentTime, isPlaying, playbackRate, volume, language]);
+
+  // Release audio and silence speech on unmount.
+  useEffect(() => {
+    const elements = audioRef.current;
+    return () => {
+      for (const audio of elements.values()) {
+        audio.pause();
+        audio.removeAttribute('src');
+        audio.load();
+      }
+      elements.clear();
+      stopSpeech(speechRef);
+    };
+  }, []);
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface AudioSyncTarget {
+  /** Position (s) in the segment's audio that matches the engine clock. */
+  expected: number;
+  isPlaying: boolean;
+  playbackRate: number;
+  volume: number;
+}
+
+/**
+ * Bring an audio element in line with the engine.
+ *
+ * Segments may outlast their audio (a block stays on screen at least as long
+ * as its narration), so positions past the end simply leave it finished.
+ */
+function syncAudio(audio: HTMLAudioElement, target: AudioSyncTarget): void {
+  const { expected, isPlaying, playbackRate, volume } = target;
+  audio.volume = volume;
+
+  const duration = Number.isFinite(audio.duration) ? audio.duration : Infinity;
+  const inRange = expected >= 0 && expected < duration;
+
+  if (!isPlaying || !inRange) {
+    if (!audio.paused) audio.pause();
+    if (inRange && Math.abs(audio.currentTime - expected) > DRIFT_TOLERANCE_S) {
+      audio.currentTime = expected;
+    }
+    return;
+  }
+
+  const drift = audio.currentTime - expected;
+
+  if (audio.paused || Math.abs(drift) > DRIFT_RESYNC_S) {
+    audio.currentTime = expected;
+    audio.playbackRate = playbackRate;
+  } else if (Math.abs(drift) > DRIFT_TOLERANCE_S) {
+    // Ahead → slow down, behind → speed up, proportionally to the drift.
+    const correction = Math.max(-MAX_RATE_CORRECTION, Math.min(MAX_RATE_CORRECTION, drift));
+    audio.playbackRate = playbackRate * (1 - correction);
+  } else if (audio.playbackRate !== playbackRate) {
+    audio.playbackRate = playbackRate;
+  }
+
+  if (audio.paused) {
+    // Autoplay may be refused until the user interacts; playback carries on
+    // silently and the next frame retries.
+    audio.play().catch(() => undefined);
+  }
+}
+
+function stopSpeech(speechRef: { current: SpeechRun | null }): void {
+  if (!speechRef.current) return;
+  speechRef.current = null;
+  if (hasSpeechSynthesis()) window.speechSynthesis.cancel();
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import type { AnswerQuizResponse, LessonQuiz } from '@classflowai/types';
+
+interface QuizPanelProps {
+  quiz: LessonQuiz;
+  /** Grade an answer; rejects with a displayable message on failure. */
+  onAnswer: (answer: number | string) => Promise<AnswerQuizResponse>;
+  /** Carry on with the lesson once the quiz is answered. */
+  onContinue: () => void;
+}
+
+const MAX_ANSWER_LENGTH = 500;
+
+/**
+ * A quiz playback stopped at: the question, its options or an answer field,
+ * and once answered, whether the answer was right and why.  Wrong answers
+ * can be tried again before going on.
+ */
+export function QuizPanel({ quiz, onAnswer, onContinue }: QuizPanelProps) {
+  const [choice, setChoice] = useState<number | null>(null);
+  const [text, setText] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [result, setResult] = useState<AnswerQuizResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const answer = quiz.type === 'multiple_choice' ? choice : text.trim() || null;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (answer === null) return;
+
+    setIsChecking(true);
+    setError(null);
+    try {
+      setResult(await onAnswer(answer));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check the answer');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const tryAgain = () => {
+    setResult(null);
+    setChoice(null);
+    setText('');
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="w-full max-w-lg p-6 bg-gray-900 border border-gray-700 rounded-xl shadow-2xl space-y-4"
+    >
+      <p className="text-xs font-medium uppercase tracking-wide text-blue-300">
+        Check your understanding
+      </p>
+      <h2 className="text-lg font-semibold text-white">{quiz.question}</h2>
+
+      {quiz.type === 'multiple_choice' ? (
+        <div className="space-y-2">
+          {(quiz.choices ?? []).map((option, index) => (
+            <button
+              key={index}
+              type="button"
+              onClick={() => setChoice(index)}
+              disabled={isChecking || result !== null}
+              className={`w-full px-4 py-2 text-left text-sm rounded-lg border transition-colors
+                ${choice === index
+                  ? 'border-blue-500 bg-blue-600/20 text-white'
+                  : 'border-gray-700 bg-gray-950 text-gray-300 hover:border-gray-500'
+                } disabled:cursor-not-allowed`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          maxLength={MAX_ANSWER_LENGTH}
+          placeholder="Your answer"
+          disabled={isChecking || result !== null}
+          autoFocus
+          className="w-full px-4 py-2 bg-gray-950 border border-gray-700 rounded-lg text-white
+                     placeholder-gray-600 focus:outline-none focus:border-blue-500"
+        />
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {result ? (
+        <div className="space-y-3">
+          <div
+            className={`p-3 rounded-lg text-sm border
+              ${result.correct
+                ? 'bg-green-900/30 border-green-700 text-green-300'
+                : 'bg-red-900/30 border-red-700 text-red-300'
+              }`}
+          >
+            <p className="font-medium">
+              {result.correct ? 'Correct!' : `Not quite. The answer is: ${result.correctAnswer}`}
+            </p>
+            {result.explanation && <p className="mt-1 text-gray-300">{result.explanation}</p>}
+          </div>
+          <div className="flex justify-end gap-2">
+            {!result.correct && (
+              <button
+                type="button"
+                onClick={tryAgain}
+                className="px-4 py-2 text-gray-400 hover:text-white text-sm transition-colors"
+              >
+                Try again
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onContinue}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              Continue
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isChecking || answer === null}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed
+                       text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            {isChecking ? 'Checking…' : 'Check answer'}
+          </button>
+        </div>
+      )}
+    </form>
+  );
+}
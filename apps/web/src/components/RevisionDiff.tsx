@@ -0,0 +1,119 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  calculateTimelineDuration,
+  diffExplanationBlocks,
+  diffTimelines,
+} from '@classflowai/engine';
+import type { BlockDiffEntry } from '@classflowai/engine';
+import type { ExplanationBlock, LessonRevision } from '@classflowai/types';
+
+interface RevisionDiffProps {
+  before: LessonRevision;
+  after: LessonRevision;
+}
+
+/** Retimed events listed; the rest are only counted. */
+const MAX_LISTED_EVENTS = 50;
+
+const ENTRY_STYLES: Record<BlockDiffEntry['type'], string> = {
+  unchanged: 'border-gray-800 bg-gray-900',
+  changed: 'border-amber-700 bg-amber-900/20',
+  removed: 'border-red-700 bg-red-900/20',
+  added: 'border-green-700 bg-green-900/20',
+};
+
+const ENTRY_LABELS: Record<BlockDiffEntry['type'], string> = {
+  unchanged: 'Unchanged',
+  changed: 'Changed',
+  removed: 'Removed',
+  added: 'Added',
+};
+
+const formatTime = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+function BlockContent({ block, muted = false }: { block: ExplanationBlock; muted?: boolean }) {
+  return (
+    <pre
+      className={`whitespace-pre-wrap break-words text-sm font-sans
+        ${block.type === 'code' ? 'font-mono' : ''} ${muted ? 'text-gray-500 line-through' : 'text-gray-200'}`}
+    >
+      {block.content}
+    </pre>
+  );
+}
+
+/**
+ * Side-by-side comparison of two revisions of a lesson: their blocks in
+ * order, and how the timeline was retimed, trimmed or extended.
+ */
+export function RevisionDiff({ before, after }: RevisionDiffProps) {
+  const blocks = useMemo(
+    () => diffExplanationBlocks(before.explanation, after.explanation),
+    [before, after],
+  );
+  const timeline = useMemo(() => diffTimelines(before.timeline, after.timeline), [before, after]);
+  const durationBefore = calculateTimelineDuration(before.timeline);
+  const durationAfter = calculateTimelineDuration(after.timeline);
+
+  return (
+    <div className="space-y-6">
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold text-white">Blocks</h2>
+        {blocks.length === 0 && <p className="text-sm text-gray-500">Neither revision has blocks.</p>}
+        {blocks.map((entry, i) => (
+          <div key={i} className={`p-3 border rounded-lg space-y-2 ${ENTRY_STYLES[entry.type]}`}>
+            <span className="text-xs font-medium uppercase tracking-wide text-gray-400">
+              {ENTRY_LABELS[entry.type]}
+              {' · '}
+              {entry.type === 'removed' ? entry.before.type : entry.after.type}
+            </span>
+            {entry.type === 'changed' ? (
+              <div className="grid gap-3 md:grid-cols-2">
+                <BlockContent block={entry.before} muted />
+                <BlockContent block={entry.after} />
+              </div>
+            ) : (
+              <BlockContent
+                block={entry.type === 'removed' ? entry.before : entry.after}
+                muted={entry.type === 'removed'}
+              />
+            )}
+          </div>
+        ))}
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold text-white">Timeline</h2>
+        <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+          {[
+            ['Duration', `${formatTime(durationBefore)} → ${formatTime(durationAfter)}`],
+            ['Events added', timeline.added.length],
+            ['Events removed', timeline.removed.length],
+            ['Events retimed', timeline.retimed.length],
+          ].map(([label, value]) => (
+            <div key={label} className="p-3 bg-gray-900 border border-gray-800 rounded-lg">
+              <dt className="text-gray-500">{label}</dt>
+              <dd className="text-white font-medium">{value}</dd>
+            </div>
+          ))}
+        </dl>
+        {timeline.retimed.length > 0 && (
+          <ul className="space-y-1 text-xs font-mono text-gray-400">
+            {timeline.retimed.slice(0, MAX_LISTED_EVENTS).map(({ before: from, after: to }) => (
+              <li key={to.id}>
+                {to.type}: {formatTime(from.startTime)}–{formatTime(from.endTime)}
+                {' → '}
+                {formatTime(to.startTime)}–{formatTime(to.endTime)}
+              </li>
+            ))}
+            {timeline.retimed.length > MAX_LISTED_EVENTS && (
+              <li>and {timeline.retimed.length - MAX_LISTED_EVENTS} more</li>
+            )}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
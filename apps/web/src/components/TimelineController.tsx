@@ -1,24 +1,42 @@
 'use client';
 
 import { useCallback } from 'react';
-import type { EngineState } from '@classflowai/types';
+import type { ChapterEdge, EngineState, LessonChapter } from '@classflowai/types';
 
 interface TimelineControllerProps {
   engineState: EngineState;
   progress: number;
+  /** Narration volume in [0, 1]. */
+  volume: number;
   onPlay: () => void;
   onPause: () => void;
   onSeek: (time: number) => void;
   onSpeedChange: (speed: number) => void;
+  onVolumeChange: (volume: number) => void;
+  /** Chapters of the lesson, in timeline order; hidden when there is only one. */
+  chapters?: LessonChapter[];
+  /** The chapter playing, if any. */
+  chapterId?: string | null;
+  /** Paths offered at the end of the current chapter, waiting for a pick. */
+  choices?: ChapterEdge[];
+  onChapterSelect?: (chapterId: string) => void;
+  onChoose?: (chapterId: string) => void;
 }
 
 export function TimelineController({
   engineState,
   progress,
+  volume,
   onPlay,
   onPause,
   onSeek,
   onSpeedChange,
+  onVolumeChange,
+  chapters = [],
+  chapterId = null,
+  choices = [],
+  onChapterSelect,
+  onChoose,
 }: TimelineControllerProps) {
   const { isPlaying, currentTime, duration, playbackRate, status } = engineState;
 
@@ -60,6 +78,14 @@ export function TimelineController({
           className="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-white rounded-full shadow-lg opacity-0 group-hover:opacity-100 transition-opacity"
           style={{ left: `calc(${progress * 100}% - 8px)` }}
         />
+        {duration > 0 &&
+          chapters.slice(1).map((chapter) => (
+            <div
+              key={chapter.id}
+              className="absolute top-0 h-full w-0.5 bg-gray-900 pointer-events-none"
+              style={{ left: `${(chapter.startTime / duration) * 100}%` }}
+            />
+          ))}
       </div>
 
       {/* Time Display */}
@@ -68,6 +94,24 @@ export function TimelineController({
         <span>{formatTime(duration)}</span>
       </div>
 
+      {/* Chapter Choice */}
+      {choices.length > 0 && (
+        <div className="flex flex-col items-center gap-2 p-3 bg-blue-900/30 border border-blue-700 rounded-lg">
+          <span className="text-sm text-blue-200">Where to next?</span>
+          <div className="flex flex-wrap justify-center gap-2">
+            {choices.map((edge) => (
+              <button
+                key={edge.to}
+                onClick={() => onChoose?.(edge.to)}
+                className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-md transition-colors"
+              >
+                {edge.condition.type === 'choice' ? edge.condition.label : edge.to}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Controls */}
       <div className="flex items-center justify-center gap-4">
         {/* Play/Pause Button */}
@@ -98,6 +142,28 @@ export function TimelineController({
         </button>
       </div>
 
+      {/* Chapter Navigator */}
+      {chapters.length > 1 && (
+        <nav className="flex flex-wrap justify-center gap-1" aria-label="Chapters">
+          {chapters.map((chapter, index) => (
+            <button
+              key={chapter.id}
+              onClick={() => onChapterSelect?.(chapter.id)}
+              disabled={!isReady}
+              aria-current={chapter.id === chapterId ? 'step' : undefined}
+              className={`max-w-48 truncate px-3 py-1 text-sm rounded-md transition-colors
+                ${chapter.id === chapterId
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700 hover:text-white'
+                } disabled:cursor-not-allowed`}
+              title={`${formatTime(chapter.startTime)} ${chapter.title}`}
+            >
+              {index + 1}. {chapter.title}
+            </button>
+          ))}
+        </nav>
+      )}
+
       {/* Speed Control */}
       <div className="flex items-center justify-center gap-2">
         <span className="text-sm text-gray-500">Speed:</span>
@@ -119,6 +185,27 @@ export function TimelineController({
         </div>
       </div>
 
+      {/* Volume Control */}
+      <div className="flex items-center justify-center gap-2">
+        <button
+          onClick={() => onVolumeChange(volume > 0 ? 0 : 1)}
+          className="text-sm text-gray-500 hover:text-white transition-colors"
+          aria-label={volume > 0 ? 'Mute narration' : 'Unmute narration'}
+        >
+          {volume > 0 ? 'Volume:' : 'Muted'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={volume}
+          onChange={(e) => onVolumeChange(Number(e.target.value))}
+          className="w-32 accent-blue-500"
+          aria-label="Narration volume"
+        />
+      </div>
+
       {/* Status Badge */}
       <div className="flex justify-center">
         <span className={`px-3 py-1 text-xs font-medium rounded-full
@@ -0,0 +1,548 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  DEFAULT_BOARD_SIZE,
+  LessonPlaybackEngine,
+  TimelineDocument,
+  buildTracksFromEvents,
+  calculateTimelineDuration,
+  getAllEventsFromTracks,
+  getBoardFrame,
+  getPageDrawing,
+  getStrokePages,
+  layoutBoard,
+  validateTimeline,
+} from '@classflowai/engine';
+import type {
+  Lesson,
+  PlaybackSnapshot,
+  TimelineChange,
+  TimelineCommand,
+  TimelineEvent,
+  TimelineTrack,
+  TimelineValidationError,
+  UpdateTimelineRequest,
+} from '@classflowai/types';
+import { CanvasBoard } from './CanvasBoard';
+import { CursorLayer } from './CursorLayer';
+import { TimelineTrackLane } from './TimelineTrackLane';
+
+interface TimelineEditorProps {
+  lesson: Lesson;
+  /** Persist the edits; rejects with a displayable message on failure. */
+  onSave: (edits: UpdateTimelineRequest) => Promise<void>;
+}
+
+const CANVAS_WIDTH = DEFAULT_BOARD_SIZE.width;
+const CANVAS_HEIGHT = DEFAULT_BOARD_SIZE.height;
+const ZOOM_LEVELS = [0.01, 0.02, 0.05, 0.1, 0.2, 0.5];
+const DEFAULT_ZOOM = 0.05;
+/** Issues listed below the tracks; the rest are only counted. */
+const MAX_LISTED_ISSUES = 50;
+/** Room (ms) left after the last event for dragging events later. */
+const TAIL_MS = 5000;
+
+const TRACK_LABELS: Record<TimelineTrack['type'], string> = {
+  cursor: 'Cursor',
+  drawing: 'Drawing',
+  text: 'Text',
+  narration: 'Narration',
+  highlight: 'Highlight',
+};
+
+const formatTime = (ms: number): string => {
+  const totalSeconds = ms / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(1);
+  return `${minutes}:${seconds.padStart(4, '0')}`;
+};
+
+/**
+ * Timing changes and deletions that turn {@link original} into the events
+ * of {@link tracks}.
+ */
+function diffTimeline(original: TimelineEvent[], tracks: TimelineTrack[]): UpdateTimelineRequest {
+  const edited = new Map(tracks.flatMap((track) => track.events).map((event) => [event.id, event]));
+  const events: NonNullable<UpdateTimelineRequest['events']> = [];
+  const removed: string[] = [];
+
+  for (const event of original) {
+    const current = edited.get(event.id);
+    if (!current) {
+      removed.push(event.id);
+    } else if (current.startTime !== event.startTime || current.endTime !== event.endTime) {
+      events.push({ id: event.id, startTime: current.startTime, endTime: current.endTime });
+    }
+  }
+
+  return { events, removed };
+}
+
+/** Rebuild tracks from a timeline, keeping the locks of {@link previous}. */
+function tracksFromTimeline(timeline: TimelineEvent[], previous: TimelineTrack[] = []): TimelineTrack[] {
+  const locked = new Set(previous.filter((track) => track.locked).map((track) => track.id));
+  return buildTracksFromEvents(timeline).map((track) =>
+    locked.has(track.id) ? { ...track, locked: true } : track,
+  );
+}
+
+export function TimelineEditor({ lesson, onSave }: TimelineEditorProps) {
+  const engineRef = useRef<LessonPlaybackEngine | null>(null);
+  const [timelineDocument] = useState(() => new TimelineDocument(tracksFromTimeline(lesson.timeline)));
+  const [documentTracks, setDocumentTracks] = useState(timelineDocument.tracks);
+  const [history, setHistory] = useState({ canUndo: false, canRedo: false });
+  // Hiding a track only affects the preview, so it is not an undoable edit.
+  const [hiddenTrackIds, setHiddenTrackIds] = useState<ReadonlySet<string>>(new Set());
+  const [snapshot, setSnapshot] = useState<PlaybackSnapshot | null>(null);
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleChange = ({ tracks, canUndo, canRedo }: TimelineChange) => {
+      setDocumentTracks(tracks);
+      setHistory({ canUndo, canRedo });
+    };
+    timelineDocument.on('change', handleChange);
+    return () => timelineDocument.off('change', handleChange);
+  }, [timelineDocument]);
+
+  // A saved (or reloaded) lesson replaces the edits and their history.
+  useEffect(() => {
+    timelineDocument.load(tracksFromTimeline(lesson.timeline, timelineDocument.tracks));
+  }, [timelineDocument, lesson.timeline]);
+
+  const tracks = useMemo(
+    () => documentTracks.map((track) =>
+      hiddenTrackIds.has(track.id) ? { ...track, visible: false } : track,
+    ),
+    [documentTracks, hiddenTrackIds],
+  );
+
+  // ---- Preview ----
+
+  useEffect(() => {
+    const engine = new LessonPlaybackEngine({
+      targetFps: 60,
+      maxDeltaMs: 100,
+      autoPlay: false,
+      pauseAtQuizzes: false,
+    });
+    engine.on('frame', setSnapshot);
+    engineRef.current = engine;
+
+    return () => {
+      engine.destroy();
+      engineRef.current = null;
+    };
+  }, []);
+
+  // Reload the preview after every edit, staying at the same point.
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine) return;
+
+    const time = engine.currentTime;
+    const wasPlaying = engine.isPlaying;
+    engine.load(tracks);
+    engine.seek(Math.min(time, engine.duration));
+    if (wasPlaying) {
+      engine.startLoop();
+      engine.play();
+    }
+  }, [tracks]);
+
+  const currentTime = snapshot?.currentTime ?? 0;
+  const isPlaying = snapshot?.engineState.isPlaying ?? false;
+
+  const visibleEvents = useMemo(
+    () => getAllEventsFromTracks(tracks.filter((track) => track.visible)),
+    [tracks],
+  );
+  const boardLayout = useMemo(
+    () => layoutBoard(lesson.explanation, visibleEvents, DEFAULT_BOARD_SIZE),
+    [lesson.explanation, visibleEvents],
+  );
+  const strokePages = useMemo(
+    () => getStrokePages(boardLayout, visibleEvents),
+    [boardLayout, visibleEvents],
+  );
+  const boardFrame = useMemo(
+    () => getBoardFrame(boardLayout, currentTime),
+    [boardLayout, currentTime],
+  );
+  const drawing = useMemo(
+    () => getPageDrawing(
+      snapshot?.drawingState ?? { strokes: [], activeStroke: null },
+      strokePages,
+      boardFrame.page,
+    ),
+    [snapshot, strokePages, boardFrame.page],
+  );
+
+  const handlePlayPause = useCallback(() => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    if (engine.isPlaying) {
+      engine.pause();
+    } else {
+      engine.startLoop();
+      engine.play();
+    }
+  }, []);
+
+  const handleSeek = useCallback((time: number) => {
+    engineRef.current?.seek(time);
+  }, []);
+
+  // ---- Editing ----
+
+  const issues = useMemo(() => validateTimeline(tracks), [tracks]);
+  const issuesByEvent = useMemo(() => {
+    const map = new Map<string, TimelineValidationError[]>();
+    for (const issue of issues) {
+      map.set(issue.eventId, [...(map.get(issue.eventId) ?? []), issue]);
+    }
+    return map;
+  }, [issues]);
+  const errorCount = issues.filter((issue) => issue.severity === 'error').length;
+
+  const edits = useMemo(() => diffTimeline(lesson.timeline, tracks), [lesson.timeline, tracks]);
+  const editCount = (edits.events?.length ?? 0) + (edits.removed?.length ?? 0);
+
+  const timelineWidth = useMemo(
+    () => calculateTimelineDuration(tracks.flatMap((track) => track.events)) + TAIL_MS,
+    [tracks],
+  );
+
+  const selected = useMemo(() => {
+    for (const track of tracks) {
+      const event = track.events.find((e) => e.id === selectedEventId);
+      if (event) return { track, event };
+    }
+    return null;
+  }, [tracks, selectedEventId]);
+
+  const execute = useCallback(
+    (command: TimelineCommand) => timelineDocument.execute(command),
+    [timelineDocument],
+  );
+
+  const toggleHidden = useCallback((trackId: string) => {
+    setHiddenTrackIds((current) => {
+      const next = new Set(current);
+      if (!next.delete(trackId)) next.add(trackId);
+      return next;
+    });
+  }, []);
+
+  const deleteSelected = useCallback(() => {
+    if (!selected) return;
+    execute({ type: 'remove_event', eventId: selected.event.id });
+    setSelectedEventId(null);
+  }, [selected, execute]);
+
+  const selectIssue = useCallback((issue: TimelineValidationError) => {
+    setSelectedEventId(issue.eventId);
+    const event = tracks.flatMap((track) => track.events).find((e) => e.id === issue.eventId);
+    if (event) handleSeek(event.startTime);
+  }, [tracks, handleSeek]);
+
+  const handleSave = useCallback(async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(edits);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save timeline');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [edits, onSave]);
+
+  const handleReset = useCallback(() => {
+    timelineDocument.load(tracksFromTimeline(lesson.timeline, timelineDocument.tracks));
+    setSelectedEventId(null);
+    setSaveError(null);
+  }, [timelineDocument, lesson.timeline]);
+
+  // Ctrl/Cmd+Z undoes, with Shift (or Ctrl+Y) redoes.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        timelineDocument.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        timelineDocument.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [timelineDocument]);
+
+  // Warn before leaving with unsaved edits.
+  useEffect(() => {
+    if (editCount === 0) return;
+    const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [editCount]);
+
+  const rulerMarks = useMemo(() => {
+    const step = zoom >= 0.1 ? 1000 : zoom >= 0.02 ? 5000 : 10000;
+    return Array.from({ length: Math.floor(timelineWidth / step) + 1 }, (_, i) => i * step);
+  }, [timelineWidth, zoom]);
+
+  return (
+    <div className="flex flex-col gap-6">
+      {/* Preview */}
+      <div className="flex flex-col items-center gap-3">
+        <div className="relative">
+          <CanvasBoard
+            width={CANVAS_WIDTH}
+            height={CANVAS_HEIGHT}
+            drawingState={drawing}
+            boardFrame={boardFrame}
+          />
+          {snapshot && <CursorLayer cursorState={snapshot.cursorState} />}
+        </div>
+        <div className="flex items-center gap-4">
+          <button
+            onClick={handlePlayPause}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            {isPlaying ? 'Pause' : 'Play'}
+          </button>
+          <span className="text-sm text-gray-400 font-mono">
+            {formatTime(currentTime)} / {formatTime(snapshot?.engineState.duration ?? 0)}
+          </span>
+        </div>
+      </div>
+
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-500">Zoom:</span>
+          {ZOOM_LEVELS.map((level) => (
+            <button
+              key={level}
+              onClick={() => setZoom(level)}
+              className={`px-2 py-1 text-xs rounded-md transition-colors
+                ${zoom === level
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700 hover:text-white'
+                }`}
+            >
+              {level * 1000}px/s
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => timelineDocument.undo()}
+            disabled={!history.canUndo}
+            className="px-3 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed
+                       text-white text-sm rounded-lg transition-colors"
+            title="Undo (Ctrl+Z)"
+          >
+            Undo
+          </button>
+          <button
+            onClick={() => timelineDocument.redo()}
+            disabled={!history.canRedo}
+            className="px-3 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed
+                       text-white text-sm rounded-lg transition-colors"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            Redo
+          </button>
+          <span className="text-sm text-gray-400">
+            {editCount === 0 ? 'No changes' : `${editCount} unsaved ${editCount === 1 ? 'change' : 'changes'}`}
+          </span>
+          <button
+            onClick={handleReset}
+            disabled={editCount === 0 || isSaving}
+            className="px-4 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed
+                       text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            Reset
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={editCount === 0 || isSaving}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:cursor-not-allowed
+                       text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            {isSaving ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </div>
+
+      {saveError && (
+        <div className="p-4 bg-red-900/30 border border-red-700 rounded-lg text-red-300 text-sm">
+          {saveError}
+        </div>
+      )}
+
+      {/* Tracks */}
+      <div className="flex border border-gray-800 rounded-xl bg-gray-900 overflow-hidden">
+        <div className="shrink-0 w-40 border-r border-gray-800">
+          <div className="h-6 border-b border-gray-800" />
+          {tracks.map((track) => (
+            <div
+              key={track.id}
+              className="h-10 flex items-center justify-between gap-1 px-3 border-b border-gray-800"
+            >
+              <span className="text-sm text-gray-300">{TRACK_LABELS[track.type]}</span>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => toggleHidden(track.id)}
+                  className="px-1.5 py-0.5 text-xs rounded bg-gray-800 text-gray-400 hover:text-white"
+                  aria-label={track.visible ? 'Hide track' : 'Show track'}
+                  title={track.visible ? 'Hide track' : 'Show track'}
+                >
+                  {track.visible ? 'Hide' : 'Show'}
+                </button>
+                <button
+                  onClick={() => execute({
+                    type: track.locked ? 'unlock_track' : 'lock_track',
+                    trackId: track.id,
+                  })}
+                  className={`px-1.5 py-0.5 text-xs rounded
+                    ${track.locked ? 'bg-amber-600/30 text-amber-300' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                  aria-label={track.locked ? 'Unlock track' : 'Lock track'}
+                  title={track.locked ? 'Unlock track' : 'Lock track'}
+                >
+                  {track.locked ? 'Locked' : 'Lock'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="relative flex-1 overflow-x-auto">
+          <div
+            className="relative h-6 border-b border-gray-800 cursor-pointer"
+            style={{ width: timelineWidth * zoom }}
+            onClick={(e) => {
+              const rect = e.currentTarget.getBoundingClientRect();
+              handleSeek((e.clientX - rect.left) / zoom);
+            }}
+          >
+            {rulerMarks.map((mark) => (
+              <span
+                key={mark}
+                className="absolute top-0 h-full pl-1 border-l border-gray-700 text-[10px] text-gray-500"
+                style={{ left: mark * zoom }}
+              >
+                {formatTime(mark)}
+              </span>
+            ))}
+          </div>
+
+          {tracks.map((track) => (
+            <TimelineTrackLane
+              key={track.id}
+              track={track}
+              scale={zoom}
+              duration={timelineWidth}
+              selectedEventId={selectedEventId}
+              issues={issuesByEvent}
+              onSelect={setSelectedEventId}
+              onChange={(eventId, startTime, endTime) =>
+                execute({ type: 'resize_event', eventId, startTime, endTime })}
+            />
+          ))}
+
+          <div
+            className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none"
+            style={{ left: currentTime * zoom }}
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {/* Inspector */}
+        <div className="p-4 bg-gray-900 border border-gray-800 rounded-xl space-y-3">
+          <h2 className="text-sm font-semibold text-white">Selected event</h2>
+          {selected ? (
+            <>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                <dt className="text-gray-500">Type</dt>
+                <dd className="text-gray-300">{selected.event.type}</dd>
+                <dt className="text-gray-500">Start</dt>
+                <dd className="text-gray-300 font-mono">{formatTime(selected.event.startTime)}</dd>
+                <dt className="text-gray-500">End</dt>
+                <dd className="text-gray-300 font-mono">{formatTime(selected.event.endTime)}</dd>
+                {selected.event.payload.text && (
+                  <>
+                    <dt className="text-gray-500">Text</dt>
+                    <dd className="text-gray-300 truncate">{selected.event.payload.text}</dd>
+                  </>
+                )}
+              </dl>
+              {issuesByEvent.get(selected.event.id)?.map((issue) => (
+                <p
+                  key={issue.message}
+                  className={`text-xs ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}
+                >
+                  {issue.message}
+                </p>
+              ))}
+              <button
+                onClick={deleteSelected}
+                disabled={selected.track.locked}
+                className="px-3 py-1.5 bg-red-600/80 hover:bg-red-500 disabled:opacity-50 disabled:cursor-not-allowed
+                           text-white text-xs font-medium rounded-md transition-colors"
+              >
+                Delete event
+              </button>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">
+              Click an event to inspect it. Drag to move, drag its edges to resize.
+            </p>
+          )}
+        </div>
+
+        {/* Validation */}
+        <div className="p-4 bg-gray-900 border border-gray-800 rounded-xl space-y-3">
+          <h2 className="text-sm font-semibold text-white">
+            Validation
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              {errorCount} {errorCount === 1 ? 'error' : 'errors'},{' '}
+              {issues.length - errorCount} {issues.length - errorCount === 1 ? 'warning' : 'warnings'}
+            </span>
+          </h2>
+          {issues.length === 0 ? (
+            <p className="text-sm text-gray-500">The timeline has no issues.</p>
+          ) : (
+            <ul className="space-y-1 max-h-48 overflow-y-auto">
+              {issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                <li key={`${issue.eventId}-${i}`}>
+                  <button
+                    onClick={() => selectIssue(issue)}
+                    className={`text-left text-xs hover:underline
+                      ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}
+                  >
+                    {issue.message}
+                  </button>
+                </li>
+              ))}
+              {issues.length > MAX_LISTED_ISSUES && (
+                <li className="text-xs text-gray-500">
+                  and {issues.length - MAX_LISTED_ISSUES} more
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import type { TimelineEvent, TimelineTrack, TimelineValidationError } from '@classflowai/types';
+
+interface TimelineTrackLaneProps {
+  track: TimelineTrack;
+  /** Horizontal zoom, in pixels per millisecond. */
+  scale: number;
+  /** Width of the lane, in milliseconds. */
+  duration: number;
+  selectedEventId: string | null;
+  /** Validation issues by event ID, from `validateTimeline`. */
+  issues: ReadonlyMap<string, TimelineValidationError[]>;
+  onSelect: (eventId: string) => void;
+  onChange: (eventId: string, startTime: number, endTime: number) => void;
+}
+
+type DragMode = 'move' | 'start' | 'end';
+
+interface DragState {
+  eventId: string;
+  mode: DragMode;
+  originX: number;
+  startTime: number;
+  endTime: number;
+  /** Timing shown while dragging; committed on release. */
+  preview: { startTime: number; endTime: number };
+}
+
+/** Times snap to this grid (ms) while dragging. */
+const SNAP_MS = 10;
+/** Shortest event a resize can leave (ms). */
+const MIN_EVENT_MS = 10;
+/** Width (px) of the resize handle at either end of an event. */
+const HANDLE_PX = 6;
+
+const TRACK_COLORS: Record<TimelineTrack['type'], string> = {
+  cursor: 'bg-gray-500/60 border-gray-400',
+  drawing: 'bg-amber-500/60 border-amber-400',
+  text: 'bg-blue-500/60 border-blue-400',
+  narration: 'bg-green-500/60 border-green-400',
+  highlight: 'bg-purple-500/60 border-purple-400',
+};
+
+const snap = (ms: number): number => Math.round(ms / SNAP_MS) * SNAP_MS;
+
+/**
+ * Apply a drag of {@link deltaMs} to an event's original timing.  Moves keep
+ * the duration; resizes keep the opposite edge and at least
+ * {@link MIN_EVENT_MS}.
+ */
+function dragTiming(
+  mode: DragMode,
+  startTime: number,
+  endTime: number,
+  deltaMs: number,
+): { startTime: number; endTime: number } {
+  if (mode === 'move') {
+    const start = Math.max(0, snap(startTime + deltaMs));
+    return { startTime: start, endTime: start + (endTime - startTime) };
+  }
+  if (mode === 'start') {
+    const start = Math.min(Math.max(0, snap(startTime + deltaMs)), endTime - MIN_EVENT_MS);
+    return { startTime: start, endTime };
+  }
+  return { startTime, endTime: Math.max(snap(endTime + deltaMs), startTime + MIN_EVENT_MS) };
+}
+
+export function TimelineTrackLane({
+  track,
+  scale,
+  duration,
+  selectedEventId,
+  issues,
+  onSelect,
+  onChange,
+}: TimelineTrackLaneProps) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const handlePointerDown = useCallback(
+    (event: TimelineEvent, e: React.PointerEvent<HTMLDivElement>) => {
+      onSelect(event.id);
+      if (track.locked) return;
+
+      const rect = e.currentTarget.getBoundingClientRect();
+      const offset = e.clientX - rect.left;
+      const mode: DragMode = rect.width > HANDLE_PX * 3 && offset < HANDLE_PX
+        ? 'start'
+        : rect.width > HANDLE_PX * 3 && offset > rect.width - HANDLE_PX
+          ? 'end'
+          : 'move';
+
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDrag({
+        eventId: event.id,
+        mode,
+        originX: e.clientX,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        preview: { startTime: event.startTime, endTime: event.endTime },
+      });
+    },
+    [track.locked, onSelect],
+  );
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (!drag) return;
+      const deltaMs = (e.clientX - drag.originX) / scale;
+      setDrag({ ...drag, preview: dragTiming(drag.mode, drag.startTime, drag.endTime, deltaMs) });
+    },
+    [drag, scale],
+  );
+
+  const handlePointerUp = useCallback(() => {
+    if (!drag) return;
+    const { eventId, preview } = drag;
+    setDrag(null);
+    if (preview.startTime !== drag.startTime || preview.endTime !== drag.endTime) {
+      onChange(eventId, preview.startTime, preview.endTime);
+    }
+  }, [drag, onChange]);
+
+  return (
+    <div
+      className={`relative h-10 border-b border-gray-800 ${track.visible ? '' : 'opacity-40'}`}
+      style={{ width: duration * scale }}
+    >
+      {track.events.map((event) => {
+        const timing = drag?.eventId === event.id ? drag.preview : event;
+        const eventIssues = issues.get(event.id);
+        const hasError = eventIssues?.some((issue) => issue.severity === 'error');
+        const isSelected = event.id === selectedEventId;
+
+        return (
+          <div
+            key={event.id}
+            onPointerDown={(e) => handlePointerDown(event, e)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={() => setDrag(null)}
+            title={[
+              `${event.type} ${Math.round(timing.startTime)}–${Math.round(timing.endTime)}ms`,
+              ...(eventIssues ?? []).map((issue) => issue.message),
+            ].join('\n')}
+            className={`absolute top-1 bottom-1 rounded-sm border touch-none
+              ${TRACK_COLORS[track.type]}
+              ${track.locked ? 'cursor-not-allowed' : 'cursor-grab active:cursor-grabbing'}
+              ${hasError ? 'ring-2 ring-red-500' : eventIssues ? 'ring-1 ring-amber-400' : ''}
+              ${isSelected ? 'z-10 outline outline-2 outline-white' : ''}`}
+            style={{
+              left: timing.startTime * scale,
+              width: Math.max(2, (timing.endTime - timing.startTime) * scale),
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+}
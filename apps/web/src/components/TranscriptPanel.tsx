@@ -0,0 +1,101 @@
+'use client';
+
+import { Fragment, useEffect, useMemo, useRef } from 'react';
+import { getHighlightedWords, narrationSegmentFromEvent } from '@classflowai/engine';
+import type { WordHighlightState } from '@classflowai/engine';
+import type { NarrationSegmentConfig, NarrationState, TimelineEvent } from '@classflowai/types';
+
+interface TranscriptPanelProps {
+  /** Narration segments of the lesson, ordered by start time. */
+  segments: NarrationSegmentConfig[];
+  currentTime: number;
+  narrationState: NarrationState;
+  /** Active `text_highlight` events, used when no narration is active. */
+  activeTextEvents: TimelineEvent[];
+}
+
+const wordStyles: Record<WordHighlightState, string> = {
+  past: 'text-gray-300',
+  current: 'text-white bg-blue-500/40 rounded',
+  future: 'text-gray-600',
+};
+
+/**
+ * Karaoke-style transcript of the lesson narration.
+ *
+ * Segments already spoken are listed in full; the segment being spoken is
+ * rendered word by word with past/current/future states from
+ * {@link getHighlightedWords}.  Lessons whose timeline has no narration for
+ * the current moment fall back to the active `text_highlight` event.  The
+ * panel keeps the current word scrolled into view.
+ */
+export function TranscriptPanel({
+  segments,
+  currentTime,
+  narrationState,
+  activeTextEvents,
+}: TranscriptPanelProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const currentWordRef = useRef<HTMLSpanElement>(null);
+
+  const activeSegment = useMemo(() => {
+    const narrated = segments.find((segment) => segment.id === narrationState.currentSegmentId);
+    if (narrated) return narrated;
+
+    const textEvent = activeTextEvents[0];
+    return textEvent ? narrationSegmentFromEvent(textEvent) : null;
+  }, [segments, narrationState.currentSegmentId, activeTextEvents]);
+
+  const pastSegments = segments.filter(
+    (segment) => segment.endTime <= currentTime && segment.id !== activeSegment?.id,
+  );
+
+  const words = activeSegment ? getHighlightedWords(activeSegment, currentTime) : [];
+  const currentIndex = words.find((word) => word.state === 'current')?.index ?? -1;
+
+  // Follow the spoken word, scrolling the panel rather than the page.
+  useEffect(() => {
+    const container = containerRef.current;
+    const word = currentWordRef.current;
+    if (!container || !word) return;
+
+    // The container is positioned, so the word's offset is relative to it.
+    const top = word.offsetTop;
+    const bottom = top + word.offsetHeight;
+    if (top < container.scrollTop || bottom > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: top - container.clientHeight / 2, behavior: 'smooth' });
+    }
+  }, [activeSegment?.id, currentIndex]);
+
+  if (pastSegments.length === 0 && !activeSegment) return null;
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative max-h-40 overflow-y-auto p-4 space-y-3 bg-gray-900/80 backdrop-blur-sm
+                 rounded-xl border border-gray-700 text-lg leading-relaxed"
+      aria-live="off"
+    >
+      {pastSegments.map((segment) => (
+        <p key={segment.id} className="text-gray-500">
+          {segment.text}
+        </p>
+      ))}
+
+      {activeSegment && (
+        <p>
+          {words.map((word) => (
+            <Fragment key={word.index}>
+              <span
+                ref={word.index === currentIndex ? currentWordRef : undefined}
+                className={`transition-colors duration-100 ${wordStyles[word.state]}`}
+              >
+                {word.word}
+              </span>{' '}
+            </Fragment>
+          ))}
+        </p>
+      )}
+    </div>
+  );
+}
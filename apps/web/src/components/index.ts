@@ -1,4 +1,12 @@
 export { CanvasBoard } from './CanvasBoard';
 export { CursorLayer } from './CursorLayer';
 export { TimelineController } from './TimelineController';
-export { LessonPlayer } from './LessonPlayer';
\ No newline at end of file
+export { NarrationAudioLayer } from './NarrationAudioLayer';
+export { TranscriptPanel } from './TranscriptPanel';
+export { LessonPlayer } from './LessonPlayer';
+export { TimelineEditor } from './TimelineEditor';
+export { RevisionDiff } from './RevisionDiff';
+export { BlockRegenerator } from './BlockRegenerator';
+export { FollowUpPanel } from './FollowUpPanel';
+
+export { QuizPanel } from './QuizPanel';
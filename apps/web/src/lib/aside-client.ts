@@ -0,0 +1,46 @@
+import type {
+  ApiResponse,
+  AskFollowUpRequest,
+  AskFollowUpResponse,
+  LessonAside,
+} from '@classflowai/types';
+import { authHeaders, getToken } from '@/lib/auth-client';
+
+/**
+ * Ask a follow-up question at a point of a lesson and wait for the aside
+ * answering it.
+ *
+ * @throws With a displayable message when the question cannot be answered.
+ */
+export async function askFollowUp(
+  lessonId: string,
+  request: AskFollowUpRequest,
+): Promise<LessonAside> {
+  const response = await fetch(`/api/lessons/${lessonId}/asides`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify(request),
+  });
+  const json: ApiResponse<AskFollowUpResponse> = await response.json();
+
+  if (!json.success || !json.data) {
+    throw new Error(json.error?.message ?? 'Failed to answer the question');
+  }
+  return json.data;
+}
+
+/**
+ * Load the signed-in user's earlier asides in a lesson.  Resolves to an
+ * empty list when signed out or on any failure.
+ */
+export async function fetchAsides(lessonId: string): Promise<LessonAside[]> {
+  if (!getToken()) return [];
+
+  try {
+    const response = await fetch(`/api/lessons/${lessonId}/asides`, { headers: authHeaders() });
+    const json: ApiResponse<LessonAside[]> = await response.json();
+    return json.success ? json.data : [];
+  } catch {
+    return [];
+  }
+}
@@ -47,6 +47,14 @@ export function clearToken(): void {
   }
 }
 
+/**
+ * Authorization header for API calls, empty when signed out.
+ */
+export function authHeaders(): Record<string, string> {
+  const token = getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
 export async function login(email: string, password: string): Promise<User> {
   const response = await fetch(`${API_URL}/api/auth/login`, {
     method: 'POST',
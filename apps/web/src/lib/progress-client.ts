@@ -0,0 +1,53 @@
+import type {
+  ApiResponse,
+  LessonProgress,
+  UpdateProgressRequest,
+  UpdateProgressResponse,
+} from '@classflowai/types';
+import { authHeaders, getToken } from '@/lib/auth-client';
+
+/**
+ * Load the signed-in user's saved progress for a lesson.  Resolves to `null`
+ * when signed out, when nothing was saved yet, or on any failure.
+ */
+export async function fetchLessonProgress(lessonId: string): Promise<LessonProgress | null> {
+  if (!getToken()) return null;
+
+  try {
+    const response = await fetch(`/api/me/progress?lessonId=${encodeURIComponent(lessonId)}&limit=1`, {
+      headers: authHeaders(),
+    });
+    const json: ApiResponse<LessonProgress[]> = await response.json();
+    return json.success ? json.data[0] ?? null : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Report playback progress.  Best effort: resolves to `null` when signed out
+ * or on any failure, since losing a report must never disturb playback.
+ *
+ * Pass `keepalive` when reporting from an unload path so the request
+ * outlives the page.
+ */
+export async function reportProgress(
+  lessonId: string,
+  update: UpdateProgressRequest,
+  options: { keepalive?: boolean } = {},
+): Promise<UpdateProgressResponse | null> {
+  if (!getToken()) return null;
+
+  try {
+    const response = await fetch(`/api/lessons/${lessonId}/progress`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify(update),
+      keepalive: options.keepalive,
+    });
+    const json: ApiResponse<UpdateProgressResponse> = await response.json();
+    return json.success ? json.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,26 @@
+import type { AnswerQuizRequest, AnswerQuizResponse, ApiResponse } from '@classflowai/types';
+import { authHeaders } from '@/lib/auth-client';
+
+/**
+ * Send an answer to a quiz of a lesson to be graded.  Signed-in learners
+ * have the result recorded against their progress.
+ *
+ * @throws With a displayable message when the answer cannot be graded.
+ */
+export async function answerQuiz(
+  lessonId: string,
+  quizId: string,
+  request: AnswerQuizRequest,
+): Promise<AnswerQuizResponse> {
+  const response = await fetch(`/api/lessons/${lessonId}/quiz/${quizId}/answer`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify(request),
+  });
+  const json: ApiResponse<AnswerQuizResponse> = await response.json();
+
+  if (!json.success || !json.data) {
+    throw new Error(json.error?.message ?? 'Failed to check the answer');
+  }
+  return json.data;
+}
@@ -0,0 +1,47 @@
+import type {
+  ApiResponse,
+  Flashcard,
+  GradeReviewRequest,
+  GradeReviewResponse,
+} from '@classflowai/types';
+import { authHeaders } from '@/lib/auth-client';
+
+/**
+ * Load the signed-in user's flashcards due for review, longest overdue
+ * first.
+ *
+ * @throws With a displayable message when the cards cannot be loaded.
+ */
+export async function fetchDueReviews(limit = 20): Promise<Flashcard[]> {
+  const response = await fetch(`/api/me/reviews/due?limit=${limit}`, {
+    headers: authHeaders(),
+  });
+  const json: ApiResponse<Flashcard[]> = await response.json();
+
+  if (!json.success || !json.data) {
+    throw new Error(json.error?.message ?? 'Failed to load reviews');
+  }
+  return json.data;
+}
+
+/**
+ * Grade a review of a flashcard, scheduling its next one.
+ *
+ * @throws With a displayable message when the grade is not recorded.
+ */
+export async function gradeReview(
+  cardId: string,
+  request: GradeReviewRequest,
+): Promise<GradeReviewResponse> {
+  const response = await fetch(`/api/reviews/${cardId}/grade`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify(request),
+  });
+  const json: ApiResponse<GradeReviewResponse> = await response.json();
+
+  if (!json.success || !json.data) {
+    throw new Error(json.error?.message ?? 'Failed to record the review');
+  }
+  return json.data;
+}
@@ -6,6 +6,7 @@ import type {
   CursorState, 
   DrawingState, 
   NarrationState, 
+  ActiveEventsByType,
   PlaybackSnapshot 
 } from '@classflowai/types';
 
@@ -17,6 +18,7 @@ interface LessonState {
   cursorState: CursorState;
   drawingState: DrawingState;
   narrationState: NarrationState;
+  activeEvents: ActiveEventsByType;
   progress: number;
 }
 
@@ -42,6 +44,7 @@ const initialState: LessonState = {
   cursorState: { x: 0, y: 0, visible: false, style: 'default' },
   drawingState: { strokes: [], activeStroke: null },
   narrationState: { isActive: false, currentSegmentId: null, volume: 1 },
+  activeEvents: { cursor: [], drawing: [], text: [], narration: [], highlight: [] },
   progress: 0,
 };
 
@@ -57,6 +60,7 @@ export const useLessonStore = create<LessonState & LessonActions>((set) => ({
     cursorState: snapshot.cursorState,
     drawingState: snapshot.drawingState,
     narrationState: snapshot.narrationState,
+    activeEvents: snapshot.activeEvents,
     progress: snapshot.progress,
   }),
 
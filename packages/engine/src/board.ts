@@ -0,0 +1,963 @@
+import type {
+  BoundingBox,
+  CanvasConfig,
+  CodeLineRange,
+  DrawingState,
+  ExplanationBlock,
+  TextRevealConfig,
+  TimelineEvent,
+} from '@classflowai/types';
+import {
+  advanceTextReveal,
+  createTextRevealState,
+  getRevealedContent,
+  splitIntoLines,
+  splitIntoWords,
+} from './explanation';
+import { CODE_TOKEN_COLORS, tokenizeCode } from './code';
+import type { CodeToken } from './code';
+import { compileDiagram } from './diagram';
+import type { CompiledDiagram } from './diagram';
+import { measureHandwriting } from './handwriting';
+import { typesetEquation } from './math';
+import type { TypesetEquation } from './math';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Visual role of a block's text on the board. */
+export type BoardTextRole = 'heading' | 'paragraph' | 'list' | 'code' | 'equation';
+
+export interface BoardTextStyle {
+  fontSize: number;
+  fontFamily: string;
+  fontWeight: 'normal' | 'bold';
+  color: string;
+  /** Line height as a multiple of the font size. */
+  lineHeight: number;
+  /** Horizontal indent (px) applied to every line of the block. */
+  indent: number;
+  /** Vertical space (px) left below the block. */
+  spacingAfter: number;
+  /** How the text types in while the block is presented. */
+  revealMode: TextRevealConfig['mode'];
+}
+
+/**
+ * Measure the rendered width (px) of a string in a given style.  Defaults to
+ * {@link estimateTextWidth}, which gives the same layout on the server (where
+ * handwriting strokes are placed) as in the browser.
+ */
+export type TextMeasurer = (text: string, style: BoardTextStyle) => number;
+
+/** One wrapped line of a block, positioned on its page. */
+export interface BoardLine {
+  /** Text drawn for the line, without its bullet. */
+  text: string;
+  /** Bullet drawn before the line (first line of a list item), if any. */
+  bullet: string | null;
+  bulletX: number;
+  /** Offset of {@link text} within the block content. */
+  start: number;
+  page: number;
+  column: number;
+  x: number;
+  y: number;
+}
+
+/** Where and how one block sits on the board. */
+export interface BoardPlacement {
+  role: BoardTextRole;
+  style: BoardTextStyle;
+  /** Written as strokes (see {@link isHandwrittenBlock}) instead of typed. */
+  handwritten: boolean;
+  lines: BoardLine[];
+  /** Compiled drawing of a diagram block, which then has no lines. */
+  diagram: BoardDiagram | null;
+  /** Typeset equation of an equation block, which then has no lines. */
+  equation: BoardEquation | null;
+}
+
+/** A compiled diagram positioned on its page. */
+export interface BoardDiagram {
+  page: number;
+  column: number;
+  x: number;
+  y: number;
+  compiled: CompiledDiagram;
+}
+
+/** A typeset equation positioned on its page. */
+export interface BoardEquation {
+  page: number;
+  column: number;
+  x: number;
+  y: number;
+  typeset: TypesetEquation;
+}
+
+/** Board dimensions and the columns content flows through. */
+export type BoardConfig = Pick<CanvasConfig, 'width' | 'height' | 'columns' | 'columnGap'>;
+
+/** Position below the last placed block. */
+export interface BoardCursor {
+  page: number;
+  column: number;
+  /** Distance (px) from the top of the writable area. */
+  offset: number;
+}
+
+export interface BoardBlockLayout extends BoardPlacement {
+  blockId: string;
+  content: string;
+  /** Time window the block is presented in (its `text_highlight` event). */
+  startTime: number;
+  endTime: number;
+  /** Syntax highlighting of a code block; empty for other blocks. */
+  tokens: CodeToken[];
+  /** Walkthrough of a code block (its `code_focus` events), in time order. */
+  focus: BoardCodeFocus[];
+}
+
+/** Lines of a code block in focus over a time window. */
+export interface BoardCodeFocus {
+  lines: CodeLineRange;
+  startTime: number;
+  endTime: number;
+}
+
+export interface BoardLayout {
+  blocks: BoardBlockLayout[];
+  pageCount: number;
+  /** Writable area inside the board padding. */
+  bounds: BoundingBox;
+  /** Writable area of each column, left to right. */
+  columns: BoundingBox[];
+  /** Times the board turns to a fresh page (its `page_clear` events). */
+  pageClears: BoardPageClear[];
+}
+
+export interface BoardPageClear {
+  page: number;
+  time: number;
+}
+
+/** A line as it should be drawn at one moment of playback. */
+export interface BoardFrameLine {
+  key: string;
+  text: string;
+  x: number;
+  y: number;
+  style: BoardTextStyle;
+}
+
+/** A box drawn behind the lines of code in focus. */
+export interface BoardFrameHighlight {
+  key: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface BoardFrame {
+  page: number;
+  lines: BoardFrameLine[];
+  highlights: BoardFrameHighlight[];
+}
+
+export interface BoardLayoutOptions {
+  measure?: TextMeasurer;
+  /** Space (px) kept clear along every edge of the board. */
+  padding?: number;
+  styles?: Partial<Record<BoardTextRole, BoardTextStyle>>;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const HANDWRITING_FONT = '"Segoe Print", "Comic Sans MS", "Chalkboard SE", cursive';
+const MONOSPACE_FONT = 'ui-monospace, SFMono-Regular, Menlo, monospace';
+
+export const DEFAULT_BOARD_TEXT_STYLES: Record<BoardTextRole, BoardTextStyle> = {
+  heading: {
+    fontSize: 32,
+    fontFamily: HANDWRITING_FONT,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    lineHeight: 1.25,
+    indent: 0,
+    spacingAfter: 16,
+    revealMode: 'word',
+  },
+  paragraph: {
+    fontSize: 20,
+    fontFamily: HANDWRITING_FONT,
+    fontWeight: 'normal',
+    color: '#e5e7eb',
+    lineHeight: 1.4,
+    indent: 0,
+    spacingAfter: 14,
+    revealMode: 'character',
+  },
+  list: {
+    fontSize: 20,
+    fontFamily: HANDWRITING_FONT,
+    fontWeight: 'normal',
+    color: '#e5e7eb',
+    lineHeight: 1.4,
+    indent: 28,
+    spacingAfter: 14,
+    revealMode: 'line',
+  },
+  code: {
+    fontSize: 16,
+    fontFamily: MONOSPACE_FONT,
+    fontWeight: 'normal',
+    color: '#a5f3fc',
+    lineHeight: 1.4,
+    indent: 16,
+    spacingAfter: 16,
+    revealMode: 'line',
+  },
+  equation: {
+    fontSize: 30,
+    fontFamily: 'Georgia, "Times New Roman", serif',
+    fontWeight: 'normal',
+    color: '#ffffff',
+    lineHeight: 1.4,
+    indent: 0,
+    spacingAfter: 20,
+    revealMode: 'line',
+  },
+};
+
+/** Board size lessons are laid out for. */
+export const DEFAULT_BOARD_SIZE: Readonly<BoardConfig> = {
+  width: 800,
+  height: 600,
+};
+
+export const INITIAL_BOARD_CURSOR: BoardCursor = { page: 0, column: 0, offset: 0 };
+
+/** Share of a block's presentation time spent typing its text in. */
+export const BOARD_REVEAL_FRACTION = 0.7;
+
+const DEFAULT_BOARD_PADDING = 40;
+
+const DEFAULT_COLUMN_GAP = 32;
+
+/** List items of at most this many words count as key terms. */
+const KEY_TERM_MAX_WORDS = 4;
+
+const LIST_BULLET = '•';
+
+/** Bullet position inside a list's indent, as a fraction of the indent. */
+const BULLET_OFFSET = 0.75;
+
+/** Average glyph width as a fraction of the font size, for estimates. */
+const AVERAGE_GLYPH_WIDTH = 0.55;
+
+/** Glyph width of monospace fonts as a fraction of the font size. */
+const MONOSPACE_GLYPH_WIDTH = 0.6;
+
+/** Space (px) the focus box leaves around the lines in focus. */
+const FOCUS_PADDING = 6;
+
+// ---------------------------------------------------------------------------
+// 1. estimateTextWidth
+// ---------------------------------------------------------------------------
+
+/**
+ * Rough {@link TextMeasurer} for environments without a canvas: every glyph
+ * is assumed to be a little over half as wide as the font size, or exactly
+ * as wide as a monospace font's glyphs.
+ */
+export function estimateTextWidth(text: string, style: BoardTextStyle): number {
+  const glyphWidth = /monospace/.test(style.fontFamily)
+    ? MONOSPACE_GLYPH_WIDTH
+    : AVERAGE_GLYPH_WIDTH;
+  return text.length * style.fontSize * glyphWidth;
+}
+
+// ---------------------------------------------------------------------------
+// 2. wrapText
+// ---------------------------------------------------------------------------
+
+/**
+ * Greedily wrap one line of text (no newlines) to {@link maxWidth}.
+ *
+ * Each returned line keeps its offset into {@link text}, so a revealed
+ * prefix of the text maps straight onto the wrapped lines.  Words wider
+ * than the line are broken between characters.
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  style: BoardTextStyle,
+  measure: TextMeasurer = estimateTextWidth,
+): { text: string; start: number }[] {
+  const lines: { text: string; start: number }[] = [];
+  const wordPattern = /\S+/g;
+
+  let lineStart = -1;
+  let lineEnd = -1;
+  let match: RegExpExecArray | null;
+
+  const push = () => {
+    if (lineStart >= 0) lines.push({ text: text.slice(lineStart, lineEnd), start: lineStart });
+    lineStart = -1;
+  };
+
+  while ((match = wordPattern.exec(text)) !== null) {
+    const wordStart = match.index;
+    const wordEnd = wordStart + match[0].length;
+
+    if (lineStart >= 0 && measure(text.slice(lineStart, wordEnd), style) <= maxWidth) {
+      lineEnd = wordEnd;
+      continue;
+    }
+
+    push();
+
+    // Break words that do not fit on a line of their own.
+    let pieceStart = wordStart;
+    while (measure(text.slice(pieceStart, wordEnd), style) > maxWidth) {
+      let pieceEnd = pieceStart + 1;
+      while (pieceEnd < wordEnd && measure(text.slice(pieceStart, pieceEnd + 1), style) <= maxWidth) {
+        pieceEnd++;
+      }
+      lines.push({ text: text.slice(pieceStart, pieceEnd), start: pieceStart });
+      pieceStart = pieceEnd;
+    }
+
+    lineStart = pieceStart;
+    lineEnd = wordEnd;
+  }
+
+  push();
+  return lines;
+}
+
+// ---------------------------------------------------------------------------
+// 3. getBoardTextRole
+// ---------------------------------------------------------------------------
+
+/**
+ * Decide how a block's text is presented on the board.
+ */
+export function getBoardTextRole(block: ExplanationBlock): BoardTextRole {
+  switch (block.type) {
+    case 'code':
+      return 'code';
+    case 'equation':
+      return 'equation';
+    case 'text':
+      return block.format ?? 'paragraph';
+    case 'diagram':
+    default:
+      return 'paragraph';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// 4. isHandwrittenBlock
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a block is written on the board by hand (as `draw_stroke` events)
+ * rather than typed in: headings always are, and so are lists made only of
+ * short key terms, diagrams that compile to at least one shape, and
+ * equations.
+ */
+export function isHandwrittenBlock(block: ExplanationBlock): boolean {
+  if (block.type === 'diagram') return compileDiagram(block.content).shapes.length > 0;
+  if (block.type === 'equation') return block.content.trim().length > 0;
+  if (block.type !== 'text') return false;
+  if (block.format === 'heading') return true;
+  if (block.format !== 'list') return false;
+
+  const items = block.content.split('\n').filter((item) => item.trim().length > 0);
+  return items.length > 0
+    && items.every((item) => splitIntoWords(item).length <= KEY_TERM_MAX_WORDS);
+}
+
+// ---------------------------------------------------------------------------
+// 5. placeBoardBlock
+// ---------------------------------------------------------------------------
+
+/**
+ * Place one block on the board below the position held by {@link cursor}.
+ *
+ * Lines wrap to the width of a column (see {@link getBoardColumns}); when
+ * the next line no longer fits, writing moves on to the top of the next
+ * column, and from the last column to a fresh page, so a long block may
+ * continue over a column or page break.  Handwritten blocks are always
+ * measured with the handwriting font, and every other block with
+ * {@link BoardLayoutOptions.measure}, so the server can place strokes where
+ * the client will lay the surrounding text out.  Diagrams and equations are
+ * drawn to fit a column, centred, and kept whole in one column; diagrams
+ * that do not compile are shown as their text.
+ */
+export function placeBoardBlock(
+  block: ExplanationBlock,
+  cursor: BoardCursor,
+  config: BoardConfig = DEFAULT_BOARD_SIZE,
+  options: BoardLayoutOptions = {},
+): { placement: BoardPlacement; cursor: BoardCursor } {
+  const columns = getBoardColumns(config, options.padding);
+  const area = columns[0]!;
+  const bottom = area.y + area.height;
+  const role = getBoardTextRole(block);
+  const style = { ...DEFAULT_BOARD_TEXT_STYLES, ...options.styles }[role];
+  const columnAt = (column: number): BoundingBox => columns[column] ?? area;
+
+  if (block.type === 'diagram') {
+    const compiled = compileDiagram(block.content, {
+      maxWidth: area.width,
+      maxHeight: area.height,
+      color: style.color,
+      eventId: block.id,
+    });
+
+    if (compiled.shapes.length > 0) {
+      const { page, column, offset } = fitInColumn(cursor, compiled.height, area, columns.length);
+      const diagram = {
+        page,
+        column,
+        x: columnAt(column).x + (area.width - compiled.width) / 2,
+        y: area.y + offset,
+        compiled,
+      };
+      return {
+        placement: { role, style, handwritten: true, lines: [], diagram, equation: null },
+        cursor: { page, column, offset: offset + compiled.height + style.spacingAfter },
+      };
+    }
+  }
+
+  if (block.type === 'equation' && isHandwrittenBlock(block)) {
+    const typeset = typesetEquation(block.content, {
+      fontSize: style.fontSize,
+      maxWidth: area.width,
+      maxHeight: area.height,
+      color: style.color,
+    });
+    const { page, column, offset } = fitInColumn(cursor, typeset.height, area, columns.length);
+    const equation = {
+      page,
+      column,
+      x: columnAt(column).x + (area.width - typeset.width) / 2,
+      y: area.y + offset,
+      typeset,
+    };
+    return {
+      placement: { role, style, handwritten: true, lines: [], diagram: null, equation },
+      cursor: { page, column, offset: offset + typeset.height + style.spacingAfter },
+    };
+  }
+
+  const handwritten = isHandwrittenBlock(block);
+  const measure: TextMeasurer = handwritten
+    ? (text, textStyle) => measureHandwriting(text, textStyle.fontSize)
+    : options.measure ?? estimateTextWidth;
+
+  const lineHeight = style.fontSize * style.lineHeight;
+  const lines: BoardLine[] = [];
+  let { page, column } = cursor;
+  let y = area.y + cursor.offset;
+
+  for (const paragraph of splitBlockParagraphs(block.content, role)) {
+    const bullet = role === 'list' ? LIST_BULLET : null;
+    // Code keeps its indentation, which wrapping would otherwise drop.
+    const leading = role === 'code' ? measure(/^\s*/.exec(paragraph.text)![0], style) : 0;
+    const wrapped = wrapText(paragraph.text, area.width - style.indent - leading, style, measure);
+
+    wrapped.forEach((line, index) => {
+      if (y + lineHeight > bottom && y > area.y) {
+        ({ page, column } = nextColumn({ page, column, offset: 0 }, columns.length));
+        y = area.y;
+      }
+
+      const x = columnAt(column).x + style.indent + leading;
+      lines.push({
+        text: line.text,
+        bullet: index === 0 ? bullet : null,
+        bulletX: x - style.indent * BULLET_OFFSET,
+        start: paragraph.start + line.start,
+        page,
+        column,
+        x,
+        y,
+      });
+      y += lineHeight;
+    });
+  }
+
+  return {
+    placement: { role, style, handwritten, lines, diagram: null, equation: null },
+    cursor: { page, column, offset: y + style.spacingAfter - area.y },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 6. layoutBoard
+// ---------------------------------------------------------------------------
+
+/**
+ * Lay explanation blocks out as whiteboard text with
+ * {@link placeBoardBlock}.
+ *
+ * Each block is timed by the `text_highlight` event presenting it, matched
+ * by `payload.blockId` or, for lessons predating that field, by position.
+ * Blocks without an event are left out.  `page_clear` events in the
+ * timeline are kept as the times the board turns a page.
+ */
+export function layoutBoard(
+  blocks: ExplanationBlock[],
+  timeline: TimelineEvent[],
+  config: BoardConfig = DEFAULT_BOARD_SIZE,
+  options: BoardLayoutOptions = {},
+): BoardLayout {
+  const events = matchBlockEvents(blocks, timeline);
+  const focus = collectCodeFocus(timeline);
+  const layouts: BoardBlockLayout[] = [];
+  let cursor = INITIAL_BOARD_CURSOR;
+
+  for (const block of [...blocks].sort((a, b) => a.order - b.order)) {
+    const event = events.get(block.id);
+    if (!event) continue;
+
+    const step = placeBoardBlock(block, cursor, config, options);
+    cursor = step.cursor;
+    layouts.push({
+      ...step.placement,
+      blockId: block.id,
+      content: block.content,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      tokens: block.type === 'code' ? tokenizeCode(block.content, block.language) : [],
+      focus: focus.get(block.id) ?? [],
+    });
+  }
+
+  const pageClears = timeline
+    .filter((event) => event.type === 'page_clear' && event.payload.page !== undefined)
+    .map((event) => ({ page: event.payload.page!, time: event.startTime }))
+    .sort((a, b) => a.time - b.time);
+
+  return {
+    blocks: layouts,
+    pageCount: Math.max(cursor.page, ...pageClears.map((clear) => clear.page)) + 1,
+    bounds: getBoardBounds(config, options.padding),
+    columns: getBoardColumns(config, options.padding),
+    pageClears,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 7. getBoardFrame
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute what the board shows at {@link currentTime}.
+ *
+ * Blocks type in over the first part of their presentation window using
+ * their style's {@link TextRevealConfig} mode; finished blocks stay up.  The
+ * page shown is the one holding the most recently revealed line, so the
+ * board clears as soon as writing moves on to the next page — or earlier,
+ * when a `page_clear` event turns it.  Handwritten blocks count towards the
+ * page but are drawn by their strokes instead.
+ *
+ * Code is drawn token by token in its highlighting colours; during a
+ * walkthrough it is revealed step by step, and the lines in focus are
+ * boxed.
+ */
+export function getBoardFrame(layout: BoardLayout, currentTime: number): BoardFrame {
+  const revealed = new Map<string, number>();
+  let page = 0;
+
+  for (const clear of layout.pageClears) {
+    if (clear.time <= currentTime && clear.page > page) page = clear.page;
+  }
+
+  for (const block of layout.blocks) {
+    const length = getRevealedLength(block, currentTime);
+    if (length <= 0) continue;
+
+    revealed.set(block.blockId, length);
+    const drawing = block.diagram ?? block.equation;
+    if (drawing && drawing.page > page) page = drawing.page;
+    for (const line of block.lines) {
+      if (line.start < length && line.page > page) page = line.page;
+    }
+  }
+
+  const lines: BoardFrameLine[] = [];
+  const highlights: BoardFrameHighlight[] = [];
+
+  for (const block of layout.blocks) {
+    const length = revealed.get(block.blockId);
+    if (!length || block.handwritten) continue;
+
+    block.lines.forEach((line, index) => {
+      if (line.page !== page || line.start >= length) return;
+
+      const key = `${block.blockId}:${index}`;
+      if (line.bullet) {
+        lines.push({ key: `${key}:bullet`, text: line.bullet, x: line.bulletX, y: line.y, style: block.style });
+      }
+
+      const text = line.text.slice(0, length - line.start);
+      if (block.tokens.length > 0) {
+        lines.push(...splitCodeLine(block, line, text, key));
+      } else {
+        lines.push({ key, text, x: line.x, y: line.y, style: block.style });
+      }
+    });
+
+    const focus = block.focus.find(
+      (step) => step.startTime <= currentTime && currentTime < step.endTime,
+    );
+    if (focus) highlights.push(...boxCodeFocus(block, focus, page, layout.columns));
+  }
+
+  return { page, lines, highlights };
+}
+
+// ---------------------------------------------------------------------------
+// 8. getStrokePages
+// ---------------------------------------------------------------------------
+
+/**
+ * Map every `draw_stroke` event written for a laid-out block to the page
+ * its line sits on, so strokes from earlier pages can be hidden.
+ */
+export function getStrokePages(
+  layout: BoardLayout,
+  timeline: TimelineEvent[],
+): Map<string, number> {
+  const blocks = new Map(layout.blocks.map((block) => [block.blockId, block]));
+  const pages = new Map<string, number>();
+
+  for (const event of timeline) {
+    if (event.type !== 'draw_stroke' || !event.payload.blockId) continue;
+    const block = blocks.get(event.payload.blockId);
+    const start = event.payload.path?.[0];
+    if (!block || !start) continue;
+
+    // The stroke belongs to the last line of its column starting at or above it.
+    const column = layout.columns.reduce((found, area, i) => (area.x <= start.x ? i : found), 0);
+    let page = block.diagram?.page ?? block.equation?.page ?? block.lines[0]?.page ?? 0;
+    for (const line of block.lines) {
+      if (line.column === column && line.y <= start.y) page = line.page;
+    }
+    pages.set(event.id, page);
+  }
+
+  return pages;
+}
+
+// ---------------------------------------------------------------------------
+// 9. getBoardLinesInRange
+// ---------------------------------------------------------------------------
+
+/**
+ * Board lines of a placed block that show source lines {@link range}
+ * (1-based, inclusive) of its {@link content}, wrapped continuations
+ * included.
+ */
+export function getBoardLinesInRange(
+  placement: Pick<BoardPlacement, 'lines'>,
+  content: string,
+  range: CodeLineRange,
+): BoardLine[] {
+  const starts = getLineStarts(content);
+
+  return placement.lines.filter((line) => {
+    const number = starts.filter((start) => start <= line.start).length;
+    return number >= range.start && number <= range.end;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// 10. getBoardColumns
+// ---------------------------------------------------------------------------
+
+/**
+ * Writable area of each column of the board, left to right: the area
+ * inside the padding split into {@link CanvasConfig.columns} equal columns
+ * {@link CanvasConfig.columnGap} apart.
+ */
+export function getBoardColumns(
+  config: BoardConfig,
+  padding: number = DEFAULT_BOARD_PADDING,
+): BoundingBox[] {
+  const bounds = getBoardBounds(config, padding);
+  const count = Math.max(1, Math.floor(config.columns ?? 1));
+  const gap = count > 1 ? config.columnGap ?? DEFAULT_COLUMN_GAP : 0;
+  const width = Math.max(0, (bounds.width - gap * (count - 1)) / count);
+
+  return Array.from({ length: count }, (_, column) => ({
+    ...bounds,
+    x: bounds.x + column * (width + gap),
+    width,
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// 11. getPageDrawing
+// ---------------------------------------------------------------------------
+
+/**
+ * The part of {@link drawing} shown on {@link page}: strokes mapped to other
+ * pages by {@link getStrokePages} are wiped along with their text.  Strokes
+ * without a page (not written for a block) stay on every page.
+ */
+export function getPageDrawing(
+  drawing: DrawingState,
+  strokePages: ReadonlyMap<string, number>,
+  page: number,
+): DrawingState {
+  const isOnPage = (id: string) => (strokePages.get(id) ?? page) === page;
+  const { activeStroke } = drawing;
+
+  return {
+    strokes: drawing.strokes.filter((stroke) => isOnPage(stroke.id)),
+    activeStroke: activeStroke && isOnPage(activeStroke.id) ? activeStroke : null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Top of the column after the cursor's, turning the page after the last one. */
+function nextColumn(cursor: BoardCursor, columnCount: number): BoardCursor {
+  return cursor.column + 1 < columnCount
+    ? { page: cursor.page, column: cursor.column + 1, offset: 0 }
+    : { page: cursor.page + 1, column: 0, offset: 0 };
+}
+
+/**
+ * Where a drawing of {@link height} goes: below the cursor, or at the top
+ * of the next column when it would run off this one.
+ */
+function fitInColumn(
+  cursor: BoardCursor,
+  height: number,
+  area: BoundingBox,
+  columnCount: number,
+): BoardCursor {
+  if (cursor.offset + height > area.height && cursor.offset > 0) {
+    return nextColumn(cursor, columnCount);
+  }
+  return cursor;
+}
+
+/**
+ * Boxes around the lines of a code block in {@link focus} on {@link page},
+ * one per column they are written in.
+ */
+function boxCodeFocus(
+  block: BoardBlockLayout,
+  focus: BoardCodeFocus,
+  page: number,
+  columns: BoundingBox[],
+): BoardFrameHighlight[] {
+  const focused = getBoardLinesInRange(block, block.content, focus.lines)
+    .filter((line) => line.page === page);
+  const lineHeight = block.style.fontSize * block.style.lineHeight;
+
+  return [...new Set(focused.map((line) => line.column))].flatMap((column) => {
+    const area = columns[column];
+    const inColumn = focused.filter((line) => line.column === column);
+    const first = inColumn[0];
+    const last = inColumn[inColumn.length - 1];
+    if (!area || !first || !last) return [];
+
+    const left = area.x + block.style.indent;
+    return [{
+      key: `${block.blockId}:focus:${focus.lines.start}:${column}`,
+      x: left - FOCUS_PADDING,
+      y: first.y - FOCUS_PADDING / 2,
+      width: area.x + area.width - left + FOCUS_PADDING * 2,
+      height: last.y - first.y + lineHeight + FOCUS_PADDING,
+    }];
+  });
+}
+
+/** Writable area of the board inside the padding. */
+function getBoardBounds(
+  config: Pick<CanvasConfig, 'width' | 'height'>,
+  padding: number = DEFAULT_BOARD_PADDING,
+): BoundingBox {
+  return {
+    x: padding,
+    y: padding,
+    width: Math.max(0, config.width - padding * 2),
+    height: Math.max(0, config.height - padding * 2),
+  };
+}
+
+/**
+ * Pair each block with the `text_highlight` event presenting it.
+ */
+function matchBlockEvents(
+  blocks: ExplanationBlock[],
+  timeline: TimelineEvent[],
+): Map<string, TimelineEvent> {
+  const highlights = timeline
+    .filter((event) => event.type === 'text_highlight')
+    .sort((a, b) => a.startTime - b.startTime);
+  const matched = new Map<string, TimelineEvent>();
+
+  if (highlights.some((event) => event.payload.blockId)) {
+    for (const event of highlights) {
+      if (event.payload.blockId) matched.set(event.payload.blockId, event);
+    }
+    return matched;
+  }
+
+  const ordered = [...blocks].sort((a, b) => a.order - b.order);
+  ordered.forEach((block, index) => {
+    const event = highlights[index];
+    if (event) matched.set(block.id, event);
+  });
+  return matched;
+}
+
+/** Group `code_focus` events by the block they walk through. */
+function collectCodeFocus(timeline: TimelineEvent[]): Map<string, BoardCodeFocus[]> {
+  const focus = new Map<string, BoardCodeFocus[]>();
+
+  for (const event of [...timeline].sort((a, b) => a.startTime - b.startTime)) {
+    const { blockId, lines } = event.payload;
+    if (event.type !== 'code_focus' || !blockId || !lines) continue;
+    const steps = focus.get(blockId) ?? [];
+    steps.push({ lines, startTime: event.startTime, endTime: event.endTime });
+    focus.set(blockId, steps);
+  }
+
+  return focus;
+}
+
+/** Offsets at which each line of {@link content} starts. */
+function getLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = content.indexOf('\n'); i >= 0; i = content.indexOf('\n', i + 1)) {
+    starts.push(i + 1);
+  }
+  return starts;
+}
+
+/**
+ * Split the visible {@link text} of a code line into one frame line per
+ * highlighting token, each in its token's colour.
+ */
+function splitCodeLine(
+  block: BoardBlockLayout,
+  line: BoardLine,
+  text: string,
+  key: string,
+): BoardFrameLine[] {
+  const end = line.start + text.length;
+  const frameLines: BoardFrameLine[] = [];
+
+  block.tokens.forEach((token, index) => {
+    const from = Math.max(token.start, line.start);
+    const to = Math.min(token.start + token.text.length, end);
+    // Whitespace only moves the next token along.
+    if (from >= to || (token.kind === 'plain' && !block.content.slice(from, to).trim())) return;
+
+    const color = token.kind === 'plain' ? block.style.color : CODE_TOKEN_COLORS[token.kind];
+    frameLines.push({
+      key: `${key}:${index}`,
+      text: block.content.slice(from, to),
+      x: line.x + estimateTextWidth(block.content.slice(line.start, from), block.style),
+      y: line.y,
+      style: color === block.style.color ? block.style : { ...block.style, color },
+    });
+  });
+
+  return frameLines;
+}
+
+/**
+ * Split block content into independently wrapped paragraphs, keeping each
+ * one's offset into the content.  Lists and code keep their line breaks;
+ * prose is wrapped as a single paragraph.
+ */
+function splitBlockParagraphs(
+  content: string,
+  role: BoardTextRole,
+): { text: string; start: number }[] {
+  if (role !== 'list' && role !== 'code') return [{ text: content, start: 0 }];
+
+  const paragraphs: { text: string; start: number }[] = [];
+  let start = 0;
+  for (const line of content.split('\n')) {
+    if (line.trim().length > 0) paragraphs.push({ text: line, start });
+    start += line.length + 1;
+  }
+  return paragraphs;
+}
+
+/**
+ * Number of content characters of a block visible at {@link currentTime}.
+ */
+function getRevealedLength(block: BoardBlockLayout, currentTime: number): number {
+  if (currentTime < block.startTime) return 0;
+  if (block.focus.length > 0) return getWalkthroughRevealedLength(block, currentTime);
+
+  const elapsed = currentTime - block.startTime;
+  const revealDuration = (block.endTime - block.startTime) * BOARD_REVEAL_FRACTION;
+  if (elapsed >= revealDuration) return block.content.length;
+
+  const config = createRevealConfig(block, revealDuration);
+  const state = advanceTextReveal(
+    createTextRevealState(block.blockId, block.content),
+    elapsed,
+    config,
+    block.content,
+  );
+  return getRevealedContent(block.content, state, config.mode).length;
+}
+
+/**
+ * Code walked through is revealed up to the last line in focus so far, and
+ * in full once the walkthrough is over.
+ */
+function getWalkthroughRevealedLength(block: BoardBlockLayout, currentTime: number): number {
+  const last = block.focus[block.focus.length - 1]!;
+  if (currentTime >= last.endTime) return block.content.length;
+
+  const shown = Math.max(0, ...block.focus
+    .filter((step) => step.startTime <= currentTime)
+    .map((step) => step.lines.end));
+  const starts = getLineStarts(block.content);
+  return starts[shown] ?? block.content.length;
+}
+
+/**
+ * Build a {@link TextRevealConfig} that finishes revealing the block's
+ * content in {@link durationMs}.
+ */
+function createRevealConfig(block: BoardBlockLayout, durationMs: number): TextRevealConfig {
+  const mode = block.style.revealMode;
+  const seconds = Math.max(durationMs, 1) / 1000;
+
+  switch (mode) {
+    case 'word':
+      return { mode, speed: splitIntoWords(block.content).length / seconds, delay: 0 };
+    case 'line':
+      return { mode, speed: splitIntoLines(block.content).length / seconds, delay: 0 };
+    case 'block':
+      return { mode, speed: durationMs, delay: 0 };
+    case 'character':
+    default:
+      return { mode, speed: block.content.length / seconds, delay: 0 };
+  }
+}
@@ -0,0 +1,201 @@
+import type {
+  ChapterEdge,
+  ChapterGraph,
+  ExplanationBlock,
+  LessonChapter,
+  TimelineEvent,
+} from '@classflowai/types';
+import { calculateTimelineDuration } from './timeline';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What playback has learned about the learner, deciding adaptive paths. */
+export interface ChapterContext {
+  /** Whether each answered quiz was passed, by quiz ID. */
+  quizResults: Record<string, boolean>;
+}
+
+/** Where playback goes at the end of a chapter. */
+export type ChapterTransition =
+  | { type: 'next'; chapter: LessonChapter }
+  | { type: 'choice'; edges: ChapterEdge[] }
+  | { type: 'end' };
+
+export interface ChapterGraphIssue {
+  message: string;
+  chapterId?: string;
+}
+
+const DEFAULT_CHAPTER_TITLE = 'Introduction';
+
+// ---------------------------------------------------------------------------
+// 1. createLinearChapterGraph
+// ---------------------------------------------------------------------------
+
+/**
+ * Split a lesson into one chapter per heading, played in order.  Used for
+ * lessons that have no chapter graph of their own.
+ *
+ * A chapter runs from the end of the block before its heading, so the
+ * transition and any page clear in front of the heading belong to it, to
+ * the start of the next chapter.  Chapter IDs are the IDs of the blocks
+ * they start with, so the graph is the same every time it is derived.
+ */
+export function createLinearChapterGraph(
+  explanation: ExplanationBlock[],
+  timeline: TimelineEvent[],
+): ChapterGraph {
+  const blocks = [...explanation].sort((a, b) => a.order - b.order);
+  const duration = calculateTimelineDuration(timeline);
+
+  const blockEnds = new Map<string, number>();
+  for (const event of timeline) {
+    const { blockId } = event.payload;
+    if (!blockId) continue;
+    blockEnds.set(blockId, Math.max(blockEnds.get(blockId) ?? 0, event.endTime));
+  }
+
+  const starts: { id: string; title: string; startTime: number }[] = [];
+  let reached = 0;
+  blocks.forEach((block, index) => {
+    if (index === 0) {
+      const title = block.format === 'heading' ? block.content : DEFAULT_CHAPTER_TITLE;
+      starts.push({ id: block.id, title, startTime: 0 });
+    } else if (block.format === 'heading' && reached > (starts.at(-1)?.startTime ?? 0)) {
+      starts.push({ id: block.id, title: block.content, startTime: reached });
+    }
+    reached = Math.max(reached, blockEnds.get(block.id) ?? 0);
+  });
+
+  const chapters = starts.map((start, index) => ({
+    ...start,
+    endTime: starts[index + 1]?.startTime ?? duration,
+  }));
+
+  return {
+    start: chapters[0]?.id ?? '',
+    chapters,
+    edges: chapters.slice(1).map((chapter, index) => ({
+      from: chapters[index]!.id,
+      to: chapter.id,
+      condition: { type: 'always' },
+    })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 2. validateChapterGraph
+// ---------------------------------------------------------------------------
+
+/**
+ * Check that a chapter graph fits a timeline of {@link duration} ms: its
+ * chapters are non-empty, non-overlapping segments of the timeline, its
+ * edges join known chapters, and no chapter has more than one `always`
+ * edge.
+ */
+export function validateChapterGraph(graph: ChapterGraph, duration: number): ChapterGraphIssue[] {
+  const issues: ChapterGraphIssue[] = [];
+  const ids = new Set<string>();
+
+  for (const chapter of graph.chapters) {
+    if (ids.has(chapter.id)) {
+      issues.push({ message: `Duplicate chapter ID "${chapter.id}"`, chapterId: chapter.id });
+    }
+    ids.add(chapter.id);
+
+    if (chapter.startTime < 0 || chapter.endTime > duration) {
+      issues.push({ message: 'Chapter lies outside the timeline', chapterId: chapter.id });
+    }
+    if (chapter.endTime <= chapter.startTime) {
+      issues.push({ message: 'Chapter must end after it starts', chapterId: chapter.id });
+    }
+  }
+
+  const sorted = [...graph.chapters].sort((a, b) => a.startTime - b.startTime);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i]!.startTime < sorted[i - 1]!.endTime) {
+      issues.push({
+        message: `Chapter overlaps chapter "${sorted[i - 1]!.id}"`,
+        chapterId: sorted[i]!.id,
+      });
+    }
+  }
+
+  if (!ids.has(graph.start)) {
+    issues.push({ message: `Start chapter "${graph.start}" does not exist` });
+  }
+
+  for (const edge of graph.edges) {
+    for (const id of [edge.from, edge.to]) {
+      if (!ids.has(id)) {
+        issues.push({ message: `Edge refers to unknown chapter "${id}"`, chapterId: edge.from });
+      }
+    }
+  }
+
+  for (const id of ids) {
+    const always = graph.edges.filter(
+      (edge) => edge.from === id && edge.condition.type === 'always',
+    );
+    if (always.length > 1) {
+      issues.push({ message: 'Chapter has more than one unconditional edge', chapterId: id });
+    }
+  }
+
+  return issues;
+}
+
+// ---------------------------------------------------------------------------
+// 3. getChapterAtTime
+// ---------------------------------------------------------------------------
+
+/**
+ * The chapter playing at {@link time}, or `undefined` between chapters.  At
+ * a boundary the chapter starting there wins; the very end of a chapter
+ * still belongs to it when no chapter follows on.
+ */
+export function getChapterAtTime(graph: ChapterGraph, time: number): LessonChapter | undefined {
+  return (
+    graph.chapters.find((chapter) => chapter.startTime <= time && time < chapter.endTime) ??
+    graph.chapters.find((chapter) => chapter.endTime === time)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// 4. resolveChapterTransition
+// ---------------------------------------------------------------------------
+
+/**
+ * Decide where playback goes at the end of chapter {@link chapterId}.
+ *
+ * - A `quiz` edge matching the learner's result is followed first.
+ * - Otherwise `choice` edges, if any, are offered to the learner.
+ * - Otherwise the `always` edge is followed.
+ * - With none of these, the path through the lesson ends.
+ */
+export function resolveChapterTransition(
+  graph: ChapterGraph,
+  chapterId: string,
+  context: ChapterContext,
+): ChapterTransition {
+  const edges = graph.edges.filter((edge) => edge.from === chapterId);
+  const follow = (edge: ChapterEdge | undefined): ChapterTransition | null => {
+    const chapter = edge && graph.chapters.find((c) => c.id === edge.to);
+    return chapter ? { type: 'next', chapter } : null;
+  };
+
+  const quiz = edges.find(
+    (edge) =>
+      edge.condition.type === 'quiz' &&
+      context.quizResults[edge.condition.quizId] === edge.condition.passed,
+  );
+  const choices = edges.filter((edge) => edge.condition.type === 'choice');
+
+  return (
+    follow(quiz) ??
+    (choices.length > 0 ? { type: 'choice', edges: choices } : null) ??
+    follow(edges.find((edge) => edge.condition.type === 'always')) ?? { type: 'end' }
+  );
+}
@@ -0,0 +1,476 @@
+import type { CodeLineRange, TimelineEvent, WordTiming } from '@classflowai/types';
+import { splitIntoWords } from './explanation';
+import { createTimelineEvent } from './timeline';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CodeTokenKind =
+  | 'keyword'
+  | 'type'
+  | 'string'
+  | 'comment'
+  | 'number'
+  | 'function'
+  | 'operator'
+  | 'punctuation'
+  | 'plain';
+
+/** A run of source text of one kind; a code's tokens cover it completely. */
+export interface CodeToken {
+  kind: CodeTokenKind;
+  text: string;
+  /** Offset of the token in the code. */
+  start: number;
+}
+
+/** A group of lines explained together during a walkthrough. */
+export interface CodeStep {
+  lines: CodeLineRange;
+  /** What the narrator says while the lines are in focus. */
+  narration: string;
+}
+
+export interface CodeFocusOptions {
+  blockId?: string;
+  /**
+   * Narration word timings (absolute), so each step is focused exactly
+   * while its sentence is spoken.  Without them steps share the time in
+   * proportion to their word counts.
+   */
+  wordTimings?: WordTiming[];
+}
+
+interface LanguageSpec {
+  keywords: ReadonlySet<string>;
+  /** Built-in types and constants. */
+  types?: ReadonlySet<string>;
+  /** Identifiers starting with a capital are treated as types. */
+  capitalizedTypes?: boolean;
+  caseInsensitive?: boolean;
+  lineComments: string[];
+  blockComment?: [string, string];
+  /** String delimiters; those in {@link multilineStrings} may span lines. */
+  strings: string[];
+  multilineStrings?: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Colours of highlighted tokens on the dark board; plain text keeps the block colour. */
+export const CODE_TOKEN_COLORS: Record<Exclude<CodeTokenKind, 'plain'>, string> = {
+  keyword: '#c792ea',
+  type: '#ffcb6b',
+  string: '#c3e88d',
+  comment: '#7f8c98',
+  number: '#f78c6c',
+  function: '#82aaff',
+  operator: '#89ddff',
+  punctuation: '#a6accd',
+};
+
+/** Longest step of a walkthrough, in lines. */
+const MAX_STEP_LINES = 6;
+
+const words = (list: string): ReadonlySet<string> => new Set(list.split(' '));
+
+const C_FAMILY_KEYWORDS = 'if else for while do switch case default break continue return goto sizeof struct union enum typedef static const extern volatile inline';
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  javascript: {
+    keywords: words('var let const function return if else for while do switch case default break continue new delete typeof instanceof in of class extends super this import export from as async await yield try catch finally throw void null undefined true false'),
+    capitalizedTypes: true,
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['`', '"', "'"],
+    multilineStrings: ['`'],
+  },
+  python: {
+    keywords: words('def return if elif else for while in not and or is class import from as with try except finally raise pass break continue lambda yield global nonlocal assert del async await None True False self'),
+    types: words('int float str bool list dict set tuple bytes object range len print'),
+    capitalizedTypes: true,
+    lineComments: ['#'],
+    strings: ['"""', "'''", '"', "'"],
+    multilineStrings: ['"""', "'''"],
+  },
+  java: {
+    keywords: words('public private protected static final abstract class interface extends implements new return if else for while do switch case default break continue try catch finally throw throws import package this super null true false void instanceof synchronized var record'),
+    types: words('int long short byte char float double boolean String'),
+    capitalizedTypes: true,
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['"""', '"', "'"],
+    multilineStrings: ['"""'],
+  },
+  c: {
+    keywords: words(`${C_FAMILY_KEYWORDS} NULL true false`),
+    types: words('int long short char float double void unsigned signed bool size_t'),
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['"', "'"],
+  },
+  cpp: {
+    keywords: words(`${C_FAMILY_KEYWORDS} class public private protected virtual override template typename namespace using new delete this nullptr true false auto constexpr try catch throw`),
+    types: words('int long short char float double void unsigned signed bool size_t std string vector map'),
+    capitalizedTypes: true,
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['"', "'"],
+  },
+  csharp: {
+    keywords: words('public private protected internal static readonly const class interface struct enum new return if else for foreach while do switch case default break continue try catch finally throw using namespace this base null true false var async await in out ref void'),
+    types: words('int long short byte char float double decimal bool string object'),
+    capitalizedTypes: true,
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['"', "'"],
+  },
+  go: {
+    keywords: words('package import func return if else for range switch case default break continue go defer select chan map struct interface type var const nil true false'),
+    types: words('int int32 int64 uint float32 float64 string bool byte rune error'),
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['`', '"', "'"],
+    multilineStrings: ['`'],
+  },
+  rust: {
+    keywords: words('fn let mut return if else for while loop match in break continue struct enum impl trait pub use mod crate self Self as where move ref true false const static async await unsafe'),
+    types: words('i8 i16 i32 i64 u8 u16 u32 u64 usize isize f32 f64 bool char str String Vec Option Result'),
+    capitalizedTypes: true,
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['"'],
+  },
+  ruby: {
+    keywords: words('def end if elsif else unless while until for in do return class module self nil true false and or not begin rescue ensure yield require puts'),
+    capitalizedTypes: true,
+    lineComments: ['#'],
+    strings: ['"', "'"],
+  },
+  bash: {
+    keywords: words('if then else elif fi for while do done case esac in function return export local echo exit'),
+    lineComments: ['#'],
+    strings: ['"', "'"],
+  },
+  sql: {
+    keywords: words('select from where and or not insert into values update set delete create table drop alter join left right inner outer on group by order having limit as distinct null is in like primary key foreign references index union all'),
+    types: words('int integer varchar text boolean date timestamp numeric serial'),
+    caseInsensitive: true,
+    lineComments: ['--'],
+    blockComment: ['/*', '*/'],
+    strings: ["'", '"'],
+  },
+  json: {
+    keywords: words('true false null'),
+    lineComments: [],
+    strings: ['"'],
+  },
+};
+
+LANGUAGES['typescript'] = {
+  ...LANGUAGES['javascript']!,
+  keywords: new Set([
+    ...LANGUAGES['javascript']!.keywords,
+    ...words('interface type enum implements private public protected readonly declare namespace abstract keyof satisfies'),
+  ]),
+  types: words('string number boolean any unknown never void object'),
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', node: 'javascript',
+  ts: 'typescript', tsx: 'typescript',
+  py: 'python', python3: 'python',
+  'c++': 'cpp', cc: 'cpp', hpp: 'cpp', h: 'c',
+  'c#': 'csharp', cs: 'csharp',
+  golang: 'go', rs: 'rust', rb: 'ruby',
+  sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash',
+  postgres: 'sql', postgresql: 'sql', mysql: 'sql', sqlite: 'sql',
+};
+
+/** Used for unknown languages: strings, numbers and `//` comments only. */
+const GENERIC_LANGUAGE: LanguageSpec = {
+  keywords: new Set(),
+  lineComments: ['//'],
+  strings: ['"', "'"],
+};
+
+// ---------------------------------------------------------------------------
+// 1. normalizeCodeLanguage
+// ---------------------------------------------------------------------------
+
+/**
+ * Map a fence info string (`py`, `C++`, `TypeScript`) to the name of a
+ * supported language, or `null` when it is not supported.
+ */
+export function normalizeCodeLanguage(language: string | undefined): string | null {
+  if (!language) return null;
+  const name = language.trim().toLowerCase();
+  const resolved = LANGUAGE_ALIASES[name] ?? name;
+  return resolved in LANGUAGES ? resolved : null;
+}
+
+// ---------------------------------------------------------------------------
+// 2. tokenizeCode
+// ---------------------------------------------------------------------------
+
+/**
+ * Split {@link code} into highlighting tokens for {@link language}.
+ *
+ * The scanner knows each language's keywords, comments and string
+ * delimiters — enough to colour code on the board, not to parse it.
+ * Concatenating the tokens gives back the code exactly; unknown languages
+ * still get strings, numbers and comments.
+ */
+export function tokenizeCode(code: string, language?: string): CodeToken[] {
+  const spec = LANGUAGES[normalizeCodeLanguage(language) ?? ''] ?? GENERIC_LANGUAGE;
+  const tokens: CodeToken[] = [];
+  let pos = 0;
+
+  const push = (kind: CodeTokenKind, end: number): void => {
+    const text = code.slice(pos, end);
+    const last = tokens[tokens.length - 1];
+    // Merge neighbours of one kind so runs of plain text stay whole.
+    if (last && last.kind === kind && kind !== 'string' && kind !== 'comment') {
+      last.text += text;
+    } else {
+      tokens.push({ kind, text, start: pos });
+    }
+    pos = end;
+  };
+
+  while (pos < code.length) {
+    const rest = code.slice(pos);
+    const char = code[pos]!;
+
+    if (/\s/.test(char)) {
+      push('plain', pos + /^\s+/.exec(rest)![0].length);
+      continue;
+    }
+
+    const lineComment = spec.lineComments.find((marker) => rest.startsWith(marker));
+    if (lineComment) {
+      const end = code.indexOf('\n', pos);
+      push('comment', end < 0 ? code.length : end);
+      continue;
+    }
+
+    if (spec.blockComment && rest.startsWith(spec.blockComment[0])) {
+      const end = code.indexOf(spec.blockComment[1], pos + spec.blockComment[0].length);
+      push('comment', end < 0 ? code.length : end + spec.blockComment[1].length);
+      continue;
+    }
+
+    const quote = spec.strings.find((delimiter) => rest.startsWith(delimiter));
+    if (quote) {
+      const multiline = spec.multilineStrings?.includes(quote) ?? false;
+      push('string', findStringEnd(code, pos, quote, multiline));
+      continue;
+    }
+
+    const number = /^(?:0[xX][\da-fA-F]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(rest);
+    if (number) {
+      push('number', pos + number[0].length);
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_$][\w$]*/.exec(rest);
+    if (identifier) {
+      const word = identifier[0];
+      const key = spec.caseInsensitive ? word.toLowerCase() : word;
+      const end = pos + word.length;
+      const kind: CodeTokenKind = spec.keywords.has(key)
+        ? 'keyword'
+        : spec.types?.has(key) || (spec.capitalizedTypes && /^[A-Z]/.test(word))
+          ? 'type'
+          : /^\s*\(/.test(code.slice(end))
+            ? 'function'
+            : 'plain';
+      push(kind, end);
+      continue;
+    }
+
+    const operator = /^[+\-*/%=<>!&|^~?:@]+/.exec(rest);
+    if (operator) {
+      push('operator', pos + operator[0].length);
+      continue;
+    }
+
+    push(/[{}()[\];,.]/.test(char) ? 'punctuation' : 'plain', pos + 1);
+  }
+
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// 3. planCodeWalkthrough
+// ---------------------------------------------------------------------------
+
+/**
+ * Split code into the steps of a walkthrough: runs of lines separated by
+ * blank lines, with long runs cut before statements at their outermost
+ * indentation (at most {@link MAX_STEP_LINES} lines each).
+ *
+ * A step is narrated by its comments, which the lesson prompt asks for;
+ * steps without comments are announced by their line numbers.
+ */
+export function planCodeWalkthrough(code: string, language?: string): CodeStep[] {
+  const lines = code.split('\n');
+  const comments = collectComments(code, tokenizeCode(code, language));
+  const steps: CodeStep[] = [];
+
+  for (const run of splitRuns(lines)) {
+    for (const range of splitLongRun(lines, run)) {
+      const narration = comments
+        .filter((comment) => comment.line >= range.start && comment.line <= range.end)
+        .map((comment) => (/[.!?:]$/.test(comment.text) ? comment.text : `${comment.text}.`))
+        .join(' ');
+
+      steps.push({
+        lines: range,
+        narration: narration || (range.start === range.end
+          ? `Line ${range.start}.`
+          : `Lines ${range.start} to ${range.end}.`),
+      });
+    }
+  }
+
+  return steps;
+}
+
+// ---------------------------------------------------------------------------
+// 4. getCodeNarration
+// ---------------------------------------------------------------------------
+
+/**
+ * Narration for a code block: the walkthrough's steps, one after another.
+ */
+export function getCodeNarration(code: string, language?: string): string {
+  return planCodeWalkthrough(code, language).map((step) => step.narration).join(' ');
+}
+
+// ---------------------------------------------------------------------------
+// 5. createCodeFocusEvents
+// ---------------------------------------------------------------------------
+
+/**
+ * Schedule a `code_focus` event per walkthrough step over
+ * [{@link startTime}, {@link endTime}), back to back.
+ *
+ * With word timings of the narration built by {@link getCodeNarration},
+ * each step starts as the first word of its sentence is spoken.
+ */
+export function createCodeFocusEvents(
+  steps: CodeStep[],
+  startTime: number,
+  endTime: number,
+  options: CodeFocusOptions = {},
+): TimelineEvent[] {
+  if (steps.length === 0 || endTime <= startTime) return [];
+
+  const counts = steps.map((step) => Math.max(1, splitIntoWords(step.narration).length));
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  const timings = options.wordTimings ?? [];
+  const starts: number[] = [];
+  let wordIndex = 0;
+
+  counts.forEach((count, i) => {
+    const spoken = timings[wordIndex]?.startTime;
+    const proportional = startTime + ((endTime - startTime) * wordIndex) / total;
+    const start = i === 0 ? startTime : Math.max(spoken ?? proportional, starts[i - 1]!);
+    starts.push(Math.min(start, endTime));
+    wordIndex += count;
+  });
+
+  return steps
+    .map((step, i) =>
+      createTimelineEvent('code_focus', starts[i]!, starts[i + 1] ?? endTime, {
+        ...(options.blockId ? { blockId: options.blockId } : {}),
+        lines: step.lines,
+        text: step.narration,
+      }),
+    )
+    .filter((event) => event.endTime > event.startTime);
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function findStringEnd(code: string, start: number, quote: string, multiline: boolean): number {
+  let pos = start + quote.length;
+
+  while (pos < code.length) {
+    const char = code[pos]!;
+    if (char === '\\') {
+      pos += 2;
+      continue;
+    }
+    if (char === '\n' && !multiline) return pos;
+    if (code.startsWith(quote, pos)) return pos + quote.length;
+    pos++;
+  }
+
+  return code.length;
+}
+
+/** Comment text per (1-based) line, without comment markers. */
+function collectComments(code: string, tokens: CodeToken[]): { line: number; text: string }[] {
+  return tokens
+    .filter((token) => token.kind === 'comment')
+    .flatMap((token) => {
+      const firstLine = code.slice(0, token.start).split('\n').length;
+      return token.text.split('\n').map((text, i) => ({
+        line: firstLine + i,
+        text: text
+          .replace(/^\s*(?:\/\/+|#+|--|\/\*+|\*+\/?)\s*/, '')
+          .replace(/\s*\*+\/\s*$/, '')
+          .trim(),
+      }));
+    })
+    .filter((comment) => comment.text.length > 0);
+}
+
+/** Ranges of consecutive non-blank lines (1-based, inclusive). */
+function splitRuns(lines: string[]): CodeLineRange[] {
+  const runs: CodeLineRange[] = [];
+  let start = -1;
+
+  lines.forEach((line, i) => {
+    if (line.trim().length > 0) {
+      if (start < 0) start = i + 1;
+    } else if (start >= 0) {
+      runs.push({ start, end: i });
+      start = -1;
+    }
+  });
+  if (start >= 0) runs.push({ start, end: lines.length });
+
+  return runs;
+}
+
+function splitLongRun(lines: string[], run: CodeLineRange): CodeLineRange[] {
+  const ranges: CodeLineRange[] = [];
+  const indentOf = (line: number): number => /^\s*/.exec(lines[line - 1] ?? '')![0].length;
+  const count = run.end - run.start + 1;
+  const outer = Math.min(...Array.from({ length: count }, (_, i) => indentOf(run.start + i)));
+  let start = run.start;
+
+  while (run.end - start + 1 > MAX_STEP_LINES) {
+    // Cut before the last outermost statement that keeps the step short enough.
+    let cut = start + MAX_STEP_LINES;
+    for (let line = start + MAX_STEP_LINES; line > start; line--) {
+      if (indentOf(line) === outer) {
+        cut = line;
+        break;
+      }
+    }
+    ranges.push({ start, end: cut - 1 });
+    start = cut;
+  }
+
+  ranges.push({ start, end: run.end });
+  return ranges;
+}
@@ -0,0 +1,785 @@
+import type { BezierCurve, Point, Stroke, TimelineValidationError } from '@classflowai/types';
+import {
+  calculateBoundingBoxForPoints,
+  createBezierCurve,
+  createStroke,
+  evaluateBezierPoint,
+  flattenBezier,
+  translateStroke,
+} from './drawing';
+import {
+  createPenEvents,
+  estimatePenDuration,
+  handwriteText,
+  measureHandwriting,
+} from './handwriting';
+import type { PenEventOptions, PenEvents, PenGroup } from './handwriting';
+
+// ---------------------------------------------------------------------------
+// Diagram language
+// ---------------------------------------------------------------------------
+//
+// A `[diagram]` block holds statements separated by `;` or new lines:
+//
+//   box <id> ["label"] [at <col>,<row>]      rounded box
+//   circle <id> ["label"] [at <col>,<row>]   circle
+//   arrow <id> -> <id> ["label"]             arrow between two shapes
+//   line <id> -- <id> ["label"]              plain connector
+//   tree <id> -> <id>[, <id> ...]            parent with its children
+//   label "text" at <col>,<row>              free-standing text
+//   axes ["x label" ["y label"]]             axes around the drawing
+//   caption "text"                           what the narrator says
+//
+// Positions are grid cells (fractions allowed).  Shapes without one are laid
+// out automatically: trees top-down from their roots, everything else in a
+// row below them.  Shapes a `tree` names without declaring become boxes
+// labelled with their id.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type DiagramShapeKind = 'box' | 'circle' | 'arrow' | 'line' | 'label' | 'axes';
+
+/** One drawn element of a diagram, text included, in drawing order. */
+export interface DiagramShape {
+  kind: DiagramShapeKind;
+  strokes: Stroke[];
+}
+
+export interface CompiledDiagram {
+  /** Shapes positioned relative to the diagram's top-left corner. */
+  shapes: DiagramShape[];
+  width: number;
+  height: number;
+  /** Text of the `caption` statement, if any. */
+  caption: string | null;
+  /** Every label written on the diagram, in drawing order. */
+  labels: string[];
+  /**
+   * Problems found in the source.  Statements with an `error` are skipped;
+   * a diagram whose every statement failed has no shapes.
+   */
+  errors: TimelineValidationError[];
+}
+
+export interface DiagramCompileOptions {
+  /** Largest width (px) the diagram may take; it is scaled down to fit. */
+  maxWidth?: number;
+  maxHeight?: number;
+  color?: string;
+  strokeWidth?: number;
+  /** Recorded as `eventId` on every error, typically the block's id. */
+  eventId?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Size (px) of one layout grid cell. */
+const CELL_WIDTH = 170;
+const CELL_HEIGHT = 110;
+
+const BOX_MIN_WIDTH = 110;
+const BOX_HEIGHT = 52;
+const BOX_CORNER_RADIUS = 8;
+const CIRCLE_MIN_RADIUS = 34;
+
+/** Space (px) kept between a label and the outline around it. */
+const LABEL_PADDING = 12;
+const LABEL_FONT_SIZE = 18;
+
+const ARROW_HEAD_LENGTH = 12;
+const ARROW_HEAD_ANGLE = Math.PI / 7;
+
+/** Sideways bend of a connector, as a fraction of its length, when two shapes link both ways. */
+const CONNECTOR_BEND = 0.2;
+
+/** Distance (px) between the axes and what they surround. */
+const AXES_MARGIN = 24;
+
+/** Space (px) left around the whole drawing. */
+const DIAGRAM_MARGIN = 8;
+
+/** Pause (ms) before drawing each shape. */
+const SHAPE_GAP_MS = 250;
+
+/** Control-point distance that makes a cubic Bézier approximate a quarter circle. */
+const KAPPA = 0.5523;
+
+/** Segments per flattened Bézier: corners, arcs and connectors. */
+const CORNER_SEGMENTS = 6;
+const ARC_SEGMENTS = 10;
+const CONNECTOR_SEGMENTS = 16;
+
+const DEFAULT_COLOR = '#e5e7eb';
+const DEFAULT_STROKE_WIDTH = 2.5;
+
+// ---------------------------------------------------------------------------
+// 1. compileDiagram
+// ---------------------------------------------------------------------------
+
+/**
+ * Compile diagram {@link source} into positioned strokes.
+ *
+ * Invalid statements are reported as {@link TimelineValidationError}s and
+ * skipped, so a diagram with a typo still draws what it can.  The result is
+ * scaled down, never up, to fit {@link DiagramCompileOptions.maxWidth} and
+ * {@link DiagramCompileOptions.maxHeight}.
+ */
+export function compileDiagram(
+  source: string,
+  options: DiagramCompileOptions = {},
+): CompiledDiagram {
+  const parsed = parseDiagram(source, options.eventId ?? '');
+  const { errors } = parsed;
+  const pen: Pen = {
+    color: options.color ?? DEFAULT_COLOR,
+    width: options.strokeWidth ?? DEFAULT_STROKE_WIDTH,
+  };
+
+  const positions = layoutNodes(parsed, errors, options.eventId ?? '');
+  const shapes: DiagramShape[] = [];
+  const labels: string[] = [];
+  const outlines = new Map<string, NodeOutline>();
+
+  for (const node of parsed.nodes.values()) {
+    const center = positions.get(node.id)!;
+    const outline = getNodeOutline(node, center);
+    outlines.set(node.id, outline);
+    shapes.push({
+      kind: node.kind,
+      strokes: [drawOutline(outline, pen), ...writeCentered(node.label, center, pen)],
+    });
+    labels.push(node.label);
+  }
+
+  for (const edge of parsed.edges) {
+    const from = outlines.get(edge.from);
+    const to = outlines.get(edge.to);
+    if (!from || !to) continue;
+
+    const reversed = parsed.edges.some((other) => other.from === edge.to && other.to === edge.from);
+    shapes.push({ kind: edge.kind, strokes: drawConnector(edge, from, to, reversed, pen) });
+    if (edge.label) labels.push(edge.label);
+  }
+
+  for (const label of parsed.labels) {
+    shapes.push({ kind: 'label', strokes: writeCentered(label.text, gridToPoint(label.at), pen) });
+    labels.push(label.text);
+  }
+
+  if (parsed.axes) {
+    shapes.unshift({ kind: 'axes', strokes: drawAxes(parsed.axes, shapes, pen) });
+    labels.unshift(...[parsed.axes.x, parsed.axes.y].filter((text): text is string => !!text));
+  }
+
+  if (shapes.length === 0) {
+    errors.push(diagramError(options.eventId ?? '', 'Diagram has no drawable statements', 'error'));
+    return { shapes, width: 0, height: 0, caption: parsed.caption, labels, errors };
+  }
+
+  return { ...fitShapes(shapes, options), caption: parsed.caption, labels, errors };
+}
+
+// ---------------------------------------------------------------------------
+// 2. getDiagramNarration
+// ---------------------------------------------------------------------------
+
+/**
+ * Text to narrate while a diagram is drawn: its caption, or else its labels.
+ */
+export function getDiagramNarration(diagram: CompiledDiagram): string {
+  return diagram.caption ?? diagram.labels.join(', ');
+}
+
+// ---------------------------------------------------------------------------
+// 3. estimateDiagramDuration
+// ---------------------------------------------------------------------------
+
+/**
+ * Natural time (ms) it takes to draw {@link diagram} shape by shape.
+ */
+export function estimateDiagramDuration(diagram: CompiledDiagram): number {
+  return estimatePenDuration(toPenGroups(diagram.shapes));
+}
+
+// ---------------------------------------------------------------------------
+// 4. createDiagramEvents
+// ---------------------------------------------------------------------------
+
+/**
+ * Schedule {@link diagram}, placed with its top-left corner at
+ * {@link origin}, as `draw_stroke` events starting at {@link startTime}.
+ *
+ * Shapes are drawn in the order their statements appear, after the axes,
+ * with the cursor following the pen (see {@link createPenEvents}).
+ */
+export function createDiagramEvents(
+  diagram: CompiledDiagram,
+  origin: Point,
+  startTime: number,
+  options: PenEventOptions = {},
+): PenEvents {
+  const shapes = diagram.shapes.map((shape) => ({
+    ...shape,
+    strokes: shape.strokes.map((stroke) => translateStroke(stroke, origin.x, origin.y)),
+  }));
+
+  return createPenEvents(toPenGroups(shapes), startTime, options);
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+interface GridPosition {
+  col: number;
+  row: number;
+}
+
+interface DiagramNode {
+  id: string;
+  kind: 'box' | 'circle';
+  label: string;
+  at: GridPosition | null;
+}
+
+interface DiagramEdge {
+  kind: 'arrow' | 'line';
+  from: string;
+  to: string;
+  label: string | null;
+}
+
+interface ParsedDiagram {
+  nodes: Map<string, DiagramNode>;
+  edges: DiagramEdge[];
+  /** Children of every tree parent, in declaration order. */
+  trees: Map<string, string[]>;
+  labels: { text: string; at: GridPosition }[];
+  axes: { x: string | null; y: string | null } | null;
+  caption: string | null;
+  errors: TimelineValidationError[];
+}
+
+type Token =
+  | { kind: 'word'; value: string }
+  | { kind: 'string'; value: string }
+  | { kind: 'symbol'; value: '->' | '--' | ',' };
+
+/** Thrown while parsing one statement; turned into a validation error. */
+class DiagramSyntaxError extends Error {}
+
+const TOKEN_PATTERN = /\s*(?:"((?:[^"\\]|\\.)*)"|(->|--|,)|([A-Za-z0-9_.]+(?:-(?![->])[A-Za-z0-9_.]+)*)|(\S))/y;
+
+function tokenize(statement: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < statement.length) {
+    const match = TOKEN_PATTERN.exec(statement);
+    if (!match) break;
+
+    const [, text, symbol, word, other] = match;
+    if (text !== undefined) tokens.push({ kind: 'string', value: text.replace(/\\(.)/g, '$1') });
+    else if (symbol) tokens.push({ kind: 'symbol', value: symbol as '->' | '--' | ',' });
+    else if (word) tokens.push({ kind: 'word', value: word });
+    else if (other) throw new DiagramSyntaxError(`unexpected character "${other}"`);
+  }
+
+  return tokens;
+}
+
+/** Split on `;` and new lines outside quoted strings. */
+function splitStatements(source: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]!;
+    if (char === '\\' && quoted) {
+      current += char + (source[i + 1] ?? '');
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+      current += char;
+    } else if (!quoted && (char === ';' || char === '\n')) {
+      statements.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  statements.push(current);
+  return statements.map((statement) => statement.trim()).filter((statement) => statement.length > 0);
+}
+
+function parseDiagram(source: string, eventId: string): ParsedDiagram {
+  const diagram: ParsedDiagram = {
+    nodes: new Map(),
+    edges: [],
+    trees: new Map(),
+    labels: [],
+    axes: null,
+    caption: null,
+    errors: [],
+  };
+  const pendingEdges: DiagramEdge[] = [];
+
+  splitStatements(source).forEach((statement, index) => {
+    try {
+      parseStatement(new TokenReader(tokenize(statement)), diagram, pendingEdges);
+    } catch (err) {
+      if (!(err instanceof DiagramSyntaxError)) throw err;
+      diagram.errors.push(
+        diagramError(eventId, `Statement ${index + 1} ("${statement}"): ${err.message}`, 'error'),
+      );
+    }
+  });
+
+  // Tree statements may name shapes they do not declare.
+  for (const [parent, children] of diagram.trees) {
+    for (const id of [parent, ...children]) {
+      if (!diagram.nodes.has(id)) {
+        diagram.nodes.set(id, { id, kind: 'box', label: id.replace(/_/g, ' '), at: null });
+      }
+    }
+  }
+
+  // Connectors are checked last so they may refer to shapes declared later.
+  for (const edge of pendingEdges) {
+    const missing = [edge.from, edge.to].filter((id) => !diagram.nodes.has(id));
+    if (missing.length > 0) {
+      diagram.errors.push(
+        diagramError(eventId, `${edge.kind} ${edge.from} → ${edge.to} refers to unknown shape "${missing[0]}"`, 'error'),
+      );
+      continue;
+    }
+    diagram.edges.push(edge);
+  }
+
+  return diagram;
+}
+
+function parseStatement(reader: TokenReader, diagram: ParsedDiagram, edges: DiagramEdge[]): void {
+  const command = reader.word('a command').toLowerCase();
+
+  switch (command) {
+    case 'box':
+    case 'circle': {
+      const id = reader.word('a shape id');
+      if (diagram.nodes.has(id)) throw new DiagramSyntaxError(`shape "${id}" is already declared`);
+      const label = reader.optionalString() ?? id.replace(/_/g, ' ');
+      const at = reader.optionalWord('at') ? reader.position() : null;
+      diagram.nodes.set(id, { id, kind: command, label, at });
+      break;
+    }
+
+    case 'arrow':
+    case 'line': {
+      const from = reader.word('a shape id');
+      reader.connector();
+      const to = reader.word('a shape id');
+      edges.push({ kind: command, from, to, label: reader.optionalString() });
+      break;
+    }
+
+    case 'tree': {
+      const parent = reader.word('a parent id');
+      reader.connector();
+      const children = [reader.word('a child id')];
+      while (reader.optionalSymbol(',')) children.push(reader.word('a child id'));
+      diagram.trees.set(parent, [...(diagram.trees.get(parent) ?? []), ...children]);
+      break;
+    }
+
+    case 'label': {
+      const text = reader.string('the label text');
+      if (!reader.optionalWord('at')) throw new DiagramSyntaxError('labels need a position ("at col,row")');
+      diagram.labels.push({ text, at: reader.position() });
+      break;
+    }
+
+    case 'axes':
+      diagram.axes = { x: reader.optionalString(), y: reader.optionalString() };
+      break;
+
+    case 'caption':
+      diagram.caption = reader.string('the caption text');
+      break;
+
+    default:
+      throw new DiagramSyntaxError(`unknown command "${command}"`);
+  }
+
+  reader.end();
+}
+
+class TokenReader {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  word(expected: string): string {
+    const token = this.tokens[this.index];
+    if (token?.kind !== 'word') throw new DiagramSyntaxError(`expected ${expected}`);
+    this.index++;
+    return token.value;
+  }
+
+  string(expected: string): string {
+    const value = this.optionalString();
+    if (value === null) throw new DiagramSyntaxError(`expected ${expected} in double quotes`);
+    return value;
+  }
+
+  optionalString(): string | null {
+    const token = this.tokens[this.index];
+    if (token?.kind !== 'string') return null;
+    this.index++;
+    return token.value;
+  }
+
+  optionalWord(value: string): boolean {
+    const token = this.tokens[this.index];
+    if (token?.kind !== 'word' || token.value.toLowerCase() !== value) return false;
+    this.index++;
+    return true;
+  }
+
+  optionalSymbol(value: '->' | '--' | ','): boolean {
+    const token = this.tokens[this.index];
+    if (token?.kind !== 'symbol' || token.value !== value) return false;
+    this.index++;
+    return true;
+  }
+
+  /** Either connector is accepted; the command decides how it is drawn. */
+  connector(): void {
+    if (!this.optionalSymbol('->') && !this.optionalSymbol('--')) {
+      throw new DiagramSyntaxError('expected "->" or "--"');
+    }
+  }
+
+  position(): GridPosition {
+    const col = Number(this.word('a column'));
+    if (!this.optionalSymbol(',')) throw new DiagramSyntaxError('expected "," between column and row');
+    const row = Number(this.word('a row'));
+    if (!Number.isFinite(col) || !Number.isFinite(row) || col < 0 || row < 0) {
+      throw new DiagramSyntaxError('positions must be non-negative numbers');
+    }
+    return { col, row };
+  }
+
+  end(): void {
+    if (this.index < this.tokens.length) {
+      throw new DiagramSyntaxError('unexpected text after the statement');
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+/**
+ * Grid position of every node: explicit positions win, tree members are
+ * laid out top-down with parents centred over their children, and the rest
+ * form a row below.
+ */
+function layoutNodes(
+  diagram: ParsedDiagram,
+  errors: TimelineValidationError[],
+  eventId: string,
+): Map<string, Point> {
+  const grid = new Map<string, GridPosition>();
+  const parents = new Map<string, string>();
+
+  for (const [parent, children] of diagram.trees) {
+    for (const child of children) {
+      if (parents.has(child)) {
+        errors.push(diagramError(eventId, `"${child}" has more than one parent; keeping "${parents.get(child)}"`, 'warning'));
+        continue;
+      }
+      parents.set(child, parent);
+    }
+  }
+
+  let nextLeaf = 0;
+  let treeRows = 0;
+  const visiting = new Set<string>();
+
+  const place = (id: string, depth: number): number => {
+    if (visiting.has(id)) {
+      errors.push(diagramError(eventId, `Tree cycle through "${id}"`, 'error'));
+      return nextLeaf;
+    }
+    visiting.add(id);
+
+    const children = (diagram.trees.get(id) ?? []).filter((child) => parents.get(child) === id);
+    const cols = children.map((child) => place(child, depth + 1));
+    const col = cols.length > 0 ? (cols[0]! + cols[cols.length - 1]!) / 2 : nextLeaf++;
+
+    grid.set(id, { col, row: depth });
+    treeRows = Math.max(treeRows, depth + 1);
+    return col;
+  };
+
+  for (const root of diagram.trees.keys()) {
+    if (!parents.has(root) && !grid.has(root)) place(root, 0);
+  }
+
+  let nextFree = 0;
+  const positions = new Map<string, Point>();
+
+  for (const node of diagram.nodes.values()) {
+    const at = node.at ?? grid.get(node.id) ?? { col: nextFree++, row: treeRows };
+    positions.set(node.id, gridToPoint(at));
+  }
+
+  return positions;
+}
+
+function gridToPoint(at: GridPosition): Point {
+  return { x: (at.col + 0.5) * CELL_WIDTH, y: (at.row + 0.5) * CELL_HEIGHT };
+}
+
+/**
+ * Move shapes so the drawing starts at the origin and scale them down to
+ * the allowed size.
+ */
+function fitShapes(
+  shapes: DiagramShape[],
+  options: DiagramCompileOptions,
+): Pick<CompiledDiagram, 'shapes' | 'width' | 'height'> {
+  const box = calculateBoundingBoxForPoints(
+    shapes.flatMap((shape) => shape.strokes.flatMap((stroke) => stroke.points)),
+  );
+  const width = box.width + DIAGRAM_MARGIN * 2;
+  const height = box.height + DIAGRAM_MARGIN * 2;
+  const scale = Math.min(
+    1,
+    (options.maxWidth ?? Infinity) / width,
+    (options.maxHeight ?? Infinity) / height,
+  );
+
+  const move = (p: Point): Point => ({
+    x: (p.x - box.x + DIAGRAM_MARGIN) * scale,
+    y: (p.y - box.y + DIAGRAM_MARGIN) * scale,
+  });
+
+  return {
+    shapes: shapes.map((shape) => ({
+      ...shape,
+      strokes: shape.strokes.map((stroke) => ({
+        ...stroke,
+        points: stroke.points.map(move),
+        width: stroke.width * Math.max(scale, 0.5),
+      })),
+    })),
+    width: width * scale,
+    height: height * scale,
+  };
+}
+
+function toPenGroups(shapes: DiagramShape[]): PenGroup[] {
+  return shapes.map((shape) => ({ strokes: shape.strokes, pauseBefore: SHAPE_GAP_MS }));
+}
+
+// ---------------------------------------------------------------------------
+// Drawing
+// ---------------------------------------------------------------------------
+
+interface Pen {
+  color: string;
+  width: number;
+}
+
+type NodeOutline =
+  | { kind: 'box'; center: Point; halfWidth: number; halfHeight: number }
+  | { kind: 'circle'; center: Point; radius: number };
+
+function getNodeOutline(node: DiagramNode, center: Point): NodeOutline {
+  const labelWidth = measureHandwriting(node.label, LABEL_FONT_SIZE);
+
+  return node.kind === 'box'
+    ? {
+        kind: 'box',
+        center,
+        halfWidth: Math.max(BOX_MIN_WIDTH, labelWidth + LABEL_PADDING * 2) / 2,
+        halfHeight: BOX_HEIGHT / 2,
+      }
+    : { kind: 'circle', center, radius: Math.max(CIRCLE_MIN_RADIUS, labelWidth / 2 + LABEL_PADDING) };
+}
+
+/** Outline as one closed stroke, with Bézier corners and arcs. */
+function drawOutline(outline: NodeOutline, pen: Pen): Stroke {
+  const { x, y } = outline.center;
+
+  if (outline.kind === 'circle') {
+    const r = outline.radius;
+    const k = r * KAPPA;
+    const quarters = [
+      createBezierCurve({ x, y: y - r }, { x: x + k, y: y - r }, { x: x + r, y: y - k }, { x: x + r, y }),
+      createBezierCurve({ x: x + r, y }, { x: x + r, y: y + k }, { x: x + k, y: y + r }, { x, y: y + r }),
+      createBezierCurve({ x, y: y + r }, { x: x - k, y: y + r }, { x: x - r, y: y + k }, { x: x - r, y }),
+      createBezierCurve({ x: x - r, y }, { x: x - r, y: y - k }, { x: x - k, y: y - r }, { x, y: y - r }),
+    ];
+    return createStroke(joinCurves(quarters, ARC_SEGMENTS), pen.color, pen.width);
+  }
+
+  const left = x - outline.halfWidth;
+  const right = x + outline.halfWidth;
+  const top = y - outline.halfHeight;
+  const bottom = y + outline.halfHeight;
+  const r = BOX_CORNER_RADIUS;
+  const k = r * KAPPA;
+
+  // Each corner curve starts where the previous straight side ends.
+  const corners = [
+    createBezierCurve({ x: right - r, y: top }, { x: right - r + k, y: top }, { x: right, y: top + r - k }, { x: right, y: top + r }),
+    createBezierCurve({ x: right, y: bottom - r }, { x: right, y: bottom - r + k }, { x: right - r + k, y: bottom }, { x: right - r, y: bottom }),
+    createBezierCurve({ x: left + r, y: bottom }, { x: left + r - k, y: bottom }, { x: left, y: bottom - r + k }, { x: left, y: bottom - r }),
+    createBezierCurve({ x: left, y: top + r }, { x: left, y: top + r - k }, { x: left + r - k, y: top }, { x: left + r, y: top }),
+  ];
+
+  const points = [{ x: left + r, y: top }, ...joinCurves(corners, CORNER_SEGMENTS)];
+  return createStroke(points, pen.color, pen.width);
+}
+
+/**
+ * Connector from the edge of one outline to the edge of the other, bent
+ * sideways when the shapes are linked both ways so the two do not overlap.
+ */
+function drawConnector(
+  edge: DiagramEdge,
+  from: NodeOutline,
+  to: NodeOutline,
+  reversed: boolean,
+  pen: Pen,
+): Stroke[] {
+  const start = clipToOutline(from, to.center);
+  const end = clipToOutline(to, from.center);
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const length = Math.hypot(dx, dy) || 1;
+  const bend = reversed ? CONNECTOR_BEND * length : 0;
+  const normal = { x: -dy / length, y: dx / length };
+
+  const curve = createBezierCurve(
+    start,
+    { x: start.x + dx / 3 + normal.x * bend, y: start.y + dy / 3 + normal.y * bend },
+    { x: start.x + (dx * 2) / 3 + normal.x * bend, y: start.y + (dy * 2) / 3 + normal.y * bend },
+    end,
+  );
+  const path = flattenBezier(curve, CONNECTOR_SEGMENTS);
+  const strokes = [createStroke(path, pen.color, pen.width)];
+
+  if (edge.kind === 'arrow') {
+    const tail = path[path.length - 2] ?? start;
+    const angle = Math.atan2(end.y - tail.y, end.x - tail.x);
+    const wing = (side: number): Point => ({
+      x: end.x - ARROW_HEAD_LENGTH * Math.cos(angle + side * ARROW_HEAD_ANGLE),
+      y: end.y - ARROW_HEAD_LENGTH * Math.sin(angle + side * ARROW_HEAD_ANGLE),
+    });
+    strokes.push(createStroke([wing(1), end, wing(-1)], pen.color, pen.width));
+  }
+
+  if (edge.label) {
+    // Write the label beside the middle of the connector, on its bent side.
+    const middle = evaluateBezierPoint(curve, 0.5);
+    const side = normal.y <= 0 ? 1 : -1;
+    const offset = LABEL_FONT_SIZE * 0.9;
+    strokes.push(
+      ...writeCentered(edge.label, { x: middle.x + normal.x * offset * side, y: middle.y + normal.y * offset * side }, pen),
+    );
+  }
+
+  return strokes;
+}
+
+/** Axes framing everything drawn so far, with arrowheads and labels. */
+function drawAxes(
+  axes: NonNullable<ParsedDiagram['axes']>,
+  shapes: DiagramShape[],
+  pen: Pen,
+): Stroke[] {
+  const points = shapes.flatMap((shape) => shape.strokes.flatMap((stroke) => stroke.points));
+  const box = points.length > 0
+    ? calculateBoundingBoxForPoints(points)
+    : { x: 0, y: 0, width: CELL_WIDTH * 3, height: CELL_HEIGHT * 2 };
+
+  const origin = { x: box.x - AXES_MARGIN, y: box.y + box.height + AXES_MARGIN };
+  const xEnd = { x: box.x + box.width + AXES_MARGIN, y: origin.y };
+  const yEnd = { x: origin.x, y: box.y - AXES_MARGIN };
+  const head = (tip: Point, angle: number): Stroke =>
+    createStroke(
+      [-1, 1].map((side) => ({
+        x: tip.x - ARROW_HEAD_LENGTH * Math.cos(angle + side * ARROW_HEAD_ANGLE),
+        y: tip.y - ARROW_HEAD_LENGTH * Math.sin(angle + side * ARROW_HEAD_ANGLE),
+      })).flatMap((wing, i) => (i === 0 ? [wing, tip] : [wing])),
+      pen.color,
+      pen.width,
+    );
+
+  const strokes = [
+    createStroke([yEnd, origin, xEnd], pen.color, pen.width),
+    head(xEnd, 0),
+    head(yEnd, -Math.PI / 2),
+  ];
+
+  if (axes.x) {
+    const width = measureHandwriting(axes.x, LABEL_FONT_SIZE);
+    strokes.push(...writeCentered(axes.x, { x: xEnd.x - width / 2, y: xEnd.y + LABEL_FONT_SIZE * 1.2 }, pen));
+  }
+  if (axes.y) {
+    const width = measureHandwriting(axes.y, LABEL_FONT_SIZE);
+    strokes.push(...writeCentered(axes.y, { x: yEnd.x + width / 2 + LABEL_PADDING, y: yEnd.y }, pen));
+  }
+
+  return strokes;
+}
+
+/** Handwrite {@link text} centred on {@link center}. */
+function writeCentered(text: string, center: Point, pen: Pen): Stroke[] {
+  const origin = {
+    x: center.x - measureHandwriting(text, LABEL_FONT_SIZE) / 2,
+    y: center.y - LABEL_FONT_SIZE / 2,
+  };
+  return handwriteText(text, origin, { fontSize: LABEL_FONT_SIZE, color: pen.color })
+    .glyphs.flatMap((glyph) => glyph.strokes);
+}
+
+/** Point where the line from the outline's centre towards {@link target} leaves it. */
+function clipToOutline(outline: NodeOutline, target: Point): Point {
+  const { center } = outline;
+  const dx = target.x - center.x;
+  const dy = target.y - center.y;
+  if (dx === 0 && dy === 0) return center;
+
+  const t = outline.kind === 'circle'
+    ? outline.radius / Math.hypot(dx, dy)
+    : Math.min(
+        dx === 0 ? Infinity : outline.halfWidth / Math.abs(dx),
+        dy === 0 ? Infinity : outline.halfHeight / Math.abs(dy),
+      );
+
+  return { x: center.x + dx * t, y: center.y + dy * t };
+}
+
+/** Flatten consecutive curves into one path, linking them with straight segments. */
+function joinCurves(curves: BezierCurve[], segments: number): Point[] {
+  return curves.flatMap((curve) => flattenBezier(curve, segments));
+}
+
+function diagramError(
+  eventId: string,
+  message: string,
+  severity: TimelineValidationError['severity'],
+): TimelineValidationError {
+  return { eventId, message, severity };
+}
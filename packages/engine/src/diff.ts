@@ -0,0 +1,158 @@
+import type {
+  ExplanationBlock,
+  LessonDiffSummary,
+  TimelineEvent,
+} from '@classflowai/types';
+import { calculateTimelineDuration } from './timeline';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * One entry of a block diff.  `changed` pairs a removed block with the
+ * added block of the same type that took its place.
+ */
+export type BlockDiffEntry =
+  | { type: 'unchanged'; before: ExplanationBlock; after: ExplanationBlock }
+  | { type: 'changed'; before: ExplanationBlock; after: ExplanationBlock }
+  | { type: 'removed'; before: ExplanationBlock }
+  | { type: 'added'; after: ExplanationBlock };
+
+export interface TimelineDiff {
+  added: TimelineEvent[];
+  removed: TimelineEvent[];
+  /** Events kept with a different start or end time. */
+  retimed: { before: TimelineEvent; after: TimelineEvent }[];
+}
+
+/** The content of a lesson that revisions capture. */
+export interface LessonContent {
+  explanation: ExplanationBlock[];
+  timeline: TimelineEvent[];
+}
+
+// ---------------------------------------------------------------------------
+// 1. diffExplanationBlocks
+// ---------------------------------------------------------------------------
+
+/**
+ * Compare two versions of a lesson's explanation, in order.
+ *
+ * Blocks are matched by type and content rather than ID, since every
+ * generation assigns new IDs; the longest common subsequence of matches is
+ * `unchanged`.  Between matches, removed and added blocks at the same
+ * position and of the same type are reported as `changed`.
+ */
+export function diffExplanationBlocks(
+  before: ExplanationBlock[],
+  after: ExplanationBlock[],
+): BlockDiffEntry[] {
+  const key = (block: ExplanationBlock): string => `${block.type}\n${block.content}`;
+  const beforeKeys = before.map(key);
+  const afterKeys = after.map(key);
+
+  // lcs[i][j]: length of the longest common subsequence of before[i..] and after[j..].
+  const lcs = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i]![j] = beforeKeys[i] === afterKeys[j]
+        ? lcs[i + 1]![j + 1]! + 1
+        : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const entries: BlockDiffEntry[] = [];
+  let removed: ExplanationBlock[] = [];
+  let added: ExplanationBlock[] = [];
+
+  const flush = (): void => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      const from = removed[k]!;
+      const to = added[k]!;
+      if (from.type === to.type) {
+        entries.push({ type: 'changed', before: from, after: to });
+      } else {
+        entries.push({ type: 'removed', before: from }, { type: 'added', after: to });
+      }
+    }
+    for (const block of removed.slice(paired)) entries.push({ type: 'removed', before: block });
+    for (const block of added.slice(paired)) entries.push({ type: 'added', after: block });
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && beforeKeys[i] === afterKeys[j]) {
+      flush();
+      entries.push({ type: 'unchanged', before: before[i++]!, after: after[j++]! });
+    } else if (j >= after.length || (i < before.length && lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+      removed.push(before[i++]!);
+    } else {
+      added.push(after[j++]!);
+    }
+  }
+  flush();
+
+  return entries;
+}
+
+// ---------------------------------------------------------------------------
+// 2. diffTimelines
+// ---------------------------------------------------------------------------
+
+/**
+ * Compare two versions of a timeline, matching events by ID.  Hand edits
+ * keep IDs, so they show up as retimed or removed events; a regenerated
+ * timeline shares no IDs with the one it replaced.
+ */
+export function diffTimelines(before: TimelineEvent[], after: TimelineEvent[]): TimelineDiff {
+  const previous = new Map(before.map((event) => [event.id, event]));
+  const next = new Set(after.map((event) => event.id));
+  const diff: TimelineDiff = { added: [], removed: [], retimed: [] };
+
+  for (const event of after) {
+    const old = previous.get(event.id);
+    if (!old) {
+      diff.added.push(event);
+    } else if (old.startTime !== event.startTime || old.endTime !== event.endTime) {
+      diff.retimed.push({ before: old, after: event });
+    }
+  }
+  diff.removed = before.filter((event) => !next.has(event.id));
+
+  return diff;
+}
+
+// ---------------------------------------------------------------------------
+// 3. summarizeLessonDiff
+// ---------------------------------------------------------------------------
+
+/**
+ * Count the changes between two versions of a lesson's content.
+ */
+export function summarizeLessonDiff(
+  before: LessonContent,
+  after: LessonContent,
+): LessonDiffSummary {
+  const blocks = diffExplanationBlocks(before.explanation, after.explanation);
+  const events = diffTimelines(before.timeline, after.timeline);
+  const count = (type: BlockDiffEntry['type']): number =>
+    blocks.filter((entry) => entry.type === type).length;
+
+  return {
+    blocksAdded: count('added'),
+    blocksRemoved: count('removed'),
+    blocksChanged: count('changed'),
+    eventsAdded: events.added.length,
+    eventsRemoved: events.removed.length,
+    eventsRetimed: events.retimed.length,
+    durationDelta:
+      calculateTimelineDuration(after.timeline) - calculateTimelineDuration(before.timeline),
+  };
+}
@@ -0,0 +1,359 @@
+import type {
+  TimelineChange,
+  TimelineCommand,
+  TimelineDocumentConfig,
+  TimelineDocumentEventMap,
+  TimelineEvent,
+  TimelineTrack,
+} from '@classflowai/types';
+import {
+  addEventToTrack,
+  getTrackTypeForEvent,
+  lockTrack,
+  removeEventFromTrack,
+  retimeEvent,
+  unlockTrack,
+} from './timeline';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_CONFIG: TimelineDocumentConfig = {
+  maxHistory: 200,
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface HistoryEntry {
+  /** Identifies the entry for {@link TimelineDocument.isModified}. */
+  id: number;
+  command: TimelineCommand;
+  before: TimelineTrack[];
+  after: TimelineTrack[];
+}
+
+export interface ExecuteOptions {
+  /**
+   * Fold the command into the previous step when that step was also
+   * coalesced and moved or resized the same event the same way, so a drag
+   * undoes in one step.  Coalescing stops at {@link TimelineDocument.endCoalescing}.
+   */
+  coalesce?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// TimelineDocument
+// ---------------------------------------------------------------------------
+
+/**
+ * An editable timeline with undo and redo.
+ *
+ * Every edit is a {@link TimelineCommand} applied through {@link execute};
+ * tracks are never mutated, so each history step simply keeps the track
+ * lists from before and after it.  Commands on locked tracks change nothing
+ * and are not recorded, matching the pure track helpers in `timeline.ts`.
+ *
+ * Listeners registered with {@link on} receive a {@link TimelineChange}
+ * after every load, edit, undo and redo.
+ */
+export class TimelineDocument {
+  private _tracks: TimelineTrack[];
+  private _config: TimelineDocumentConfig;
+  private _undoStack: HistoryEntry[];
+  private _redoStack: HistoryEntry[];
+  /** Whether the top undo step may absorb the next coalesced command. */
+  private _coalescing: boolean;
+  private _nextEntryId: number;
+  /** ID of the top undo step when last saved; `0` for none. */
+  private _savedEntryId: number;
+  private _listeners: { change: Set<TimelineDocumentEventMap['change']> };
+
+  constructor(tracks: TimelineTrack[] = [], config?: Partial<TimelineDocumentConfig>) {
+    this._tracks = tracks;
+    this._config = { ...DEFAULT_CONFIG, ...config };
+    this._undoStack = [];
+    this._redoStack = [];
+    this._coalescing = false;
+    this._nextEntryId = 1;
+    this._savedEntryId = 0;
+    this._listeners = { change: new Set() };
+  }
+
+  // -----------------------------------------------------------------------
+  // Public getters
+  // -----------------------------------------------------------------------
+
+  get tracks(): TimelineTrack[] {
+    return this._tracks;
+  }
+
+  get canUndo(): boolean {
+    return this._undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this._redoStack.length > 0;
+  }
+
+  /** Whether the tracks differ from when they were loaded or last saved. */
+  get isModified(): boolean {
+    return (this._undoStack.at(-1)?.id ?? 0) !== this._savedEntryId;
+  }
+
+  // -----------------------------------------------------------------------
+  // Loading
+  // -----------------------------------------------------------------------
+
+  /**
+   * Replace the tracks and clear the history, e.g. after the timeline was
+   * saved and reloaded.
+   */
+  load(tracks: TimelineTrack[]): void {
+    this._tracks = tracks;
+    this._undoStack = [];
+    this._redoStack = [];
+    this._coalescing = false;
+    this._savedEntryId = 0;
+    this._emitChange(null, 'load');
+  }
+
+  /** Mark the current tracks as saved; see {@link isModified}. */
+  markSaved(): void {
+    this._coalescing = false;
+    this._savedEntryId = this._undoStack.at(-1)?.id ?? 0;
+  }
+
+  // -----------------------------------------------------------------------
+  // Editing
+  // -----------------------------------------------------------------------
+
+  /**
+   * Apply a command and record it for undo.  Clears the redo history.
+   *
+   * @returns `false` if the command changed nothing (its track is locked,
+   *   or the event already has that timing) and was not recorded.
+   * @throws If the command refers to an unknown event or track, or inserts
+   *   an event whose ID is taken.
+   */
+  execute(command: TimelineCommand, options: ExecuteOptions = {}): boolean {
+    const before = this._tracks;
+    const after = applyTimelineCommand(before, command);
+    if (after === before) return false;
+
+    const top = this._undoStack.at(-1);
+    if (options.coalesce && this._coalescing && top && canCoalesce(top.command, command)) {
+      top.command = command;
+      top.after = after;
+    } else {
+      this._undoStack.push({ id: this._nextEntryId++, command, before, after });
+      if (this._undoStack.length > this._config.maxHistory) {
+        this._undoStack.shift();
+      }
+    }
+
+    this._coalescing = options.coalesce ?? false;
+    this._redoStack = [];
+    this._tracks = after;
+    this._emitChange(command, 'execute');
+    return true;
+  }
+
+  /**
+   * Stop folding commands into the current step, e.g. when a drag ends.
+   */
+  endCoalescing(): void {
+    this._coalescing = false;
+  }
+
+  /** Revert the most recent step.  Returns `false` when there is none. */
+  undo(): boolean {
+    const entry = this._undoStack.pop();
+    if (!entry) return false;
+
+    this._coalescing = false;
+    this._redoStack.push(entry);
+    this._tracks = entry.before;
+    this._emitChange(entry.command, 'undo');
+    return true;
+  }
+
+  /** Re-apply the most recently undone step.  Returns `false` when there is none. */
+  redo(): boolean {
+    const entry = this._redoStack.pop();
+    if (!entry) return false;
+
+    this._coalescing = false;
+    this._undoStack.push(entry);
+    this._tracks = entry.after;
+    this._emitChange(entry.command, 'redo');
+    return true;
+  }
+
+  // -----------------------------------------------------------------------
+  // Event emitter
+  // -----------------------------------------------------------------------
+
+  /**
+   * Register a listener for the given event.
+   */
+  on<K extends keyof TimelineDocumentEventMap>(
+    event: K,
+    listener: TimelineDocumentEventMap[K],
+  ): void {
+    this._listeners[event].add(listener);
+  }
+
+  /**
+   * Remove a previously registered listener.
+   */
+  off<K extends keyof TimelineDocumentEventMap>(
+    event: K,
+    listener: TimelineDocumentEventMap[K],
+  ): void {
+    this._listeners[event].delete(listener);
+  }
+
+  private _emitChange(command: TimelineCommand | null, source: TimelineChange['source']): void {
+    const change: TimelineChange = {
+      tracks: this._tracks,
+      command,
+      source,
+      canUndo: this.canUndo,
+      canRedo: this.canRedo,
+    };
+    for (const listener of this._listeners.change) listener(change);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+/**
+ * Pure function that applies a {@link TimelineCommand} to a list of tracks.
+ *
+ * Returns {@link tracks} itself when the command changes nothing: edits of
+ * events on locked tracks, and locking a locked track.  Inserted events go
+ * on the track for their type (see {@link getTrackTypeForEvent}), which is
+ * created if missing.
+ *
+ * @throws If the command refers to an unknown event or track, or inserts an
+ *   event whose ID is taken.
+ */
+export function applyTimelineCommand(
+  tracks: TimelineTrack[],
+  command: TimelineCommand,
+): TimelineTrack[] {
+  switch (command.type) {
+    case 'insert_event': {
+      const { event } = command;
+      if (findEvent(tracks, event.id)) {
+        throw new Error(`Timeline already has an event "${event.id}"`);
+      }
+      const type = getTrackTypeForEvent(event.type);
+      const track = tracks.find((t) => t.type === type);
+      if (!track) {
+        return [
+          ...tracks,
+          { id: `track-${type}`, type, events: [event], locked: false, visible: true },
+        ];
+      }
+      return replaceTrack(tracks, track, addEventToTrack(track, event));
+    }
+
+    case 'remove_event': {
+      const { track } = requireEvent(tracks, command.eventId);
+      return replaceTrack(tracks, track, removeEventFromTrack(track, command.eventId));
+    }
+
+    case 'move_event': {
+      const { event } = requireEvent(tracks, command.eventId);
+      const endTime = command.startTime + (event.endTime - event.startTime);
+      return retimeTrackEvent(tracks, command.eventId, command.startTime, endTime);
+    }
+
+    case 'resize_event':
+      return retimeTrackEvent(tracks, command.eventId, command.startTime, command.endTime);
+
+    case 'lock_track': {
+      const track = requireTrack(tracks, command.trackId);
+      return track.locked ? tracks : replaceTrack(tracks, track, lockTrack(track));
+    }
+
+    case 'unlock_track': {
+      const track = requireTrack(tracks, command.trackId);
+      return track.locked ? replaceTrack(tracks, track, unlockTrack(track)) : tracks;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Whether {@link next} continues the drag that produced {@link previous}. */
+function canCoalesce(previous: TimelineCommand, next: TimelineCommand): boolean {
+  return (
+    (previous.type === 'move_event' || previous.type === 'resize_event') &&
+    previous.type === next.type &&
+    previous.eventId === next.eventId
+  );
+}
+
+function retimeTrackEvent(
+  tracks: TimelineTrack[],
+  eventId: string,
+  startTime: number,
+  endTime: number,
+): TimelineTrack[] {
+  const { track, event } = requireEvent(tracks, eventId);
+  if (track.locked || (event.startTime === startTime && event.endTime === endTime)) {
+    return tracks;
+  }
+  return replaceTrack(tracks, track, {
+    ...track,
+    events: track.events.map((e) => (e.id === eventId ? retimeEvent(e, startTime, endTime) : e)),
+  });
+}
+
+function replaceTrack(
+  tracks: TimelineTrack[],
+  track: TimelineTrack,
+  replacement: TimelineTrack,
+): TimelineTrack[] {
+  if (replacement === track) return tracks;
+  return tracks.map((t) => (t === track ? replacement : t));
+}
+
+function findEvent(
+  tracks: TimelineTrack[],
+  eventId: string,
+): { track: TimelineTrack; event: TimelineEvent } | null {
+  for (const track of tracks) {
+    const event = track.events.find((e) => e.id === eventId);
+    if (event) return { track, event };
+  }
+  return null;
+}
+
+function requireEvent(
+  tracks: TimelineTrack[],
+  eventId: string,
+): { track: TimelineTrack; event: TimelineEvent } {
+  const found = findEvent(tracks, eventId);
+  if (!found) {
+    throw new Error(`Timeline has no event "${eventId}"`);
+  }
+  return found;
+}
+
+function requireTrack(tracks: TimelineTrack[], trackId: string): TimelineTrack {
+  const track = tracks.find((t) => t.id === trackId);
+  if (!track) {
+    throw new Error(`Timeline has no track "${trackId}"`);
+  }
+  return track;
+}
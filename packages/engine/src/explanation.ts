@@ -2,6 +2,7 @@ import type {
   ExplanationBlock,
   ContentBlock,
   ParsedExplanation,
+  TextBlockFormat,
   TextRevealConfig,
   TextRevealState,
 } from '@classflowai/types';
@@ -373,21 +374,131 @@ function mapContentTypeToExplanationType(
   }
 }
 
+/**
+ * Map prose {@link ContentBlock} types onto the {@link TextBlockFormat} that
+ * keeps them apart once they are all `text` blocks.
+ */
+function mapContentTypeToTextFormat(
+  contentType: ContentBlock['type'],
+): TextBlockFormat | undefined {
+  switch (contentType) {
+    case 'heading':
+    case 'paragraph':
+    case 'list':
+      return contentType;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert a single {@link ContentBlock} into an {@link ExplanationBlock} at the
+ * given position, with its duration calculated from content length.
+ */
+export function contentBlockToExplanationBlock(
+  contentBlock: ContentBlock,
+  order: number,
+): ExplanationBlock {
+  const block = createExplanationBlock(
+    mapContentTypeToExplanationType(contentBlock.type),
+    contentBlock.content,
+    order,
+    calculateBlockDuration(contentBlock),
+  );
+
+  const format = mapContentTypeToTextFormat(contentBlock.type);
+  if (format) return { ...block, format };
+
+  const language = contentBlock.metadata?.['language'];
+  return block.type === 'code' && language ? { ...block, language } : block;
+}
+
 /**
  * Convert a {@link ParsedExplanation} into an ordered array of
  * {@link ExplanationBlock}s with durations calculated from content length.
  */
 export function explanationToBlocks(parsed: ParsedExplanation): ExplanationBlock[] {
   return parsed.blocks.map((contentBlock, index) =>
-    createExplanationBlock(
-      mapContentTypeToExplanationType(contentBlock.type),
-      contentBlock.content,
-      index,
-      calculateBlockDuration(contentBlock),
-    ),
+    contentBlockToExplanationBlock(contentBlock, index),
   );
 }
 
+// ---------------------------------------------------------------------------
+// 14. Streaming parse
+// ---------------------------------------------------------------------------
+
+/**
+ * Incremental parser state for Markdown that arrives in chunks (e.g. from a
+ * streaming LLM response).  Treat as opaque; advance it with
+ * {@link appendStreamingChunk} and {@link finishStreamingParse}.
+ */
+export interface StreamingParseState {
+  buffer: string;
+  emittedCount: number;
+}
+
+export interface StreamingParseResult {
+  state: StreamingParseState;
+  /** Blocks that became final with this call, in document order. */
+  blocks: ContentBlock[];
+}
+
+/**
+ * Create an empty {@link StreamingParseState}.
+ */
+export function createStreamingParseState(): StreamingParseState {
+  return { buffer: '', emittedCount: 0 };
+}
+
+/**
+ * Feed a chunk of raw Markdown into the parser and return every block that is
+ * now guaranteed not to change.
+ *
+ * Only complete lines are parsed, and the last parsed block is held back
+ * because the next line may still extend it (another list item, more code
+ * inside an open fence, a paragraph continuation).  Every earlier block is
+ * terminated by a line that has already arrived, so it is final.
+ *
+ * Returns a *new* state object (pure).
+ */
+export function appendStreamingChunk(
+  state: StreamingParseState,
+  chunk: string,
+): StreamingParseResult {
+  const buffer = state.buffer + chunk;
+  const next: StreamingParseState = { buffer, emittedCount: state.emittedCount };
+
+  if (!chunk.includes('\n')) {
+    return { state: next, blocks: [] };
+  }
+
+  const completeLines = buffer.slice(0, buffer.lastIndexOf('\n') + 1);
+  const parsed = parseRawExplanation(completeLines);
+  const finalCount = Math.max(parsed.blocks.length - 1, state.emittedCount);
+
+  return {
+    state: { buffer, emittedCount: finalCount },
+    blocks: parsed.blocks.slice(state.emittedCount, finalCount),
+  };
+}
+
+/**
+ * Mark the stream as complete: parse the whole buffer (including a trailing
+ * line without a newline) and return the remaining blocks together with the
+ * full {@link ParsedExplanation}.
+ */
+export function finishStreamingParse(
+  state: StreamingParseState,
+): StreamingParseResult & { parsed: ParsedExplanation } {
+  const parsed = parseRawExplanation(state.buffer);
+
+  return {
+    state: { buffer: state.buffer, emittedCount: parsed.blocks.length },
+    blocks: parsed.blocks.slice(state.emittedCount),
+    parsed,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // 7. createTextRevealState
 // ---------------------------------------------------------------------------
@@ -583,3 +694,37 @@ export function calculateTransitionDelay(
 
   return delay;
 }
+
+// ---------------------------------------------------------------------------
+// 15. explanationBlockToMarkdown
+// ---------------------------------------------------------------------------
+
+/**
+ * Write an {@link ExplanationBlock} back out as the Markdown
+ * {@link parseRawExplanation} reads it from, e.g. to show a model the
+ * lesson around a block it should rewrite.  The first block of a lesson is
+ * its `#` title; other headings are `##` sections.
+ */
+export function explanationBlockToMarkdown(block: ExplanationBlock): string {
+  switch (block.type) {
+    case 'code':
+      return ['```' + (block.language ?? ''), block.content, '```'].join('\n');
+    case 'equation':
+      return ['$$', block.content, '$$'].join('\n');
+    case 'diagram':
+      return `[diagram] ${block.content}`;
+    case 'text':
+    default: {
+      if (block.format === 'heading') {
+        return `${block.order === 0 ? '#' : '##'} ${block.content}`;
+      }
+      if (block.format === 'list') {
+        return block.content
+          .split('\n')
+          .map((item) => `- ${item}`)
+          .join('\n');
+      }
+      return block.content;
+    }
+  }
+}
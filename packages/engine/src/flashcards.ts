@@ -0,0 +1,176 @@
+import type {
+  ContentBlock,
+  FlashcardSource,
+  ParsedExplanation,
+  ReviewGrade,
+  ReviewSchedule,
+} from '@classflowai/types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A flashcard taken from a lesson, before it is given to a learner. */
+export interface FlashcardDraft {
+  source: FlashcardSource;
+  front: string;
+  back: string;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Most flashcards taken from a single lesson. */
+const MAX_FLASHCARDS = 20;
+
+/** Longest front, in characters; longer "terms" are sentences with a colon. */
+const MAX_TERM_LENGTH = 60;
+
+/** Longest back, in characters; longer text is cut at a sentence end. */
+const MAX_BACK_LENGTH = 280;
+
+/** Section names that say nothing on their own as the front of a card. */
+const GENERIC_HEADINGS = /^(introduction|overview|summary|conclusion|recap|key takeaways?)$/i;
+
+/** `Term: definition` or `Term – definition` (with spaces around the dash). */
+const TERM_DEFINITION = /^(.+?)(?::|\s[-–—]\s)\s*(.+)$/;
+
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+/** Lowest grade that counts as having recalled a card. */
+const PASSING_GRADE = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// 1. extractFlashcards
+// ---------------------------------------------------------------------------
+
+/**
+ * Take flashcards from a parsed lesson, in this order:
+ *
+ * - its title, backed by its summary;
+ * - list items of the form `Term: definition`;
+ * - section headings, backed by the paragraph opening the section.
+ *
+ * Cards with the same front are kept once, and at most
+ * {@link MAX_FLASHCARDS} are taken.
+ */
+export function extractFlashcards(parsed: ParsedExplanation): FlashcardDraft[] {
+  const drafts: FlashcardDraft[] = [];
+
+  if (parsed.title && parsed.summary) {
+    drafts.push({ source: 'summary', front: parsed.title, back: clipText(parsed.summary) });
+  }
+
+  parsed.blocks.forEach((block, index) => {
+    if (block.type === 'list') {
+      for (const item of listItems(block)) {
+        const match = TERM_DEFINITION.exec(item);
+        const term = match && stripEmphasis(match[1]!);
+        const definition = match && stripEmphasis(match[2]!);
+        if (term && definition && term.length <= MAX_TERM_LENGTH) {
+          drafts.push({ source: 'term', front: term, back: clipText(definition) });
+        }
+      }
+    } else if (
+      block.type === 'heading' &&
+      block.content !== parsed.title &&
+      !GENERIC_HEADINGS.test(block.content)
+    ) {
+      const next = parsed.blocks[index + 1];
+      if (next?.type === 'paragraph') {
+        drafts.push({ source: 'heading', front: block.content, back: clipText(next.content) });
+      }
+    }
+  });
+
+  const seen = new Set<string>();
+  return drafts
+    .filter((draft) => {
+      const key = draft.front.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_FLASHCARDS);
+}
+
+function listItems(block: ContentBlock): string[] {
+  return block.children?.map((child) => child.content) ?? block.content.split('\n');
+}
+
+function stripEmphasis(text: string): string {
+  return text.trim().replace(/^[*_]+|[*_]+$/g, '').trim();
+}
+
+/** Cut {@link text} down to the sentences that fit, or to a word boundary. */
+function clipText(text: string): string {
+  if (text.length <= MAX_BACK_LENGTH) return text;
+
+  const head = text.slice(0, MAX_BACK_LENGTH);
+  const sentenceEnd = Math.max(
+    head.lastIndexOf('. '),
+    head.lastIndexOf('? '),
+    head.lastIndexOf('! '),
+  );
+  if (sentenceEnd > 0) return head.slice(0, sentenceEnd + 1);
+
+  const wordEnd = head.lastIndexOf(' ');
+  return `${head.slice(0, wordEnd > 0 ? wordEnd : MAX_BACK_LENGTH)}…`;
+}
+
+// ---------------------------------------------------------------------------
+// 2. createReviewSchedule
+// ---------------------------------------------------------------------------
+
+/**
+ * The schedule of a new flashcard: due {@link now}, at the default ease.
+ */
+export function createReviewSchedule(now: Date): ReviewSchedule {
+  return { easeFactor: DEFAULT_EASE_FACTOR, interval: 0, repetitions: 0, dueAt: now };
+}
+
+// ---------------------------------------------------------------------------
+// 3. scheduleReview
+// ---------------------------------------------------------------------------
+
+/**
+ * Reschedule a flashcard reviewed at {@link now} with {@link grade}, as SM-2
+ * does.
+ *
+ * A recalled card is next due after 1 day, then 6 days, then its previous
+ * interval times its ease factor.  A forgotten card starts over at 1 day.
+ * Every review moves the ease factor up or down with the grade, to no less
+ * than {@link MIN_EASE_FACTOR}.
+ */
+export function scheduleReview(
+  schedule: ReviewSchedule,
+  grade: ReviewGrade,
+  now: Date,
+): ReviewSchedule {
+  const recalled = grade >= PASSING_GRADE;
+  const repetitions = recalled ? schedule.repetitions + 1 : 0;
+
+  let interval = 1;
+  if (repetitions === 2) {
+    interval = 6;
+  } else if (repetitions > 2) {
+    interval = Math.round(schedule.interval * schedule.easeFactor);
+  }
+
+  const miss = 5 - grade;
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    Math.round((schedule.easeFactor + 0.1 - miss * (0.08 + miss * 0.02)) * 100) / 100,
+  );
+
+  return {
+    easeFactor,
+    interval,
+    repetitions,
+    dueAt: new Date(now.getTime() + interval * DAY_MS),
+  };
+}
@@ -0,0 +1,391 @@
+import type { Point, Stroke, TimelineEvent } from '@classflowai/types';
+import {
+  calculateStrokeAnimationDuration,
+  createStroke,
+  simplifyPath,
+  smoothPoints,
+} from './drawing';
+import { createTimelineEvent } from './timeline';
+import {
+  HERSHEY_CAP_HEIGHT,
+  HERSHEY_GLYPHS,
+  HERSHEY_LETTER_SPACING,
+  HERSHEY_SPACE_ADVANCE,
+} from './hershey';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface HandwritingOptions {
+  /** Font size (px); capitals are drawn at 70% of it. */
+  fontSize: number;
+  color?: string;
+  /** Pen width (px); scales with the font size by default. */
+  strokeWidth?: number;
+}
+
+/** Strokes of one written character. */
+export interface HandwrittenGlyph {
+  char: string;
+  /** Index of the character in the written text. */
+  index: number;
+  strokes: Stroke[];
+}
+
+/** One line of written text. */
+export interface HandwrittenLine {
+  text: string;
+  glyphs: HandwrittenGlyph[];
+}
+
+/** Strokes drawn together, such as one glyph or one diagram shape. */
+export interface PenGroup {
+  strokes: Stroke[];
+  /** Pause (ms) before the group when something was drawn before it. */
+  pauseBefore: number;
+}
+
+export interface PenEventOptions {
+  /**
+   * Time available for drawing.  When the natural drawing time is longer,
+   * every stroke and pause is compressed proportionally to fit.
+   */
+  maxDuration?: number;
+  /** Explanation block the drawing belongs to, recorded on every event. */
+  blockId?: string;
+}
+
+export interface PenEvents {
+  /** `draw_stroke` events plus `cursor_move` events that follow the pen. */
+  events: TimelineEvent[];
+  endTime: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Cap height as a fraction of the font size. */
+const CAP_HEIGHT_RATIO = 0.7;
+
+/** Baseline position below the top of a line, as a fraction of the font size. */
+const BASELINE_RATIO = 0.85;
+
+/** Pause (ms) while the pen lifts between strokes of one group. */
+const PEN_LIFT_MS = 40;
+
+/** Pause (ms) between consecutive glyphs. */
+const GLYPH_GAP_MS = 70;
+
+/** Extra pause (ms) for every space between words. */
+const WORD_GAP_MS = 120;
+
+/** Pause (ms) while the pen moves to the start of the next line. */
+const LINE_GAP_MS = 250;
+
+const DEFAULT_COLOR = '#ffffff';
+
+// ---------------------------------------------------------------------------
+// Glyph lookup
+// ---------------------------------------------------------------------------
+
+interface ParsedGlyph {
+  advance: number;
+  strokes: Point[][];
+}
+
+const parsedGlyphs = new Map<string, ParsedGlyph>();
+
+/**
+ * Look up a glyph, falling back to the unaccented letter, then the other
+ * case, then `?` for characters the font does not cover.
+ */
+function getGlyph(char: string): ParsedGlyph {
+  const cached = parsedGlyphs.get(char);
+  if (cached) return cached;
+
+  const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  const entry = HERSHEY_GLYPHS[char]
+    ?? HERSHEY_GLYPHS[base]
+    ?? HERSHEY_GLYPHS[base.toUpperCase()]
+    ?? HERSHEY_GLYPHS[base.toLowerCase()]
+    ?? HERSHEY_GLYPHS['?']!;
+
+  const glyph: ParsedGlyph = {
+    advance: entry[0],
+    strokes: entry[1].split('|').map((stroke) =>
+      stroke.split(' ').map((pair) => {
+        const [x, y] = pair.split(',').map(Number);
+        return { x: x ?? 0, y: y ?? 0 };
+      }),
+    ),
+  };
+
+  parsedGlyphs.set(char, glyph);
+  return glyph;
+}
+
+function getScale(fontSize: number): number {
+  return (fontSize * CAP_HEIGHT_RATIO) / HERSHEY_CAP_HEIGHT;
+}
+
+function isSpace(char: string): boolean {
+  return /\s/.test(char);
+}
+
+// ---------------------------------------------------------------------------
+// 1. measureHandwriting
+// ---------------------------------------------------------------------------
+
+/**
+ * Width (px) of {@link text} written at {@link fontSize}.
+ */
+export function measureHandwriting(text: string, fontSize: number): number {
+  const scale = getScale(fontSize);
+  let width = 0;
+
+  for (const char of text) {
+    width += isSpace(char)
+      ? HERSHEY_SPACE_ADVANCE
+      : getGlyph(char).advance + HERSHEY_LETTER_SPACING;
+  }
+
+  // No spacing after the last glyph.
+  if (text.length > 0 && !isSpace(text[text.length - 1]!)) {
+    width -= HERSHEY_LETTER_SPACING;
+  }
+
+  return Math.max(0, width * scale);
+}
+
+// ---------------------------------------------------------------------------
+// 2. handwriteText
+// ---------------------------------------------------------------------------
+
+/**
+ * Turn one line of {@link text} into smoothed pen strokes, one group per
+ * character.
+ *
+ * {@link origin} is the top-left corner of the line; spaces advance the pen
+ * without producing a glyph.
+ */
+export function handwriteText(
+  text: string,
+  origin: Point,
+  options: HandwritingOptions,
+): HandwrittenLine {
+  const { fontSize } = options;
+  const scale = getScale(fontSize);
+  const baseline = origin.y + fontSize * BASELINE_RATIO;
+  const color = options.color ?? DEFAULT_COLOR;
+  const width = options.strokeWidth ?? Math.max(1.5, fontSize / 12);
+
+  const glyphs: HandwrittenGlyph[] = [];
+  let penX = origin.x;
+  let index = 0;
+
+  for (const char of text) {
+    if (isSpace(char)) {
+      penX += HERSHEY_SPACE_ADVANCE * scale;
+      index++;
+      continue;
+    }
+
+    const glyph = getGlyph(char);
+    const strokes = glyph.strokes.map((points) =>
+      createStroke(
+        smoothPoints(points.map((p) => ({ x: penX + p.x * scale, y: baseline - p.y * scale }))),
+        color,
+        width,
+      ),
+    );
+
+    glyphs.push({ char, index, strokes });
+    penX += (glyph.advance + HERSHEY_LETTER_SPACING) * scale;
+    index++;
+  }
+
+  return { text, glyphs };
+}
+
+// ---------------------------------------------------------------------------
+// 3. estimateHandwritingDuration
+// ---------------------------------------------------------------------------
+
+/**
+ * Natural time (ms) it takes to write {@link lines} at {@link fontSize},
+ * including pen lifts and pauses between glyphs, words and lines.
+ */
+export function estimateHandwritingDuration(lines: string[], fontSize: number): number {
+  const written = lines.map((text) => handwriteText(text, { x: 0, y: 0 }, { fontSize }));
+  return estimatePenDuration(toPenGroups(written));
+}
+
+// ---------------------------------------------------------------------------
+// 4. createHandwritingEvents
+// ---------------------------------------------------------------------------
+
+/**
+ * Schedule written lines as timeline events starting at {@link startTime},
+ * glyph by glyph with {@link createPenEvents}.
+ */
+export function createHandwritingEvents(
+  lines: HandwrittenLine[],
+  startTime: number,
+  options: PenEventOptions = {},
+): PenEvents {
+  return createPenEvents(toPenGroups(lines), startTime, options);
+}
+
+// ---------------------------------------------------------------------------
+// 5. estimatePenDuration
+// ---------------------------------------------------------------------------
+
+/**
+ * Natural time (ms) it takes to draw {@link groups} stroke by stroke.
+ */
+export function estimatePenDuration(groups: PenGroup[]): number {
+  return planStrokes(groups).duration;
+}
+
+// ---------------------------------------------------------------------------
+// 6. createPenEvents
+// ---------------------------------------------------------------------------
+
+/**
+ * Schedule groups of strokes as timeline events starting at
+ * {@link startTime}.
+ *
+ * Every stroke becomes a `draw_stroke` event lasting as long as
+ * {@link calculateStrokeAnimationDuration} suggests for its shape, with
+ * {@link PEN_LIFT_MS} between the strokes of a group.  A chain of
+ * `cursor_move` events covers the whole drawing time — along each stroke
+ * while it is drawn, and straight to the next stroke while the pen is lifted
+ * — so the cursor is seen drawing.
+ */
+export function createPenEvents(
+  groups: PenGroup[],
+  startTime: number,
+  options: PenEventOptions = {},
+): PenEvents {
+  const plan = planStrokes(groups);
+  if (plan.steps.length === 0) return { events: [], endTime: startTime };
+
+  const factor = options.maxDuration !== undefined && plan.duration > options.maxDuration
+    ? options.maxDuration / plan.duration
+    : 1;
+  const blockPayload = options.blockId ? { blockId: options.blockId } : {};
+  const events: TimelineEvent[] = [];
+
+  plan.steps.forEach((step, i) => {
+    const strokeStart = startTime + step.offset * factor;
+    const strokeEnd = strokeStart + step.duration * factor;
+    const { stroke } = step;
+
+    events.push(
+      createTimelineEvent('draw_stroke', strokeStart, strokeEnd, {
+        ...blockPayload,
+        path: stroke.points,
+        color: stroke.color,
+        strokeWidth: stroke.width,
+      }),
+      createTimelineEvent('cursor_move', strokeStart, strokeEnd, {
+        ...blockPayload,
+        path: stroke.points,
+      }),
+    );
+
+    const next = plan.steps[i + 1];
+    const from = stroke.points[stroke.points.length - 1];
+    const to = next?.stroke.points[0];
+    if (next && from && to) {
+      events.push(
+        createTimelineEvent('cursor_move', strokeEnd, startTime + next.offset * factor, {
+          ...blockPayload,
+          path: [from, to],
+        }),
+      );
+    }
+  });
+
+  return { events, endTime: startTime + plan.duration * factor };
+}
+
+// ---------------------------------------------------------------------------
+// 7. getHandwritingBaseline
+// ---------------------------------------------------------------------------
+
+/**
+ * Distance (px) from the top of a line written with {@link handwriteText}
+ * to its baseline, for callers that position text by its baseline.
+ */
+export function getHandwritingBaseline(fontSize: number): number {
+  return fontSize * BASELINE_RATIO;
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+interface StrokeStep {
+  stroke: Stroke;
+  /** Start (ms) relative to the beginning of the drawing. */
+  offset: number;
+  duration: number;
+}
+
+/**
+ * One pen group per glyph, paused by the glyph, word and line gaps.
+ */
+function toPenGroups(lines: HandwrittenLine[]): PenGroup[] {
+  const groups: PenGroup[] = [];
+
+  for (const line of lines) {
+    if (line.glyphs.length === 0) continue;
+
+    const chars = Array.from(line.text);
+    let previousIndex: number | null = null;
+
+    for (const glyph of line.glyphs) {
+      let pauseBefore = 0;
+      if (previousIndex !== null) {
+        const spaces = chars.slice(previousIndex + 1, glyph.index).filter(isSpace).length;
+        pauseBefore = GLYPH_GAP_MS + spaces * WORD_GAP_MS;
+      } else if (groups.length > 0) {
+        pauseBefore = LINE_GAP_MS;
+      }
+
+      groups.push({ strokes: glyph.strokes, pauseBefore });
+      previousIndex = glyph.index;
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Lay strokes out back to back with natural durations and pauses.
+ */
+function planStrokes(groups: PenGroup[]): { steps: StrokeStep[]; duration: number } {
+  const steps: StrokeStep[] = [];
+  let time = 0;
+
+  for (const group of groups) {
+    if (group.strokes.length === 0) continue;
+    if (steps.length > 0) time += group.pauseBefore;
+
+    group.strokes.forEach((stroke, i) => {
+      if (i > 0) time += PEN_LIFT_MS;
+      // Time the simplified shape: smoothing adds points, not ink.
+      const duration = calculateStrokeAnimationDuration({
+        ...stroke,
+        points: simplifyPath(stroke.points),
+      });
+      steps.push({ stroke, offset: time, duration });
+      time += duration;
+    });
+  }
+
+  return { steps, duration: time };
+}
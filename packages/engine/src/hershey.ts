@@ -0,0 +1,154 @@
+// ---------------------------------------------------------------------------
+// Single-line handwriting font
+// ---------------------------------------------------------------------------
+//
+// Hershey-style glyphs: every character is a handful of open polylines
+// rather than a filled outline, so it can be "written" stroke by stroke.
+//
+// Coordinates are in font units with y pointing up: the baseline is at 0,
+// capitals and ascenders reach 10, the x-height is 6 and descenders drop to
+// -3.  Each entry is `[advance, strokes]`, where strokes are separated by
+// `|` and each stroke is a space-separated list of `x,y` points drawn in
+// order.  Advances exclude the spacing added between glyphs.
+
+export const HERSHEY_CAP_HEIGHT = 10;
+
+export const HERSHEY_GLYPHS: Readonly<Record<string, readonly [number, string]>> = {
+  // Uppercase
+  A: [8, '0,0 4,10 8,0|1.6,4 6.4,4'],
+  B: [7, '0,0 0,10 5,10 6.5,9 6.5,6.5 5,5.2 0,5.2|5,5.2 7,4 7,1.2 5.3,0 0,0'],
+  C: [8, '8,8.5 6.5,10 3,10 0.8,8.3 0,5 0.8,1.7 3,0 6.5,0 8,1.5'],
+  D: [8, '0,0 0,10 4.5,10 7,8 7.8,5 7,2 4.5,0 0,0'],
+  E: [7, '7,10 0,10 0,0 7,0|0,5 5,5'],
+  F: [7, '7,10 0,10 0,0|0,5 5,5'],
+  G: [8, '8,8.5 6.5,10 3,10 0.8,8.3 0,5 0.8,1.7 3,0 6.5,0 8,1.5 8,4.5 5,4.5'],
+  H: [8, '0,0 0,10|8,0 8,10|0,5 8,5'],
+  I: [2, '1,0 1,10'],
+  J: [6, '6,10 6,2.5 4.8,0.3 3,0 1.2,0.3 0,2.5'],
+  K: [7, '0,0 0,10|7,10 0,3.5|2.3,5.6 7,0'],
+  L: [6, '0,10 0,0 6,0'],
+  M: [10, '0,0 0,10 5,2 10,10 10,0'],
+  N: [8, '0,0 0,10 8,0 8,10'],
+  O: [9, '4.5,10 1.5,9 0,5 1.5,1 4.5,0 7.5,1 9,5 7.5,9 4.5,10'],
+  P: [7, '0,0 0,10 5,10 6.5,9 7,7.5 6.5,6 5,5 0,5'],
+  Q: [9, '4.5,10 1.5,9 0,5 1.5,1 4.5,0 7.5,1 9,5 7.5,9 4.5,10|5.5,2.5 9,-0.5'],
+  R: [7, '0,0 0,10 5,10 6.5,9 7,7.5 6.5,6 5,5 0,5|4,5 7,0'],
+  S: [7, '7,8.5 5.5,10 2,10 0.3,8.8 0.3,6.8 2,5.6 5,4.6 6.8,3.4 6.8,1.2 5,0 1.5,0 0,1.5'],
+  T: [8, '0,10 8,10|4,10 4,0'],
+  U: [8, '0,10 0,3 1.2,0.7 4,0 6.8,0.7 8,3 8,10'],
+  V: [8, '0,10 4,0 8,10'],
+  W: [11, '0,10 2.5,0 5.5,8 8.5,0 11,10'],
+  X: [8, '0,10 8,0|8,10 0,0'],
+  Y: [8, '0,10 4,5 8,10|4,5 4,0'],
+  Z: [8, '0,10 8,10 0,0 8,0'],
+
+  // Lowercase
+  a: [6, '6,6 6,0|6,4.5 4.5,6 2,6 0.3,4.5 0,3 0.3,1.3 2,0 4.5,0 6,1.5'],
+  b: [6, '0,10 0,0|0,4.5 1.5,6 4,6 5.7,4.5 6,3 5.7,1.3 4,0 1.5,0 0,1.5'],
+  c: [6, '6,4.8 4.5,6 2,6 0.3,4.5 0,3 0.3,1.3 2,0 4.5,0 6,1.2'],
+  d: [6, '6,10 6,0|6,4.5 4.5,6 2,6 0.3,4.5 0,3 0.3,1.3 2,0 4.5,0 6,1.5'],
+  e: [6, '0,3 6,3 5.7,4.7 4,6 2,6 0.3,4.5 0,3 0.3,1.3 2,0 4.5,0 6,1.2'],
+  f: [4, '4,9.8 3,10 1.8,9.5 1.5,8 1.5,0|0,6 4,6'],
+  g: [6, '6,6 6,-1.5 5,-2.8 3.5,-3 1.5,-3 0.3,-2|6,4.5 4.5,6 2,6 0.3,4.5 0,3 0.3,1.3 2,0 4.5,0 6,1.5'],
+  h: [6, '0,10 0,0|0,4 1.8,5.7 4,6 5.5,5.2 6,3.8 6,0'],
+  i: [1, '0.5,6 0.5,0|0.5,8.5 0.5,8.2'],
+  j: [3, '2.5,6 2.5,-1.8 1.6,-3 0,-3|2.5,8.5 2.5,8.2'],
+  k: [6, '0,10 0,0|5.5,6 0,2|1.8,3.3 6,0'],
+  l: [1, '0.5,10 0.5,0'],
+  m: [10, '0,6 0,0|0,4 1.5,5.7 3,6 4.5,5.2 5,3.8 5,0|5,3.8 6.5,5.7 8,6 9.5,5.2 10,3.8 10,0'],
+  n: [6, '0,6 0,0|0,4 1.8,5.7 4,6 5.5,5.2 6,3.8 6,0'],
+  o: [6, '3,6 0.8,5 0,3 0.8,1 3,0 5.2,1 6,3 5.2,5 3,6'],
+  p: [6, '0,6 0,-3|0,4.5 1.5,6 4,6 5.7,4.5 6,3 5.7,1.3 4,0 1.5,0 0,1.5'],
+  q: [6, '6,6 6,-3|6,4.5 4.5,6 2,6 0.3,4.5 0,3 0.3,1.3 2,0 4.5,0 6,1.5'],
+  r: [4, '0,6 0,0|0,3.5 1.2,5.3 2.8,6 4,5.8'],
+  s: [5, '5,5 3.8,6 1.2,6 0.1,5 0.3,3.8 2.5,3.1 4.7,2.3 5,1 3.8,0 1.2,0 0,1'],
+  t: [4, '1.5,9 1.5,1 2.3,0 4,0.2|0,6 4,6'],
+  u: [6, '0,6 0,2 0.5,0.8 2,0 4,0.3 6,2|6,6 6,0'],
+  v: [6, '0,6 3,0 6,6'],
+  w: [9, '0,6 2,0 4.5,5 7,0 9,6'],
+  x: [6, '0,6 6,0|6,6 0,0'],
+  y: [6, '0,6 3,0|6,6 3,0 1.8,-2.2 0.5,-3 0,-3'],
+  z: [6, '0,6 6,6 0,0 6,0'],
+
+  // Digits
+  '0': [7, '3.5,10 1,8.5 0,5 1,1.5 3.5,0 6,1.5 7,5 6,8.5 3.5,10'],
+  '1': [4, '0,8 2.5,10 2.5,0'],
+  '2': [7, '0.3,8 1.8,9.6 3.5,10 5.5,9.5 6.7,8 6.6,6.2 0,0 7,0'],
+  '3': [7, '0.3,8.8 2,10 5,10 6.5,8.6 6.5,6.8 5,5.4 2.8,5.4|5,5.4 6.8,4 6.8,1.5 5,0 2,0 0,1.3'],
+  '4': [7, '5.5,0 5.5,10 0,3 7,3'],
+  '5': [7, '6.5,10 1,10 0.5,5.6 2.5,6.4 4.5,6.4 6.3,5.2 7,3.2 6.3,1.2 4.5,0 2,0 0,1.2'],
+  '6': [7, '6.5,9 5,10 3,10 1.2,8.6 0.2,6 0,3 0.8,1 3,0 5,0 6.6,1.2 7,3 6.6,4.8 5,6 3,6 1,5 0,3'],
+  '7': [7, '0,10 7,10 2.5,0'],
+  '8': [7, '3.5,5.4 1.2,6.4 0.6,8.2 1.8,9.7 3.5,10 5.2,9.7 6.4,8.2 5.8,6.4 3.5,5.4 1,4.4 0,2.6 0.8,0.8 3.5,0 6.2,0.8 7,2.6 6,4.4 3.5,5.4'],
+  '9': [7, '7,7 6,5 4,4 2,4 0.4,5.2 0,7 0.4,8.8 2,10 4,10 6,8.8 7,7 6.8,4 5.8,1.4 4,0 2,0 0.5,1'],
+
+  // Punctuation and symbols
+  '.': [1, '0.5,0.3 0.5,0'],
+  ',': [1, '0.6,0.5 0.6,0 0,-1.5'],
+  '!': [1, '0.5,10 0.5,3|0.5,0.3 0.5,0'],
+  '?': [6, '0,8 1.5,9.7 3.5,10 5.5,9.3 6,7.8 5.2,6.2 3,5 3,3|3,0.3 3,0'],
+  ':': [1, '0.5,6 0.5,5.7|0.5,0.3 0.5,0'],
+  ';': [1, '0.6,6 0.6,5.7|0.6,0.5 0.6,0 0,-1.5'],
+  '-': [5, '0,4 5,4'],
+  '+': [6, '0,4 6,4|3,1 3,7'],
+  '=': [6, '0,5 6,5|0,2.5 6,2.5'],
+  "'": [1, '0.5,10 0.5,7.5'],
+  '"': [3, '0.5,10 0.5,7.5|2.5,10 2.5,7.5'],
+  '(': [3, '3,11 1,9 0,5 1,1 3,-1'],
+  ')': [3, '0,11 2,9 3,5 2,1 0,-1'],
+  '/': [6, '6,10 0,-1'],
+  '*': [5, '2.5,8 2.5,3|0.4,6.8 4.6,4.2|4.6,6.8 0.4,4.2'],
+  '<': [6, '6,7 0,4 6,1'],
+  '>': [6, '0,7 6,4 0,1'],
+  '%': [8, '8,10 0,0|1.5,10 0,8.5 1.5,7 3,8.5 1.5,10|6.5,3 5,1.5 6.5,0 8,1.5 6.5,3'],
+  '•': [3, '1.5,4.5 0.4,3.9 0.4,2.7 1.5,2.1 2.6,2.7 2.6,3.9 1.5,4.5'],
+  '{': [4, '4,11 2.5,10.5 2,9 2,6.5 1.5,5.3 0,5 1.5,4.7 2,3.5 2,1 2.5,-0.5 4,-1'],
+  '}': [4, '0,11 1.5,10.5 2,9 2,6.5 2.5,5.3 4,5 2.5,4.7 2,3.5 2,1 1.5,-0.5 0,-1'],
+  '[': [3, '3,11 0,11 0,-1 3,-1'],
+  ']': [3, '0,11 3,11 3,-1 0,-1'],
+  '|': [1, '0.5,11 0.5,-1'],
+
+  // Math symbols
+  '×': [6, '0.5,1 5.5,7|5.5,1 0.5,7'],
+  '·': [1, '0.5,4.3 0.5,4'],
+  '±': [6, '0,5 6,5|3,2 3,8|0,0.5 6,0.5'],
+  '≤': [6, '6,8 0,5 6,2|0,0 6,0'],
+  '≥': [6, '0,8 6,5 0,2|0,0 6,0'],
+  '≠': [6, '0,5 6,5|0,2.5 6,2.5|4.5,7.5 1.5,0'],
+  '≈': [6, '0,4.5 1,5.3 2,5.5 4,4.7 5,4.5 6,5.2|0,2 1,2.8 2,3 4,2.2 5,2 6,2.7'],
+  '→': [8, '0,4 8,4|5,6.5 8,4 5,1.5'],
+  '⇒': [8, '0,5.3 7,5.3|0,2.7 7,2.7|5,7.5 8,4 5,0.5'],
+  '∞': [10, '5,3 3.8,4.8 2.3,5.5 0.8,4.8 0,3 0.8,1.2 2.3,0.5 3.8,1.2 5,3 6.2,4.8 7.7,5.5 9.2,4.8 10,3 9.2,1.2 7.7,0.5 6.2,1.2 5,3'],
+  '∫': [5, '5,10.5 4,11 3,10.5 2.5,9 2.5,-1 2,-2.5 1,-3 0,-2.5'],
+  '∂': [6, '1,9 2.5,10 4,9.8 5.5,8 6,5 5.3,2 3.5,0.2 1.8,0 0.4,1 0,2.8 0.8,4.7 2.8,5.7 4.3,5.5 5.8,4.2'],
+  '∇': [8, '0,10 8,10 4,0 0,10'],
+
+  // Greek
+  'α': [7, '6,6 5,3 4,1 2.5,0 1,0.5 0,2.5 0.5,5 2,6 3.5,5.8 4.8,3.5 5.8,0.8 7,0'],
+  'β': [6, '0,-3 0,8 1,9.7 2.8,10 4.5,9.3 5,8 4.3,6.5 2.5,5.8|2.5,5.8 4.8,5 5.8,3.2 5.3,1 3.5,0 1.5,0.3 0,1.5'],
+  'γ': [6, '0,5 1,6 2,5.5 3,2 3,-3|6,6 3,2'],
+  'δ': [6, '4.5,9.5 3,10 1.5,9.5 1.5,8.5 5,6 6,3.5 5.2,1 3,0 0.8,1 0,3 1,5 3,6.2'],
+  'ε': [5, '5,5.5 3.5,6 1.5,6 0.3,5 0.8,3.3 3,3|3,3 0.5,2.7 0,1.3 1.2,0 3.5,0 5,0.8'],
+  'θ': [6, '3,10 0.8,8.5 0,5 0.8,1.5 3,0 5.2,1.5 6,5 5.2,8.5 3,10|0.2,5 5.8,5'],
+  'λ': [6, '0.5,10 1.5,9.8 2.5,8.5 6,0|3.3,6 0,0'],
+  'μ': [7, '0,-3 0,6|0,2 0.8,0.5 2.5,0 4.3,0.6 6,2.5|6,6 6,0.5 6.8,0'],
+  'π': [7, '0,5.5 1,6 7,6|2,6 1.5,0|5,6 5.3,0.5 6.5,0'],
+  'ρ': [6, '0,-3 0.3,3 1.3,5.3 3,6 4.8,5.3 6,3 5.2,0.8 3,0 1.2,0.5 0.3,2'],
+  'σ': [7, '7,6 3,6 1,5 0,3 0.8,1 3,0 5,1 5.8,3 5,5 3,6'],
+  'τ': [6, '0,5.5 1,6 6,6|3,6 3,1 3.8,0 5,0.2'],
+  'φ': [7, '3.5,9 3.5,-3|3.5,6 1.2,5.2 0,3 1.2,0.8 3.5,0 5.8,0.8 7,3 5.8,5.2 3.5,6'],
+  'ω': [9, '1.5,6 0.3,4.5 0,2.5 1,0.3 2.5,0 4,1.2 4.5,3.5|4.5,3.5 5,1.2 6.5,0 8,0.3 9,2.5 8.7,4.5 7.5,6'],
+  'Δ': [8, '4,10 0,0 8,0 4,10'],
+  'Θ': [9, '4.5,10 1.5,9 0,5 1.5,1 4.5,0 7.5,1 9,5 7.5,9 4.5,10|2.5,5 6.5,5'],
+  'Λ': [8, '0,0 4,10 8,0'],
+  'Π': [8, '0,0 0,10 8,10 8,0'],
+  'Σ': [7, '7,10 0,10 3.8,5 0,0 7,0'],
+  'Φ': [9, '4.5,10 4.5,0|4.5,8 1.5,7.2 0,5 1.5,2.8 4.5,2 7.5,2.8 9,5 7.5,7.2 4.5,8'],
+  'Ω': [9, '0,0 3,0 3,1.5 1,3.5 0,6 1,8.8 4.5,10 8,8.8 9,6 8,3.5 6,1.5 6,0 9,0'],
+};
+
+/** Advance of a space, in font units. */
+export const HERSHEY_SPACE_ADVANCE = 4;
+
+/** Spacing added after every glyph, in font units. */
+export const HERSHEY_LETTER_SPACING = 1.8;
@@ -2,4 +2,14 @@ export * from './explanation';
 export * from './drawing';
 export * from './narration';
 export * from './timeline';
+export * from './document';
+export * from './diff';
+export * from './chapters';
+export * from './flashcards';
 export * from './playback';
+export * from './board';
+export * from './handwriting';
+export * from './diagram';
+export * from './math';
+export * from './code';
+export * from './layout';
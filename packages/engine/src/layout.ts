@@ -0,0 +1,174 @@
+import type { BoundingBox, Stroke, TimelineEvent } from '@classflowai/types';
+import { BOARD_REVEAL_FRACTION, estimateTextWidth } from './board';
+import type { BoardLine, BoardPlacement, TextMeasurer } from './board';
+import { calculateBoundingBox } from './drawing';
+import { measureHandwriting } from './handwriting';
+import { createTimelineEvent } from './timeline';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The part of a placed block inside one column of one page. */
+export interface BoardRegion {
+  page: number;
+  column: number;
+  bounds: BoundingBox;
+}
+
+export interface CursorTargetOptions {
+  /** Measurer the block was placed with; see {@link BoardLayoutOptions}. */
+  measure?: TextMeasurer;
+  /** Explanation block the cursor presents, recorded on every event. */
+  blockId?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Time (ms) the board takes to clear before a new page is written on. */
+export const PAGE_CLEAR_DURATION = 800;
+
+// ---------------------------------------------------------------------------
+// 1. measurePlacement
+// ---------------------------------------------------------------------------
+
+/**
+ * Measure where a block placed by {@link placeBoardBlock} ends up: one
+ * bounding box per column (and page) it covers, in writing order.
+ *
+ * Text is measured line by line, bullets included; diagrams and equations
+ * by the bounding boxes of their strokes.  Empty blocks have no regions.
+ */
+export function measurePlacement(
+  placement: BoardPlacement,
+  measure: TextMeasurer = estimateTextWidth,
+): BoardRegion[] {
+  const drawing = placement.diagram ?? placement.equation;
+  const strokes = placement.diagram?.compiled.shapes.flatMap((shape) => shape.strokes)
+    ?? placement.equation?.typeset.lines.flatMap((line) => line.strokes);
+
+  if (drawing && strokes) {
+    const box = unionStrokeBounds(strokes);
+    if (!box) return [];
+    return [{
+      page: drawing.page,
+      column: drawing.column,
+      bounds: { ...box, x: box.x + drawing.x, y: box.y + drawing.y },
+    }];
+  }
+
+  const { style } = placement;
+  const lineHeight = style.fontSize * style.lineHeight;
+  const textWidth = (text: string): number =>
+    placement.handwritten ? measureHandwriting(text, style.fontSize) : measure(text, style);
+  const regions: BoardRegion[] = [];
+
+  for (const line of placement.lines) {
+    const left = line.bullet ? Math.min(line.bulletX, line.x) : line.x;
+    const right = line.x + textWidth(line.text);
+    const last = regions[regions.length - 1];
+
+    if (last && last.page === line.page && last.column === line.column) {
+      const { bounds } = last;
+      const x = Math.min(bounds.x, left);
+      bounds.width = Math.max(bounds.x + bounds.width, right) - x;
+      bounds.x = x;
+      bounds.height = line.y + lineHeight - bounds.y;
+    } else {
+      regions.push({
+        page: line.page,
+        column: line.column,
+        bounds: { x: left, y: line.y, width: right - left, height: lineHeight },
+      });
+    }
+  }
+
+  return regions;
+}
+
+// ---------------------------------------------------------------------------
+// 2. createPageClearEvent
+// ---------------------------------------------------------------------------
+
+/**
+ * A `page_clear` event wiping the board for {@link page}, lasting
+ * {@link PAGE_CLEAR_DURATION} from {@link startTime}.
+ */
+export function createPageClearEvent(page: number, startTime: number): TimelineEvent {
+  return createTimelineEvent('page_clear', startTime, startTime + PAGE_CLEAR_DURATION, { page });
+}
+
+// ---------------------------------------------------------------------------
+// 3. createCursorTargetEvents
+// ---------------------------------------------------------------------------
+
+/**
+ * `cursor_move` events that follow a typed block as it appears: the cursor
+ * sweeps along each line while it types in (see
+ * {@link BOARD_REVEAL_FRACTION}), each line getting time in proportion to
+ * its length, then rests at the end of the last line until {@link endTime}.
+ *
+ * Handwritten blocks, diagrams and equations have their own pen-following
+ * cursor events and get none here.
+ */
+export function createCursorTargetEvents(
+  placement: BoardPlacement,
+  startTime: number,
+  endTime: number,
+  options: CursorTargetOptions = {},
+): TimelineEvent[] {
+  const { lines, style } = placement;
+  if (placement.handwritten || lines.length === 0 || endTime <= startTime) return [];
+
+  const measure = options.measure ?? estimateTextWidth;
+  const blockPayload = options.blockId ? { blockId: options.blockId } : {};
+  const middle = (line: BoardLine): number => line.y + (style.fontSize * style.lineHeight) / 2;
+  const totalChars = lines.reduce((sum, line) => sum + Math.max(1, line.text.length), 0);
+  const revealEnd = startTime + (endTime - startTime) * BOARD_REVEAL_FRACTION;
+  const events: TimelineEvent[] = [];
+  let time = startTime;
+  let chars = 0;
+
+  for (const line of lines) {
+    chars += Math.max(1, line.text.length);
+    const lineEnd = startTime + ((revealEnd - startTime) * chars) / totalChars;
+    events.push(
+      createTimelineEvent('cursor_move', time, lineEnd, {
+        ...blockPayload,
+        path: [
+          { x: line.x, y: middle(line) },
+          { x: line.x + measure(line.text, style), y: middle(line) },
+        ],
+      }),
+    );
+    time = lineEnd;
+  }
+
+  const last = lines[lines.length - 1]!;
+  events.push(
+    createTimelineEvent('cursor_move', revealEnd, endTime, {
+      ...blockPayload,
+      position: { x: last.x + measure(last.text, style), y: middle(last) },
+    }),
+  );
+
+  return events.filter((event) => event.endTime > event.startTime);
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Smallest box around every stroke, or `null` without strokes. */
+function unionStrokeBounds(strokes: Stroke[]): BoundingBox | null {
+  const boxes = strokes.filter((stroke) => stroke.points.length > 0).map(calculateBoundingBox);
+  if (boxes.length === 0) return null;
+
+  const left = Math.min(...boxes.map((box) => box.x));
+  const top = Math.min(...boxes.map((box) => box.y));
+  const right = Math.max(...boxes.map((box) => box.x + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
@@ -0,0 +1,794 @@
+import type { Point, Stroke } from '@classflowai/types';
+import { createStroke, translateStroke } from './drawing';
+import {
+  createPenEvents,
+  estimatePenDuration,
+  getHandwritingBaseline,
+  handwriteText,
+  measureHandwriting,
+} from './handwriting';
+import type { PenEventOptions, PenEvents } from './handwriting';
+import { createTimelineEvent } from './timeline';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * How a multi-line equation appears: every line written in one go, or line
+ * by line as the steps of a derivation.
+ */
+export type EquationRevealMode = 'all' | 'steps';
+
+export interface EquationTypesetOptions {
+  fontSize: number;
+  /** Largest size (px); the equation is set at a smaller size to fit. */
+  maxWidth?: number;
+  maxHeight?: number;
+  color?: string;
+}
+
+/** One typeset line (derivation step) of an equation. */
+export interface TypesetLine {
+  /** LaTeX source of the line. */
+  source: string;
+  /** Top-left corner and size of the line within the equation. */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Pen strokes of the line, in equation coordinates. */
+  strokes: Stroke[];
+}
+
+export interface TypesetEquation {
+  lines: TypesetLine[];
+  width: number;
+  height: number;
+  /** Font size the equation was set at, after fitting. */
+  fontSize: number;
+}
+
+export interface EquationEventOptions extends PenEventOptions {
+  /** Defaults to `steps`. */
+  mode?: EquationRevealMode;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Height above / depth below the baseline of a text run, per unit of font size. */
+const ASCENT_RATIO = 0.75;
+const DESCENT_RATIO = 0.25;
+
+/** Space between neighbouring atoms, and extra space around operators. */
+const ATOM_GAP = 0.08;
+const BINARY_GAP = 0.2;
+const RELATION_GAP = 0.28;
+
+/** Scripts and fractions are set smaller than their surroundings. */
+const SCRIPT_SCALE = 0.7;
+const FRACTION_SCALE = 0.85;
+
+/** Raise of superscripts / drop of subscripts, per unit of font size. */
+const SUPERSCRIPT_SHIFT = 0.42;
+const SUBSCRIPT_SHIFT = 0.22;
+
+/** Height of fraction bars above the baseline, per unit of font size. */
+const MATH_AXIS = 0.3;
+
+/** Vertical space between equation lines, per unit of font size. */
+const LINE_GAP = 0.45;
+
+/** Pause (ms) after each derivation step while the cursor points at it. */
+const STEP_HOLD_MS = 900;
+
+/** Pause (ms) between lines when an equation is written in one go. */
+const LINE_PAUSE_MS = 250;
+
+/** Distance (px) to the left of a step where the cursor points. */
+const POINTER_OFFSET = 18;
+
+const DEFAULT_COLOR = '#ffffff';
+
+/** Commands standing for a single symbol. */
+const SYMBOL_COMMANDS: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', varepsilon: 'ε',
+  theta: 'θ', vartheta: 'θ', lambda: 'λ', mu: 'μ', pi: 'π', rho: 'ρ',
+  sigma: 'σ', tau: 'τ', phi: 'φ', varphi: 'φ', omega: 'ω',
+  Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Omega: 'Ω',
+  times: '×', cdot: '·', pm: '±', le: '≤', leq: '≤', ge: '≥', geq: '≥',
+  ne: '≠', neq: '≠', approx: '≈', to: '→', rightarrow: '→', Rightarrow: '⇒',
+  implies: '⇒', infty: '∞', int: '∫', sum: 'Σ', prod: 'Π', partial: '∂',
+  nabla: '∇', lt: '<', gt: '>', '{': '{', '}': '}', '%': '%', '|': '|',
+};
+
+/** Commands typeset as upright words. */
+const FUNCTION_COMMANDS = new Set([
+  'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'log', 'ln', 'exp',
+  'lim', 'max', 'min', 'det', 'gcd', 'arcsin', 'arccos', 'arctan',
+]);
+
+/** Commands whose argument is set as plain text. */
+const TEXT_COMMANDS = new Set([
+  'text', 'textrm', 'textbf', 'textit', 'mathrm', 'mathbf', 'mathit', 'operatorname',
+]);
+
+/** Sizing and delimiter commands that add nothing to the drawing. */
+const IGNORED_COMMANDS = new Set([
+  'left', 'right', 'big', 'Big', 'bigg', 'Bigg', 'bigl', 'bigr', 'Bigl', 'Bigr',
+  'displaystyle', 'limits', 'nolimits',
+]);
+
+/** Spacing commands, in em. */
+const SPACE_COMMANDS: Record<string, number> = {
+  ',': 0.17, ':': 0.22, ';': 0.28, '!': -0.17, ' ': 0.25, quad: 1, qquad: 2,
+};
+
+const BINARY_OPERATORS = new Set(['+', '-', '±', '×', '·', '*']);
+const RELATIONS = new Set(['=', '<', '>', '≤', '≥', '≠', '≈', '→', '⇒']);
+
+/** How symbols are read out. */
+const SPOKEN_SYMBOLS: Record<string, string> = {
+  '+': 'plus', '-': 'minus', '±': 'plus or minus', '×': 'times', '·': 'times',
+  '*': 'times', '/': 'over', '=': 'equals', '<': 'is less than',
+  '>': 'is greater than', '≤': 'is less than or equal to',
+  '≥': 'is greater than or equal to', '≠': 'is not equal to',
+  '≈': 'is approximately', '→': 'tends to', '⇒': 'which implies',
+  '∞': 'infinity', '∫': 'the integral of', '∂': 'partial', '∇': 'nabla',
+  'Σ': 'the sum of', 'Π': 'the product of', '!': 'factorial', '%': 'percent',
+  ',': ',', 'α': 'alpha', 'β': 'beta', 'γ': 'gamma', 'δ': 'delta',
+  'ε': 'epsilon', 'θ': 'theta', 'λ': 'lambda', 'μ': 'mu', 'π': 'pi',
+  'ρ': 'rho', 'σ': 'sigma', 'τ': 'tau', 'φ': 'phi', 'ω': 'omega',
+  'Δ': 'delta', 'Θ': 'theta', 'Λ': 'lambda', 'Φ': 'phi', 'Ω': 'omega',
+};
+
+/** Operators whose scripts are limits, as read before those limits. */
+const BIG_OPERATORS: Record<string, string> = {
+  '∫': 'the integral',
+  'Σ': 'the sum',
+  'Π': 'the product',
+};
+
+// ---------------------------------------------------------------------------
+// 1. typesetEquation
+// ---------------------------------------------------------------------------
+
+/**
+ * Typeset a LaTeX subset into handwriting strokes, one {@link TypesetLine}
+ * per line.
+ *
+ * Supported: letters, digits and operators, `^` / `_` scripts, `\frac`,
+ * `\sqrt`, `\text` and friends, Greek letters, common relation and operator
+ * symbols, named functions (`\sin`, `\log`, …) and spacing commands.
+ * Lines are split on `\\` (or on new lines when there is none), and lines
+ * containing `&` are aligned on it, as in an `aligned` environment.
+ * Anything else is drawn as written rather than rejected.
+ */
+export function typesetEquation(
+  latex: string,
+  options: EquationTypesetOptions,
+): TypesetEquation {
+  const sources = splitEquationLines(latex);
+  const rows = sources.map((source) => new MathParser(source).parse());
+
+  const color = options.color ?? DEFAULT_COLOR;
+  const equation = setLines(sources, rows, options.fontSize, color);
+  const scale = Math.min(
+    1,
+    (options.maxWidth ?? Infinity) / equation.width,
+    (options.maxHeight ?? Infinity) / equation.height,
+  );
+
+  // Every dimension scales with the font size, so one resize fits exactly.
+  return scale < 1 ? setLines(sources, rows, options.fontSize * scale, color) : equation;
+}
+
+// ---------------------------------------------------------------------------
+// 2. getEquationNarration
+// ---------------------------------------------------------------------------
+
+/**
+ * Read a LaTeX equation out in words — `x^2 - 4 = 0` becomes "x squared
+ * minus 4 equals 0" — one sentence per line, for narration.
+ */
+export function getEquationNarration(latex: string): string {
+  return splitEquationLines(latex)
+    .map((source) => speakNodes(new MathParser(source).parse()))
+    .filter((sentence) => sentence.length > 0)
+    .map((sentence) => `${sentence}.`)
+    .join(' ');
+}
+
+// ---------------------------------------------------------------------------
+// 3. estimateEquationDuration
+// ---------------------------------------------------------------------------
+
+/**
+ * Natural time (ms) it takes to write {@link equation} in the given mode,
+ * including the pause on every step in `steps` mode.
+ */
+export function estimateEquationDuration(
+  equation: TypesetEquation,
+  mode: EquationRevealMode = 'steps',
+): number {
+  const lines = equation.lines.filter((line) => line.strokes.length > 0);
+
+  if (mode === 'all') {
+    return estimatePenDuration(
+      lines.map((line) => ({ strokes: line.strokes, pauseBefore: LINE_PAUSE_MS })),
+    );
+  }
+
+  return lines.reduce(
+    (sum, line) => sum + estimatePenDuration([{ strokes: line.strokes, pauseBefore: 0 }]) + STEP_HOLD_MS,
+    0,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// 4. createEquationEvents
+// ---------------------------------------------------------------------------
+
+/**
+ * Schedule {@link equation}, placed with its top-left corner at
+ * {@link origin}, as `draw_stroke` events starting at {@link startTime}.
+ *
+ * In `steps` mode each line is written on its own and followed by a
+ * `cursor_move` that points at it for a moment, so a derivation unfolds
+ * step by step; in `all` mode the lines are written one after the other
+ * without stopping.  Everything is compressed to fit
+ * {@link EquationEventOptions.maxDuration}.
+ */
+export function createEquationEvents(
+  equation: TypesetEquation,
+  origin: Point,
+  startTime: number,
+  options: EquationEventOptions = {},
+): PenEvents {
+  const { mode = 'steps', ...penOptions } = options;
+  const lines = equation.lines
+    .filter((line) => line.strokes.length > 0)
+    .map((line) => ({
+      ...line,
+      strokes: line.strokes.map((stroke) => translateStroke(stroke, origin.x, origin.y)),
+    }));
+
+  if (mode === 'all') {
+    return createPenEvents(
+      lines.map((line) => ({ strokes: line.strokes, pauseBefore: LINE_PAUSE_MS })),
+      startTime,
+      penOptions,
+    );
+  }
+
+  const natural = estimateEquationDuration(equation, 'steps');
+  const factor = options.maxDuration !== undefined && natural > options.maxDuration
+    ? options.maxDuration / natural
+    : 1;
+  const blockPayload = options.blockId ? { blockId: options.blockId } : {};
+  const events: PenEvents['events'] = [];
+  let time = startTime;
+
+  for (const line of lines) {
+    const groups = [{ strokes: line.strokes, pauseBefore: 0 }];
+    const writing = createPenEvents(groups, time, {
+      ...penOptions,
+      maxDuration: estimatePenDuration(groups) * factor,
+    });
+    const holdEnd = writing.endTime + STEP_HOLD_MS * factor;
+
+    events.push(
+      ...writing.events,
+      createTimelineEvent('cursor_move', writing.endTime, holdEnd, {
+        ...blockPayload,
+        position: {
+          x: origin.x + line.x - POINTER_OFFSET,
+          y: origin.y + line.y + line.height / 2,
+        },
+      }),
+    );
+    time = holdEnd;
+  }
+
+  return { events, endTime: time };
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+type SymbolClass = 'ord' | 'binary' | 'relation' | 'punct';
+
+type MathNode =
+  | { type: 'symbol'; char: string; class: SymbolClass }
+  | { type: 'text'; text: string }
+  | { type: 'row'; children: MathNode[] }
+  | { type: 'scripts'; base: MathNode; sup: MathNode | null; sub: MathNode | null }
+  | { type: 'frac'; num: MathNode; den: MathNode }
+  | { type: 'sqrt'; body: MathNode }
+  | { type: 'space'; em: number }
+  | { type: 'align' };
+
+/**
+ * Split equation source into lines: on top-level `\\` when present,
+ * otherwise on new lines.  Environment markers are dropped.
+ */
+function splitEquationLines(latex: string): string[] {
+  const source = latex.replace(/\\(?:begin|end)\{[^}]*\}/g, '');
+  const lines: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  if (!source.includes('\\\\')) {
+    return source.split('\n').map((line) => line.trim()).filter((line) => line.length > 0);
+  }
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]!;
+    if (char === '\\' && source[i + 1] === '\\' && depth === 0) {
+      lines.push(current);
+      current = '';
+      i++;
+      continue;
+    }
+    if (char === '\\' && i + 1 < source.length) {
+      // Keep escapes such as `\{` intact so they do not change the depth.
+      current += char + source[i + 1];
+      i++;
+      continue;
+    }
+    if (char === '{') depth++;
+    if (char === '}') depth = Math.max(0, depth - 1);
+    current += char;
+  }
+
+  lines.push(current);
+  return lines.map((line) => line.replace(/\s+/g, ' ').trim()).filter((line) => line.length > 0);
+}
+
+/**
+ * Recursive-descent parser for the supported LaTeX subset.  It never fails:
+ * unbalanced braces are closed at the end and unknown commands are kept as
+ * their name.
+ */
+class MathParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): MathNode[] {
+    return this.parseRow(false);
+  }
+
+  private parseRow(nested: boolean): MathNode[] {
+    const nodes: MathNode[] = [];
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos]!;
+
+      if (char === '}') {
+        if (nested) break;
+        this.pos++;
+        continue;
+      }
+      if (/\s/.test(char)) {
+        this.pos++;
+        continue;
+      }
+      if (char === '^' || char === '_') {
+        this.pos++;
+        const script = this.parseArgument();
+        const previous = nodes.pop();
+        const base = previous?.type === 'scripts'
+          ? previous
+          : { type: 'scripts' as const, base: previous ?? { type: 'row' as const, children: [] }, sup: null, sub: null };
+        nodes.push(char === '^' ? { ...base, sup: script } : { ...base, sub: script });
+        continue;
+      }
+
+      const node = this.parseAtom();
+      if (node) nodes.push(node);
+    }
+
+    return nodes;
+  }
+
+  /** A braced group or a single atom, as taken by `^`, `\frac`, … */
+  private parseArgument(): MathNode {
+    while (/\s/.test(this.source[this.pos] ?? '')) this.pos++;
+    return this.parseAtom() ?? { type: 'row', children: [] };
+  }
+
+  private parseAtom(): MathNode | null {
+    const char = this.source[this.pos];
+    if (char === undefined) return null;
+
+    if (char === '{') {
+      this.pos++;
+      const children = this.parseRow(true);
+      this.pos++; // closing brace, if any
+      return { type: 'row', children };
+    }
+    if (char === '\\') {
+      this.pos++;
+      return this.parseCommand();
+    }
+
+    this.pos++;
+    if (char === '&') return { type: 'align' };
+    if (char === '~') return { type: 'space', em: SPACE_COMMANDS[' ']! };
+    return symbolNode(char);
+  }
+
+  private parseCommand(): MathNode | null {
+    const name = /^[A-Za-z]+/.exec(this.source.slice(this.pos))?.[0] ?? this.source[this.pos] ?? '';
+    this.pos += name.length;
+
+    if (name === 'frac' || name === 'dfrac' || name === 'tfrac') {
+      return { type: 'frac', num: this.parseArgument(), den: this.parseArgument() };
+    }
+    if (name === 'sqrt') {
+      if (this.source[this.pos] === '[') this.readUntil(']');
+      return { type: 'sqrt', body: this.parseArgument() };
+    }
+    if (TEXT_COMMANDS.has(name)) {
+      while (/\s/.test(this.source[this.pos] ?? '')) this.pos++;
+      if (this.source[this.pos] !== '{') return null;
+      this.pos++;
+      return { type: 'text', text: this.readUntil('}') };
+    }
+    if (name === 'begin' || name === 'end') {
+      if (this.source[this.pos] === '{') this.readUntil('}');
+      return null;
+    }
+    if (IGNORED_COMMANDS.has(name)) {
+      // `\right.` closes an invisible delimiter.
+      if (this.source[this.pos] === '.') this.pos++;
+      return null;
+    }
+    if (name in SPACE_COMMANDS) return { type: 'space', em: SPACE_COMMANDS[name]! };
+    if (name === '\\') return { type: 'space', em: SPACE_COMMANDS[' ']! };
+    if (name === 'ldots' || name === 'cdots' || name === 'dots') return { type: 'text', text: '...' };
+    if (FUNCTION_COMMANDS.has(name)) return { type: 'text', text: name };
+
+    const symbol = SYMBOL_COMMANDS[name];
+    return symbol ? symbolNode(symbol) : { type: 'text', text: name };
+  }
+
+  /** Read raw text up to (and past) {@link end}, honouring nested braces. */
+  private readUntil(end: string): string {
+    const open = end === '}' ? '{' : '[';
+    const start = this.pos;
+    let depth = 0;
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos]!;
+      if (char === open && this.pos > start) depth++;
+      if (char === end) {
+        if (depth === 0) break;
+        depth--;
+      }
+      this.pos++;
+    }
+
+    const text = this.source.slice(start, this.pos);
+    this.pos++;
+    return text.replace(/^\[/, '');
+  }
+}
+
+function symbolNode(char: string): MathNode {
+  const symbolClass: SymbolClass = BINARY_OPERATORS.has(char)
+    ? 'binary'
+    : RELATIONS.has(char)
+      ? 'relation'
+      : char === ',' || char === ';'
+        ? 'punct'
+        : 'ord';
+  return { type: 'symbol', char, class: symbolClass };
+}
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+type MathItem =
+  | { kind: 'text'; text: string; x: number; baseline: number; fontSize: number }
+  | { kind: 'path'; points: Point[]; width: number };
+
+/** A laid-out node: x grows right from 0, y grows down from the baseline. */
+interface MathBox {
+  width: number;
+  ascent: number;
+  descent: number;
+  items: MathItem[];
+  /** Position of the first `&`, for rows. */
+  alignX?: number;
+}
+
+function setLines(
+  sources: string[],
+  rows: MathNode[][],
+  fontSize: number,
+  color: string,
+): TypesetEquation {
+  const boxes = rows.map((nodes) => layoutRow(nodes, fontSize));
+  const alignX = Math.max(0, ...boxes.map((box) => box.alignX ?? 0));
+  const alignedWidth = Math.max(
+    0,
+    ...boxes.filter((box) => box.alignX !== undefined).map((box) => alignX - box.alignX! + box.width),
+  );
+  const width = Math.max(alignedWidth, ...boxes.map((box) => box.width), 0);
+
+  const lines: TypesetLine[] = [];
+  let y = 0;
+
+  boxes.forEach((box, index) => {
+    const x = box.alignX !== undefined ? alignX - box.alignX : (width - box.width) / 2;
+    const baseline = y + box.ascent;
+
+    lines.push({
+      source: sources[index]!,
+      x,
+      y,
+      width: box.width,
+      height: box.ascent + box.descent,
+      strokes: box.items.flatMap((item) => drawItem(item, x, baseline, color)),
+    });
+    y = baseline + box.descent + fontSize * LINE_GAP;
+  });
+
+  const height = lines.length > 0 ? y - fontSize * LINE_GAP : 0;
+  return { lines, width, height, fontSize };
+}
+
+function layoutNode(node: MathNode, fontSize: number): MathBox {
+  switch (node.type) {
+    case 'symbol':
+      return textBox(node.char, fontSize);
+    case 'text':
+      return textBox(node.text, fontSize);
+    case 'row':
+      return layoutRow(node.children, fontSize);
+    case 'scripts':
+      return layoutScripts(node, fontSize);
+    case 'frac':
+      return layoutFraction(node, fontSize);
+    case 'sqrt':
+      return layoutRoot(node, fontSize);
+    case 'space':
+      return { width: node.em * fontSize, ascent: 0, descent: 0, items: [] };
+    case 'align':
+      return { width: 0, ascent: 0, descent: 0, items: [] };
+  }
+}
+
+/**
+ * Set nodes side by side.  Runs of ordinary symbols are written as one word
+ * so letters get the handwriting's own spacing; operators get extra room
+ * unless they are unary (a leading minus).
+ */
+function layoutRow(nodes: MathNode[], fontSize: number): MathBox {
+  const row: MathBox = { width: 0, ascent: fontSize * ASCENT_RATIO, descent: fontSize * DESCENT_RATIO, items: [] };
+  let run = '';
+  let previous: MathNode | null = null;
+
+  const append = (box: MathBox, gapBefore: number, gapAfter = 0): void => {
+    const x = row.width > 0 ? row.width + gapBefore : 0;
+    row.items.push(...box.items.map((item) => shiftItem(item, x, 0)));
+    row.width = x + box.width + gapAfter;
+    row.ascent = Math.max(row.ascent, box.ascent);
+    row.descent = Math.max(row.descent, box.descent);
+  };
+
+  const flush = (): void => {
+    if (run.length === 0) return;
+    append(textBox(run, fontSize), fontSize * ATOM_GAP);
+    run = '';
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'symbol' && node.class === 'ord') {
+      run += node.char;
+      previous = node;
+      continue;
+    }
+    flush();
+
+    if (node.type === 'align') {
+      row.alignX ??= row.width;
+    } else if (node.type === 'symbol' && node.class !== 'punct') {
+      const unary = node.class === 'binary' && (previous === null || isOperator(previous));
+      const gap = unary ? fontSize * ATOM_GAP : fontSize * (node.class === 'relation' ? RELATION_GAP : BINARY_GAP);
+      append(textBox(node.char, fontSize), gap, unary ? 0 : gap);
+    } else {
+      append(layoutNode(node, fontSize), node.type === 'space' ? 0 : fontSize * ATOM_GAP);
+    }
+
+    if (node.type !== 'space' && node.type !== 'align') previous = node;
+  }
+
+  flush();
+  return row;
+}
+
+function layoutScripts(
+  node: Extract<MathNode, { type: 'scripts' }>,
+  fontSize: number,
+): MathBox {
+  const base = layoutNode(node.base, fontSize);
+  const scriptSize = fontSize * SCRIPT_SCALE;
+  const x = base.width + fontSize * 0.05;
+  const box: MathBox = { ...base, items: [...base.items] };
+
+  if (node.sup) {
+    const sup = layoutNode(node.sup, scriptSize);
+    const shift = fontSize * SUPERSCRIPT_SHIFT;
+    box.items.push(...sup.items.map((item) => shiftItem(item, x, -shift)));
+    box.width = Math.max(box.width, x + sup.width);
+    box.ascent = Math.max(box.ascent, shift + sup.ascent);
+  }
+  if (node.sub) {
+    const sub = layoutNode(node.sub, scriptSize);
+    const shift = fontSize * SUBSCRIPT_SHIFT;
+    box.items.push(...sub.items.map((item) => shiftItem(item, x, shift)));
+    box.width = Math.max(box.width, x + sub.width);
+    box.descent = Math.max(box.descent, shift + sub.descent);
+  }
+
+  return box;
+}
+
+function layoutFraction(
+  node: Extract<MathNode, { type: 'frac' }>,
+  fontSize: number,
+): MathBox {
+  const innerSize = fontSize * FRACTION_SCALE;
+  const num = layoutNode(node.num, innerSize);
+  const den = layoutNode(node.den, innerSize);
+  const axis = fontSize * MATH_AXIS;
+  const gap = fontSize * 0.15;
+  const margin = fontSize * 0.08;
+  const barWidth = Math.max(num.width, den.width) + fontSize * 0.2;
+
+  const numBaseline = -axis - gap - num.descent;
+  const denBaseline = -axis + gap + den.ascent;
+
+  return {
+    width: barWidth + margin * 2,
+    ascent: -numBaseline + num.ascent,
+    descent: denBaseline + den.descent,
+    items: [
+      ...num.items.map((item) => shiftItem(item, margin + (barWidth - num.width) / 2, numBaseline)),
+      { kind: 'path', points: [{ x: margin, y: -axis }, { x: margin + barWidth, y: -axis }], width: penWidth(fontSize) },
+      ...den.items.map((item) => shiftItem(item, margin + (barWidth - den.width) / 2, denBaseline)),
+    ],
+  };
+}
+
+function layoutRoot(
+  node: Extract<MathNode, { type: 'sqrt' }>,
+  fontSize: number,
+): MathBox {
+  const body = layoutNode(node.body, fontSize);
+  const top = body.ascent + fontSize * 0.15;
+  const bottom = body.descent;
+  const lead = fontSize * 0.7;
+
+  return {
+    width: lead + body.width + fontSize * 0.15,
+    ascent: top + fontSize * 0.05,
+    descent: bottom,
+    items: [
+      {
+        kind: 'path',
+        points: [
+          { x: 0, y: -top * 0.45 },
+          { x: fontSize * 0.15, y: -top * 0.55 },
+          { x: fontSize * 0.35, y: bottom },
+          { x: lead - fontSize * 0.1, y: -top },
+          { x: lead + body.width + fontSize * 0.1, y: -top },
+        ],
+        width: penWidth(fontSize),
+      },
+      ...body.items.map((item) => shiftItem(item, lead, 0)),
+    ],
+  };
+}
+
+function textBox(text: string, fontSize: number): MathBox {
+  return {
+    width: measureHandwriting(text, fontSize),
+    ascent: fontSize * ASCENT_RATIO,
+    descent: fontSize * DESCENT_RATIO,
+    items: [{ kind: 'text', text, x: 0, baseline: 0, fontSize }],
+  };
+}
+
+function shiftItem(item: MathItem, dx: number, dy: number): MathItem {
+  return item.kind === 'text'
+    ? { ...item, x: item.x + dx, baseline: item.baseline + dy }
+    : { ...item, points: item.points.map((p) => ({ x: p.x + dx, y: p.y + dy })) };
+}
+
+function drawItem(item: MathItem, x: number, baseline: number, color: string): Stroke[] {
+  if (item.kind === 'path') {
+    const points = item.points.map((p) => ({ x: p.x + x, y: p.y + baseline }));
+    return [createStroke(points, color, item.width)];
+  }
+
+  const origin = {
+    x: item.x + x,
+    y: item.baseline + baseline - getHandwritingBaseline(item.fontSize),
+  };
+  return handwriteText(item.text, origin, { fontSize: item.fontSize, color })
+    .glyphs.flatMap((glyph) => glyph.strokes);
+}
+
+function penWidth(fontSize: number): number {
+  return Math.max(1.5, fontSize / 12);
+}
+
+function isOperator(node: MathNode): boolean {
+  return node.type === 'symbol' && node.class !== 'ord';
+}
+
+// ---------------------------------------------------------------------------
+// Narration
+// ---------------------------------------------------------------------------
+
+function speakNodes(nodes: MathNode[]): string {
+  return nodes.map(speakNode).filter((words) => words.length > 0).join(' ');
+}
+
+function speakNode(node: MathNode): string {
+  switch (node.type) {
+    case 'symbol':
+      return speakText(node.char);
+    case 'text':
+      return speakText(node.text);
+    case 'row':
+      return speakNodes(node.children);
+    case 'scripts': {
+      // Limits of big operators read as a range: "the sum from i equals 1 to n of".
+      const operator = node.base.type === 'symbol' ? BIG_OPERATORS[node.base.char] : undefined;
+      if (operator) {
+        const range = [
+          node.sub ? `from ${speakNode(node.sub)}` : '',
+          node.sup ? `to ${speakNode(node.sup)}` : '',
+        ];
+        return [operator, ...range, 'of'].filter((word) => word.length > 0).join(' ');
+      }
+
+      const words = [speakNode(node.base)];
+      if (node.sub) words.push('sub', speakNode(node.sub));
+      if (node.sup) {
+        const power = speakNode(node.sup);
+        words.push(power === '2' ? 'squared' : power === '3' ? 'cubed' : `to the power of ${power}`);
+      }
+      return words.filter((word) => word.length > 0).join(' ');
+    }
+    case 'frac':
+      return `${speakNode(node.num)} over ${speakNode(node.den)}`;
+    case 'sqrt':
+      return `the square root of ${speakNode(node.body)}`;
+    case 'space':
+    case 'align':
+      return '';
+  }
+}
+
+/** Numbers stay whole, letters are read one by one, symbols by name. */
+function speakText(text: string): string {
+  if (/^[A-Za-z]{2,}$/.test(text)) return text;
+
+  const words: string[] = [];
+  for (const match of text.matchAll(/\d+(?:\.\d+)?|\S/g)) {
+    const token = match[0];
+    const spoken = SPOKEN_SYMBOLS[token] ?? (/[\w.]/.test(token) ? token : '');
+    if (spoken) words.push(spoken);
+  }
+  return words.join(' ');
+}
@@ -1,5 +1,14 @@
-import type { NarrationState, NarrationSegmentConfig, WordTiming } from '@classflowai/types';
+import type {
+  ExplanationBlock,
+  NarrationState,
+  NarrationSegmentConfig,
+  TimelineEvent,
+  WordTiming,
+} from '@classflowai/types';
 import { generateId } from '@classflowai/utils';
+import { getCodeNarration } from './code';
+import { compileDiagram, getDiagramNarration } from './diagram';
+import { getEquationNarration } from './math';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -456,6 +465,55 @@ export function mergeAdjacentSegments(
   return merged;
 }
 
+// ---------------------------------------------------------------------------
+// 18. narrationSegmentFromEvent
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert a `narration_segment` {@link TimelineEvent} into a
+ * {@link NarrationSegmentConfig}, keeping the event id so the segment can be
+ * matched against {@link NarrationState.currentSegmentId}.
+ *
+ * Word timings carried by the event (from synthesized audio) are used as-is;
+ * events without them get timings estimated over the event's time range.
+ */
+export function narrationSegmentFromEvent(event: TimelineEvent): NarrationSegmentConfig {
+  const text = event.payload.text ?? '';
+  const wordTimings = event.payload.wordTimings && event.payload.wordTimings.length > 0
+    ? event.payload.wordTimings
+    : estimateWordTimings(text, event.startTime, event.endTime);
+
+  return {
+    id: event.id,
+    text,
+    startTime: event.startTime,
+    endTime: event.endTime,
+    audioUrl: event.payload.audioUrl ?? null,
+    wordTimings,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 19. getBlockNarrationText
+// ---------------------------------------------------------------------------
+
+/**
+ * Text spoken while {@link block} is presented.  Diagrams written in the
+ * diagram language are described by {@link getDiagramNarration}, equations
+ * read out by {@link getEquationNarration} and code walked through by
+ * {@link getCodeNarration} rather than spoken as source; everything else is
+ * narrated as written.
+ */
+export function getBlockNarrationText(block: ExplanationBlock): string {
+  if (block.type === 'equation') return getEquationNarration(block.content);
+  if (block.type === 'code') return getCodeNarration(block.content, block.language);
+  if (block.type === 'diagram') {
+    const diagram = compileDiagram(block.content);
+    if (diagram.shapes.length > 0) return getDiagramNarration(diagram);
+  }
+  return block.content;
+}
+
 // ---------------------------------------------------------------------------
 // Internal helpers
 // ---------------------------------------------------------------------------
@@ -11,6 +11,8 @@ import type {
   PlaybackConfig,
   PlaybackEventMap,
   ActiveEventsByType,
+  ChapterEdge,
+  ChapterGraph,
 } from '@classflowai/types';
 import { now, logger } from '@classflowai/utils';
 import {
@@ -31,7 +33,13 @@ import {
   getPointAtDistance,
   calculatePathLength,
 } from './drawing';
-import { createNarrationState, activateNarration } from './narration';
+import {
+  createNarrationState,
+  activateNarration,
+  setVolume as setNarrationVolume,
+} from './narration';
+import { getChapterAtTime, resolveChapterTransition } from './chapters';
+import type { ChapterContext } from './chapters';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -40,11 +48,13 @@ import { createNarrationState, activateNarration } from './narration';
 const DEFAULT_TARGET_FPS = 60;
 const DEFAULT_MAX_DELTA_MS = 100;
 const DEFAULT_AUTO_PLAY = false;
+const DEFAULT_PAUSE_AT_QUIZZES = true;
 
 const DEFAULT_CONFIG: PlaybackConfig = {
   targetFps: DEFAULT_TARGET_FPS,
   maxDeltaMs: DEFAULT_MAX_DELTA_MS,
   autoPlay: DEFAULT_AUTO_PLAY,
+  pauseAtQuizzes: DEFAULT_PAUSE_AT_QUIZZES,
 };
 
 // ---------------------------------------------------------------------------
@@ -56,6 +66,18 @@ interface ListenerMap {
   stateChange: Set<PlaybackEventMap['stateChange']>;
   complete: Set<PlaybackEventMap['complete']>;
   seek: Set<PlaybackEventMap['seek']>;
+  branch: Set<PlaybackEventMap['branch']>;
+  chapter: Set<PlaybackEventMap['chapter']>;
+  choice: Set<PlaybackEventMap['choice']>;
+  quiz: Set<PlaybackEventMap['quiz']>;
+}
+
+/** The main timeline, put aside while a branch plays. */
+interface BranchReturn {
+  tracks: TimelineTrack[];
+  state: EngineState;
+  /** Tracks passed to {@link LessonPlaybackEngine.extend} during the branch. */
+  pending: TimelineTrack[];
 }
 
 // ---------------------------------------------------------------------------
@@ -80,6 +102,21 @@ interface ListenerMap {
  * full derived state (cursor, drawing, narration) at the current time.
  * Because snapshots are recomputed from scratch, operations like
  * {@link seek} are trivially correct.
+ *
+ * **Branches** – {@link enterBranch} plays another timeline, such as the
+ * answer to a question asked mid-lesson, in place of the loaded one.  When
+ * the branch ends, or on {@link exitBranch}, playback returns to where it
+ * left the main timeline and carries on.
+ *
+ * **Chapters** – with a {@link ChapterGraph} loaded via
+ * {@link setChapterGraph}, playback follows the graph instead of running
+ * straight through: at the end of each chapter it seeks to the next one on
+ * the learner's path, pauses for a choice, or ends.  The tracks are never
+ * rebuilt, so jumping between chapters is as cheap as a seek.
+ *
+ * **Quizzes** – playback pauses at every `quiz_checkpoint` event and only
+ * goes on once the quiz is answered ({@link setQuizResult}) or skipped
+ * ({@link skipQuiz}).  Quizzes already answered are passed over.
  */
 export class LessonPlaybackEngine {
   // -----------------------------------------------------------------------
@@ -91,6 +128,8 @@ export class LessonPlaybackEngine {
   private _config: PlaybackConfig;
   private _lastTickTimestamp: number;
   private _lastSnapshot: PlaybackSnapshot | null;
+  /** Narration volume in [0, 1], carried into every snapshot. */
+  private _volume: number;
 
   /** Timer handle for the self-managed loop (`null` when not running). */
   private _loopTimer: ReturnType<typeof setTimeout> | null;
@@ -101,6 +140,22 @@ export class LessonPlaybackEngine {
 
   private _listeners: ListenerMap;
 
+  /** Where to return to while a branch plays (`null` outside branches). */
+  private _branchReturn: BranchReturn | null;
+
+  private _chapterGraph: ChapterGraph | null;
+  private _chapterId: string | null;
+  private _chapterContext: ChapterContext;
+  /** Edges offered at the end of the current chapter, awaiting {@link choose}. */
+  private _pendingChoice: ChapterEdge[] | null;
+  /** The learner's path ended before the end of the timeline. */
+  private _pathEnded: boolean;
+
+  /** Quiz whose checkpoint playback stopped at, until it goes on. */
+  private _pendingQuiz: string | null;
+  /** Quizzes passed over without an answer, not to be stopped at again. */
+  private _skippedQuizzes: Set<string>;
+
   // -----------------------------------------------------------------------
   // Constructor
   // -----------------------------------------------------------------------
@@ -111,6 +166,7 @@ export class LessonPlaybackEngine {
     this._tracks = [];
     this._lastTickTimestamp = 0;
     this._lastSnapshot = null;
+    this._volume = 1;
     this._loopTimer = null;
     this._loopRunning = false;
     this._nextTickTime = 0;
@@ -119,13 +175,48 @@ export class LessonPlaybackEngine {
       stateChange: new Set(),
       complete: new Set(),
       seek: new Set(),
+      branch: new Set(),
+      chapter: new Set(),
+      choice: new Set(),
+      quiz: new Set(),
     };
+    this._branchReturn = null;
+    this._chapterGraph = null;
+    this._chapterId = null;
+    this._chapterContext = { quizResults: {} };
+    this._pendingChoice = null;
+    this._pathEnded = false;
+    this._pendingQuiz = null;
+    this._skippedQuizzes = new Set();
   }
 
   // -----------------------------------------------------------------------
   // Public getters
   // -----------------------------------------------------------------------
 
+  /** Whether a branch is playing in place of the main timeline. */
+  get inBranch(): boolean {
+    return this._branchReturn !== null;
+  }
+
+  /** Chapter being played, or `null` without a chapter graph. */
+  get chapterId(): string | null {
+    return this._chapterId;
+  }
+
+  /** Edges the learner must choose between before playback continues. */
+  get pendingChoice(): ChapterEdge[] | null {
+    return this._pendingChoice;
+  }
+
+  /**
+   * Quiz whose checkpoint playback stopped at, until playback goes on past
+   * it or seeks away.
+   */
+  get pendingQuiz(): string | null {
+    return this._pendingQuiz;
+  }
+
   /** Current engine state (defensive copy). */
   get state(): EngineState {
     return { ...this._state };
@@ -151,6 +242,11 @@ export class LessonPlaybackEngine {
     return this._state.isPlaying;
   }
 
+  /** Narration volume in [0, 1]. */
+  get volume(): number {
+    return this._volume;
+  }
+
   /** Most recently computed snapshot, or `null` before the first tick. */
   get snapshot(): PlaybackSnapshot | null {
     return this._lastSnapshot;
@@ -185,7 +281,9 @@ export class LessonPlaybackEngine {
     const previous = this._state;
     this._state = setEngineDuration(createInitialEngineState(), result.duration);
     this._lastSnapshot = null;
+    this._pendingQuiz = null;
     this._emitStateChange(this._state, previous);
+    this._syncChapter();
 
     logger.info('Timeline loaded', {
       tracks: result.tracks.length,
@@ -199,6 +297,44 @@ export class LessonPlaybackEngine {
     }
   }
 
+  /**
+   * Append tracks to the loaded timeline without interrupting playback.
+   *
+   * Events are merged into the existing track of the same type (a new track
+   * is added when none exists), the duration is extended, and the current
+   * time, playback rate, and play/pause status are preserved.  Used when a
+   * lesson is still being generated and arrives incrementally.  During a
+   * branch the tracks are held back until playback returns to the main
+   * timeline.
+   */
+  extend(tracks: TimelineTrack[]): void {
+    if (this._branchReturn) {
+      this._branchReturn.pending.push(...tracks);
+      return;
+    }
+
+    const merged = this._tracks.map((t) => ({ ...t, events: [...t.events] }));
+
+    for (const track of tracks) {
+      const existing = merged.find((t) => t.type === track.type);
+      if (existing) {
+        existing.events.push(...track.events);
+      } else {
+        merged.push({ ...track, events: [...track.events] });
+      }
+    }
+
+    const result = buildTimeline(merged);
+    this._tracks = result.tracks;
+
+    const previous = this._state;
+    this._state = setEngineDuration(this._state, result.duration);
+
+    if (this._state.duration !== previous.duration || this._state.status !== previous.status) {
+      this._emitStateChange(this._state, previous);
+    }
+  }
+
   /**
    * Stop playback, clear all listeners, and release resources.
    */
@@ -208,6 +344,18 @@ export class LessonPlaybackEngine {
     this._listeners.stateChange.clear();
     this._listeners.complete.clear();
     this._listeners.seek.clear();
+    this._listeners.branch.clear();
+    this._listeners.chapter.clear();
+    this._listeners.choice.clear();
+    this._listeners.quiz.clear();
+    this._branchReturn = null;
+    this._chapterGraph = null;
+    this._chapterId = null;
+    this._chapterContext = { quizResults: {} };
+    this._pendingChoice = null;
+    this._pathEnded = false;
+    this._pendingQuiz = null;
+    this._skippedQuizzes = new Set();
     this._state = createInitialEngineState();
     this._tracks = [];
     this._lastSnapshot = null;
@@ -221,9 +369,10 @@ export class LessonPlaybackEngine {
   /**
    * Start or restart playback.
    *
-   * If the timeline has reached its end, playback restarts from the
-   * beginning.  Records the current high-precision timestamp so the next
-   * tick can compute an accurate delta.
+   * If the timeline or the learner's path through its chapters has reached
+   * its end, playback restarts from the beginning.  Stopped at a quiz, it
+   * only goes on once the quiz is answered or skipped.  Records the current
+   * high-precision timestamp so the next tick can compute an accurate delta.
    */
   play(): void {
     if (this._state.status === 'playing') return;
@@ -232,10 +381,31 @@ export class LessonPlaybackEngine {
       return;
     }
 
+    // Past a quiz at the very end, the next tick completes playback.
+    let atQuiz = false;
+    if (this._pendingQuiz && !this._branchReturn) {
+      if (!this._isQuizSettled(this._pendingQuiz)) {
+        logger.warn('Cannot play: quiz is not answered', { quizId: this._pendingQuiz });
+        return;
+      }
+      this._pendingQuiz = null;
+      atQuiz = true;
+    }
+
     const previous = this._state;
 
-    if (this._state.currentTime >= this._state.duration) {
-      this._state = seekEngine(this._state, 0);
+    // A pending choice is offered again rather than starting over.
+    const graph = this._branchReturn ? null : this._chapterGraph;
+    const finished = graph?.start !== undefined && this._pathEnded;
+    if (
+      !atQuiz &&
+      (finished ||
+        (this._state.currentTime >= this._state.duration && !(graph && this._pendingChoice)))
+    ) {
+      const start = graph?.chapters.find((c) => c.id === graph.start);
+      this._state = seekEngine(this._state, start?.startTime ?? 0);
+      this._pathEnded = false;
+      this._syncChapter();
     }
 
     this._state = resumeEngine(this._state);
@@ -262,10 +432,15 @@ export class LessonPlaybackEngine {
   /**
    * Resume playback from a paused state.
    *
-   * Only effective when the engine status is `paused`.
+   * Only effective when the engine status is `paused`, and not while a
+   * quiz waits for its answer.
    */
   resume(): void {
     if (this._state.status !== 'paused' && this._state.status !== 'ready') return;
+    if (this._pendingQuiz && !this._branchReturn) {
+      if (!this._isQuizSettled(this._pendingQuiz)) return;
+      this._pendingQuiz = null;
+    }
 
     const previous = this._state;
     this._state = resumeEngine(this._state);
@@ -286,6 +461,10 @@ export class LessonPlaybackEngine {
     this._lastTickTimestamp = now();
 
     this._emitSeek(fromTime, this._state.currentTime);
+    this._pendingChoice = null;
+    this._pathEnded = false;
+    this._pendingQuiz = null;
+    this._syncChapter();
 
     const snapshot = this._computeSnapshot(0);
     this._lastSnapshot = snapshot;
@@ -309,6 +488,23 @@ export class LessonPlaybackEngine {
     }
   }
 
+  /**
+   * Set the narration volume.
+   *
+   * The volume is clamped to `[0, 1]` and reported through
+   * {@link NarrationState.volume}; a `frame` event is emitted so audio
+   * consumers pick the change up while paused.
+   */
+  setVolume(volume: number): void {
+    const clamped = setNarrationVolume(createNarrationState(), volume).volume;
+    if (clamped === this._volume) return;
+
+    this._volume = clamped;
+    const snapshot = this._computeSnapshot(0);
+    this._lastSnapshot = snapshot;
+    this._emitFrame(snapshot);
+  }
+
   // -----------------------------------------------------------------------
   // Tick interface
   // -----------------------------------------------------------------------
@@ -332,6 +528,135 @@ export class LessonPlaybackEngine {
     return this._processTick(timestamp);
   }
 
+  // -----------------------------------------------------------------------
+  // Branches
+  // -----------------------------------------------------------------------
+
+  /**
+   * Put the main timeline aside at the current time and play {@link tracks}
+   * from the start instead, at the same speed.  Entering a branch while in
+   * one replaces it, still returning to the main timeline.
+   */
+  enterBranch(tracks: TimelineTrack[]): void {
+    const result = buildTimeline(tracks);
+    if (result.duration <= 0) {
+      logger.warn('Cannot enter branch: timeline is empty');
+      return;
+    }
+
+    const previous = this._state;
+    this._branchReturn ??= { tracks: this._tracks, state: pauseEngine(this._state), pending: [] };
+    this._tracks = result.tracks;
+    this._state = setPlaybackRate(
+      setEngineDuration(createInitialEngineState(), result.duration),
+      previous.playbackRate,
+    );
+    this._lastSnapshot = null;
+    this._emitStateChange(this._state, previous);
+    this._emitBranch(true);
+
+    this.play();
+  }
+
+  /**
+   * Leave the playing branch and carry on with the main timeline from where
+   * it was left, at the branch's speed.  Does nothing outside branches.
+   *
+   * A quiz or chapter choice the branch interrupted is still waiting when
+   * the lesson comes back, and playback only carries on once it is settled;
+   * nor does it start over at the end of a path.
+   */
+  exitBranch(): void {
+    const branchReturn = this._branchReturn;
+    if (!branchReturn) return;
+
+    const previous = this._state;
+    this._branchReturn = null;
+    this._tracks = branchReturn.tracks;
+    this._state = setPlaybackRate(branchReturn.state, previous.playbackRate);
+    if (branchReturn.pending.length > 0) this.extend(branchReturn.pending);
+    this._emitStateChange(this._state, previous);
+    this._emitBranch(false);
+
+    const pendingQuiz = this._pendingQuiz;
+    const pendingChoice = this._pendingChoice;
+    const pathEnded = this._pathEnded;
+    const chapterId = this._chapterId;
+    this.seek(this._state.currentTime);
+    this._pendingQuiz = pendingQuiz;
+    this._pendingChoice = pendingChoice;
+    this._pathEnded = pathEnded;
+    if (pendingChoice || pathEnded) {
+      // At the end of a chapter the seek moved on to the next one.
+      this._setChapter(chapterId);
+      return;
+    }
+    if (!pendingQuiz || this._isQuizSettled(pendingQuiz)) this.play();
+  }
+
+  // -----------------------------------------------------------------------
+  // Chapters
+  // -----------------------------------------------------------------------
+
+  /**
+   * Follow {@link graph} from now on, or play straight through with `null`.
+   * The graph must fit the loaded timeline (see `validateChapterGraph`).
+   */
+  setChapterGraph(graph: ChapterGraph | null): void {
+    this._chapterGraph = graph;
+    this._pendingChoice = null;
+    this._pathEnded = false;
+    this._syncChapter();
+  }
+
+  /**
+   * Seek to the start of chapter {@link chapterId}, keeping the play/pause
+   * status.
+   */
+  jumpToChapter(chapterId: string): void {
+    const chapter = this._chapterGraph?.chapters.find((c) => c.id === chapterId);
+    if (!chapter) {
+      logger.warn('Cannot jump: unknown chapter', { chapterId });
+      return;
+    }
+    this.seek(chapter.startTime);
+  }
+
+  /**
+   * Take the pending choice leading to chapter {@link chapterId} and play
+   * on from there.
+   */
+  choose(chapterId: string): void {
+    if (!this._pendingChoice?.some((edge) => edge.to === chapterId)) {
+      logger.warn('Cannot choose: chapter is not on offer', { chapterId });
+      return;
+    }
+    this.jumpToChapter(chapterId);
+    this.play();
+  }
+
+  // -----------------------------------------------------------------------
+  // Quizzes
+  // -----------------------------------------------------------------------
+
+  /**
+   * Record the result of a quiz, letting {@link play} go on past its
+   * checkpoint and deciding `quiz` edges of the chapter graph.
+   */
+  setQuizResult(quizId: string, passed: boolean): void {
+    this._chapterContext = {
+      quizResults: { ...this._chapterContext.quizResults, [quizId]: passed },
+    };
+  }
+
+  /**
+   * Let {@link play} go on past the pending quiz without an answer, e.g.
+   * when the quiz cannot be shown.  It is not stopped at again.
+   */
+  skipQuiz(): void {
+    if (this._pendingQuiz) this._skippedQuizzes.add(this._pendingQuiz);
+  }
+
   // -----------------------------------------------------------------------
   // Self-managed loop
   // -----------------------------------------------------------------------
@@ -406,12 +731,24 @@ export class LessonPlaybackEngine {
 
     const previous = this._state;
     this._state = advanceEngineState(this._state, deltaMs);
+    const stoppedAtQuiz = previous.isPlaying && this._stopAtQuiz(previous);
+    if (previous.isPlaying && !stoppedAtQuiz) this._followChapters(previous);
 
     const snapshot = this._computeSnapshot(deltaMs);
     this._lastSnapshot = snapshot;
     this._emitFrame(snapshot);
 
-    if (previous.isPlaying && !this._state.isPlaying && this._state.currentTime >= this._state.duration) {
+    if (
+      previous.isPlaying &&
+      !this._state.isPlaying &&
+      !stoppedAtQuiz &&
+      !this._pendingChoice &&
+      this._state.currentTime >= this._state.duration
+    ) {
+      if (this._branchReturn) {
+        this.exitBranch();
+        return this._lastSnapshot ?? snapshot;
+      }
       this._emitComplete();
       this._emitStateChange(this._state, previous);
       this.stopLoop();
@@ -420,6 +757,117 @@ export class LessonPlaybackEngine {
     return snapshot;
   }
 
+  // -----------------------------------------------------------------------
+  // Private — quizzes
+  // -----------------------------------------------------------------------
+
+  /**
+   * Pause at the first checkpoint of an unanswered quiz the tick passed.
+   *
+   * @returns Whether playback stopped for a quiz.
+   */
+  private _stopAtQuiz(previous: EngineState): boolean {
+    if (!this._config.pauseAtQuizzes) return false;
+
+    const from = previous.currentTime;
+    const to = this._state.currentTime;
+    let checkpoint: TimelineEvent | undefined;
+    for (const track of this._tracks) {
+      for (const event of track.events) {
+        const { quizId } = event.payload;
+        if (
+          event.type === 'quiz_checkpoint' &&
+          quizId &&
+          event.startTime > from &&
+          event.startTime <= to &&
+          !this._isQuizSettled(quizId) &&
+          (!checkpoint || event.startTime < checkpoint.startTime)
+        ) {
+          checkpoint = event;
+        }
+      }
+    }
+    if (!checkpoint) return false;
+
+    const quizId = checkpoint.payload.quizId!;
+    this._state = pauseEngine(seekEngine(this._state, checkpoint.startTime));
+    this._pendingQuiz = quizId;
+    this._emitStateChange(this._state, previous);
+    this._emitQuiz(quizId);
+    return true;
+  }
+
+  private _isQuizSettled(quizId: string): boolean {
+    return quizId in this._chapterContext.quizResults || this._skippedQuizzes.has(quizId);
+  }
+
+  // -----------------------------------------------------------------------
+  // Private — chapters
+  // -----------------------------------------------------------------------
+
+  /**
+   * At the end of the current chapter, move on along the learner's path:
+   * seek to the next chapter, carrying over the time the tick overshot by,
+   * or pause for a choice, or end playback.
+   */
+  private _followChapters(previous: EngineState): void {
+    const graph = this._chapterGraph;
+    if (!graph || this._branchReturn) return;
+
+    const chapter = graph.chapters.find((c) => c.id === this._chapterId);
+    if (!chapter) {
+      this._syncChapter();
+      return;
+    }
+    if (this._state.currentTime < chapter.endTime) return;
+
+    const transition = resolveChapterTransition(graph, chapter.id, this._chapterContext);
+    if (transition.type === 'next') {
+      const from = this._state.currentTime;
+      this._state = seekEngine(
+        this._state,
+        transition.chapter.startTime + (from - chapter.endTime),
+      );
+      // Reaching the end of the timeline stopped playback; keep going.
+      if (!this._state.isPlaying) this._state = resumeEngine(this._state);
+      if (transition.chapter.startTime !== chapter.endTime) {
+        this._emitSeek(from, this._state.currentTime);
+      }
+      this._setChapter(transition.chapter.id);
+      return;
+    }
+
+    // The last chapter ending with the timeline completes as usual.
+    if (transition.type === 'end' && chapter.endTime >= this._state.duration) return;
+
+    this._state = pauseEngine(seekEngine(this._state, chapter.endTime));
+    if (transition.type === 'choice') {
+      this._pendingChoice = transition.edges;
+      this._emitStateChange(this._state, previous);
+      this._emitChoice(chapter.id, transition.edges);
+    } else {
+      this._pathEnded = true;
+      this._emitComplete();
+      this._emitStateChange(this._state, previous);
+      this.stopLoop();
+    }
+  }
+
+  /** Make the chapter at the current time the current chapter. */
+  private _syncChapter(): void {
+    if (this._branchReturn) return;
+    const chapter = this._chapterGraph
+      ? getChapterAtTime(this._chapterGraph, this._state.currentTime)
+      : undefined;
+    this._setChapter(chapter?.id ?? null);
+  }
+
+  private _setChapter(chapterId: string | null): void {
+    if (chapterId === this._chapterId) return;
+    this._chapterId = chapterId;
+    this._emitChapter(chapterId);
+  }
+
   // -----------------------------------------------------------------------
   // Private — snapshot computation
   // -----------------------------------------------------------------------
@@ -441,6 +889,7 @@ export class LessonPlaybackEngine {
       cursorState: this._computeCursorState(activeEvents),
       drawingState: this._computeDrawingState(),
       narrationState: this._computeNarrationState(activeEvents.narration),
+      chapterId: this._branchReturn ? null : this._chapterId,
     };
   }
 
@@ -588,10 +1037,11 @@ export class LessonPlaybackEngine {
    * Derive the narration state from active narration events.
    *
    * If a narration event is active, the narration state is activated with
-   * the event's id as the current segment identifier.
+   * the event's id as the current segment identifier.  The volume set via
+   * {@link setVolume} is always carried over.
    */
   private _computeNarrationState(narrationEvents: TimelineEvent[]): NarrationState {
-    const state = createNarrationState();
+    const state = setNarrationVolume(createNarrationState(), this._volume);
 
     if (narrationEvents.length === 0) return state;
 
@@ -651,6 +1101,22 @@ export class LessonPlaybackEngine {
   private _emitSeek(fromTime: number, toTime: number): void {
     for (const listener of this._listeners.seek) listener(fromTime, toTime);
   }
+
+  private _emitBranch(active: boolean): void {
+    for (const listener of this._listeners.branch) listener(active);
+  }
+
+  private _emitChapter(chapterId: string | null): void {
+    for (const listener of this._listeners.chapter) listener(chapterId);
+  }
+
+  private _emitChoice(chapterId: string, edges: ChapterEdge[]): void {
+    for (const listener of this._listeners.choice) listener(chapterId, edges);
+  }
+
+  private _emitQuiz(quizId: string): void {
+    for (const listener of this._listeners.quiz) listener(quizId);
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -256,7 +256,8 @@ export function buildTimeline(tracks: TimelineTrack[]): TimelineBuildResult {
  * {@link TimelineValidationError}s.
  *
  * Checks performed per-track:
- * 1. **Negative duration** – an event whose `endTime <= startTime`.
+ * 1. **Negative duration** – an event whose `endTime <= startTime`.  Quiz
+ *    checkpoints are instants and may end as they start.
  * 2. **Overlap** – two events within the same track whose ranges overlap
  *    by more than {@link OVERLAP_TOLERANCE_MS}.
  * 3. **Large gap** – a gap between two consecutive events that exceeds
@@ -271,7 +272,8 @@ export function validateTimeline(
     const sorted = sortTimelineEvents(track.events);
 
     for (const event of sorted) {
-      if (event.endTime <= event.startTime) {
+      const isInstant = event.type === 'quiz_checkpoint';
+      if (isInstant ? event.endTime < event.startTime : event.endTime <= event.startTime) {
         errors.push({
           eventId: event.id,
           message: `Event has non-positive duration (start=${event.startTime}, end=${event.endTime})`,
@@ -558,6 +560,95 @@ export function getAllEventsFromTracks(tracks: TimelineTrack[]): TimelineEvent[]
   return sortTimelineEvents(tracks.flatMap((t) => t.events));
 }
 
+// ---------------------------------------------------------------------------
+// 28. getTrackTypeForEvent
+// ---------------------------------------------------------------------------
+
+/**
+ * Decide which track plays an event of the given type.  Types without a
+ * dedicated track (pauses, page clears, quiz checkpoints) go on the text
+ * track.
+ */
+export function getTrackTypeForEvent(type: TimelineEventType): TimelineTrack['type'] {
+  switch (type) {
+    case 'cursor_move':
+      return 'cursor';
+    case 'draw_stroke':
+      return 'drawing';
+    case 'narration_segment':
+      return 'narration';
+    case 'code_focus':
+      return 'highlight';
+    case 'text_highlight':
+    default:
+      return 'text';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// 29. buildTracksFromEvents
+// ---------------------------------------------------------------------------
+
+/**
+ * Group a lesson's timeline into one track per track type, in order of
+ * first appearance.  Track IDs depend only on the type (`track-<type>`), so
+ * tracks built from later events line up with those built before.
+ */
+export function buildTracksFromEvents(events: TimelineEvent[]): TimelineTrack[] {
+  const tracks = new Map<TimelineTrack['type'], TimelineTrack>();
+
+  for (const event of events) {
+    const type = getTrackTypeForEvent(event.type);
+    let track = tracks.get(type);
+    if (!track) {
+      track = { id: `track-${type}`, type, events: [], locked: false, visible: true };
+      tracks.set(type, track);
+    }
+    track.events.push(event);
+  }
+
+  return [...tracks.values()];
+}
+
+// ---------------------------------------------------------------------------
+// 30. retimeEvent
+// ---------------------------------------------------------------------------
+
+/**
+ * Move or resize an event to {@link startTime}–{@link endTime}.  The word
+ * timings of narration move with it, scaled into the new range when its
+ * length changes, so highlighted words stay in step with the audio.
+ */
+export function retimeEvent(
+  event: TimelineEvent,
+  startTime: number,
+  endTime: number,
+): TimelineEvent {
+  if (event.startTime === startTime && event.endTime === endTime) return event;
+
+  const { wordTimings } = event.payload;
+  const duration = event.endTime - event.startTime;
+  const scale = duration > 0 ? (endTime - startTime) / duration : 1;
+  const retime = (time: number): number =>
+    Math.round(startTime + (time - event.startTime) * scale);
+
+  return {
+    ...event,
+    startTime,
+    endTime,
+    payload: wordTimings
+      ? {
+          ...event.payload,
+          wordTimings: wordTimings.map((timing) => ({
+            ...timing,
+            startTime: retime(timing.startTime),
+            endTime: retime(timing.endTime),
+          })),
+        }
+      : event.payload,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Internal helpers
 // ---------------------------------------------------------------------------
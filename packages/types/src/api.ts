@@ -1,3 +1,17 @@
+import type { TimelineValidationError } from './engine';
+import type { JobStatus, VideoExportFormat } from './job';
+import type {
+  ChapterGraph,
+  ExplanationBlock,
+  Flashcard,
+  Lesson,
+  LessonAside,
+  LessonRevisionInfo,
+  LessonStatus,
+  ReviewGrade,
+  TimelineEvent,
+} from './lesson';
+
 export interface ApiResponse<T> {
   success: boolean;
   data: T;
@@ -29,10 +43,177 @@ export interface CreateLessonResponse {
   estimatedTime: number;
 }
 
+export interface CancelLessonResponse {
+  lessonId: string;
+  status: LessonStatus;
+}
+
+export interface LessonProgress {
+  lessonId: string;
+  /** Playhead position when progress was last reported (ms). */
+  lastPosition: number;
+  /** Lesson time actually played, summed over all sessions (ms). */
+  watchedDuration: number;
+  totalDuration: number;
+  /** Furthest point reached, as a percentage of {@link totalDuration}. */
+  completionPercentage: number;
+  completedAt: Date | null;
+  /** Results of the lesson's quizzes the learner answered. */
+  quizResults: QuizResult[];
+  updatedAt: Date;
+}
+
+/** How a learner did on one quiz of a lesson. */
+export interface QuizResult {
+  quizId: string;
+  /** Whether the latest answer was correct. */
+  correct: boolean;
+  attempts: number;
+  answeredAt: Date;
+}
+
+export interface UpdateProgressRequest {
+  position: number;
+  /** Lesson time played since the previous report (ms). */
+  watchedDelta: number;
+  /** Session returned by the first report; omit to start a new session. */
+  sessionId?: string;
+}
+
+export interface UpdateProgressResponse {
+  progress: LessonProgress;
+  sessionId: string;
+}
+
+export interface ExportLessonRequest {
+  /** Defaults to `mp4`. */
+  format?: VideoExportFormat;
+}
+
+/** State of a video export started with `POST /lessons/:id/export`. */
+export interface LessonExportResponse {
+  jobId: string;
+  lessonId: string;
+  format: VideoExportFormat;
+  status: JobStatus;
+  /**
+   * Where the video can be downloaded once the export has completed, until
+   * {@link expiresAt}.
+   */
+  downloadUrl: string | null;
+  /** When the completed export's video is deleted. */
+  expiresAt: Date | null;
+  /** Why the export failed, when it has. */
+  error?: string;
+}
+
+export interface ImportLessonResponse {
+  lesson: Lesson;
+  /** Manifest version of the uploaded package, before it was migrated. */
+  packageVersion: number;
+}
+
+/** New timing of one timeline event. */
+export interface TimelineEventTiming {
+  id: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface UpdateTimelineRequest {
+  /** Events moved or resized. */
+  events?: TimelineEventTiming[];
+  /** IDs of events deleted. */
+  removed?: string[];
+}
+
+export interface UpdateTimelineResponse {
+  lesson: Lesson;
+  /** Validation warnings of the saved timeline, such as large gaps. */
+  warnings: TimelineValidationError[];
+}
+
+export interface RestoreRevisionResponse {
+  lesson: Lesson;
+  /** The revision recorded by the restore. */
+  revision: LessonRevisionInfo;
+}
+
+export interface RegenerateBlockRequest {
+  /** What to change about the block, e.g. "use a simpler example". */
+  instructions?: string;
+}
+
+export interface RegenerateBlockResponse {
+  lesson: Lesson;
+  /** The block that replaced the regenerated one, under a new ID. */
+  block: ExplanationBlock;
+}
+
+export interface UpdateChaptersRequest {
+  /** The lesson's new chapter graph, or `null` to play it straight through. */
+  chapters: ChapterGraph | null;
+}
+
+export interface AnswerQuizRequest {
+  /** Index of the chosen option, or the text of a short answer. */
+  answer: number | string;
+}
+
+export interface AnswerQuizResponse {
+  quizId: string;
+  correct: boolean;
+  /** The expected answer, as shown to the learner. */
+  correctAnswer: string;
+  /** Why the answer is what it is. */
+  explanation?: string;
+  /** The learner's result, or `null` when answering without signing in. */
+  result: QuizResult | null;
+}
+
+export interface AskFollowUpRequest {
+  question: string;
+  /** Lesson time (ms) playback was paused at. */
+  timestamp: number;
+  /** Block being presented at {@link timestamp}, if any. */
+  blockId?: string;
+}
+
+export type AskFollowUpResponse = LessonAside;
+
+export interface GradeReviewRequest {
+  grade: ReviewGrade;
+}
+
+/** The graded flashcard, rescheduled. */
+export type GradeReviewResponse = Flashcard;
+
 export interface PaginatedResponse<T> {
   items: T[];
   total: number;
   page: number;
   pageSize: number;
   hasMore: boolean;
+  /** Opaque cursor for the next page, or `null` on the last page. */
+  nextCursor: string | null;
 }
+
+/**
+ * Messages sent over `GET /lessons/:id/stream` (Server-Sent Events, one JSON
+ * object per `data:` line).
+ *
+ * - `snapshot` – the lesson as currently stored; always sent first.
+ * - `block`    – a newly generated block and its timeline events.
+ * - `reset`    – generation restarted; discard blocks received so far.
+ * - `status`   – the lesson status changed.
+ * - `complete` – generation finished, or a failed regeneration was rolled
+ *                back to the previous revision; carries the lesson.
+ * - `error`    – generation failed.
+ */
+export type LessonStreamEvent =
+  | { type: 'snapshot'; lesson: Lesson }
+  | { type: 'block'; block: ExplanationBlock; events: TimelineEvent[] }
+  | { type: 'reset' }
+  | { type: 'status'; status: LessonStatus }
+  | { type: 'complete'; lesson: Lesson }
+  | { type: 'error'; message: string };
@@ -31,6 +31,8 @@ export interface SerializedExplanationBlock {
   content: string;
   order: number;
   duration: number;
+  format?: 'heading' | 'paragraph' | 'list';
+  language?: string;
 }
 
 export interface SerializedTimelineEvent {
@@ -44,6 +46,8 @@ export interface SerializedTimelineEvent {
 export interface SerializedLessonMetadata {
   subject?: string;
   difficulty?: string;
+  language?: string;
+  maxDuration?: number;
   estimatedDuration: number;
   generationTime: number;
 }
@@ -65,6 +69,22 @@ export interface ProgressDocument {
   totalDuration: number;
   completionPercentage: number;
   lastPosition: number;
+  completedAt: Date | null;
+  updatedAt: Date;
+}
+
+export interface JobDocument {
+  _id: string;
+  type: string;
+  lessonId: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  params?: { format?: string };
+  lockedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
   updatedAt: Date;
 }
 
@@ -73,4 +93,5 @@ export interface CollectionIndexes {
   lessons: { userId: 1; status: 1; createdAt: -1 };
   sessions: { userId: 1; lessonId: 1 };
   progress: { userId: 1; lessonId: 1 };
+  jobs: { status: 1; createdAt: 1 };
 }
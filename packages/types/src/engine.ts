@@ -42,6 +42,10 @@ export interface CanvasConfig {
   backgroundColor: string;
   gridEnabled: boolean;
   gridSize: number;
+  /** Columns content flows through before the board turns a page (1 by default). */
+  columns?: number;
+  /** Space (px) between columns. */
+  columnGap?: number;
 }
 
 export interface Point {
@@ -158,12 +162,16 @@ export interface PlaybackSnapshot {
   cursorState: CursorState;
   drawingState: DrawingState;
   narrationState: NarrationState;
+  /** Chapter being played, when a chapter graph is loaded. */
+  chapterId: string | null;
 }
 
 export interface PlaybackConfig {
   targetFps: number;
   maxDeltaMs: number;
   autoPlay: boolean;
+  /** Pause at `quiz_checkpoint` events until the quiz is answered. */
+  pauseAtQuizzes: boolean;
 }
 
 export interface PlaybackEventMap {
@@ -171,4 +179,43 @@ export interface PlaybackEventMap {
   stateChange: (current: EngineState, previous: EngineState) => void;
   complete: () => void;
   seek: (fromTime: number, toTime: number) => void;
+  /** Playback entered (`true`) or returned from (`false`) a branch. */
+  branch: (active: boolean) => void;
+  /** Playback moved into another chapter (`null` outside chapters). */
+  chapter: (chapterId: string | null) => void;
+  /** Playback paused at the end of a chapter until one of the edges is chosen. */
+  choice: (chapterId: string, edges: import('./lesson').ChapterEdge[]) => void;
+  /** Playback paused at a checkpoint until quiz {@link quizId} is answered. */
+  quiz: (quizId: string) => void;
+}
+
+// ---------------------------------------------------------------------------
+// Timeline Editing Types
+// ---------------------------------------------------------------------------
+
+/** An undoable edit of a {@link TimelineTrack} list. */
+export type TimelineCommand =
+  | { type: 'insert_event'; event: import('./lesson').TimelineEvent }
+  | { type: 'remove_event'; eventId: string }
+  | { type: 'move_event'; eventId: string; startTime: number }
+  | { type: 'resize_event'; eventId: string; startTime: number; endTime: number }
+  | { type: 'lock_track'; trackId: string }
+  | { type: 'unlock_track'; trackId: string };
+
+export interface TimelineChange {
+  tracks: TimelineTrack[];
+  /** The command applied, undone or redone; `null` when tracks were loaded. */
+  command: TimelineCommand | null;
+  source: 'load' | 'execute' | 'undo' | 'redo';
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export interface TimelineDocumentConfig {
+  /** Undo steps kept; the oldest are dropped beyond this. */
+  maxHistory: number;
+}
+
+export interface TimelineDocumentEventMap {
+  change: (change: TimelineChange) => void;
 }
@@ -2,3 +2,4 @@ export * from './lesson';
 export * from './engine';
 export * from './api';
 export * from './database';
+export * from './job';
@@ -0,0 +1,26 @@
+export interface Job {
+  id: string;
+  type: JobType;
+  lessonId: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  /** Options the job was queued with. */
+  params?: JobParams;
+  lockedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type JobType = 'lesson_generation' | 'lesson_export';
+
+export interface JobParams {
+  /** Container of a `lesson_export` video. */
+  format?: VideoExportFormat;
+}
+
+export type VideoExportFormat = 'mp4' | 'webm';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
@@ -1,5 +1,9 @@
+import type { WordTiming } from './engine';
+
 export interface Lesson {
   id: string;
+  /** Owner's user ID, or `'anonymous'` for lessons created without signing in. */
+  userId: string;
   question: string;
   explanation: ExplanationBlock[];
   timeline: TimelineEvent[];
@@ -7,6 +11,10 @@ export interface Lesson {
   updatedAt: Date;
   status: LessonStatus;
   metadata: LessonMetadata;
+  /** Paths through the timeline; lessons without one play straight through. */
+  chapters?: ChapterGraph;
+  /** Comprehension checks, asked at their `quiz_checkpoint` events. */
+  quizzes?: LessonQuiz[];
 }
 
 export interface ExplanationBlock {
@@ -15,8 +23,14 @@ export interface ExplanationBlock {
   content: string;
   order: number;
   duration: number;
+  /** How a `text` block is laid out; older lessons omit it (paragraph). */
+  format?: TextBlockFormat;
+  /** Programming language of a `code` block, from its fence info string. */
+  language?: string;
 }
 
+export type TextBlockFormat = 'heading' | 'paragraph' | 'list';
+
 export interface TimelineEvent {
   id: string;
   type: TimelineEventType;
@@ -30,15 +44,34 @@ export type TimelineEventType =
   | 'draw_stroke'
   | 'text_highlight'
   | 'narration_segment'
-  | 'pause';
+  | 'code_focus'
+  | 'page_clear'
+  | 'pause'
+  | 'quiz_checkpoint';
 
 export interface TimelineEventPayload {
   position?: { x: number; y: number };
   path?: { x: number; y: number }[];
   text?: string;
+  /** Explanation block the event presents. */
+  blockId?: string;
   audioUrl?: string;
+  /** Narration word timings, in absolute timeline time (ms). */
+  wordTimings?: WordTiming[];
   color?: string;
   strokeWidth?: number;
+  /** Lines of a code block in focus (`code_focus`). */
+  lines?: CodeLineRange;
+  /** Board page turned to (`page_clear`). */
+  page?: number;
+  /** Quiz playback waits on until it is answered (`quiz_checkpoint`). */
+  quizId?: string;
+}
+
+/** A range of source lines, 1-based and inclusive. */
+export interface CodeLineRange {
+  start: number;
+  end: number;
 }
 
 export type LessonStatus = 'pending' | 'generating' | 'ready' | 'error';
@@ -46,6 +79,158 @@ export type LessonStatus = 'pending' | 'generating' | 'ready' | 'error';
 export interface LessonMetadata {
   subject?: string;
   difficulty?: 'beginner' | 'intermediate' | 'advanced';
+  language?: string;
+  maxDuration?: number;
   estimatedDuration: number;
   generationTime: number;
 }
+
+/** Why a lesson revision was recorded. */
+export type LessonRevisionReason =
+  | 'generation'
+  | 'timeline_edit'
+  | 'block_regeneration'
+  | 'import'
+  | 'restore';
+
+/** How a revision's content differs from the revision before it. */
+export interface LessonDiffSummary {
+  blocksAdded: number;
+  blocksRemoved: number;
+  blocksChanged: number;
+  eventsAdded: number;
+  eventsRemoved: number;
+  eventsRetimed: number;
+  /** Change in estimated duration (ms). */
+  durationDelta: number;
+}
+
+/** An immutable snapshot of a lesson's content. */
+export interface LessonRevision {
+  id: string;
+  lessonId: string;
+  /** 1-based and increasing per lesson; the highest is the current content. */
+  number: number;
+  /** User whose action produced the content. */
+  authorId: string;
+  reason: LessonRevisionReason;
+  /** Revision a `restore` revision copies. */
+  restoredFrom?: number;
+  /** Changes since the previous revision. */
+  summary: LessonDiffSummary;
+  explanation: ExplanationBlock[];
+  timeline: TimelineEvent[];
+  metadata: LessonMetadata;
+  createdAt: Date;
+}
+
+/** A revision without its content, as listed by `GET /lessons/:id/revisions`. */
+export type LessonRevisionInfo = Omit<LessonRevision, 'explanation' | 'timeline' | 'metadata'>;
+
+/**
+ * A short lesson segment answering a follow-up question asked during
+ * playback.  It plays on a board of its own as a branch of the lesson,
+ * which then carries on from {@link timestamp}.
+ */
+export interface LessonAside {
+  id: string;
+  lessonId: string;
+  /** Viewer who asked the question. */
+  userId: string;
+  question: string;
+  /** Lesson time (ms) the question was asked at. */
+  timestamp: number;
+  /** Block being presented when the question was asked. */
+  blockId?: string;
+  explanation: ExplanationBlock[];
+  /** Timed from 0, independently of the lesson timeline. */
+  timeline: TimelineEvent[];
+  createdAt: Date;
+}
+
+/** A segment of a lesson's timeline, one node of its {@link ChapterGraph}. */
+export interface LessonChapter {
+  id: string;
+  title: string;
+  startTime: number;
+  endTime: number;
+}
+
+/** When playback may follow a {@link ChapterEdge}. */
+export type ChapterCondition =
+  /** Followed unless another edge's condition applies. */
+  | { type: 'always' }
+  /** Offered to the learner as a choice labelled {@link label}. */
+  | { type: 'choice'; label: string }
+  /** Followed when quiz {@link quizId} was answered (in)correctly. */
+  | { type: 'quiz'; quizId: string; passed: boolean };
+
+export interface ChapterEdge {
+  from: string;
+  to: string;
+  condition: ChapterCondition;
+}
+
+/**
+ * The chapters of a lesson and the ways from one to the next.  Playback
+ * starts at {@link start}; at the end of a chapter it follows the first
+ * edge whose condition holds, pauses for a choice, or ends when the
+ * chapter has no edges.
+ */
+export interface ChapterGraph {
+  start: string;
+  chapters: LessonChapter[];
+  edges: ChapterEdge[];
+}
+
+export type LessonQuizType = 'multiple_choice' | 'short_answer';
+
+/**
+ * A question checking one section of a lesson.  Answers are graded by the
+ * server, so the answer key is never part of a lesson sent to clients.
+ */
+export interface LessonQuiz {
+  id: string;
+  type: LessonQuizType;
+  /** First block of the section the quiz checks. */
+  sectionId: string;
+  question: string;
+  /** Options of a `multiple_choice` quiz, answered by index. */
+  choices?: string[];
+}
+
+/** Where in a lesson a {@link Flashcard} was taken from. */
+export type FlashcardSource = 'term' | 'heading' | 'summary';
+
+/**
+ * How well a flashcard was recalled, on the SM-2 scale: 0–2 forgotten,
+ * 3 recalled with difficulty, 4 recalled, 5 recalled effortlessly.
+ */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+/** When a flashcard is next reviewed, as scheduled by SM-2. */
+export interface ReviewSchedule {
+  easeFactor: number;
+  /** Days from the last review to the next one. */
+  interval: number;
+  /** Reviews in a row recalled well enough to keep the interval growing. */
+  repetitions: number;
+  dueAt: Date;
+}
+
+/**
+ * A term or idea from a lesson a learner completed, reviewed on a schedule
+ * of their own.
+ */
+export interface Flashcard extends ReviewSchedule {
+  id: string;
+  userId: string;
+  lessonId: string;
+  /** Question of the lesson the card was taken from. */
+  lessonQuestion: string;
+  source: FlashcardSource;
+  front: string;
+  back: string;
+  lastReviewedAt?: Date;
+  createdAt: Date;
+}